@@ -1,43 +1,96 @@
 /**
- * Accessibility scanner — wraps @axe-core/playwright to run a11y scans
- * and filters results to only critical/serious violations.
+ * Accessibility scanner — runs a11y scans through a pluggable `A11yScanner`
+ * (axe-core via @axe-core/playwright by default) and filters results to
+ * the reportable severities (critical and serious unless configured).
  */
 
-import type { Page } from '@playwright/test';
 import {
+  A11yScanOptions,
+  A11yScanner,
   A11yViolation,
   A11ySeverity,
+  PageLike,
   REPORTABLE_SEVERITIES,
 } from './types';
 
+/** The page type `AxeBuilder` expects: a Playwright page. */
+type AxePage = ConstructorParameters<
+  typeof import('@axe-core/playwright').default
+>[0]['page'];
+
+/** The run options `AxeBuilder.options()` takes. */
+type RunOptions = Parameters<import('@axe-core/playwright').default['options']>[0];
+
+/**
+ * The axe-core run options selecting the rules in `options`: only those
+ * tagged with `tags` (if any) plus `enableRules`, less `disableRules`.
+ * `undefined` when axe's defaults apply.
+ */
+export function axeRunOptions(options: A11yScanOptions = {}): RunOptions | undefined {
+  const rules: NonNullable<RunOptions['rules']> = {};
+  for (const id of options.enableRules ?? []) rules[id] = { enabled: true };
+  for (const id of options.disableRules ?? []) rules[id] = { enabled: false };
+  const runOptions: RunOptions = {
+    ...(options.tags?.length ? { runOnly: { type: 'tag', values: options.tags } } : {}),
+    ...(Object.keys(rules).length ? { rules } : {}),
+  };
+  return Object.keys(runOptions).length ? runOptions : undefined;
+}
+
+/**
+ * Create the default scanner, which runs axe-core through
+ * @axe-core/playwright. It needs a Playwright page; other drivers should
+ * supply their own `A11yScanner`.
+ */
+export function createAxeScanner(): A11yScanner {
+  return {
+    async scan(page, options = {}) {
+      // Dynamic import so the module still loads even if axe-core is optional
+      const { default: AxeBuilder } = await import('@axe-core/playwright');
+
+      const builder = new AxeBuilder({ page: page as AxePage });
+      for (const selector of options.include ?? []) builder.include(selector);
+      for (const selector of options.exclude ?? []) builder.exclude(selector);
+      const runOptions = axeRunOptions(options);
+      if (runOptions) builder.options(runOptions);
+      const results = await builder.analyze();
+
+      return results.violations.map((v) => ({
+        ruleId: v.id,
+        severity: v.impact as A11ySeverity,
+        description: v.description,
+        affectedNodes: v.nodes.map((n) => n.target.join(' ')),
+      }));
+    },
+  };
+}
+
 /**
  * Run an accessibility scan on the given page and return only violations
- * at the reportable severity levels (critical, serious).
+ * at the reportable severity levels (by default critical and serious).
  *
- * @param page        The Playwright Page to scan.
+ * @param page        The page to scan.
  * @param action      A label for the action that triggered this scan.
+ * @param scanner     The scanner to use. Defaults to axe-core.
+ * @param options     Rules, scope and severities to report.
  * @returns           Filtered list of violations.
  */
 export async function runAccessibilityScan(
-  page: Page,
+  page: PageLike,
   action: string,
+  scanner: A11yScanner = createAxeScanner(),
+  options: A11yScanOptions = {},
 ): Promise<A11yViolation[]> {
-  // Dynamic import so the module still loads even if axe-core is optional
-  const { default: AxeBuilder } = await import('@axe-core/playwright');
-
-  const results = await new AxeBuilder({ page }).analyze();
-
   const violations: A11yViolation[] = [];
+  const reportable: ReadonlySet<A11ySeverity> = options.severities
+    ? new Set(options.severities)
+    : REPORTABLE_SEVERITIES;
 
-  for (const v of results.violations) {
-    const severity = v.impact as A11ySeverity | undefined;
-    if (!severity || !REPORTABLE_SEVERITIES.has(severity)) continue;
+  for (const v of await scanner.scan(page, options)) {
+    if (!v.severity || !reportable.has(v.severity)) continue;
 
     violations.push({
-      ruleId: v.id,
-      severity,
-      description: v.description,
-      affectedNodes: v.nodes.map((n) => n.target.join(' ')),
+      ...v,
       url: page.url(),
       triggeringAction: action,
     });
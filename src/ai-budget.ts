@@ -0,0 +1,108 @@
+/**
+ * AI Budget — tracks what AI healing has spent in the run against
+ * `AIProviderConfig.budget`.
+ *
+ * With `budget.path`, the spend is kept in a JSON file updated under a lock,
+ * so all Playwright workers of a run draw on one budget. The file records the
+ * run it belongs to, and a later run starts again from zero. Without a path,
+ * the spend is counted per process.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import { AIBudget, AIBudgetLedger } from './types';
+import { readJsonFile, updateJsonFile } from './json-file';
+
+/** Spend recorded against a budget. */
+interface Spend {
+  tokens: number;
+  costUsd: number;
+  requests: number;
+}
+
+/** On-disk layout of a budget file. */
+interface BudgetFile extends Spend {
+  runId: string;
+}
+
+const NOTHING_SPENT: Spend = { tokens: 0, costUsd: 0, requests: 0 };
+
+/** Spend of budgets without a file, shared by every service in the process. */
+const processSpend: Spend = { ...NOTHING_SPENT };
+
+/** Budget files used by this process, for `resetAIBudget`. */
+const budgetFiles = new Set<string>();
+
+/** Thrown instead of calling the AI once the run's budget is spent. */
+export class AIBudgetExhaustedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AIBudgetExhaustedError';
+  }
+}
+
+/**
+ * Identifies the current run: the Playwright runner, whose workers share it,
+ * or else this process. Set `RESILIENT_AUDITOR_RUN_ID` to share a budget
+ * between other processes.
+ */
+export function currentRunId(): string {
+  if (process.env.RESILIENT_AUDITOR_RUN_ID) return process.env.RESILIENT_AUDITOR_RUN_ID;
+  const runner = process.env.TEST_WORKER_INDEX !== undefined ? process.ppid : process.pid;
+  return `${os.hostname()}:${runner}`;
+}
+
+/** The spend in `data` if it belongs to this run, else nothing. */
+function spendOfRun(data: BudgetFile | undefined): Spend {
+  return data?.runId === currentRunId() ? data : NOTHING_SPENT;
+}
+
+/** Forget the AI spend recorded so far, restarting every budget. */
+export function resetAIBudget(): void {
+  Object.assign(processSpend, NOTHING_SPENT);
+  for (const filePath of budgetFiles) fs.rmSync(filePath, { force: true });
+}
+
+/** Create the ledger of spend against `budget`. */
+export function createAIBudgetLedger(budget: AIBudget | undefined): AIBudgetLedger {
+  const filePath = budget?.path;
+  if (filePath) budgetFiles.add(filePath);
+
+  const spent = (): Spend =>
+    filePath
+      ? spendOfRun(readJsonFile<BudgetFile | undefined>(filePath, undefined))
+      : processSpend;
+
+  return {
+    check() {
+      if (!budget) return;
+      const { tokens, costUsd } = spent();
+      if (budget.maxTokens !== undefined && tokens >= budget.maxTokens) {
+        throw new AIBudgetExhaustedError(
+          `AI budget exhausted: ${tokens} of ${budget.maxTokens} tokens used`,
+        );
+      }
+      if (budget.maxCostUsd !== undefined && costUsd >= budget.maxCostUsd) {
+        throw new AIBudgetExhaustedError(
+          `AI budget exhausted: $${costUsd.toFixed(4)} of $${budget.maxCostUsd} spent`,
+        );
+      }
+    },
+
+    charge(tokens, costUsd) {
+      const add = (spend: Spend): Spend => ({
+        tokens: spend.tokens + tokens,
+        costUsd: spend.costUsd + (costUsd ?? 0),
+        requests: spend.requests + 1,
+      });
+      if (!filePath) {
+        Object.assign(processSpend, add(processSpend));
+        return;
+      }
+      updateJsonFile<BudgetFile | undefined>(filePath, undefined, (data) => ({
+        runId: currentRunId(),
+        ...add(spendOfRun(data)),
+      }));
+    },
+  };
+}
@@ -2,19 +2,178 @@
  * AI Healing Service — asks an AI provider for a replacement CSS/Playwright
  * selector when the original one fails.
  *
- * Supports Anthropic, OpenAI, and custom provider implementations.
+ * Supports Anthropic, OpenAI, local Ollama or OpenAI-compatible servers, and
+ * custom provider implementations.
  * Uses only built-in `fetch` (Node 18+) so there are no extra HTTP deps.
  */
 
+import { AsyncLocalStorage } from 'async_hooks';
 import {
+  AIBudgetLedger,
   AIHealingService,
   AIProviderConfig,
+  AIUsage,
+  Cassette,
+  ElementFingerprint,
+  HealingContext,
+  HealingScreenshots,
+  InputValueType,
+  ModelPricing,
+  PageCaptures,
+  PromptTemplate,
+  PromptTemplateInput,
+  SelectorCandidate,
+  SelectorSuggestions,
+  SemanticIntent,
+  SnapshotMode,
 } from './types';
+import { InvalidSelectorError, normalizeSelector } from './selector-normalizer';
+import { buildSnapshot, estimateTokens, trimAriaSnapshot } from './snapshot-builder';
+import { CassetteMissError, createCassette } from './cassette';
+import { AIBudgetExhaustedError, createAIBudgetLedger } from './ai-budget';
 
 // ---------------------------------------------------------------------------
-// Prompt template shared across providers
+// Prompts shared across providers
 // ---------------------------------------------------------------------------
 
+/** Describe in words what a semantic locator was looking for. */
+function describeIntent(intent: SemanticIntent): string {
+  const text = `"${intent.text ?? ''}"${intent.exact ? ' (exact match)' : ''}`;
+  switch (intent.method) {
+    case 'getByRole':
+      return intent.text !== undefined
+        ? `an element with role "${intent.role}" and accessible name ${text}`
+        : `an element with role "${intent.role}"`;
+    case 'getByLabel':
+      return `a form control labelled ${text}`;
+    case 'getByPlaceholder':
+      return `an input with placeholder ${text}`;
+    case 'getByAltText':
+      return `an element with alt text ${text}`;
+    case 'getByTitle':
+      return `an element with title ${text}`;
+    case 'getByTestId':
+      return `an element with test id ${text}`;
+    default:
+      return `an element with text ${text}`;
+  }
+}
+
+/** What a provider is shown of the page: either snapshot, or both, and any screenshots. */
+interface PageSnapshots {
+  html?: string;
+  aria?: string;
+  screenshots?: HealingScreenshots;
+}
+
+/** The screenshots in the order they are attached to the request. */
+function screenshotImages(screenshots: HealingScreenshots | undefined): Buffer[] {
+  if (!screenshots) return [];
+  return screenshots.element ? [screenshots.page, screenshots.element] : [screenshots.page];
+}
+
+function describeScreenshots(screenshots: HealingScreenshots | undefined): string[] {
+  if (!screenshots) return [];
+  return [
+    'The first attached image is a screenshot of the visible part of the page.',
+    ...(screenshots.element
+      ? ['The second shows the element as it looked when the failed selector last worked.']
+      : []),
+    'Use them to recognise the element by its appearance (icons, position, colour),',
+    'but base the selector on the snapshot below.',
+  ];
+}
+
+function describeSnapshots(snapshots: PageSnapshots): string {
+  if (snapshots.aria === undefined) return 'Below is a simplified snapshot of the current page HTML.';
+  const tree =
+    'the accessibility tree of the current page as a Playwright ARIA snapshot ' +
+    '(roles, accessible names, states and hierarchy)';
+  return snapshots.html === undefined
+    ? `Below is ${tree}.`
+    : `Below are ${tree} and a simplified snapshot of its HTML.`;
+}
+
+const VALUE_TYPES: Record<InputValueType, string> = {
+  empty: 'an empty value, clearing the field',
+  email: 'an email address',
+  url: 'a URL',
+  date: 'a date',
+  number: 'a number',
+  phone: 'a phone number',
+  text: 'text',
+};
+
+/** Describe in words the element a fingerprint was taken of. */
+function describeFingerprint(fingerprint: ElementFingerprint): string {
+  const attributes = [
+    fingerprint.id ? `id="${fingerprint.id}"` : '',
+    fingerprint.classes.length ? `class="${fingerprint.classes.join(' ')}"` : '',
+    fingerprint.testId ? `test id "${fingerprint.testId}"` : '',
+    fingerprint.role ? `role ${fingerprint.role}` : '',
+    fingerprint.accessibleName ? `name "${fingerprint.accessibleName}"` : '',
+    fingerprint.text && fingerprint.text !== fingerprint.accessibleName
+      ? `text "${fingerprint.text}"`
+      : '',
+    ...Object.entries(fingerprint.attributes).map(([name, value]) => `${name}="${value}"`),
+  ].filter(Boolean);
+  const described = attributes.length ? ` with ${attributes.join(', ')}` : '';
+  return `<${fingerprint.tag}>${described} at ${fingerprint.domPath}`;
+}
+
+/** Earlier failed attempts, explained so the model does not repeat them. */
+function describePreviousAttempts(context: HealingContext | undefined): string {
+  if (!context || context.rejectedSuggestions.length === 0) return '';
+  return [
+    `This is attempt ${context.attempt} of ${context.maxAttempts}. ` +
+      'These suggestions from earlier attempts did not work; do not suggest them again:',
+    ...context.rejectedSuggestions.map(
+      (rejected) => `  - ${rejected.selector} (attempt ${rejected.attempt}): ${rejected.error}`,
+    ),
+  ].join('\n');
+}
+
+/** The healing context in words; empty without one. */
+function describeContext(context: HealingContext | undefined): string {
+  if (!context) return '';
+  const page = [context.pageTitle && `"${context.pageTitle}"`, context.url && `at ${context.url}`]
+    .filter(Boolean)
+    .join(' ');
+  const lines = [
+    context.testTitle ? `  Test: ${context.testTitle}` : '',
+    page ? `  Page: ${page}` : '',
+    `  Action: ${context.action}` +
+      (context.valueType ? `, typing ${VALUE_TYPES[context.valueType]}` : ''),
+    context.fingerprint
+      ? `  When the selector last worked it matched: ${describeFingerprint(context.fingerprint)}`
+      : '',
+    context.nearbyText.length
+      ? `  Nearby text: ${context.nearbyText.map((text) => `"${text}"`).join(', ')}`
+      : '',
+  ].filter(Boolean);
+  const previous = describePreviousAttempts(context);
+  return ['Context:', ...lines, ...(previous ? ['', previous] : [])].join('\n');
+}
+
+/** The snapshots, each under a heading. */
+function snapshotSection(snapshots: PageSnapshots): string {
+  return [
+    ...(snapshots.aria !== undefined ? ['--- ARIA SNAPSHOT ---', snapshots.aria] : []),
+    ...(snapshots.aria !== undefined && snapshots.html !== undefined ? [''] : []),
+    ...(snapshots.html !== undefined ? ['--- HTML SNAPSHOT ---', snapshots.html] : []),
+  ].join('\n');
+}
+
+/** How to reply: a bare selector, or JSON candidates. */
+function responseFormat(single: boolean): string {
+  return single
+    ? 'Reply with ONLY the selector string — no explanation, no quotes, no markdown.'
+    : [
+        'Reply with ONLY a JSON object of the form:',
+        '{"candidates": [{"selector": "...", "confidence": 0.0-1.0, "rationale": "one short sentence"}]}',
+      ].join('\n');
+}
+
 function buildPrompt(failedSelector: string, htmlSnapshot: string): string {
   return [
     'You are an expert at writing Playwright selectors.',
@@ -24,88 +183,631 @@ function buildPrompt(failedSelector: string, htmlSnapshot: string): string {
     '',
     'Below is a simplified snapshot of the current page HTML.',
     'Suggest the single best replacement CSS or Playwright selector that targets the same intended element.',
-    'Reply with ONLY the selector string — no explanation, no quotes, no markdown.',
+    responseFormat(true),
+    '',
+    snapshotSection({ html: htmlSnapshot }),
+  ].join('\n');
+}
+
+function buildCandidatesPrompt(
+  failedSelector: string,
+  snapshots: PageSnapshots,
+  maxCandidates: number,
+  intent?: SemanticIntent,
+  context?: HealingContext,
+): string {
+  const intentLines = intent
+    ? [
+        `The test located it semantically, looking for ${describeIntent(intent)}.`,
+        'The role, name or text may have drifted slightly (e.g. "Save" became "Save changes");',
+        'find the element that serves the same purpose.',
+        '',
+      ]
+    : [];
+  const contextText = describeContext(context);
+  return [
+    'You are an expert at writing Playwright selectors.',
+    'A test tried to locate an element with the following selector, but it timed out:',
+    '',
+    `  Failed selector: ${failedSelector}`,
+    '',
+    ...intentLines,
+    ...(contextText ? [contextText, ''] : []),
+    describeSnapshots(snapshots),
+    ...describeScreenshots(snapshots.screenshots),
+    `Suggest up to ${maxCandidates} replacement CSS or Playwright selectors that target the same intended element, best first.`,
+    'Prefer stable selectors (test IDs, ids, roles, labels) over positional ones.',
+    ...(snapshots.aria !== undefined
+      ? [
+          'Where the element has a distinctive role and accessible name, prefer a role selector',
+          'such as role=button[name="Save"].',
+        ]
+      : []),
+    responseFormat(false),
     '',
-    '--- HTML SNAPSHOT ---',
-    htmlSnapshot,
+    snapshotSection(snapshots),
   ].join('\n');
 }
 
-/** Trim an HTML string to a reasonable token budget. */
-function trimHtml(html: string, maxChars = 12_000): string {
-  if (html.length <= maxChars) return html;
-  return html.slice(0, maxChars) + '\n<!-- ... truncated ... -->';
+/** Placeholders a string `promptTemplate` may use. */
+const TEMPLATE_PLACEHOLDERS = new Set([
+  'failedSelector',
+  'maxCandidates',
+  'html',
+  'aria',
+  'context',
+  'previousAttempts',
+  'snapshot',
+  'responseFormat',
+  'defaultPrompt',
+  'action',
+  'valueType',
+  'url',
+  'pageTitle',
+  'testTitle',
+  'nearbyText',
+]);
+
+/**
+ * Turn a `promptTemplate` into a function of its input. Throws if a string
+ * template uses an unknown placeholder.
+ */
+function compilePromptTemplate(
+  template: PromptTemplate,
+): (input: PromptTemplateInput) => string {
+  if (typeof template === 'function') return template;
+  for (const [, name] of template.matchAll(/\{\{\s*(\w+)\s*\}\}/g)) {
+    if (!TEMPLATE_PLACEHOLDERS.has(name)) {
+      throw new Error(
+        `Unknown placeholder {{${name}}} in promptTemplate. ` +
+          `Available: ${[...TEMPLATE_PLACEHOLDERS].map((p) => `{{${p}}}`).join(', ')}`,
+      );
+    }
+  }
+  return (input) => {
+    const { context, sections } = input;
+    const values: Record<string, string | number | undefined> = {
+      ...sections,
+      failedSelector: input.failedSelector,
+      maxCandidates: input.maxCandidates,
+      html: input.html,
+      aria: input.aria,
+      action: context?.action,
+      valueType: context?.valueType,
+      url: context?.url,
+      pageTitle: context?.pageTitle,
+      testTitle: context?.testTitle,
+      nearbyText: context?.nearbyText.join(', '),
+    };
+    return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) =>
+      String(values[name] ?? ''),
+    );
+  };
+}
+
+/**
+ * The input to a `promptTemplate`, given the built-in prompt. Without
+ * `maxCandidates` a single selector is asked for.
+ */
+function templateInput(
+  failedSelector: string,
+  snapshots: PageSnapshots,
+  defaultPrompt: string,
+  maxCandidates?: number,
+  context?: HealingContext,
+): PromptTemplateInput {
+  return {
+    failedSelector,
+    context,
+    html: snapshots.html,
+    aria: snapshots.aria,
+    maxCandidates: maxCandidates ?? 1,
+    sections: {
+      context: describeContext(context),
+      previousAttempts: describePreviousAttempts(context),
+      snapshot: snapshotSection(snapshots),
+      responseFormat: responseFormat(maxCandidates === undefined),
+      defaultPrompt,
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Candidate parsing
+// ---------------------------------------------------------------------------
+
+/** Clamp a model-reported confidence into 0–1 (accepting percentages). */
+function normaliseConfidence(value: unknown): number {
+  const n = typeof value === 'string' ? parseFloat(value) : value;
+  if (typeof n !== 'number' || !Number.isFinite(n)) return 0.5;
+  const scaled = n > 1 && n <= 100 ? n / 100 : n;
+  return Math.min(1, Math.max(0, scaled));
+}
+
+/** Extract the first JSON object or array embedded in `text`, if any. */
+function extractJson(text: string): unknown {
+  const unfenced = text.replace(/```(?:json)?/gi, '');
+  const start = unfenced.search(/[[{]/);
+  if (start < 0) return undefined;
+  const end = Math.max(unfenced.lastIndexOf('}'), unfenced.lastIndexOf(']'));
+  try {
+    return JSON.parse(unfenced.slice(start, end + 1));
+  } catch {
+    return undefined;
+  }
+}
+
+/** A provider response as text, for keeping on events and errors. */
+function rawResponseText(response: unknown): string {
+  return typeof response === 'string' ? response : JSON.stringify(response);
+}
+
+/**
+ * Turn a provider response — a parsed JSON value or raw text — into ranked
+ * candidates. Accepts `{candidates: [...]}`, a bare array, arrays of plain
+ * strings, and as a last resort one selector per line of text.
+ * Each selector is normalised (see `normalizeSelector`) and invalid ones are
+ * dropped; if none is valid, throws `InvalidSelectorError`.
+ * Candidates are sorted by confidence (stable), de-duplicated and capped.
+ */
+export function parseCandidates(
+  response: unknown,
+  maxCandidates: number,
+): SelectorCandidate[] {
+  let data = typeof response === 'string' ? extractJson(response) : response;
+  if (data && typeof data === 'object' && !Array.isArray(data)) {
+    data = (data as { candidates?: unknown }).candidates;
+  }
+
+  let items: unknown[];
+  if (Array.isArray(data)) {
+    items = data;
+  } else if (typeof response === 'string') {
+    items = response
+      .split('\n')
+      .map((line) => line.trim())
+      .filter((line) => line && !line.startsWith('```'));
+  } else {
+    items = [];
+  }
+
+  const seen = new Set<string>();
+  const candidates: SelectorCandidate[] = [];
+  let firstInvalid: string | undefined;
+  for (const item of items) {
+    const raw =
+      typeof item === 'string'
+        ? { selector: item }
+        : (item as { selector?: unknown; confidence?: unknown; rationale?: unknown } | null);
+    if (typeof raw?.selector !== 'string' || !raw.selector.trim()) continue;
+
+    let selector: string;
+    try {
+      selector = normalizeSelector(raw.selector);
+    } catch (err) {
+      if (!(err instanceof InvalidSelectorError)) throw err;
+      firstInvalid ??= err.detail;
+      continue;
+    }
+    if (seen.has(selector)) continue;
+    seen.add(selector);
+    candidates.push({
+      selector,
+      confidence: normaliseConfidence(
+        typeof item === 'string' ? undefined : raw?.confidence,
+      ),
+      rationale: typeof raw?.rationale === 'string' ? raw.rationale.trim() : '',
+    });
+  }
+
+  if (candidates.length === 0 && firstInvalid) {
+    throw new InvalidSelectorError(firstInvalid, rawResponseText(response));
+  }
+
+  return candidates
+    .map((c, i) => ({ c, i }))
+    .sort((a, b) => b.c.confidence - a.c.confidence || a.i - b.i)
+    .slice(0, maxCandidates)
+    .map(({ c }) => c);
 }
 
 // ---------------------------------------------------------------------------
 // Provider implementations
 // ---------------------------------------------------------------------------
 
+/**
+ * A failed provider request. `retryable` marks transient failures — rate
+ * limits, server errors, timeouts and unreachable servers — worth retrying.
+ */
+class ProviderRequestError extends Error {
+  constructor(
+    message: string,
+    readonly retryable: boolean,
+    /** How long the provider asked us to wait before retrying, in ms. */
+    readonly retryAfterMs?: number,
+  ) {
+    super(message);
+    this.name = 'ProviderRequestError';
+  }
+}
+
+/** HTTP statuses worth retrying: rate limits and transient server errors. */
+const RETRYABLE_STATUSES = new Set([408, 409, 429, 500, 502, 503, 504, 529]);
+
+/**
+ * Parse the wait a response asks for from its `retry-after-ms` or
+ * `retry-after` (seconds or HTTP date) header.
+ */
+function parseRetryAfter(headers: Headers | undefined): number | undefined {
+  const ms = Number(headers?.get?.('retry-after-ms') ?? NaN);
+  if (Number.isFinite(ms) && ms >= 0) return ms;
+
+  const value = headers?.get?.('retry-after');
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Send a request and return the parsed JSON response. Throws a
+ * `ProviderRequestError` on HTTP errors, timeouts and unreachable servers.
+ * `timeoutMs` covers reading the response body too.
+ */
+async function requestJson<T>(
+  label: string,
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+): Promise<T> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const res = await fetch(url, { ...init, signal: controller.signal });
+    if (!res.ok) {
+      const text = await res.text();
+      throw new ProviderRequestError(
+        `${label} API error ${res.status}: ${text}`,
+        RETRYABLE_STATUSES.has(res.status),
+        parseRetryAfter(res.headers),
+      );
+    }
+    return (await res.json()) as T;
+  } catch (err) {
+    if (err instanceof ProviderRequestError) throw err;
+    if (controller.signal.aborted) {
+      throw new ProviderRequestError(`${label} request timed out after ${timeoutMs} ms`, true);
+    }
+    if (err instanceof SyntaxError) {
+      throw new ProviderRequestError(`${label} returned invalid JSON: ${err.message}`, false);
+    }
+    const cause = (err as { cause?: { code?: string; message?: string } }).cause;
+    const reason = cause?.code ?? cause?.message ?? (err instanceof Error ? err.message : String(err));
+    throw new ProviderRequestError(
+      `${label} is not reachable at ${new URL(url).origin} (${reason})`,
+      true,
+    );
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/** POST a JSON body and return the parsed response, or throw on HTTP errors. */
+function postJson<T>(
+  label: string,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  timeoutMs: number,
+): Promise<T> {
+  return requestJson<T>(
+    label,
+    url,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+    },
+    timeoutMs,
+  );
+}
+
+/** Tokens a single request consumed, as reported by the provider. */
+type TokenCounts = Pick<AIUsage, 'inputTokens' | 'outputTokens'>;
+
+/** A provider's answer together with the tokens it cost. */
+interface ProviderReply<T> {
+  output: T;
+  tokens: TokenCounts;
+  /** Whether the reply came from a cassette rather than the provider. */
+  replayed?: boolean;
+}
+
+/** A provider call: model + prompt in, raw model output out. */
+type ProviderCall = (
+  apiKey: string,
+  model: string,
+  prompt: string,
+  baseUrl: string,
+  timeoutMs: number,
+) => Promise<ProviderReply<string>>;
+
+/**
+ * A provider call that asks for structured candidates. `images` are JPEG
+ * screenshots to attach; providers without vision ignore them.
+ */
+type CandidatesCall = (
+  apiKey: string,
+  model: string,
+  prompt: string,
+  baseUrl: string,
+  timeoutMs: number,
+  images?: Buffer[],
+) => Promise<ProviderReply<unknown>>;
+
+type AnthropicResponse = {
+  content: Array<
+    | { type: 'text'; text: string }
+    | { type: 'tool_use'; name: string; input: unknown }
+  >;
+  usage?: { input_tokens?: number; output_tokens?: number };
+};
+
+function anthropicTokens(json: AnthropicResponse): TokenCounts {
+  return {
+    inputTokens: json.usage?.input_tokens ?? 0,
+    outputTokens: json.usage?.output_tokens ?? 0,
+  };
+}
+
+function anthropicHeaders(apiKey: string): Record<string, string> {
+  return { 'x-api-key': apiKey, 'anthropic-version': '2023-06-01' };
+}
+
+/** The user message content: the prompt, preceded by any images. */
+function anthropicContent(prompt: string, images: Buffer[]): unknown {
+  if (images.length === 0) return prompt;
+  return [
+    ...images.map((image) => ({
+      type: 'image',
+      source: { type: 'base64', media_type: 'image/jpeg', data: image.toString('base64') },
+    })),
+    { type: 'text', text: prompt },
+  ];
+}
+
 async function callAnthropic(
   apiKey: string,
   model: string,
   prompt: string,
   baseUrl: string,
-): Promise<string> {
-  const url = `${baseUrl}/v1/messages`;
-  const res = await fetch(url, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': apiKey,
-      'anthropic-version': '2023-06-01',
-    },
-    body: JSON.stringify({
+  timeoutMs: number,
+): Promise<ProviderReply<string>> {
+  const json = await postJson<AnthropicResponse>(
+    'Anthropic',
+    `${baseUrl}/v1/messages`,
+    anthropicHeaders(apiKey),
+    {
       model,
       max_tokens: 200,
       messages: [{ role: 'user', content: prompt }],
-    }),
-  });
-
-  if (!res.ok) {
-    const body = await res.text();
-    throw new Error(`Anthropic API error ${res.status}: ${body}`);
-  }
+    },
+    timeoutMs,
+  );
 
-  const json = (await res.json()) as {
-    content: Array<{ type: string; text: string }>;
-  };
-  const text = json.content?.[0]?.text?.trim();
+  const block = json.content?.[0];
+  const text = block?.type === 'text' ? block.text?.trim() : undefined;
   if (!text) throw new Error('Anthropic returned empty response');
-  return text;
+  return { output: text, tokens: anthropicTokens(json) };
 }
 
-async function callOpenAI(
+/** JSON schema of the `suggest_selectors` tool the model is forced to call. */
+const CANDIDATES_SCHEMA = {
+  type: 'object',
+  properties: {
+    candidates: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          selector: { type: 'string' },
+          confidence: { type: 'number', minimum: 0, maximum: 1 },
+          rationale: { type: 'string' },
+        },
+        required: ['selector', 'confidence', 'rationale'],
+      },
+    },
+  },
+  required: ['candidates'],
+};
+
+async function callAnthropicCandidates(
   apiKey: string,
   model: string,
   prompt: string,
   baseUrl: string,
-): Promise<string> {
-  const url = `${baseUrl}/v1/chat/completions`;
-  const res = await fetch(url, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      Authorization: `Bearer ${apiKey}`,
+  timeoutMs: number,
+  images: Buffer[] = [],
+): Promise<ProviderReply<unknown>> {
+  const json = await postJson<AnthropicResponse>(
+    'Anthropic',
+    `${baseUrl}/v1/messages`,
+    anthropicHeaders(apiKey),
+    {
+      model,
+      max_tokens: 600,
+      tools: [
+        {
+          name: 'suggest_selectors',
+          description: 'Report ranked replacement selectors for the failed one.',
+          input_schema: CANDIDATES_SCHEMA,
+        },
+      ],
+      tool_choice: { type: 'tool', name: 'suggest_selectors' },
+      messages: [{ role: 'user', content: anthropicContent(prompt, images) }],
     },
-    body: JSON.stringify({
+    timeoutMs,
+  );
+
+  const tokens = anthropicTokens(json);
+  const toolUse = json.content?.find((b) => b.type === 'tool_use');
+  if (toolUse && toolUse.type === 'tool_use') return { output: toolUse.input, tokens };
+  const text = json.content?.find((b) => b.type === 'text');
+  if (text && text.type === 'text' && text.text.trim()) return { output: text.text, tokens };
+  throw new Error('Anthropic returned empty response');
+}
+
+type OpenAIResponse = {
+  choices: Array<{ message: { content: string } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+};
+
+/** The user message content: the prompt, followed by any images. */
+function openAIContent(prompt: string, images: Buffer[]): unknown {
+  if (images.length === 0) return prompt;
+  return [
+    { type: 'text', text: prompt },
+    ...images.map((image) => ({
+      type: 'image_url',
+      image_url: { url: `data:image/jpeg;base64,${image.toString('base64')}` },
+    })),
+  ];
+}
+
+/**
+ * Call an OpenAI-style `/v1/chat/completions` endpoint (OpenAI itself, or a
+ * local llama.cpp / LM Studio / vLLM server) and return the reply text.
+ */
+async function chatCompletion(
+  label: string,
+  apiKey: string,
+  model: string,
+  prompt: string,
+  baseUrl: string,
+  timeoutMs: number,
+  options: Record<string, unknown>,
+  images: Buffer[] = [],
+): Promise<ProviderReply<string>> {
+  const json = await postJson<OpenAIResponse>(
+    label,
+    `${baseUrl}/v1/chat/completions`,
+    apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+    {
       model,
-      max_tokens: 200,
+      ...options,
+      messages: [{ role: 'user', content: openAIContent(prompt, images) }],
+    },
+    timeoutMs,
+  );
+
+  const text = json.choices?.[0]?.message?.content?.trim();
+  if (!text) throw new Error(`${label} returned empty response`);
+  return {
+    output: text,
+    tokens: {
+      inputTokens: json.usage?.prompt_tokens ?? 0,
+      outputTokens: json.usage?.completion_tokens ?? 0,
+    },
+  };
+}
+
+const callOpenAI: ProviderCall = (apiKey, model, prompt, baseUrl, timeoutMs) =>
+  chatCompletion('OpenAI', apiKey, model, prompt, baseUrl, timeoutMs, { max_tokens: 200 });
+
+const callOpenAICandidates: CandidatesCall = (apiKey, model, prompt, baseUrl, timeoutMs, images) =>
+  chatCompletion(
+    'OpenAI',
+    apiKey,
+    model,
+    prompt,
+    baseUrl,
+    timeoutMs,
+    { max_tokens: 600, response_format: { type: 'json_object' } },
+    images,
+  );
+
+// Local servers differ in which structured-output options they accept, so
+// rely on the prompt (and `parseCandidates`) for the JSON shape instead.
+const callLocal: ProviderCall = (apiKey, model, prompt, baseUrl, timeoutMs) =>
+  chatCompletion('Local LLM', apiKey, model, prompt, baseUrl, timeoutMs, { max_tokens: 200 });
+
+const callLocalCandidates: CandidatesCall = (apiKey, model, prompt, baseUrl, timeoutMs) =>
+  chatCompletion('Local LLM', apiKey, model, prompt, baseUrl, timeoutMs, { max_tokens: 600 });
+
+type OllamaResponse = {
+  message?: { content?: string };
+  prompt_eval_count?: number;
+  eval_count?: number;
+};
+
+/** Call Ollama's native `/api/chat` endpoint and return the reply text. */
+async function ollamaChat(
+  model: string,
+  prompt: string,
+  baseUrl: string,
+  timeoutMs: number,
+  options: Record<string, unknown>,
+): Promise<ProviderReply<string>> {
+  const json = await postJson<OllamaResponse>(
+    'Ollama',
+    `${baseUrl}/api/chat`,
+    {},
+    {
+      model,
+      stream: false,
+      ...options,
       messages: [{ role: 'user', content: prompt }],
-    }),
+    },
+    timeoutMs,
+  );
+
+  const text = json.message?.content?.trim();
+  if (!text) throw new Error('Ollama returned empty response');
+  return {
+    output: text,
+    tokens: {
+      inputTokens: json.prompt_eval_count ?? 0,
+      outputTokens: json.eval_count ?? 0,
+    },
+  };
+}
+
+const callOllama: ProviderCall = (_apiKey, model, prompt, baseUrl, timeoutMs) =>
+  ollamaChat(model, prompt, baseUrl, timeoutMs, { options: { num_predict: 200 } });
+
+const callOllamaCandidates: CandidatesCall = (_apiKey, model, prompt, baseUrl, timeoutMs) =>
+  ollamaChat(model, prompt, baseUrl, timeoutMs, {
+    format: 'json',
+    options: { num_predict: 600 },
   });
 
-  if (!res.ok) {
-    const body = await res.text();
-    throw new Error(`OpenAI API error ${res.status}: ${body}`);
+/** Check that Ollama is up and has `model` pulled. */
+async function verifyOllama(model: string, baseUrl: string, timeoutMs: number): Promise<void> {
+  const json = await requestJson<{ models?: Array<{ name: string }> }>(
+    'Ollama',
+    `${baseUrl}/api/tags`,
+    {},
+    timeoutMs,
+  );
+  const names = (json.models ?? []).map((m) => m.name);
+  // Ollama reports untagged models as `name:latest`.
+  if (!names.some((name) => name === model || name === `${model}:latest`)) {
+    throw new Error(
+      `Ollama at ${baseUrl} does not have model "${model}". ` +
+        `Run \`ollama pull ${model}\` or set ai.model.`,
+    );
   }
+}
 
-  const json = (await res.json()) as {
-    choices: Array<{ message: { content: string } }>;
-  };
-  const text = json.choices?.[0]?.message?.content?.trim();
-  if (!text) throw new Error('OpenAI returned empty response');
-  return text;
+/** Check that a local OpenAI-compatible server is up. */
+async function verifyLocal(apiKey: string, baseUrl: string, timeoutMs: number): Promise<void> {
+  await requestJson(
+    'Local LLM',
+    `${baseUrl}/v1/models`,
+    { headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {} },
+    timeoutMs,
+  );
 }
 
 // ---------------------------------------------------------------------------
@@ -115,11 +817,16 @@ async function callOpenAI(
 const DEFAULT_MODELS: Record<string, string> = {
   anthropic: 'claude-sonnet-4-20250514',
   openai: 'gpt-4o',
+  ollama: 'llama3.1',
+  // llama.cpp serves whichever model it was started with and ignores this.
+  local: 'default',
 };
 
 const DEFAULT_URLS: Record<string, string> = {
   anthropic: 'https://api.anthropic.com',
   openai: 'https://api.openai.com',
+  ollama: 'http://localhost:11434',
+  local: 'http://localhost:8080',
 };
 
 const ENV_KEY_MAP: Record<string, string> = {
@@ -127,35 +834,148 @@ const ENV_KEY_MAP: Record<string, string> = {
   openai: 'OPENAI_API_KEY',
 };
 
+/** Providers that run on the local network and need no API key. */
+const LOCAL_PROVIDERS = new Set(['ollama', 'local']);
+
+/** Every `AIProviderConfig.provider` value. */
+const PROVIDERS = new Set(['anthropic', 'openai', 'ollama', 'local', 'custom']);
+
+/** Providers that are sent screenshots with `vision`. */
+const VISION_PROVIDERS = new Set(['anthropic', 'openai', 'custom']);
+
+const DEFAULT_TIMEOUT_MS = 60_000;
+/** Generous, since local models often run on a CPU. */
+const DEFAULT_LOCAL_TIMEOUT_MS = 300_000;
+/** Connection checks should fail fast, even for slow local models. */
+const VERIFY_TIMEOUT_MS = 10_000;
+
+/** How long one request to `config`'s provider may take, in ms. */
+export function requestTimeoutMs(config: Pick<AIProviderConfig, 'provider' | 'timeoutMs'>): number {
+  return (
+    config.timeoutMs ??
+    (LOCAL_PROVIDERS.has(config.provider) ? DEFAULT_LOCAL_TIMEOUT_MS : DEFAULT_TIMEOUT_MS)
+  );
+}
+
+const DEFAULT_MAX_CANDIDATES = 3;
+
+/** Checks and charges each live request to a provider against the budget. */
+interface RequestMeter {
+  check(): void;
+  charge(tokens: TokenCounts): void;
+}
+
+/** What the live requests made for one call to the service used, across retries and fallbacks. */
+interface RequestTally {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  /** Undefined once a request's model has no price. */
+  costUsd: number | undefined;
+}
+
+/** The tally of the service call in progress, which concurrent calls each have their own of. */
+const tallies = new AsyncLocalStorage<RequestTally>();
+
 /**
- * Create an `AIHealingService` from the given configuration.
- *
- * Throws immediately if required settings (e.g. API key) are missing so that
- * errors surface at fixture-setup time, not mid-test.
+ * Create the service for a single provider, making one request per call
+ * (or answering from `cassette`, when replaying), each checked against and
+ * charged to `meter`.
+ * Throws if the provider is unknown or required settings (e.g. API key)
+ * are missing.
  */
-export function createAIHealingService(
-  config: AIProviderConfig,
+function createProviderService(
+  config: Omit<AIProviderConfig, 'fallbacks'>,
+  cassette?: Cassette,
+  meter?: RequestMeter,
 ): AIHealingService {
   const { provider } = config;
+  if (!PROVIDERS.has(provider)) {
+    throw new Error(
+      `Unknown AI provider "${provider}". Use one of: ${[...PROVIDERS].join(', ')}.`,
+    );
+  }
+  const maxCandidates = config.maxCandidates ?? DEFAULT_MAX_CANDIDATES;
+  const maxTokens = config.snapshotTokens;
+  const condense = (html: string) => buildSnapshot(html, { maxTokens });
+  const snapshotMode = config.snapshotMode ?? 'html';
+  const vision = Boolean(config.vision) && VISION_PROVIDERS.has(provider);
+  /** What this provider is shown, given the snapshots taken. */
+  const snapshotsFor = (
+    htmlSnapshot: string,
+    captures: PageCaptures | undefined,
+  ): [PageSnapshots, SnapshotMode] => {
+    const ariaSnapshot = captures?.ariaSnapshot;
+    const screenshots = vision ? captures?.screenshots : undefined;
+    if (snapshotMode === 'html' || ariaSnapshot === undefined) {
+      return [{ html: condense(htmlSnapshot), screenshots }, 'html'];
+    }
+    const aria = trimAriaSnapshot(ariaSnapshot, maxTokens);
+    return snapshotMode === 'aria'
+      ? [{ aria, screenshots }, 'aria']
+      : [{ html: condense(htmlSnapshot), aria, screenshots }, 'both'];
+  };
 
   if (provider === 'custom') {
-    if (!config.customHealFn) {
+    const healFn = config.customHealFn;
+    const suggestFn = config.customSuggestFn;
+    if (!healFn && !suggestFn) {
       throw new Error(
-        'AIProviderConfig.customHealFn is required when provider is "custom"',
+        'AIProviderConfig.customSuggestFn or customHealFn is required when provider is "custom"',
       );
     }
-    const fn = config.customHealFn;
+    const suggestSelectors: AIHealingService['suggestSelectors'] = async (
+      failedSelector,
+      htmlSnapshot,
+      intent,
+      captures,
+      context,
+    ) => {
+      // Custom functions always get the HTML, and the ARIA snapshot and
+      // screenshots as well when asked for.
+      const ariaSnapshot = captures?.ariaSnapshot;
+      const aria =
+        suggestFn && snapshotMode !== 'html' && ariaSnapshot !== undefined
+          ? trimAriaSnapshot(ariaSnapshot, maxTokens)
+          : undefined;
+      const screenshots = vision ? captures?.screenshots : undefined;
+      const html = condense(htmlSnapshot);
+      const start = Date.now();
+      const response = suggestFn
+        ? await suggestFn(failedSelector, html, intent, aria, screenshots, context)
+        : await healFn!(failedSelector, html, screenshots, context);
+      const candidates = suggestFn
+        ? parseCandidates(response, maxCandidates)
+        : [{ selector: normalizeSelector(response as string), confidence: 1, rationale: '' }];
+      return {
+        candidates,
+        provider: 'custom',
+        rawResponse: rawResponseText(response),
+        usage: { inputTokens: 0, outputTokens: 0, latencyMs: Date.now() - start },
+        snapshotMode: aria === undefined ? 'html' : snapshotMode,
+        vision: screenshots !== undefined,
+      };
+    };
     return {
       providerName: 'custom',
+      snapshotMode,
+      vision,
       async suggestSelector(failedSelector, htmlSnapshot) {
-        return fn(failedSelector, trimHtml(htmlSnapshot));
+        if (healFn) return normalizeSelector(await healFn(failedSelector, condense(htmlSnapshot)));
+        const { candidates } = await suggestSelectors(failedSelector, htmlSnapshot);
+        if (!candidates[0]) throw new Error('customSuggestFn returned no candidates');
+        return candidates[0].selector;
       },
+      suggestSelectors,
     };
   }
 
+  const isLocal = LOCAL_PROVIDERS.has(provider);
+  const replaying = cassette?.mode === 'replay';
   const apiKey =
     config.apiKey ?? process.env[ENV_KEY_MAP[provider] ?? ''] ?? '';
-  if (!apiKey) {
+  // Replays need no key, so they can run where no secrets are available.
+  if (!apiKey && !isLocal && !replaying) {
     throw new Error(
       `No API key provided for "${provider}". ` +
         `Set ${ENV_KEY_MAP[provider]} or pass apiKey in config.`,
@@ -163,15 +983,449 @@ export function createAIHealingService(
   }
 
   const model = config.model ?? DEFAULT_MODELS[provider] ?? '';
-  const baseUrl = config.baseUrl ?? DEFAULT_URLS[provider] ?? '';
+  const baseUrl = (config.baseUrl ?? DEFAULT_URLS[provider] ?? '').replace(/\/+$/, '');
+  const timeoutMs = requestTimeoutMs(config);
 
-  const callFn = provider === 'anthropic' ? callAnthropic : callOpenAI;
+  const callFns: Record<string, [ProviderCall, CandidatesCall]> = {
+    anthropic: [callAnthropic, callAnthropicCandidates],
+    openai: [callOpenAI, callOpenAICandidates],
+    ollama: [callOllama, callOllamaCandidates],
+    local: [callLocal, callLocalCandidates],
+  };
+  const [callFn, candidatesFn] = callFns[provider];
+  const template = config.promptTemplate && compilePromptTemplate(config.promptTemplate);
+  /**
+   * Run `call` for `prompt` through the cassette, if there is one, marking
+   * replies it replayed. Requests actually sent are charged to the budget,
+   * failed ones too, since the provider may still bill them: those at the
+   * prompt's estimated size.
+   */
+  const play = async <T>(
+    kind: 'selector' | 'candidates',
+    prompt: string,
+    call: () => Promise<ProviderReply<T>>,
+  ): Promise<ProviderReply<T>> => {
+    let live = false;
+    const request = async (): Promise<ProviderReply<T>> => {
+      live = true;
+      meter?.check();
+      let tokens: TokenCounts = { inputTokens: estimateTokens(prompt), outputTokens: 0 };
+      try {
+        const reply = await call();
+        tokens = reply.tokens;
+        return reply;
+      } finally {
+        meter?.charge(tokens);
+      }
+    };
+    if (!cassette) return request();
+    const reply = await cassette.play({ provider, model, kind, prompt }, request);
+    return live ? reply : { ...reply, replayed: true };
+  };
+
+  const verifyTimeout = Math.min(timeoutMs, VERIFY_TIMEOUT_MS);
+  const verifyConnection =
+    replaying
+      ? undefined
+      : provider === 'ollama'
+        ? () => verifyOllama(model, baseUrl, verifyTimeout)
+        : provider === 'local'
+          ? () => verifyLocal(apiKey, baseUrl, verifyTimeout)
+          : undefined;
 
   return {
     providerName: provider,
+    snapshotMode,
+    vision,
     async suggestSelector(failedSelector, htmlSnapshot) {
-      const prompt = buildPrompt(failedSelector, trimHtml(htmlSnapshot));
-      return callFn(apiKey, model, prompt, baseUrl);
+      const snapshots = { html: condense(htmlSnapshot) };
+      const defaultPrompt = buildPrompt(failedSelector, snapshots.html);
+      const prompt = template
+        ? template(templateInput(failedSelector, snapshots, defaultPrompt))
+        : defaultPrompt;
+      const { output } = await play('selector', prompt, () =>
+        callFn(apiKey, model, prompt, baseUrl, timeoutMs),
+      );
+      return normalizeSelector(output);
+    },
+    async suggestSelectors(failedSelector, htmlSnapshot, intent, captures, context) {
+      const [snapshots, mode] = snapshotsFor(htmlSnapshot, captures);
+      const defaultPrompt = buildCandidatesPrompt(
+        failedSelector,
+        snapshots,
+        maxCandidates,
+        intent,
+        context,
+      );
+      const prompt = template
+        ? template(templateInput(failedSelector, snapshots, defaultPrompt, maxCandidates, context))
+        : defaultPrompt;
+      const images = screenshotImages(snapshots.screenshots);
+      const start = Date.now();
+      const { output, tokens, replayed } = await play('candidates', prompt, () =>
+        candidatesFn(apiKey, model, prompt, baseUrl, timeoutMs, images),
+      );
+      return {
+        candidates: parseCandidates(output, maxCandidates),
+        provider,
+        model,
+        rawResponse: rawResponseText(output),
+        usage: { ...tokens, latencyMs: Date.now() - start, ...(replayed && { replayed }) },
+        snapshotMode: mode,
+        vision: images.length > 0,
+      };
     },
+    verifyConnection,
   };
 }
+
+// ---------------------------------------------------------------------------
+// Retries, circuit breaking and fallback
+// ---------------------------------------------------------------------------
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_RETRY_BASE_DELAY_MS = 1000;
+const DEFAULT_MAX_RETRY_DELAY_MS = 30_000;
+const DEFAULT_FAILURE_THRESHOLD = 3;
+
+/** Failure state of one provider endpoint, shared by every service in the run. */
+interface CircuitState {
+  consecutiveFailures: number;
+  /** When the circuit opened (ms since epoch), if it is open. */
+  openedAt?: number;
+}
+
+const circuits = new Map<string, CircuitState>();
+
+/** Forget every provider's failures, closing all circuits. */
+export function resetCircuitBreakers(): void {
+  circuits.clear();
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** One provider in the fallback chain. */
+interface ChainLink {
+  service: AIHealingService;
+  /** The model the provider is asked for, if it has one. */
+  model?: string;
+  config: Omit<AIProviderConfig, 'fallbacks'>;
+  /** Identifies the provider endpoint for circuit breaking. */
+  circuitKey: string;
+}
+
+/** The result of a call through the chain. */
+interface ChainResult<T> {
+  value: T;
+  /** The provider that answered. */
+  link: ChainLink;
+  attempts: number;
+}
+
+/** Whether `link`'s circuit is open, i.e. the provider should be skipped. */
+function isCircuitOpen(link: ChainLink): boolean {
+  const breaker = link.config.circuitBreaker;
+  const state = circuits.get(link.circuitKey);
+  if (breaker === false || state?.openedAt === undefined) return false;
+  if (
+    breaker?.cooldownMs !== undefined &&
+    Date.now() - state.openedAt >= breaker.cooldownMs
+  ) {
+    // Half-open: let one call through; a failure reopens the circuit.
+    state.openedAt = undefined;
+    state.consecutiveFailures = (breaker.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD) - 1;
+    return false;
+  }
+  return true;
+}
+
+function recordOutcome(link: ChainLink, succeeded: boolean): void {
+  const breaker = link.config.circuitBreaker;
+  if (breaker === false) return;
+  if (succeeded) {
+    circuits.delete(link.circuitKey);
+    return;
+  }
+  const state = circuits.get(link.circuitKey) ?? { consecutiveFailures: 0 };
+  state.consecutiveFailures++;
+  if (state.consecutiveFailures >= (breaker?.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD)) {
+    state.openedAt = Date.now();
+  }
+  circuits.set(link.circuitKey, state);
+}
+
+/**
+ * Run `call` against one provider, retrying transient failures with
+ * exponential backoff and full jitter, or after the provider's
+ * `retry-after`, waiting at most `maxRetryDelayMs` either way. Returns the value
+ * and the number of requests made; on failure, throws the last error with
+ * the request count attached as `attempts`.
+ */
+async function callWithRetries<T>(
+  link: ChainLink,
+  call: (service: AIHealingService) => Promise<T>,
+): Promise<{ value: T; attempts: number }> {
+  const { config } = link;
+  const maxAttempts = Math.max(1, config.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+  const baseDelay = config.retryBaseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS;
+  const maxDelay = config.maxRetryDelayMs ?? DEFAULT_MAX_RETRY_DELAY_MS;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return { value: await call(link.service), attempts: attempt };
+    } catch (err) {
+      const retryable = err instanceof ProviderRequestError && err.retryable;
+      const retryAfter = err instanceof ProviderRequestError ? err.retryAfterMs : undefined;
+      // Full jitter, so parallel workers do not retry a rate-limited API in step.
+      const delay =
+        retryAfter !== undefined
+          ? Math.min(retryAfter, maxDelay)
+          : Math.random() * Math.min(baseDelay * 2 ** (attempt - 1), maxDelay);
+      if (!retryable || attempt >= maxAttempts) {
+        throw Object.assign(err instanceof Error ? err : new Error(String(err)), {
+          attempts: attempt,
+        });
+      }
+      await sleep(delay);
+    }
+  }
+}
+
+/**
+ * Run `call` against each provider in turn until one answers, skipping
+ * providers whose circuit is open.
+ */
+async function callChain<T>(
+  links: ChainLink[],
+  call: (service: AIHealingService) => Promise<T>,
+): Promise<ChainResult<T>> {
+  let attempts = 0;
+  const errors: string[] = [];
+  let lastError: unknown;
+
+  for (const link of links) {
+    const name = link.service.providerName;
+    if (isCircuitOpen(link)) {
+      errors.push(`${name}: circuit open after repeated failures`);
+      continue;
+    }
+    try {
+      const result = await callWithRetries(link, call);
+      recordOutcome(link, true);
+      return { value: result.value, link, attempts: attempts + result.attempts };
+    } catch (err) {
+      // A missing recording is a problem with the cassette, and a spent
+      // budget one for every provider, not a failure of this one.
+      if (err instanceof CassetteMissError || err instanceof AIBudgetExhaustedError) throw err;
+      recordOutcome(link, false);
+      attempts += (err as { attempts?: number }).attempts ?? 1;
+      errors.push(`${name}: ${err instanceof Error ? err.message : String(err)}`);
+      lastError = err;
+    }
+  }
+
+  // With a single provider, surface its own error unchanged.
+  if (links.length === 1 && lastError instanceof Error) throw lastError;
+  throw new Error(`All AI providers failed — ${errors.join('; ')}`);
+}
+
+// ---------------------------------------------------------------------------
+// Cost and budget
+// ---------------------------------------------------------------------------
+
+/** List prices of common hosted models, in USD per million tokens. */
+const DEFAULT_PRICING: Record<string, ModelPricing> = {
+  'claude-opus-4-20250514': { inputPerMillion: 15, outputPerMillion: 75 },
+  'claude-sonnet-4-20250514': { inputPerMillion: 3, outputPerMillion: 15 },
+  'claude-3-5-haiku-20241022': { inputPerMillion: 0.8, outputPerMillion: 4 },
+  'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10 },
+  'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  'gpt-4.1': { inputPerMillion: 2, outputPerMillion: 8 },
+  'gpt-4.1-mini': { inputPerMillion: 0.4, outputPerMillion: 1.6 },
+};
+
+/**
+ * Estimate the cost of `usage` on `provider`'s `model`, or `undefined` if
+ * the model has no price. Local models are free unless priced explicitly.
+ */
+function estimateCost(
+  provider: string,
+  model: string | undefined,
+  usage: TokenCounts,
+  pricing: Record<string, ModelPricing>,
+): number | undefined {
+  const price = model !== undefined ? pricing[model] : undefined;
+  if (!price) return LOCAL_PROVIDERS.has(provider) ? 0 : undefined;
+  return (
+    (usage.inputTokens * price.inputPerMillion +
+      usage.outputTokens * price.outputPerMillion) /
+    1_000_000
+  );
+}
+
+/**
+ * Create an `AIHealingService` from the given configuration: the primary
+ * provider followed by its `fallbacks`, each with its own timeout, retries
+ * and circuit breaker. With a `cassette`, responses are recorded to or
+ * replayed from it.
+ *
+ * Throws immediately if required settings (e.g. API key) are missing so that
+ * errors surface at fixture-setup time, not mid-test.
+ */
+export function createAIHealingService(
+  config: AIProviderConfig,
+): AIHealingService {
+  const { fallbacks = [], pricing = {}, budget, cassette: cassetteConfig, ...primary } = config;
+  const prices = { ...DEFAULT_PRICING, ...pricing };
+  const cassette = cassetteConfig ? createCassette(cassetteConfig) : undefined;
+  const ledger = createAIBudgetLedger(budget);
+  const links: ChainLink[] = [primary, ...fallbacks].map((linkConfig) => {
+    const { provider } = linkConfig;
+    const model = provider === 'custom' ? undefined : (linkConfig.model ?? DEFAULT_MODELS[provider]);
+    const noTokens = { inputTokens: 0, outputTokens: 0 };
+    if (
+      budget?.maxCostUsd !== undefined &&
+      provider !== 'custom' &&
+      estimateCost(provider, model, noTokens, prices) === undefined
+    ) {
+      throw new Error(
+        `budget.maxCostUsd cannot limit "${model}", which has no price. ` +
+          'Add it to pricing, or use maxTokens.',
+      );
+    }
+    const meter: RequestMeter = {
+      check: () => ledger.check(),
+      charge: (tokens) => {
+        const costUsd = estimateCost(provider, model, tokens, prices);
+        ledger.charge(tokens.inputTokens + tokens.outputTokens, costUsd);
+        const tally = tallies.getStore();
+        if (!tally) return;
+        tally.requests++;
+        tally.inputTokens += tokens.inputTokens;
+        tally.outputTokens += tokens.outputTokens;
+        tally.costUsd =
+          tally.costUsd !== undefined && costUsd !== undefined ? tally.costUsd + costUsd : undefined;
+      },
+    };
+    return {
+      service: createProviderService(linkConfig, cassette, meter),
+      model,
+      // Custom functions differ from test to test, so a circuit keyed on
+      // "custom" would carry one test's failures over to the next.
+      config: provider === 'custom' ? { ...linkConfig, circuitBreaker: false } : linkConfig,
+      circuitKey: [
+        provider,
+        linkConfig.baseUrl ?? DEFAULT_URLS[provider] ?? '',
+        linkConfig.model ?? DEFAULT_MODELS[provider] ?? '',
+      ].join('|'),
+    };
+  });
+
+  const verifiable = links.every((link) => link.service.verifyConnection);
+  const modes = new Set(links.map((link) => link.service.snapshotMode ?? 'html'));
+
+  return {
+    providerName: links.map((link) => link.service.providerName).join(', '),
+    snapshotMode: modes.size === 1 ? [...modes][0] : 'both',
+    vision: links.some((link) => link.service.vision),
+    async suggestSelector(failedSelector, htmlSnapshot) {
+      ledger.check();
+      const { value } = await callChain(links, (service) =>
+        service.suggestSelector(failedSelector, htmlSnapshot),
+      );
+      return value;
+    },
+    // The usage reported is that of every request the call made, failed
+    // ones and those to providers fallen back from included, as charged to
+    // the budget; on failure it is attached to the error as `usage`.
+    async suggestSelectors(failedSelector, htmlSnapshot, intent, captures, context) {
+      ledger.check();
+      const start = Date.now();
+      const tally: RequestTally = { requests: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+      const tallied = (): AIUsage => ({
+        inputTokens: tally.inputTokens,
+        outputTokens: tally.outputTokens,
+        latencyMs: Date.now() - start,
+        costUsd: tally.costUsd,
+      });
+      let result: ChainResult<SelectorSuggestions>;
+      try {
+        result = await tallies.run(tally, () =>
+          callChain(links, (service) =>
+            service.suggestSelectors(failedSelector, htmlSnapshot, intent, captures, context),
+          ),
+        );
+      } catch (err) {
+        if (tally.requests > 0 && err instanceof Error) Object.assign(err, { usage: tallied() });
+        throw err;
+      }
+      const { value, link, attempts } = result;
+      let usage = tallied();
+      if (tally.requests === 0) {
+        // Answered without a request: by a custom function, or from a
+        // cassette, the answer having been paid for when it was recorded.
+        const tokens = value.usage ?? { inputTokens: 0, outputTokens: 0 };
+        const replayed = value.usage?.replayed;
+        usage = {
+          inputTokens: tokens.inputTokens,
+          outputTokens: tokens.outputTokens,
+          latencyMs: usage.latencyMs,
+          costUsd: replayed ? 0 : estimateCost(link.config.provider, link.model, tokens, prices),
+          ...(replayed && { replayed }),
+        };
+      }
+      return {
+        ...value,
+        provider: link.service.providerName,
+        attempts,
+        usage,
+      };
+    },
+    // Healing can proceed as long as one provider is reachable; providers
+    // without a cheap check are assumed to be.
+    verifyConnection: verifiable
+      ? async () => {
+          const errors: string[] = [];
+          for (const link of links) {
+            try {
+              return await link.service.verifyConnection!();
+            } catch (err) {
+              errors.push(err instanceof Error ? err.message : String(err));
+            }
+          }
+          throw new Error(errors.join('; '));
+        }
+      : undefined,
+  };
+}
+
+/** Connection checks started in this worker, by `verificationKey`. */
+const verifications = new Map<string, Promise<void>>();
+
+/** What a connection check depends on: each provider's model and endpoint. */
+function verificationKey(config: AIProviderConfig): string {
+  const links = [config, ...(config.fallbacks ?? [])].map((c) => [c.provider, c.model, c.baseUrl]);
+  return JSON.stringify([links, config.cassette?.mode, config.cassette?.path]);
+}
+
+/**
+ * Create the service for `config` and check that its provider can be
+ * reached, so a stopped Ollama server or a missing model fails the fixture
+ * setup with a clear message instead of surfacing mid-test.
+ *
+ * A check that passed is not repeated in the same worker for the same
+ * providers, models and endpoints; a failed one is retried next time.
+ */
+export function verifyAIProvider(config: AIProviderConfig): Promise<void> {
+  const key = verificationKey(config);
+  let verification = verifications.get(key);
+  if (!verification) {
+    verification = (async () => {
+      const service = createAIHealingService(config);
+      await service.verifyConnection?.();
+    })();
+    verifications.set(key, verification);
+    verification.catch(() => verifications.delete(key));
+  }
+  return verification;
+}
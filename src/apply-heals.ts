@@ -0,0 +1,230 @@
+/**
+ * Apply Heals — writes healed selectors from JSON reports back into the
+ * spec files that used them.
+ *
+ * Each healing event carries the call site of the failing selector; we look
+ * for the selector's string literal on that line (falling back to a unique
+ * occurrence elsewhere in the file) and replace it with the healed selector,
+ * keeping the original quote style.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { HealingEvent, TestReport } from './types';
+
+/** A single string-literal replacement in a source file. */
+export interface SourceEdit {
+  /** Absolute path of the file being edited. */
+  file: string;
+  /** 1-based line number of the literal. */
+  line: number;
+  originalSelector: string;
+  healedSelector: string;
+}
+
+/** A healing event that could not be turned into an edit. */
+export interface SkippedHeal {
+  event: HealingEvent;
+  reason: string;
+}
+
+/** The edits proposed for a set of healing events, grouped per file. */
+export interface HealPlan {
+  files: Array<{
+    file: string;
+    edits: SourceEdit[];
+    before: string;
+    after: string;
+  }>;
+  skipped: SkippedHeal[];
+}
+
+const QUOTES = ["'", '"', '`'] as const;
+
+/** Render `value` as a string literal using the given quote character. */
+function toLiteral(value: string, quote: (typeof QUOTES)[number]): string {
+  let escaped = value.replace(/\\/g, '\\\\').split(quote).join(`\\${quote}`);
+  if (quote === '`') escaped = escaped.replace(/\$\{/g, '\\${');
+  return `${quote}${escaped}${quote}`;
+}
+
+/**
+ * Collect healing events from every JSON report in `reportDir`.
+ * Files that are not test reports (e.g. the healing cache) are ignored.
+ */
+export function loadHealingEvents(reportDir: string): HealingEvent[] {
+  const events: HealingEvent[] = [];
+  for (const name of fs.readdirSync(reportDir).sort()) {
+    if (!name.endsWith('.json')) continue;
+    let report: Partial<TestReport>;
+    try {
+      report = JSON.parse(fs.readFileSync(path.join(reportDir, name), 'utf-8'));
+    } catch {
+      continue;
+    }
+    if (Array.isArray(report.healingEvents)) events.push(...report.healingEvents);
+  }
+  return events;
+}
+
+/**
+ * Find the literal for `selector` in `lines`, preferring `preferredLine`
+ * (0-based). Returns the line index and matched literal, or a reason.
+ */
+function locateLiteral(
+  lines: string[],
+  selector: string,
+  preferredLine: number,
+): { index: number; literal: string; quote: (typeof QUOTES)[number] } | string {
+  const literals = QUOTES.map((quote) => ({ quote, literal: toLiteral(selector, quote) }));
+
+  const onLine = lines[preferredLine];
+  if (onLine !== undefined) {
+    for (const { quote, literal } of literals) {
+      if (onLine.includes(literal)) return { index: preferredLine, literal, quote };
+    }
+  }
+
+  const hits: Array<{ index: number; literal: string; quote: (typeof QUOTES)[number] }> = [];
+  lines.forEach((text, index) => {
+    for (const { quote, literal } of literals) {
+      if (text.includes(literal)) hits.push({ index, literal, quote });
+    }
+  });
+  if (hits.length === 1) return hits[0];
+  return hits.length === 0
+    ? 'selector literal not found in file'
+    : `selector literal appears ${hits.length} times and is not on the reported line`;
+}
+
+/**
+ * Work out which source edits the given healing events imply, without
+ * touching the file system beyond reading the source files.
+ */
+export function planHeals(events: HealingEvent[]): HealPlan {
+  const skipped: SkippedHeal[] = [];
+  const byFile = new Map<string, HealingEvent[]>();
+
+  for (const event of events) {
+    if (!event.callSite) {
+      skipped.push({ event, reason: 'no call site recorded' });
+    } else if (!fs.existsSync(event.callSite.file)) {
+      skipped.push({ event, reason: `source file not found: ${event.callSite.file}` });
+    } else {
+      const list = byFile.get(event.callSite.file) ?? [];
+      list.push(event);
+      byFile.set(event.callSite.file, list);
+    }
+  }
+
+  const files: HealPlan['files'] = [];
+  for (const [file, fileEvents] of byFile) {
+    const before = fs.readFileSync(file, 'utf-8');
+    // Literals are located in the untouched source; edits go to `lines`.
+    const originalLines = before.split('\n');
+    const lines = [...originalLines];
+    const edits = new Map<string, SourceEdit>();
+
+    for (const event of fileEvents) {
+      const found = locateLiteral(originalLines, event.originalSelector, event.callSite!.line - 1);
+      if (typeof found === 'string') {
+        skipped.push({ event, reason: found });
+        continue;
+      }
+
+      const key = `${found.index}:${event.originalSelector}`;
+      const existing = edits.get(key);
+      if (existing && existing.healedSelector !== event.healedSelector) {
+        skipped.push({
+          event,
+          reason: `conflicts with heal to "${existing.healedSelector}" on line ${existing.line}`,
+        });
+        continue;
+      }
+      if (existing) continue;
+
+      edits.set(key, {
+        file,
+        line: found.index + 1,
+        originalSelector: event.originalSelector,
+        healedSelector: event.healedSelector,
+      });
+      // A replacer function, so `$&` etc. in the selector are not expanded.
+      const literal = toLiteral(event.healedSelector, found.quote);
+      lines[found.index] = lines[found.index].replace(found.literal, () => literal);
+    }
+
+    if (edits.size > 0) {
+      files.push({
+        file,
+        edits: [...edits.values()].sort((a, b) => a.line - b.line),
+        before,
+        after: lines.join('\n'),
+      });
+    }
+  }
+
+  return { files, skipped };
+}
+
+/**
+ * Render a unified diff between two versions of a file. Edits never add or
+ * remove lines, so hunks line up one-to-one.
+ */
+export function renderUnifiedDiff(
+  displayPath: string,
+  before: string,
+  after: string,
+  context = 3,
+): string {
+  const oldLines = before.split('\n');
+  const newLines = after.split('\n');
+  const changed = oldLines
+    .map((line, i) => (line !== newLines[i] ? i : -1))
+    .filter((i) => i >= 0);
+  if (changed.length === 0) return '';
+
+  // Group changed lines whose context windows overlap into hunks.
+  const hunks: Array<[number, number]> = [];
+  for (const i of changed) {
+    const start = Math.max(0, i - context);
+    const end = Math.min(oldLines.length - 1, i + context);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last[1] + 1) last[1] = end;
+    else hunks.push([start, end]);
+  }
+
+  const out = [`--- a/${displayPath}`, `+++ b/${displayPath}`];
+  for (const [start, end] of hunks) {
+    const count = end - start + 1;
+    out.push(`@@ -${start + 1},${count} +${start + 1},${count} @@`);
+    for (let i = start; i <= end; i++) {
+      if (oldLines[i] === newLines[i]) {
+        out.push(` ${oldLines[i]}`);
+      } else {
+        out.push(`-${oldLines[i]}`, `+${newLines[i]}`);
+      }
+    }
+  }
+  return out.join('\n') + '\n';
+}
+
+/** Render the whole plan as a single patch, with paths relative to `cwd`. */
+export function renderPlanDiff(plan: HealPlan, cwd = process.cwd()): string {
+  return plan.files
+    .map((f) =>
+      renderUnifiedDiff(
+        path.relative(cwd, f.file).split(path.sep).join('/'),
+        f.before,
+        f.after,
+      ),
+    )
+    .join('');
+}
+
+/** Write every planned edit to disk. */
+export function applyHealPlan(plan: HealPlan): void {
+  for (const f of plan.files) {
+    fs.writeFileSync(f.file, f.after, 'utf-8');
+  }
+}
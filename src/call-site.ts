@@ -0,0 +1,46 @@
+/**
+ * Call-site capture — finds the first stack frame outside the auditor so
+ * healing events can point back at the spec (or page object) that used the
+ * failing selector.
+ */
+
+import * as path from 'path';
+import { CallSite } from './types';
+
+/** Matches "at fn (file:line:col)" and "at [async] file:line:col" frames. */
+const FRAME_PATTERN = /at (?:async )?(?:.*? \()?(.+?):(\d+):(\d+)\)?$/;
+
+/** Directory holding the auditor's own sources (src/ or dist/). */
+const OWN_DIR = __dirname + path.sep;
+
+function isForeignFrame(file: string): boolean {
+  return (
+    !file.startsWith('node:') &&
+    !file.startsWith(OWN_DIR) &&
+    !file.includes(`${path.sep}node_modules${path.sep}`) &&
+    path.isAbsolute(file)
+  );
+}
+
+/**
+ * Return the location of the first caller outside the auditor, or
+ * `undefined` if none can be found in `stack`.
+ */
+export function captureCallSite(
+  stack: string | undefined = new Error().stack,
+): CallSite | undefined {
+  if (!stack) return undefined;
+
+  for (const raw of stack.split('\n')) {
+    const match = FRAME_PATTERN.exec(raw.trim());
+    if (!match) continue;
+
+    const file = match[1].startsWith('file://')
+      ? decodeURIComponent(match[1].slice('file://'.length))
+      : match[1];
+    if (!isForeignFrame(file)) continue;
+
+    return { file, line: Number(match[2]), column: Number(match[3]) };
+  }
+  return undefined;
+}
@@ -0,0 +1,103 @@
+/**
+ * Cassette — records AI provider responses to a file and replays them, so
+ * healing runs deterministically and offline (e.g. in CI) once recorded.
+ *
+ * Responses are keyed by a hash of the provider, model, kind of call and
+ * prompt. The prompt includes the page snapshot, so a change to the page
+ * under test needs a new recording. Screenshots are left out: their pixels
+ * differ from run to run (animations, font rendering, the caret), so they
+ * would never match.
+ */
+
+import * as crypto from 'crypto';
+import { Cassette, CassetteConfig, CassetteRequest } from './types';
+import { readJsonFile, updateJsonFile } from './json-file';
+
+/** One saved response. */
+interface CassetteEntry {
+  provider: string;
+  model: string;
+  kind: CassetteRequest['kind'];
+  response: unknown;
+  recordedAt: string;
+}
+
+/** On-disk layout of the cassette file. */
+interface CassetteFile {
+  version: 1;
+  entries: Record<string, CassetteEntry>;
+}
+
+const EMPTY_CASSETTE: CassetteFile = { version: 1, entries: {} };
+
+/** Thrown in strict replay when a request has no saved response. */
+export class CassetteMissError extends Error {
+  constructor(
+    /** The hash the request was looked up by. */
+    readonly key: string,
+    readonly filePath: string,
+  ) {
+    super(
+      `No recorded AI response for request ${key} in cassette ${filePath}. ` +
+        'The prompt changed since it was recorded; re-record with mode "record".',
+    );
+    this.name = 'CassetteMissError';
+  }
+}
+
+/** The key `request` is saved under: a SHA-256 of everything sent but screenshots. */
+export function cassetteKey(request: CassetteRequest): string {
+  return crypto
+    .createHash('sha256')
+    .update([request.provider, request.model, request.kind, request.prompt].join('\n'))
+    .digest('hex');
+}
+
+/**
+ * Create a `Cassette` backed by the JSON file at `config.path`.
+ *
+ * The file is read on every call so that responses recorded by other
+ * workers are picked up immediately, and recordings are added under a lock
+ * so that workers recording at once keep each other's.
+ */
+export function createCassette(config: CassetteConfig): Cassette {
+  const filePath = config.path;
+  const strict = config.strict ?? true;
+  const load = (): CassetteFile => {
+    const data = readJsonFile<CassetteFile>(filePath, EMPTY_CASSETTE);
+    return data.entries && typeof data.entries === 'object' ? data : EMPTY_CASSETTE;
+  };
+
+  return {
+    mode: config.mode,
+    filePath,
+
+    async play<T>(request: CassetteRequest, call: () => Promise<T>): Promise<T> {
+      if (config.mode === 'passthrough') return call();
+
+      const key = cassetteKey(request);
+      if (config.mode === 'replay') {
+        const entry = load().entries[key];
+        if (entry) return entry.response as T;
+        if (strict) throw new CassetteMissError(key, filePath);
+        return call();
+      }
+
+      const response = await call();
+      updateJsonFile<CassetteFile>(filePath, EMPTY_CASSETTE, (data) => ({
+        version: 1,
+        entries: {
+          ...(data.entries && typeof data.entries === 'object' ? data.entries : {}),
+          [key]: {
+            provider: request.provider,
+            model: request.model,
+            kind: request.kind,
+            response,
+            recordedAt: new Date().toISOString(),
+          },
+        },
+      }));
+      return response;
+    },
+  };
+}
@@ -0,0 +1,97 @@
+#!/usr/bin/env node
+/**
+ * Command-line entry point.
+ *
+ *   resilient-auditor apply-heals <report-dir> [--dry-run] [--patch <file>]
+ *
+ * `apply-heals` rewrites healed selectors into the spec files recorded in
+ * the JSON reports. `--dry-run` only prints the proposed diff; `--patch`
+ * writes the diff to a file for review instead of editing sources.
+ */
+
+import * as fs from 'fs';
+import {
+  applyHealPlan,
+  loadHealingEvents,
+  planHeals,
+  renderPlanDiff,
+} from './apply-heals';
+
+const USAGE = [
+  'Usage: resilient-auditor apply-heals <report-dir> [--dry-run] [--patch <file>]',
+  '',
+  '  --dry-run       Print the proposed changes without editing any files.',
+  '  --patch <file>  Write the proposed changes as a unified diff to <file>.',
+].join('\n');
+
+/**
+ * Run the CLI with the given arguments (excluding `node` and the script).
+ *
+ * @returns The process exit code.
+ */
+export function runCli(
+  argv: string[],
+  out: (text: string) => void = (t) => process.stdout.write(t),
+  err: (text: string) => void = (t) => process.stderr.write(t),
+): number {
+  const [command, ...rest] = argv;
+  if (command === undefined || command === '--help') {
+    out(USAGE + '\n');
+    return 0;
+  }
+  if (command !== 'apply-heals') {
+    err(`Unknown command: ${command}\n${USAGE}\n`);
+    return 1;
+  }
+
+  let reportDir: string | undefined;
+  let dryRun = false;
+  let patchFile: string | undefined;
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    if (arg === '--dry-run') dryRun = true;
+    else if (arg === '--patch') patchFile = rest[++i];
+    else if (!arg.startsWith('--') && reportDir === undefined) reportDir = arg;
+    else {
+      err(`Unknown argument: ${arg}\n${USAGE}\n`);
+      return 1;
+    }
+  }
+
+  if (!reportDir || (rest.includes('--patch') && !patchFile)) {
+    err(USAGE + '\n');
+    return 1;
+  }
+  if (!fs.existsSync(reportDir)) {
+    err(`Report directory not found: ${reportDir}\n`);
+    return 1;
+  }
+
+  const plan = planHeals(loadHealingEvents(reportDir));
+  const diff = renderPlanDiff(plan);
+  const editCount = plan.files.reduce((n, f) => n + f.edits.length, 0);
+
+  if (dryRun) {
+    out(diff);
+  } else if (patchFile) {
+    fs.writeFileSync(patchFile, diff, 'utf-8');
+    out(`Wrote ${editCount} change(s) to ${patchFile}\n`);
+  } else {
+    applyHealPlan(plan);
+    for (const f of plan.files) {
+      for (const e of f.edits) {
+        out(`${e.file}:${e.line}  ${e.originalSelector} -> ${e.healedSelector}\n`);
+      }
+    }
+    out(`Applied ${editCount} change(s) in ${plan.files.length} file(s)\n`);
+  }
+
+  for (const s of plan.skipped) {
+    err(`Skipped "${s.event.originalSelector}": ${s.reason}\n`);
+  }
+  return 0;
+}
+
+if (require.main === module) {
+  process.exitCode = runCli(process.argv.slice(2));
+}
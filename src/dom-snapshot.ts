@@ -0,0 +1,123 @@
+/**
+ * DOM Snapshot — serialises a document for the AI provider.
+ *
+ * Unlike `page.content()`, the serialisation includes the contents of open
+ * shadow roots (as declarative `<template shadowrootmode="open">` elements),
+ * so suggestions can target elements inside web components. Closed shadow
+ * roots are not reachable from script and stay opaque.
+ *
+ * Elements matching the redaction selectors are serialised with their
+ * content removed and only identifying attributes kept, marked
+ * `data-redacted` for `redactHtml` to count.
+ *
+ * The `serializeDocument` function runs inside the browser and must stay
+ * self-contained (no references to module scope).
+ */
+
+import { LocatorRootLike } from './types';
+
+/**
+ * Browser-side: serialise the document `root` belongs to, removing the
+ * content of elements matching `redact`.
+ */
+function serializeDocument(root: Element, redact: string[] = []): string {
+  const VOID_TAGS = new Set([
+    'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input',
+    'link', 'meta', 'source', 'track', 'wbr',
+  ]);
+  const RAW_TEXT_TAGS = new Set(['SCRIPT', 'STYLE']);
+  const REDACTED_ATTRIBUTES = new Set(['id', 'class', 'name', 'type', 'role', 'data-testid']);
+
+  for (const selector of redact) {
+    try {
+      root.ownerDocument.querySelector(selector);
+    } catch {
+      throw new Error(`Invalid redaction selector "${selector}"`);
+    }
+  }
+
+  const escapeText = (s: string): string =>
+    s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  const escapeAttr = (s: string): string =>
+    s.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+
+  const children = (parent: Node): string =>
+    Array.from(parent.childNodes).map(walk).join('');
+
+  function walk(node: Node): string {
+    if (node.nodeType === Node.TEXT_NODE) {
+      const text = node.textContent ?? '';
+      return RAW_TEXT_TAGS.has(node.parentElement?.tagName ?? '') ? text : escapeText(text);
+    }
+    if (node.nodeType === Node.COMMENT_NODE) return `<!--${(node as Comment).data}-->`;
+    if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+    const el = node as Element;
+    const tag = el.tagName.toLowerCase();
+    const redacted = redact.some((selector) => el.matches(selector));
+    const attrs =
+      Array.from(el.attributes)
+        .filter((a) => !redacted || REDACTED_ATTRIBUTES.has(a.name))
+        .map((a) => ` ${a.name}="${escapeAttr(a.value)}"`)
+        .join('') + (redacted ? ' data-redacted' : '');
+    if (VOID_TAGS.has(tag)) return `<${tag}${attrs}>`;
+    if (redacted) return `<${tag}${attrs}>[REDACTED]</${tag}>`;
+
+    const shadow = el.shadowRoot
+      ? `<template shadowrootmode="open">${children(el.shadowRoot)}</template>`
+      : '';
+    const content = el instanceof HTMLTemplateElement ? children(el.content) : children(el);
+    return `<${tag}${attrs}>${shadow}${content}</${tag}>`;
+  }
+
+  return `<!DOCTYPE html>${walk(root.ownerDocument.documentElement)}`;
+}
+
+/** Anything that can host a snapshot: a page, or a frame locator. */
+export interface SnapshotRoot {
+  locator: LocatorRootLike['locator'];
+  /** `page.content()`, used as a fallback when the document cannot be evaluated. */
+  content?(): Promise<string>;
+}
+
+/**
+ * Serialise the document of `root` (a page, or a frame via its
+ * `FrameLocator`), including open shadow roots, with the content of
+ * elements matching the `redact` selectors removed. Falls back to
+ * `root.content()`, where available, if the document cannot be evaluated
+ * and there is nothing to redact.
+ */
+export async function captureSnapshot(
+  root: SnapshotRoot,
+  timeout: number,
+  redact: string[] = [],
+): Promise<string> {
+  try {
+    const html = await root.locator(':root').evaluate(serializeDocument, redact, { timeout });
+    if (typeof html === 'string') return html;
+  } catch (err) {
+    // `content()` would include the regions that should have been removed.
+    if (!root.content || redact.length > 0) throw err;
+  }
+  if (!root.content || redact.length > 0) throw new Error('Could not capture a DOM snapshot');
+  return root.content();
+}
+
+/**
+ * Take Playwright's ARIA snapshot of the document of `root`: its roles,
+ * accessible names, states and hierarchy, as YAML. Returns `undefined` if
+ * the driver cannot take ARIA snapshots or taking one fails, so healing can
+ * fall back to HTML.
+ */
+export async function captureAriaSnapshot(
+  root: SnapshotRoot,
+  timeout: number,
+): Promise<string | undefined> {
+  const body = root.locator('body');
+  if (!body.ariaSnapshot) return undefined;
+  try {
+    return await body.ariaSnapshot({ timeout });
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,295 @@
+/**
+ * Element Fingerprinting — captures the identifying features of an element
+ * whenever its selector resolves, so that a later failure can be healed by
+ * searching the DOM for the most similar element.
+ *
+ * The `inspectElements` function runs inside the browser and must stay
+ * self-contained (no references to module scope).
+ */
+
+import {
+  ElementCandidate,
+  ElementFingerprint,
+  FingerprintKey,
+  FingerprintStore,
+  LocatorLike,
+  LocatorRootLike,
+} from './types';
+import { readJsonFile, updateJsonFile } from './json-file';
+
+/** Options passed to `inspectElements` in the browser. */
+interface InspectOptions {
+  /** Scan the whole document instead of describing the target element. */
+  scan: boolean;
+  /** When scanning, only keep elements with this tag, role or text. */
+  tag?: string;
+  role?: string | null;
+  text?: string;
+  /**
+   * Also keep the innermost elements whose accessible name shares a word
+   * with this one (used when healing from a semantic intent).
+   */
+  name?: string;
+  /** Maximum number of candidates to return. */
+  limit?: number;
+}
+
+/**
+ * Browser-side: describe `target` (or, with `scan`, every plausible element
+ * in its document) as fingerprints plus a synthesised unique selector.
+ */
+function inspectElements(target: Element, options: InspectOptions): ElementCandidate[] {
+  const doc = target.ownerDocument;
+  const TEST_ID_ATTRS = ['data-testid', 'data-test-id', 'data-test', 'data-qa', 'data-cy'];
+  const KEPT_ATTRS = ['name', 'type', 'placeholder', 'href', 'for', 'aria-label', 'title', 'alt'];
+  // `value` is a button's label, but a form control's content, which may be private.
+  const LABEL_VALUE_TYPES = ['button', 'submit', 'reset'];
+  const IMPLICIT_ROLES: Record<string, string> = {
+    a: 'link', button: 'button', select: 'combobox', textarea: 'textbox',
+    h1: 'heading', h2: 'heading', h3: 'heading', h4: 'heading', h5: 'heading', h6: 'heading',
+    nav: 'navigation', main: 'main', form: 'form', img: 'img', li: 'listitem',
+    ul: 'list', ol: 'list', table: 'table', dialog: 'dialog',
+  };
+  const INPUT_ROLES: Record<string, string> = {
+    checkbox: 'checkbox', radio: 'radio', button: 'button', submit: 'button',
+    reset: 'button', range: 'slider', search: 'searchbox',
+  };
+
+  const clean = (s: string | null | undefined): string =>
+    (s ?? '').replace(/\s+/g, ' ').trim().slice(0, 120);
+
+  const roleOf = (el: Element): string | null => {
+    const explicit = el.getAttribute('role');
+    if (explicit) return explicit.split(' ')[0];
+    const tag = el.tagName.toLowerCase();
+    if (tag === 'input') return INPUT_ROLES[(el.getAttribute('type') ?? 'text').toLowerCase()] ?? 'textbox';
+    if (tag === 'a' && !el.hasAttribute('href')) return null;
+    return IMPLICIT_ROLES[tag] ?? null;
+  };
+
+  const labelsOf = (el: Element): string[] => {
+    const labels = (el as HTMLInputElement).labels;
+    return labels ? Array.from(labels).map((l) => clean(l.textContent)) : [];
+  };
+
+  const nameOf = (el: Element): string => {
+    const labelledBy = el.getAttribute('aria-labelledby');
+    if (labelledBy) {
+      return clean(labelledBy.split(/\s+/).map((id) => doc.getElementById(id)?.textContent ?? '').join(' '));
+    }
+    return clean(
+      el.getAttribute('aria-label') ||
+        labelsOf(el)[0] ||
+        el.getAttribute('alt') ||
+        el.getAttribute('title') ||
+        el.getAttribute('placeholder') ||
+        el.textContent,
+    );
+  };
+
+  const pathOf = (el: Element): string => {
+    const parts: string[] = [];
+    for (let cur: Element | null = el; cur && cur !== doc.documentElement; cur = cur.parentElement) {
+      parts.unshift(cur.tagName.toLowerCase());
+    }
+    return parts.join(' > ');
+  };
+
+  const nearbyOf = (el: Element): string[] => {
+    const found = new Set<string>(labelsOf(el));
+    const prev = el.previousElementSibling;
+    if (prev && clean(prev.textContent)) found.add(clean(prev.textContent));
+    const section = el.closest('fieldset, section, form, [role="dialog"], [role="region"]');
+    const heading = section?.querySelector('legend, h1, h2, h3, h4, h5, h6');
+    if (heading && heading !== el) found.add(clean(heading.textContent));
+    found.delete('');
+    return Array.from(found).slice(0, 5);
+  };
+
+  const isUnique = (selector: string): boolean => {
+    try {
+      return doc.querySelectorAll(selector).length === 1;
+    } catch {
+      return false;
+    }
+  };
+
+  const attrSelector = (tag: string, attr: string, value: string): string =>
+    `${tag}[${attr}="${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"]`;
+
+  const selectorOf = (el: Element): string => {
+    const tag = el.tagName.toLowerCase();
+    for (const attr of TEST_ID_ATTRS) {
+      const value = el.getAttribute(attr);
+      if (value && isUnique(attrSelector('', attr, value))) return attrSelector('', attr, value);
+    }
+    if (el.id && !/\d{3,}/.test(el.id) && isUnique(`#${CSS.escape(el.id)}`)) {
+      return `#${CSS.escape(el.id)}`;
+    }
+    for (const attr of ['name', 'aria-label', 'placeholder', 'href', 'title', 'alt']) {
+      const value = el.getAttribute(attr);
+      if (value && isUnique(attrSelector(tag, attr, value))) return attrSelector(tag, attr, value);
+    }
+    const text = clean(el.textContent);
+    if (text && text.length <= 60 && !text.includes('"')) {
+      const sameText = Array.from(doc.querySelectorAll(tag)).filter((o) => clean(o.textContent) === text);
+      if (sameText.length === 1) return `${tag}:text-is("${text}")`;
+    }
+    // Fall back to a structural path anchored at the nearest ancestor with an id.
+    const parts: string[] = [];
+    for (let cur: Element | null = el; cur && cur !== doc.documentElement; cur = cur.parentElement) {
+      if (cur !== el && cur.id && isUnique(`#${CSS.escape(cur.id)}`)) {
+        parts.unshift(`#${CSS.escape(cur.id)}`);
+        break;
+      }
+      const curTag = cur.tagName.toLowerCase();
+      const siblings = cur.parentElement
+        ? Array.from(cur.parentElement.children).filter((s) => s.tagName === cur!.tagName)
+        : [];
+      parts.unshift(siblings.length > 1 ? `${curTag}:nth-of-type(${siblings.indexOf(cur) + 1})` : curTag);
+    }
+    return parts.join(' > ');
+  };
+
+  const fingerprintOf = (el: Element): ElementFingerprint => {
+    const attributes: Record<string, string> = {};
+    for (const attr of KEPT_ATTRS) {
+      const value = el.getAttribute(attr);
+      if (value !== null) attributes[attr] = value.slice(0, 120);
+    }
+    const tag = el.tagName.toLowerCase();
+    const type = (el.getAttribute('type') ?? '').toLowerCase();
+    const value = el.getAttribute('value');
+    if (value !== null && (tag === 'button' || (tag === 'input' && LABEL_VALUE_TYPES.includes(type)))) {
+      attributes.value = value.slice(0, 120);
+    }
+    const testIdAttr = TEST_ID_ATTRS.find((a) => el.hasAttribute(a));
+    return {
+      tag,
+      id: el.id || null,
+      classes: Array.from(el.classList).slice(0, 10),
+      testId: testIdAttr ? el.getAttribute(testIdAttr) : null,
+      role: roleOf(el),
+      accessibleName: nameOf(el),
+      text: clean(el.textContent),
+      domPath: pathOf(el),
+      nearbyLabels: nearbyOf(el),
+      attributes,
+    };
+  };
+
+  if (!options.scan) {
+    return [{ fingerprint: fingerprintOf(target), selector: selectorOf(target) }];
+  }
+
+  const wantedText = (options.text ?? '').toLowerCase();
+  const words = (s: string): string[] => s.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+  const wantedWords = words(options.name ?? '');
+  const sharesNameWord = (el: Element): boolean => {
+    if (wantedWords.length === 0) return false;
+    // Skip wrappers whose text is entirely that of one child.
+    const text = clean(el.textContent);
+    if (Array.from(el.children).some((c) => clean(c.textContent) === text)) return false;
+    const nameWords = words(nameOf(el));
+    return wantedWords.some((w) => nameWords.includes(w));
+  };
+  const candidates: ElementCandidate[] = [];
+  for (const el of Array.from(doc.querySelectorAll('body *'))) {
+    if (candidates.length >= (options.limit ?? 500)) break;
+    const tag = el.tagName.toLowerCase();
+    if (['script', 'style', 'noscript', 'template', 'svg', 'path'].includes(tag)) continue;
+    const matches =
+      tag === options.tag ||
+      (options.role != null && roleOf(el) === options.role) ||
+      (wantedText !== '' && clean(el.textContent).toLowerCase() === wantedText) ||
+      sharesNameWord(el);
+    if (matches) candidates.push({ fingerprint: fingerprintOf(el), selector: selectorOf(el) });
+  }
+  return candidates;
+}
+
+/**
+ * Capture the fingerprint of the element `locator` resolves to.
+ * Returns `undefined` if the element cannot be inspected.
+ */
+export async function captureFingerprint(
+  locator: LocatorLike,
+): Promise<ElementFingerprint | undefined> {
+  try {
+    const [described] = await locator.first().evaluate(inspectElements, { scan: false });
+    return described?.fingerprint;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Collect elements in `page` that could be the fingerprinted element:
+ * those sharing its tag, role or exact text — and, with `matchName`, a word
+ * of its accessible name.
+ */
+export async function collectCandidates(
+  page: Pick<LocatorRootLike, 'locator'>,
+  fingerprint: ElementFingerprint,
+  limit = 500,
+  matchName = false,
+): Promise<ElementCandidate[]> {
+  return page.locator(':root').evaluate(inspectElements, {
+    scan: true,
+    tag: fingerprint.tag,
+    role: fingerprint.role,
+    text: fingerprint.text,
+    name: matchName ? fingerprint.accessibleName : undefined,
+    limit,
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Persistence
+// ---------------------------------------------------------------------------
+
+/** On-disk layout of the fingerprint file. */
+interface FingerprintFile {
+  version: 1;
+  entries: Array<FingerprintKey & { fingerprint: ElementFingerprint; capturedAt: string }>;
+}
+
+const EMPTY_FILE: FingerprintFile = { version: 1, entries: [] };
+
+function sameKey(a: FingerprintKey, b: FingerprintKey): boolean {
+  return a.selector === b.selector && a.urlPattern === b.urlPattern;
+}
+
+/**
+ * Create a `FingerprintStore` backed by the JSON file at `filePath`.
+ * Saving an unchanged fingerprint does not touch the file; other saves are
+ * made under a lock, so workers sharing the file keep each other's entries.
+ */
+export function createFingerprintStore(filePath: string): FingerprintStore {
+  const load = (): FingerprintFile => {
+    const data = readJsonFile<FingerprintFile>(filePath, EMPTY_FILE);
+    return Array.isArray(data.entries) ? data : { ...EMPTY_FILE, entries: [] };
+  };
+
+  return {
+    filePath,
+
+    get(key) {
+      return load().entries.find((e) => sameKey(e, key))?.fingerprint;
+    },
+
+    save(key, fingerprint) {
+      const existing = load().entries.find((e) => sameKey(e, key));
+      if (existing && JSON.stringify(existing.fingerprint) === JSON.stringify(fingerprint)) {
+        return;
+      }
+      updateJsonFile<FingerprintFile>(filePath, EMPTY_FILE, (data) => ({
+        version: 1,
+        entries: [
+          ...(Array.isArray(data.entries) ? data.entries : []).filter((e) => !sameKey(e, key)),
+          { ...key, fingerprint, capturedAt: new Date().toISOString() },
+        ],
+      }));
+    },
+  };
+}
@@ -0,0 +1,66 @@
+/**
+ * Failure Classifier — works out *why* a locator action failed, so that a
+ * disabled button or a covering overlay is not misdiagnosed as a broken
+ * selector and sent off for healing.
+ *
+ * Classification is based on Playwright's error messages and call logs.
+ */
+
+import { FailureClass } from './types';
+
+/** The phase in which a failure happened. */
+export type FailurePhase = 'resolve' | 'action';
+
+/**
+ * Resolve-phase failures that mean no element turned up in time. A closed
+ * page or a detached frame also fails `waitFor`, but is no selector problem.
+ */
+const NOT_FOUND_PATTERN = /\btimeout\b|timed out/i;
+
+/** Ordered matchers for action-phase failures; the first hit wins. */
+const ACTION_PATTERNS: Array<[RegExp, FailureClass]> = [
+  [/strict mode violation/i, 'not-unique'],
+  [/intercepts pointer events/i, 'intercepted'],
+  [/not enabled|not editable|element is disabled/i, 'not-enabled'],
+  [/not visible|outside of the viewport/i, 'not-visible'],
+  [/cannot type|malformed value|is not an <input>|cannot fill|not a checkbox|did not change its state/i, 'invalid-value'],
+  [/not attached to the dom|element was detached/i, 'not-attached'],
+  [/timeout \d+ms exceeded/i, 'action-timeout'],
+];
+
+/** Human-readable description of each failure class. */
+const DESCRIPTIONS: Record<FailureClass, string> = {
+  'not-attached': 'no element matched the selector',
+  'not-unique': 'the selector matched more than one element (strict mode violation)',
+  'not-visible': 'the element is not visible',
+  'not-enabled': 'the element is not enabled or not editable',
+  intercepted: 'another element intercepts pointer events',
+  'invalid-value': 'the element rejected the value',
+  'action-timeout': 'the action timed out',
+  unknown: 'the action failed',
+};
+
+/**
+ * Classify an error thrown while resolving a locator (`resolve`, i.e. the
+ * initial `waitFor`) or while performing the action on it (`action`).
+ */
+export function classifyFailure(err: unknown, phase: FailurePhase): FailureClass {
+  const message = err instanceof Error ? err.message : String(err);
+
+  if (phase === 'resolve') {
+    if (/strict mode violation/i.test(message)) return 'not-unique';
+    const timedOut =
+      (err instanceof Error && err.name === 'TimeoutError') ||
+      NOT_FOUND_PATTERN.test(message.split('\n')[0]);
+    return timedOut ? 'not-attached' : 'unknown';
+  }
+  for (const [pattern, failureClass] of ACTION_PATTERNS) {
+    if (pattern.test(message)) return failureClass;
+  }
+  return 'unknown';
+}
+
+/** Describe a failure class in plain words. */
+export function describeFailure(failureClass: FailureClass): string {
+  return DESCRIPTIONS[failureClass];
+}
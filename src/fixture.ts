@@ -1,6 +1,7 @@
 /**
- * Custom Playwright fixture that provides a `resilientPage` object
- * with self-healing selectors and automatic accessibility scanning.
+ * Custom Playwright fixtures that provide a `resilientPage` object
+ * with self-healing selectors and automatic accessibility scanning, and a
+ * `resilientContext` that extends both to popups and new tabs.
  *
  * Usage in test files:
  *
@@ -13,8 +14,15 @@
  */
 
 import { test as base } from '@playwright/test';
+import type { Page } from '@playwright/test';
 import { ResilientPage } from './resilient-page';
-import { buildReport, outputReport } from './reporter';
+import { ResilientContext } from './resilient-context';
+import { verifyAIProvider } from './ai-healing-service';
+import {
+  buildReport,
+  buildHealingAnnotations,
+  outputReport,
+} from './reporter';
 import { ResilientAuditorConfig, DEFAULT_CONFIG } from './types';
 
 // Re-export expect so consumers only need one import.
@@ -22,12 +30,14 @@ export { expect } from '@playwright/test';
 
 /** Declare the extra fixtures we provide. */
 type ResilientFixtures = {
-  resilientPage: ResilientPage;
+  resilientPage: ResilientPage<Page>;
+  resilientContext: ResilientContext;
   auditorConfig: Partial<ResilientAuditorConfig>;
 };
 
 /**
- * Extended `test` object that provides the `resilientPage` fixture.
+ * Extended `test` object that provides the `resilientPage` and
+ * `resilientContext` fixtures. The report covers every page in the context.
  *
  * Override `auditorConfig` in `test.use({})` to customize behaviour
  * per test file or per project.
@@ -36,19 +46,26 @@ export const test = base.extend<ResilientFixtures>({
   // Default config — tests can override via test.use({ auditorConfig: {...} })
   auditorConfig: [{}, { option: true }],
 
-  resilientPage: async ({ page, auditorConfig }, use, testInfo) => {
-    const config: Partial<ResilientAuditorConfig> = { ...auditorConfig };
+  resilientContext: async ({ context, auditorConfig }, use, testInfo) => {
+    const config: Partial<ResilientAuditorConfig> = {
+      testTitle: testInfo.titlePath.slice(1).join(' › '),
+      ...auditorConfig,
+    };
 
     // Resolve merged config for reporter settings.
     const reporterMode =
       config.reporterMode ?? DEFAULT_CONFIG.reporterMode;
     const reportDir = config.reportDir ?? DEFAULT_CONFIG.reportDir;
 
+    // Fail setup, not the first healing attempt, when a local model
+    // server is down or the model isn't available. Checked once per worker.
+    if (config.ai) await verifyAIProvider(config.ai);
+
     const startTime = Date.now();
-    const resilientPage = new ResilientPage(page, config);
+    const resilientContext = new ResilientContext(context, config);
 
     // Hand the fixture to the test.
-    await use(resilientPage);
+    await use(resilientContext);
 
     // After the test finishes — produce the report.
     const durationMs = Date.now() - startTime;
@@ -57,11 +74,23 @@ export const test = base.extend<ResilientFixtures>({
     const report = buildReport(
       testInfo.title,
       passed,
-      resilientPage.healingEvents,
-      resilientPage.a11yViolations,
+      resilientContext.healingEvents,
+      resilientContext.a11yViolations,
       durationMs,
+      resilientContext.selectorRejections,
+      resilientContext.selectorFailures,
+      resilientContext.aiCalls,
+    );
+
+    // Flag warn/suggest-mode healing on the test so CI can act on it.
+    testInfo.annotations.push(
+      ...buildHealingAnnotations(resilientContext.healingEvents),
     );
 
     outputReport(report, reporterMode, reportDir);
   },
+
+  resilientPage: async ({ page, resilientContext }, use) => {
+    await use(resilientContext.pageFor(page));
+  },
 });
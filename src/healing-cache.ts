@@ -0,0 +1,117 @@
+/**
+ * Healing Cache — persists healed selectors across runs so that known drift
+ * is repaired without another AI round-trip.
+ *
+ * Entries are keyed by original selector + URL pattern + action and stored
+ * in a single JSON file (by default `<reportDir>/healing-cache.json`).
+ */
+
+import {
+  HealingCache,
+  HealingCacheEntry,
+  HealingCacheKey,
+} from './types';
+import { readJsonFile, updateJsonFile } from './json-file';
+
+/** On-disk layout of the cache file. */
+interface HealingCacheFile {
+  version: 1;
+  entries: HealingCacheEntry[];
+}
+
+const EMPTY_CACHE: HealingCacheFile = { version: 1, entries: [] };
+
+/** Path segments that look like IDs and should not split cache entries. */
+const VOLATILE_SEGMENT =
+  /^(\d+|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|(?=[0-9a-f]*\d)[0-9a-f]{16,})$/i;
+
+/**
+ * Reduce a page URL to a pattern shared by structurally identical pages:
+ * query string and hash are dropped, and ID-like path segments (numbers,
+ * UUIDs, long hex strings) are replaced with `*`.
+ *
+ * Non-URL inputs (e.g. `about:blank`) are returned unchanged.
+ */
+export function toUrlPattern(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return url;
+  }
+  if (parsed.origin === 'null') return url;
+
+  const pathname = parsed.pathname
+    .split('/')
+    .map((segment) => (VOLATILE_SEGMENT.test(segment) ? '*' : segment))
+    .join('/');
+  return `${parsed.origin}${pathname}`;
+}
+
+function matches(entry: HealingCacheEntry, key: HealingCacheKey): boolean {
+  return (
+    entry.originalSelector === key.originalSelector &&
+    entry.urlPattern === key.urlPattern &&
+    entry.action === key.action
+  );
+}
+
+/**
+ * Create a `HealingCache` backed by the JSON file at `filePath`.
+ *
+ * The file is read on every call so that entries written by other workers
+ * (or earlier runs) are picked up immediately, and updated under a lock so
+ * that concurrent workers do not drop each other's entries.
+ */
+export function createHealingCache(filePath: string): HealingCache {
+  const load = (): HealingCacheFile => {
+    const data = readJsonFile<HealingCacheFile>(filePath, EMPTY_CACHE);
+    return Array.isArray(data.entries) ? data : { ...EMPTY_CACHE, entries: [] };
+  };
+
+  /** Apply `mutate` to the entries under the file's lock, keeping other workers' changes. */
+  const update = (mutate: (entries: HealingCacheEntry[]) => HealingCacheEntry[]): void => {
+    updateJsonFile<HealingCacheFile>(filePath, EMPTY_CACHE, (data) => ({
+      version: 1,
+      entries: mutate(Array.isArray(data.entries) ? data.entries : []),
+    }));
+  };
+
+  return {
+    filePath,
+
+    lookup(key) {
+      return load().entries.find((e) => matches(e, key));
+    },
+
+    store(key, healedSelector, aiProvider) {
+      const now = new Date().toISOString();
+      update((entries) => [
+        ...entries.filter((e) => !matches(e, key)),
+        {
+          ...key,
+          healedSelector,
+          aiProvider,
+          hitCount: 0,
+          createdAt: now,
+          lastVerifiedAt: now,
+        },
+      ]);
+    },
+
+    recordHit(key) {
+      const now = new Date().toISOString();
+      update((entries) =>
+        entries.map((e) =>
+          matches(e, key)
+            ? { ...e, hitCount: e.hitCount + 1, lastVerifiedAt: now }
+            : e,
+        ),
+      );
+    },
+
+    invalidate(key) {
+      update((entries) => entries.filter((e) => !matches(e, key)));
+    },
+  };
+}
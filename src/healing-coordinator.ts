@@ -0,0 +1,140 @@
+/**
+ * Healing Coordinator — dedupes identical healings across Playwright
+ * workers, so that when a shared page object breaks, one worker asks the AI
+ * and the others reuse its answer.
+ *
+ * Workers coordinate through files in a shared directory: a lock file
+ * (created exclusively) claims a healing while it runs, and a result file
+ * publishes the healed selector before the lock is removed. The holder
+ * refreshes the lock's modification time while it heals, however many AI
+ * requests that takes. A lock whose worker has exited, or that has not been
+ * refreshed for `staleLockMs` — by default as long as one AI request may
+ * take — is taken over, so a worker that crashed while healing holds up the
+ * others no longer than that. A worker only ever removes its own lock.
+ * Any file-system error makes the claim `unavailable`, and the worker heals
+ * on its own as it would without coordination.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  HealingCacheKey,
+  HealingClaim,
+  HealingCoordinator,
+  HealingCoordinatorConfig,
+  SharedHealing,
+} from './types';
+import {
+  breakStaleLock,
+  readJsonFile,
+  refreshLockFile,
+  releaseLockFile,
+  tryLockFile,
+  writeJsonFile,
+} from './json-file';
+
+/** The default AI request timeout of hosted providers. */
+const DEFAULT_STALE_LOCK_MS = 60_000;
+const DEFAULT_RESULT_TTL_MS = 300_000;
+const DEFAULT_POLL_INTERVAL_MS = 100;
+
+/** File name stem shared by the lock and result files of `key`. */
+function fileStem(key: HealingCacheKey): string {
+  return crypto
+    .createHash('sha256')
+    .update([key.originalSelector, key.urlPattern, key.action].join('\n'))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/** Create a `HealingCoordinator` sharing files in `config.dir`. */
+export function createHealingCoordinator(
+  config: HealingCoordinatorConfig & { dir: string },
+): HealingCoordinator {
+  const { dir } = config;
+  const staleLockMs = config.staleLockMs ?? DEFAULT_STALE_LOCK_MS;
+  // Waiting longer than a lock may be held would only wait for a crashed worker.
+  const waitTimeoutMs = config.waitTimeoutMs ?? staleLockMs;
+  const resultTtlMs = config.resultTtlMs ?? DEFAULT_RESULT_TTL_MS;
+  const pollIntervalMs = config.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+
+  const lockPath = (key: HealingCacheKey) => path.join(dir, `${fileStem(key)}.lock`);
+  const resultPath = (key: HealingCacheKey) => path.join(dir, `${fileStem(key)}.json`);
+  /** Locks this coordinator holds, by path: their token and refresh timer. */
+  const held = new Map<string, { token: string; refresh: NodeJS.Timeout }>();
+
+  /** Keep the lock at `file` fresh until released, or until it was taken over. */
+  const hold = (file: string, token: string): void => {
+    const refresh = setInterval(() => {
+      try {
+        if (!refreshLockFile(file, token)) clearInterval(refresh);
+      } catch {
+        // Retried at the next tick.
+      }
+    }, staleLockMs / 3);
+    refresh.unref();
+    held.set(file, { token, refresh });
+  };
+
+  /** The result published for `key`, if it is recent enough to reuse. */
+  const freshResult = (key: HealingCacheKey): SharedHealing | undefined => {
+    const result = readJsonFile<SharedHealing | undefined>(resultPath(key), undefined);
+    if (!result?.healedSelector) return undefined;
+    const age = Date.now() - Date.parse(result.healedAt);
+    return age >= 0 && age <= resultTtlMs ? result : undefined;
+  };
+
+  return {
+    dir,
+
+    async claim(key): Promise<HealingClaim> {
+      const deadline = Date.now() + waitTimeoutMs;
+      try {
+        fs.mkdirSync(dir, { recursive: true });
+        for (;;) {
+          const result = freshResult(key);
+          if (result) return { status: 'shared', result };
+          const token = tryLockFile(lockPath(key));
+          if (token) {
+            hold(lockPath(key), token);
+            return { status: 'claimed' };
+          }
+          if (breakStaleLock(lockPath(key), staleLockMs)) continue;
+          if (Date.now() >= deadline) {
+            return {
+              status: 'unavailable',
+              reason: `timed out after ${waitTimeoutMs} ms waiting for another worker`,
+            };
+          }
+          await sleep(pollIntervalMs);
+        }
+      } catch (err) {
+        return { status: 'unavailable', reason: err instanceof Error ? err.message : String(err) };
+      }
+    },
+
+    release(key, result) {
+      const lock = held.get(lockPath(key));
+      if (lock) clearInterval(lock.refresh);
+      held.delete(lockPath(key));
+      // Publish before unlocking, so waiting workers never miss the result.
+      // On failure they heal on their own once the lock is gone or stale.
+      try {
+        if (result) {
+          writeJsonFile(resultPath(key), { ...result, healedAt: new Date().toISOString() });
+        }
+      } catch {
+        // Unpublished; see above.
+      }
+      // A lock taken over meanwhile is another worker's now.
+      try {
+        if (lock) releaseLockFile(lockPath(key), lock.token);
+      } catch {
+        // Left for `staleLockMs` to clear.
+      }
+    },
+  };
+}
@@ -0,0 +1,70 @@
+/**
+ * Healing Reporter — a Playwright reporter that fails the run when any test
+ * healed a selector in `warn` mode.
+ *
+ * Add it next to your usual reporter in playwright.config.ts:
+ *
+ *   reporter: [['list'], ['resilient-auditor/dist/healing-reporter']],
+ *
+ * Pass `{ failOnWarning: false }` as reporter options to only print the
+ * summary without changing the exit code.
+ */
+
+import type {
+  FullResult,
+  Reporter,
+  TestCase,
+  TestResult,
+} from '@playwright/test/reporter';
+import {
+  HEALING_SUGGESTION_ANNOTATION,
+  HEALING_WARNING_ANNOTATION,
+} from './reporter';
+
+export interface HealingReporterOptions {
+  /** Turn a passing run into a failed one if any warnings were recorded. Defaults to true. */
+  failOnWarning?: boolean;
+}
+
+export default class HealingReporter implements Reporter {
+  private readonly failOnWarning: boolean;
+  private readonly warnings: string[] = [];
+  private readonly suggestions: string[] = [];
+
+  constructor(options: HealingReporterOptions = {}) {
+    this.failOnWarning = options.failOnWarning ?? true;
+  }
+
+  onTestEnd(test: TestCase, result: TestResult): void {
+    const annotations = result.annotations ?? test.annotations;
+    for (const a of annotations) {
+      const line = `${test.title}: ${a.description ?? ''}`;
+      if (a.type === HEALING_WARNING_ANNOTATION) this.warnings.push(line);
+      if (a.type === HEALING_SUGGESTION_ANNOTATION) this.suggestions.push(line);
+    }
+  }
+
+  async onEnd(
+    result: FullResult,
+  ): Promise<{ status: FullResult['status'] } | undefined> {
+    if (this.warnings.length === 0 && this.suggestions.length === 0) {
+      return undefined;
+    }
+
+    const lines = ['', 'Resilient Auditor — healed selectors need attention:'];
+    for (const w of this.warnings) lines.push(`  [warn]    ${w}`);
+    for (const s of this.suggestions) lines.push(`  [suggest] ${s}`);
+    lines.push('');
+    // eslint-disable-next-line no-console
+    console.log(lines.join('\n'));
+
+    if (this.failOnWarning && this.warnings.length > 0 && result.status === 'passed') {
+      return { status: 'failed' };
+    }
+    return undefined;
+  }
+
+  printsToStdio(): boolean {
+    return false;
+  }
+}
@@ -0,0 +1,180 @@
+/**
+ * Heuristic Healer — deterministic, offline selector healing.
+ *
+ * Compares the stored fingerprint of the element a selector used to match
+ * against every plausible element on the current page, and returns the
+ * synthesised selector of the most similar one.
+ */
+
+import {
+  ElementCandidate,
+  ElementFingerprint,
+  LocatorRootLike,
+  SemanticIntent,
+} from './types';
+import { collectCandidates } from './element-fingerprint';
+
+/** Minimum similarity (0–1) for a candidate to be accepted. */
+export const DEFAULT_MIN_SCORE = 0.6;
+
+/** Required lead of the best candidate over the runner-up. */
+const AMBIGUITY_MARGIN = 0.05;
+
+/** Relative importance of each fingerprint feature. */
+const WEIGHTS = {
+  testId: 3,
+  accessibleName: 2.5,
+  id: 2,
+  text: 2,
+  role: 1.5,
+  attributes: 1.5,
+  tag: 1,
+  classes: 1,
+  domPath: 1,
+  nearbyLabels: 1,
+} as const;
+
+function tokens(s: string): string[] {
+  return s.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+/** Dice coefficient over word tokens; 1 for identical strings. */
+export function textSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const ta = new Set(tokens(a));
+  const tb = new Set(tokens(b));
+  if (ta.size === 0 || tb.size === 0) return 0;
+  let shared = 0;
+  for (const t of ta) if (tb.has(t)) shared++;
+  return (2 * shared) / (ta.size + tb.size);
+}
+
+function setSimilarity(a: string[], b: string[]): number {
+  if (a.length === 0 && b.length === 0) return 1;
+  const sb = new Set(b);
+  const shared = a.filter((x) => sb.has(x)).length;
+  return shared / new Set([...a, ...b]).size;
+}
+
+/** Similarity of two DOM paths, comparing segments from the element upward. */
+function pathSimilarity(a: string, b: string): number {
+  const pa = a.split(' > ').reverse();
+  const pb = b.split(' > ').reverse();
+  const len = Math.max(pa.length, pb.length);
+  let same = 0;
+  for (let i = 0; i < len; i++) if (pa[i] === pb[i]) same++;
+  return same / len;
+}
+
+/**
+ * Score how likely `candidate` is the element described by `expected`,
+ * from 0 (nothing in common) to 1 (identical). Features absent from the
+ * expected fingerprint do not count either way.
+ */
+export function scoreFingerprint(
+  expected: ElementFingerprint,
+  candidate: ElementFingerprint,
+): number {
+  let total = 0;
+  let weight = 0;
+  const add = (w: number, similarity: number) => {
+    total += w * similarity;
+    weight += w;
+  };
+
+  if (expected.tag) add(WEIGHTS.tag, expected.tag === candidate.tag ? 1 : 0);
+  if (expected.testId) add(WEIGHTS.testId, expected.testId === candidate.testId ? 1 : 0);
+  if (expected.id) add(WEIGHTS.id, expected.id === candidate.id ? 1 : 0);
+  if (expected.role) add(WEIGHTS.role, expected.role === candidate.role ? 1 : 0);
+  if (expected.accessibleName) {
+    add(WEIGHTS.accessibleName, textSimilarity(expected.accessibleName, candidate.accessibleName));
+  }
+  if (expected.text) add(WEIGHTS.text, textSimilarity(expected.text, candidate.text));
+  if (expected.classes.length > 0) {
+    add(WEIGHTS.classes, setSimilarity(expected.classes, candidate.classes));
+  }
+  if (expected.domPath) add(WEIGHTS.domPath, pathSimilarity(expected.domPath, candidate.domPath));
+  if (expected.nearbyLabels.length > 0) {
+    add(WEIGHTS.nearbyLabels, setSimilarity(expected.nearbyLabels, candidate.nearbyLabels));
+  }
+  const attrNames = Object.keys(expected.attributes);
+  if (attrNames.length > 0) {
+    const same = attrNames.filter((n) => expected.attributes[n] === candidate.attributes[n]).length;
+    add(WEIGHTS.attributes, same / attrNames.length);
+  }
+
+  return weight === 0 ? 0 : total / weight;
+}
+
+/**
+ * Build the partial fingerprint a semantic locator describes, e.g. role
+ * `button` with accessible name "Save" for `getByRole('button', { name: 'Save' })`.
+ * Features the intent says nothing about are left empty.
+ */
+export function fingerprintFromIntent(intent: SemanticIntent): ElementFingerprint {
+  const text = intent.text ?? '';
+  const fingerprint: ElementFingerprint = {
+    tag: '',
+    id: null,
+    classes: [],
+    testId: null,
+    role: null,
+    accessibleName: '',
+    text: '',
+    domPath: '',
+    nearbyLabels: [],
+    attributes: {},
+  };
+  switch (intent.method) {
+    case 'getByRole':
+      return { ...fingerprint, role: intent.role ?? null, accessibleName: text };
+    case 'getByLabel':
+      return { ...fingerprint, accessibleName: text, nearbyLabels: text ? [text] : [] };
+    case 'getByPlaceholder':
+      return { ...fingerprint, accessibleName: text, attributes: { placeholder: text } };
+    case 'getByAltText':
+      return { ...fingerprint, accessibleName: text, attributes: { alt: text } };
+    case 'getByTitle':
+      return { ...fingerprint, accessibleName: text, attributes: { title: text } };
+    case 'getByTestId':
+      return { ...fingerprint, testId: text };
+    default:
+      return { ...fingerprint, accessibleName: text, text };
+  }
+}
+
+/**
+ * Pick the candidate most similar to `expected`. Returns `undefined` when
+ * nothing reaches `minScore`, or when the top two are too close to call.
+ */
+export function findBestMatch(
+  expected: ElementFingerprint,
+  candidates: ElementCandidate[],
+  minScore = DEFAULT_MIN_SCORE,
+): { candidate: ElementCandidate; score: number } | undefined {
+  const ranked = candidates
+    .map((candidate) => ({ candidate, score: scoreFingerprint(expected, candidate.fingerprint) }))
+    .sort((a, b) => b.score - a.score);
+
+  const [best, runnerUp] = ranked;
+  if (!best || best.score < minScore) return undefined;
+  if (runnerUp && best.score - runnerUp.score < AMBIGUITY_MARGIN) return undefined;
+  return best;
+}
+
+/**
+ * Search `page` for the element best matching `fingerprint` and return its
+ * synthesised selector with the similarity score. Pass `matchName` for
+ * partial fingerprints (see `fingerprintFromIntent`) so that elements whose
+ * name has drifted are still considered.
+ */
+export async function healWithFingerprint(
+  page: Pick<LocatorRootLike, 'locator'>,
+  fingerprint: ElementFingerprint,
+  minScore = DEFAULT_MIN_SCORE,
+  matchName = false,
+): Promise<{ selector: string; score: number } | undefined> {
+  const candidates = await collectCandidates(page, fingerprint, 500, matchName);
+  const match = findBestMatch(fingerprint, candidates, minScore);
+  return match && { selector: match.candidate.selector, score: match.score };
+}
@@ -4,9 +4,78 @@
 
 export { test, expect } from './fixture';
 export { ResilientPage } from './resilient-page';
-export { createAIHealingService } from './ai-healing-service';
-export { runAccessibilityScan } from './accessibility-scanner';
-export { buildReport, outputReport } from './reporter';
+export { createResilientPage } from './standalone';
+export { ResilientLocator } from './resilient-locator';
+export type { ResilientFilterOptions } from './resilient-locator';
+export { ResilientFrame } from './resilient-frame';
+export { ResilientContext } from './resilient-context';
+export { LocatorScope } from './locator-scope';
+export { captureAriaSnapshot, captureSnapshot } from './dom-snapshot';
+export type { SnapshotRoot } from './dom-snapshot';
+export { buildSnapshot, estimateTokens, trimAriaSnapshot } from './snapshot-builder';
+export { captureScreenshot, createScreenshotStore } from './screenshots';
+export {
+  DEFAULT_REDACTION_PATTERNS,
+  addRedactionStats,
+  redactAriaSnapshot,
+  redactHealingContext,
+  redactHealingTarget,
+  redactHtml,
+  redactText,
+} from './redaction';
+export type { ScreenshotTarget } from './screenshots';
+export {
+  createAIHealingService,
+  parseCandidates,
+  resetCircuitBreakers,
+  verifyAIProvider,
+} from './ai-healing-service';
+export { AIBudgetExhaustedError, resetAIBudget } from './ai-budget';
+export { CassetteMissError, cassetteKey, createCassette } from './cassette';
+export { axeRunOptions, createAxeScanner, runAccessibilityScan } from './accessibility-scanner';
+export {
+  buildReport,
+  outputReport,
+  buildHealingAnnotations,
+  HEALING_WARNING_ANNOTATION,
+  HEALING_SUGGESTION_ANNOTATION,
+} from './reporter';
+export { default as HealingReporter } from './healing-reporter';
+export type { HealingReporterOptions } from './healing-reporter';
+export { createHealingCache, toUrlPattern } from './healing-cache';
+export { createHealingCoordinator } from './healing-coordinator';
+export {
+  captureFingerprint,
+  collectCandidates,
+  createFingerprintStore,
+} from './element-fingerprint';
+export {
+  scoreFingerprint,
+  findBestMatch,
+  healWithFingerprint,
+  fingerprintFromIntent,
+} from './heuristic-healer';
+export {
+  isOverlyGeneric,
+  compareFingerprints,
+  validateSuggestion,
+} from './selector-validator';
+export type { ValidationResult } from './selector-validator';
+export {
+  InvalidSelectorError,
+  findSelectorError,
+  normalizeSelector,
+} from './selector-normalizer';
+export { classifyFailure, describeFailure } from './failure-classifier';
+export type { FailurePhase } from './failure-classifier';
+export {
+  loadHealingEvents,
+  planHeals,
+  renderUnifiedDiff,
+  renderPlanDiff,
+  applyHealPlan,
+} from './apply-heals';
+export type { SourceEdit, SkippedHeal, HealPlan } from './apply-heals';
 
 export type {
   A11ySeverity,
@@ -16,6 +85,70 @@ export type {
   AIProviderConfig,
   ResilientAuditorConfig,
   AIHealingService,
+  SelectorCandidate,
+  SelectorSuggestions,
+  SemanticIntent,
+  HealingSource,
+  HealingMode,
+  RejectionReason,
+  SelectorRejection,
+  FailureClass,
+  SelectorFailure,
+  CallSite,
+  HealingCacheConfig,
+  CircuitBreakerConfig,
+  AIUsage,
+  AICallRecord,
+  AIUsageTotals,
+  ModelPricing,
+  AIBudget,
+  AIBudgetLedger,
+  Cassette,
+  CassetteConfig,
+  CassetteMode,
+  CassetteRequest,
+  PromptTemplate,
+  PromptTemplateInput,
+  PromptSections,
+  HealingContext,
+  InputValueType,
+  RejectedSuggestion,
+  HealingCacheKey,
+  HealingCacheEntry,
+  HealingCache,
+  HeuristicHealingConfig,
+  HealingCoordinatorConfig,
+  HealingCoordinator,
+  HealingClaim,
+  SharedHealing,
+  ElementFingerprint,
+  ElementCandidate,
+  SnapshotOptions,
+  SnapshotFocus,
+  SnapshotMode,
+  SnapshotModeStats,
+  VisionConfig,
+  HealingScreenshots,
+  PageCaptures,
+  RedactionConfig,
+  RedactionStats,
+  FingerprintKey,
+  FingerprintStore,
+  ScreenshotStore,
+  DriverOptions,
+  ByRoleOptions,
+  ByTextOptions,
+  LocatorFilterLike,
+  SelectOptionValues,
+  InputFiles,
+  LocatorRootLike,
+  FrameLocatorLike,
+  PageLike,
+  LocatorLike,
+  A11yScanOptions,
+  A11yScanner,
+  ActionOptions,
+  ScannedViolation,
 } from './types';
 
 export { REPORTABLE_SEVERITIES, DEFAULT_CONFIG } from './types';
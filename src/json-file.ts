@@ -0,0 +1,152 @@
+/**
+ * JSON file helpers shared by the on-disk stores (healing cache, etc.).
+ *
+ * Files are written atomically, so readers never see a partial file, and
+ * updated under a lock file, so that several Playwright workers sharing a
+ * store do not overwrite each other's changes.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/** Age after which a lock taken by `updateJsonFile` is considered abandoned. */
+const UPDATE_STALE_LOCK_MS = 10_000;
+const UPDATE_POLL_INTERVAL_MS = 10;
+
+/** Contents of a lock file: who holds it. */
+interface LockOwner {
+  pid: number;
+  host: string;
+  /** Tells apart the holders within one process. */
+  token: string;
+  claimedAt: string;
+}
+
+/**
+ * Read and parse a JSON file, returning `fallback` when the file is missing
+ * or cannot be parsed.
+ */
+export function readJsonFile<T>(filePath: string, fallback: T): T {
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Write `data` as pretty-printed JSON. The file is written to a temporary
+ * sibling first and renamed into place so readers never see a partial file.
+ */
+export function writeJsonFile(filePath: string, data: unknown): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  fs.writeFileSync(tmpPath, JSON.stringify(data, null, 2), 'utf-8');
+  fs.renameSync(tmpPath, filePath);
+}
+
+/** Whether the process that wrote `owner` has exited (only knowable on this host). */
+function ownerExited(owner: LockOwner | undefined): boolean {
+  if (!owner || owner.host !== os.hostname() || owner.pid === process.pid) return false;
+  try {
+    process.kill(owner.pid, 0);
+    return false;
+  } catch (err) {
+    return (err as NodeJS.ErrnoException).code === 'ESRCH';
+  }
+}
+
+/**
+ * Create the lock file `lockPath`, recording this process as its owner.
+ * Returns the token to refresh and release it with, or undefined if
+ * another holder has it.
+ */
+export function tryLockFile(lockPath: string): string | undefined {
+  const owner: LockOwner = {
+    pid: process.pid,
+    host: os.hostname(),
+    token: crypto.randomUUID(),
+    claimedAt: new Date().toISOString(),
+  };
+  let fd: number;
+  try {
+    fd = fs.openSync(lockPath, 'wx');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'EEXIST') return undefined;
+    throw err;
+  }
+  try {
+    fs.writeSync(fd, JSON.stringify(owner));
+  } finally {
+    fs.closeSync(fd);
+  }
+  return owner.token;
+}
+
+/** Whether the lock file `lockPath` is still the one taken with `token`. */
+function holdsLock(lockPath: string, token: string): boolean {
+  return readJsonFile<LockOwner | undefined>(lockPath, undefined)?.token === token;
+}
+
+/**
+ * Mark the lock file `lockPath` as in use, so it does not go stale while
+ * held; false if it is no longer ours (it was taken over).
+ */
+export function refreshLockFile(lockPath: string, token: string): boolean {
+  if (!holdsLock(lockPath, token)) return false;
+  const now = new Date();
+  fs.utimesSync(lockPath, now, now);
+  return true;
+}
+
+/** Remove the lock file `lockPath` if it is still the one taken with `token`. */
+export function releaseLockFile(lockPath: string, token: string): void {
+  if (holdsLock(lockPath, token)) fs.rmSync(lockPath, { force: true });
+}
+
+/**
+ * Remove the lock file `lockPath` if its owner has exited or it is older
+ * than `staleMs`; true if it was removed.
+ */
+export function breakStaleLock(lockPath: string, staleMs: number): boolean {
+  let ageMs: number;
+  try {
+    ageMs = Date.now() - fs.statSync(lockPath).mtimeMs;
+  } catch {
+    return false; // Released meanwhile.
+  }
+  const owner = readJsonFile<LockOwner | undefined>(lockPath, undefined);
+  if (ageMs <= staleMs && !ownerExited(owner)) return false;
+  fs.rmSync(lockPath, { force: true });
+  return true;
+}
+
+/** Block the thread for `ms`; the stores are synchronous. */
+function sleepSync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+/**
+ * Read-modify-write the JSON file at `filePath` under the lock file
+ * `<filePath>.lock`, so that concurrent updates from other workers are not
+ * lost. `mutate` receives the current contents (`fallback` if missing or
+ * unreadable) and returns the new ones, which are written and returned.
+ */
+export function updateJsonFile<T>(filePath: string, fallback: T, mutate: (data: T) => T): T {
+  const lockPath = `${filePath}.lock`;
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  let token: string | undefined;
+  while (!(token = tryLockFile(lockPath))) {
+    breakStaleLock(lockPath, UPDATE_STALE_LOCK_MS);
+    sleepSync(UPDATE_POLL_INTERVAL_MS);
+  }
+  try {
+    const data = mutate(readJsonFile(filePath, fallback));
+    writeJsonFile(filePath, data);
+    return data;
+  } finally {
+    releaseLockFile(lockPath, token);
+  }
+}
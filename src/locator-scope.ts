@@ -0,0 +1,361 @@
+/**
+ * LocatorScope — the self-healing selector surface shared by a page and the
+ * frames inside it: one-shot actions and queries by selector, plus the
+ * `locator()` and `getBy*()` entry points to a `ResilientLocator` chain.
+ */
+
+import {
+  ActionOptions,
+  ByRoleOptions,
+  ByTextOptions,
+  InputFiles,
+  SelectOptionValues,
+} from './types';
+import type {
+  ChainStep,
+  ResilientFilterOptions,
+  ResilientLocator,
+} from './resilient-locator';
+
+export abstract class LocatorScope {
+  /**
+   * Self-healing wrapper around `page.locator(selector).click()`.
+   */
+  click(selector: string, options?: ActionOptions): Promise<void> {
+    return this.locator(selector).click(options);
+  }
+
+  /**
+   * Self-healing wrapper around `page.locator(selector).fill()`.
+   */
+  fill(
+    selector: string,
+    value: string,
+    options?: ActionOptions,
+  ): Promise<void> {
+    return this.locator(selector).fill(value, options);
+  }
+
+  /**
+   * Self-healing wrapper that returns a locator's text content.
+   */
+  textContent(
+    selector: string,
+    options?: Record<string, unknown>,
+  ): Promise<string | null> {
+    return this.locator(selector).textContent(options);
+  }
+
+  /**
+   * Self-healing wrapper that returns a locator's inner text.
+   */
+  innerText(
+    selector: string,
+    options?: Record<string, unknown>,
+  ): Promise<string> {
+    return this.locator(selector).innerText(options);
+  }
+
+  /**
+   * Self-healing wrapper that returns a locator's input value.
+   */
+  inputValue(
+    selector: string,
+    options?: Record<string, unknown>,
+  ): Promise<string> {
+    return this.locator(selector).inputValue(options);
+  }
+
+  /**
+   * Self-healing wrapper that checks if a locator is visible.
+   */
+  isVisible(selector: string): Promise<boolean> {
+    return this.locator(selector).isVisible();
+  }
+
+  /**
+   * Self-healing wrapper around `page.locator(selector).dblclick()`.
+   */
+  dblclick(selector: string, options?: ActionOptions): Promise<void> {
+    return this.locator(selector).dblclick(options);
+  }
+
+  /**
+   * Self-healing wrapper around `page.locator(selector).tap()`.
+   */
+  tap(selector: string, options?: ActionOptions): Promise<void> {
+    return this.locator(selector).tap(options);
+  }
+
+  /**
+   * Self-healing wrapper around `page.locator(selector).check()`.
+   */
+  check(selector: string, options?: ActionOptions): Promise<void> {
+    return this.locator(selector).check(options);
+  }
+
+  /**
+   * Self-healing wrapper around `page.locator(selector).uncheck()`.
+   */
+  uncheck(selector: string, options?: ActionOptions): Promise<void> {
+    return this.locator(selector).uncheck(options);
+  }
+
+  /**
+   * Self-healing wrapper around `page.locator(selector).setChecked()`.
+   */
+  setChecked(
+    selector: string,
+    checked: boolean,
+    options?: ActionOptions,
+  ): Promise<void> {
+    return this.locator(selector).setChecked(checked, options);
+  }
+
+  /**
+   * Self-healing wrapper around `page.locator(selector).selectOption()`.
+   * Returns the values of the selected options.
+   */
+  selectOption(
+    selector: string,
+    values: SelectOptionValues,
+    options?: ActionOptions,
+  ): Promise<string[]> {
+    return this.locator(selector).selectOption(values, options);
+  }
+
+  /**
+   * Self-healing wrapper around `page.locator(selector).clear()`.
+   */
+  clear(selector: string, options?: ActionOptions): Promise<void> {
+    return this.locator(selector).clear(options);
+  }
+
+  /**
+   * Self-healing wrapper around `page.locator(selector).press()`.
+   */
+  press(
+    selector: string,
+    key: string,
+    options?: ActionOptions,
+  ): Promise<void> {
+    return this.locator(selector).press(key, options);
+  }
+
+  /**
+   * Self-healing wrapper around `page.locator(selector).pressSequentially()`.
+   */
+  pressSequentially(
+    selector: string,
+    text: string,
+    options?: ActionOptions,
+  ): Promise<void> {
+    return this.locator(selector).pressSequentially(text, options);
+  }
+
+  /**
+   * Self-healing wrapper around the deprecated `page.locator(selector).type()`;
+   * prefer `pressSequentially`.
+   */
+  type(
+    selector: string,
+    text: string,
+    options?: ActionOptions,
+  ): Promise<void> {
+    return this.locator(selector).type(text, options);
+  }
+
+  /**
+   * Self-healing wrapper around `page.locator(selector).setInputFiles()`.
+   */
+  setInputFiles(
+    selector: string,
+    files: InputFiles,
+    options?: ActionOptions,
+  ): Promise<void> {
+    return this.locator(selector).setInputFiles(files, options);
+  }
+
+  /**
+   * Self-healing wrapper around `page.locator(selector).hover()`.
+   */
+  hover(selector: string, options?: ActionOptions): Promise<void> {
+    return this.locator(selector).hover(options);
+  }
+
+  /**
+   * Self-healing wrapper around `page.locator(selector).focus()`.
+   */
+  focus(selector: string, options?: Record<string, unknown>): Promise<void> {
+    return this.locator(selector).focus(options);
+  }
+
+  /**
+   * Self-healing wrapper around `page.locator(selector).blur()`.
+   */
+  blur(selector: string, options?: Record<string, unknown>): Promise<void> {
+    return this.locator(selector).blur(options);
+  }
+
+  /**
+   * Self-healing wrapper around `page.locator(selector).dispatchEvent()`.
+   */
+  dispatchEvent(
+    selector: string,
+    type: string,
+    eventInit?: Record<string, unknown>,
+    options?: ActionOptions,
+  ): Promise<void> {
+    return this.locator(selector).dispatchEvent(type, eventInit, options);
+  }
+
+  /**
+   * Self-healing drag and drop. Both the source and the target selector
+   * are healed independently; the target is resolved first.
+   */
+  dragTo(
+    sourceSelector: string,
+    targetSelector: string,
+    options?: ActionOptions,
+  ): Promise<void> {
+    return this.locator(sourceSelector).dragTo(this.locator(targetSelector), options);
+  }
+
+  /**
+   * Self-healing wrapper around `page.locator(selector).scrollIntoViewIfNeeded()`.
+   */
+  scrollIntoViewIfNeeded(
+    selector: string,
+    options?: Record<string, unknown>,
+  ): Promise<void> {
+    return this.locator(selector).scrollIntoViewIfNeeded(options);
+  }
+
+  /**
+   * Self-healing wrapper around `page.locator(selector).selectText()`.
+   */
+  selectText(selector: string, options?: Record<string, unknown>): Promise<void> {
+    return this.locator(selector).selectText(options);
+  }
+
+  /**
+   * Self-healing wrapper that returns an attribute of a locator's element.
+   */
+  getAttribute(
+    selector: string,
+    name: string,
+    options?: Record<string, unknown>,
+  ): Promise<string | null> {
+    return this.locator(selector).getAttribute(name, options);
+  }
+
+  /**
+   * Self-healing wrapper that returns a locator's inner HTML.
+   */
+  innerHTML(
+    selector: string,
+    options?: Record<string, unknown>,
+  ): Promise<string> {
+    return this.locator(selector).innerHTML(options);
+  }
+
+  /**
+   * Self-healing wrapper that checks if a checkbox or radio is checked.
+   */
+  isChecked(selector: string, options?: Record<string, unknown>): Promise<boolean> {
+    return this.locator(selector).isChecked(options);
+  }
+
+  /**
+   * Self-healing wrapper that checks if a locator is enabled.
+   */
+  isEnabled(selector: string, options?: Record<string, unknown>): Promise<boolean> {
+    return this.locator(selector).isEnabled(options);
+  }
+
+  /**
+   * Self-healing wrapper that checks if a locator is disabled.
+   */
+  isDisabled(selector: string, options?: Record<string, unknown>): Promise<boolean> {
+    return this.locator(selector).isDisabled(options);
+  }
+
+  /**
+   * Self-healing wrapper that checks if a locator is editable.
+   */
+  isEditable(selector: string, options?: Record<string, unknown>): Promise<boolean> {
+    return this.locator(selector).isEditable(options);
+  }
+
+  /**
+   * Self-healing wrapper that returns a locator's bounding box.
+   */
+  boundingBox(
+    selector: string,
+    options?: Record<string, unknown>,
+  ): Promise<{ x: number; y: number; width: number; height: number } | null> {
+    return this.locator(selector).boundingBox(options);
+  }
+
+  /**
+   * Self-healing wrapper that takes a screenshot of a locator's element.
+   */
+  screenshot(
+    selector: string,
+    options?: Record<string, unknown>,
+  ): Promise<Buffer> {
+    return this.locator(selector).screenshot(options);
+  }
+
+  /**
+   * A chainable, self-healing locator. Use `.toLocator()` (or `page`) when
+   * you need the raw driver API.
+   */
+  locator(selector: string, options?: ResilientFilterOptions): ResilientLocator {
+    return this.chainFrom({ kind: 'locator', selector, options });
+  }
+
+  /**
+   * Self-healing `page.getByRole()`. When the role or accessible name has
+   * drifted, healing looks for the element with the same purpose.
+   */
+  getByRole(
+    role: string,
+    options?: ByRoleOptions,
+  ): ResilientLocator {
+    return this.chainFrom({ kind: 'getByRole', role, options });
+  }
+
+  /** Self-healing `page.getByLabel()`. */
+  getByLabel(text: string | RegExp, options?: ByTextOptions): ResilientLocator {
+    return this.chainFrom({ kind: 'getByLabel', text, options });
+  }
+
+  /** Self-healing `page.getByText()`. */
+  getByText(text: string | RegExp, options?: ByTextOptions): ResilientLocator {
+    return this.chainFrom({ kind: 'getByText', text, options });
+  }
+
+  /** Self-healing `page.getByPlaceholder()`. */
+  getByPlaceholder(text: string | RegExp, options?: ByTextOptions): ResilientLocator {
+    return this.chainFrom({ kind: 'getByPlaceholder', text, options });
+  }
+
+  /** Self-healing `page.getByAltText()`. */
+  getByAltText(text: string | RegExp, options?: ByTextOptions): ResilientLocator {
+    return this.chainFrom({ kind: 'getByAltText', text, options });
+  }
+
+  /** Self-healing `page.getByTitle()`. */
+  getByTitle(text: string | RegExp, options?: ByTextOptions): ResilientLocator {
+    return this.chainFrom({ kind: 'getByTitle', text, options });
+  }
+
+  /** Self-healing `page.getByTestId()`. */
+  getByTestId(testId: string | RegExp): ResilientLocator {
+    return this.chainFrom({ kind: 'getByTestId', testId });
+  }
+
+  /** A locator chain starting with `step` in this scope. */
+  protected abstract chainFrom(step: ChainStep): ResilientLocator;
+}
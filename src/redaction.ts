@@ -0,0 +1,320 @@
+/**
+ * Redaction — masks personal data and secrets in page snapshots before they
+ * are sent to an AI provider, counting what was masked for auditing.
+ *
+ * Sensitive regions are removed in the browser while the DOM is serialised
+ * (see `captureSnapshot`), since matching CSS selectors needs the live
+ * document; they arrive here as elements marked `data-redacted`. Everything
+ * else — form values, password and hidden inputs, and patterns such as
+ * emails — is masked in the serialised HTML, and in ARIA snapshots, which
+ * show the values of text fields too.
+ */
+
+import {
+  ElementFingerprint,
+  HealingContext,
+  RedactionConfig,
+  RedactionStats,
+  SemanticIntent,
+} from './types';
+
+/** Replaces each masked value. */
+export const REDACTED = '[REDACTED]';
+
+/** Patterns masked by default, by name. */
+export const DEFAULT_REDACTION_PATTERNS: Record<string, RegExp> = {
+  email: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+  // 13–19 digits, optionally grouped by spaces or dashes; Luhn-checked below.
+  cardNumber: /\b\d(?:[ -]?\d){12,18}\b/g,
+  jwt: /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g,
+};
+
+/** Whether `digits` pass the Luhn checksum used by card numbers. */
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/** Input types whose value is a label or identifier, not entered data. */
+const LABEL_VALUE_TYPES = new Set(['submit', 'button', 'reset', 'image', 'checkbox', 'radio']);
+/** Elements whose value is a label or identifier, not entered data. */
+const LABEL_VALUE_TAGS = new Set(['button', 'option', 'param', 'li', 'meter', 'progress', 'data']);
+/** Inputs whose value is masked even when `maskValues` is off. */
+const SECRET_INPUT_TYPES = new Set(['password', 'hidden']);
+
+/** A start tag: name, then attributes (values may contain `>` when quoted). */
+const START_TAG =
+  /<([a-zA-Z][\w:-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'>]+))?)*)\s*(\/?)>/g;
+const ATTRIBUTE = /([^\s"'>/=]+)(?:\s*=\s*("[^"]*"|'[^']*'|[^\s"'>]+))?/g;
+const TEXTAREA = /(<textarea\b[^>]*>)([\s\S]*?)(<\/textarea>)/gi;
+
+function emptyStats(): RedactionStats {
+  return { values: 0, inputs: 0, regions: 0, patterns: {} };
+}
+
+/** The patterns in effect for `config`, with the global flag set. */
+function patternsFor(config: RedactionConfig): Array<[string, RegExp]> {
+  const merged: Record<string, RegExp | false> = {
+    ...DEFAULT_REDACTION_PATTERNS,
+    ...config.patterns,
+  };
+  return Object.entries(merged)
+    .filter((entry): entry is [string, RegExp] => entry[1] !== false)
+    .map(([name, pattern]) => [
+      name,
+      pattern.global ? pattern : new RegExp(pattern.source, `${pattern.flags}g`),
+    ]);
+}
+
+/** Mask every match of the configured patterns in `text`, counting them in `stats`. */
+function maskPatterns(text: string, config: RedactionConfig, stats: RedactionStats): string {
+  let result = text;
+  for (const [name, pattern] of patternsFor(config)) {
+    result = result.replace(pattern, (match) => {
+      if (name === 'cardNumber' && !passesLuhn(match.replace(/\D/g, ''))) return match;
+      stats.patterns[name] = (stats.patterns[name] ?? 0) + 1;
+      return `[REDACTED:${name}]`;
+    });
+  }
+  return result;
+}
+
+/**
+ * Which count masking an element's `value` falls under, or undefined when it
+ * is kept: secret inputs are always masked, other data unless `maskValues`
+ * is off.
+ */
+function valueKind(
+  tagName: string,
+  type: string,
+  config: RedactionConfig,
+): 'inputs' | 'values' | undefined {
+  const isInput = tagName === 'input';
+  if (isInput && SECRET_INPUT_TYPES.has(type)) return 'inputs';
+  if (
+    config.maskValues !== false &&
+    !LABEL_VALUE_TAGS.has(tagName) &&
+    !(isInput && LABEL_VALUE_TYPES.has(type))
+  ) {
+    return 'values';
+  }
+  return undefined;
+}
+
+/** Mask the `value` attribute of one start tag if it holds data. */
+function maskTag(
+  tag: string,
+  name: string,
+  attributes: string,
+  config: RedactionConfig,
+  stats: RedactionStats,
+): string {
+  const attrs = new Map<string, string>();
+  for (const [, attrName, rawValue = ''] of attributes.matchAll(ATTRIBUTE)) {
+    attrs.set(attrName.toLowerCase(), rawValue.replace(/^["']|["']$/g, ''));
+  }
+  if (attrs.has('data-redacted')) stats.regions++;
+
+  const value = attrs.get('value');
+  if (!value) return tag;
+  const kind = valueKind(name.toLowerCase(), (attrs.get('type') ?? 'text').toLowerCase(), config);
+  if (!kind) return tag;
+  stats[kind]++;
+  return tag.replace(
+    /(\svalue\s*=\s*)("[^"]*"|'[^']*'|[^\s"'>]+)/i,
+    (_, prefix: string) => `${prefix}"${REDACTED}"`,
+  );
+}
+
+/**
+ * Redact serialised HTML for sending to the AI: mask form values, password
+ * and hidden inputs, and pattern matches, and count the regions already
+ * removed in the browser. Returns the redacted HTML and what was masked.
+ */
+export function redactHtml(
+  html: string,
+  config: RedactionConfig = {},
+): { html: string; stats: RedactionStats } {
+  const stats = emptyStats();
+  let result = html.replace(START_TAG, (tag, name: string, attributes: string) =>
+    maskTag(tag, name, attributes, config, stats),
+  );
+  if (config.maskValues !== false) {
+    result = result.replace(TEXTAREA, (match, open: string, content: string, close: string) => {
+      if (!content.trim() || content === REDACTED) return match;
+      stats.values++;
+      return `${open}${REDACTED}${close}`;
+    });
+  }
+  return { html: maskPatterns(result, config, stats), stats };
+}
+
+/**
+ * Redact plain text for sending to the AI: mask pattern matches. Returns
+ * the redacted text and what was masked.
+ */
+export function redactText(
+  text: string,
+  config: RedactionConfig = {},
+): { text: string; stats: RedactionStats } {
+  const stats = emptyStats();
+  return { text: maskPatterns(text, config, stats), stats };
+}
+
+/**
+ * An ARIA snapshot line of a field showing its value: `- textbox "Name": value`.
+ * Password inputs are textboxes too, so cannot be told apart.
+ */
+const ARIA_VALUE_LINE =
+  /^(\s*)(- (?:textbox|searchbox|spinbutton|combobox)(?: "(?:[^"\\]|\\.)*")?(?: \[[^\]]*\])*:) (.+)$/;
+/** A YAML block scalar header, whose value continues on the more indented lines below. */
+const BLOCK_SCALAR = /^[|>][-+]?$/;
+
+/**
+ * Redact a Playwright ARIA snapshot for sending to the AI: mask the values
+ * of text fields (`maskValues`) and pattern matches. Returns the redacted
+ * snapshot and what was masked. Password fields cannot be told from other
+ * text fields in an ARIA snapshot, so with `maskValues: false` one should
+ * not be sent at all.
+ */
+export function redactAriaSnapshot(
+  snapshot: string,
+  config: RedactionConfig = {},
+): { text: string; stats: RedactionStats } {
+  const stats = emptyStats();
+  let text = snapshot;
+  if (config.maskValues !== false) {
+    const lines: string[] = [];
+    let blockIndent: number | undefined;
+    for (const line of snapshot.split('\n')) {
+      const indent = line.length - line.trimStart().length;
+      if (blockIndent !== undefined && (line.trim() === '' || indent > blockIndent)) continue;
+      blockIndent = undefined;
+      const match = ARIA_VALUE_LINE.exec(line);
+      if (!match) {
+        lines.push(line);
+        continue;
+      }
+      const [, lead, field, value] = match;
+      if (BLOCK_SCALAR.test(value.trim())) blockIndent = indent;
+      stats.values++;
+      lines.push(`${lead}${field} ${REDACTED}`);
+    }
+    text = lines.join('\n');
+  }
+  return { text: maskPatterns(text, config, stats), stats };
+}
+
+/** Mask pattern matches in every string within `value`. */
+function maskStrings<T>(value: T, config: RedactionConfig, stats: RedactionStats): T {
+  if (typeof value === 'string') return maskPatterns(value, config, stats) as T;
+  if (Array.isArray(value)) return value.map((item) => maskStrings(item, config, stats)) as T;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, maskStrings(item, config, stats)]),
+    ) as T;
+  }
+  return value;
+}
+
+/** Mask the value of a fingerprinted form field, as in the HTML. */
+function maskFingerprint(
+  fingerprint: ElementFingerprint,
+  config: RedactionConfig,
+  stats: RedactionStats,
+): ElementFingerprint {
+  const { value, type = 'text' } = fingerprint.attributes;
+  const kind = value ? valueKind(fingerprint.tag, type.toLowerCase(), config) : undefined;
+  const maskText = config.maskValues !== false && fingerprint.tag === 'textarea' && fingerprint.text;
+  if (!kind && !maskText) return fingerprint;
+  const masked = { ...fingerprint, attributes: { ...fingerprint.attributes } };
+  if (kind) {
+    stats[kind]++;
+    masked.attributes.value = REDACTED;
+  }
+  if (maskText) {
+    stats.values++;
+    masked.text = REDACTED;
+  }
+  return masked;
+}
+
+/** A `[value=…]` attribute selector, which may quote a form value. */
+const VALUE_SELECTOR =
+  /(\[\s*value\s*[~|^$*]?=\s*)("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|[^\]\s]+)/gi;
+
+/** Mask the values quoted by `[value=…]` selectors in `text`. */
+function maskValueSelectors(text: string, config: RedactionConfig, stats: RedactionStats): string {
+  if (config.maskValues === false) return text;
+  return text.replace(VALUE_SELECTOR, (_, prefix: string) => {
+    stats.values++;
+    return `${prefix}"${REDACTED}"`;
+  });
+}
+
+/**
+ * Redact a healing context for sending to the AI: mask the form value the
+ * element's fingerprint may hold, values quoted by the selectors and errors
+ * of earlier attempts, and pattern matches in every string. Returns the
+ * redacted context and what was masked.
+ */
+export function redactHealingContext(
+  context: HealingContext,
+  config: RedactionConfig = {},
+): { context: HealingContext; stats: RedactionStats } {
+  const stats = emptyStats();
+  const masked: HealingContext = {
+    ...context,
+    originalSelector: maskValueSelectors(context.originalSelector, config, stats),
+    ...(context.fingerprint && { fingerprint: maskFingerprint(context.fingerprint, config, stats) }),
+    rejectedSuggestions: context.rejectedSuggestions.map((rejected) => ({
+      ...rejected,
+      selector: maskValueSelectors(rejected.selector, config, stats),
+      error: maskValueSelectors(rejected.error, config, stats),
+    })),
+  };
+  return { context: maskStrings(masked, config, stats), stats };
+}
+
+/**
+ * Redact the failed selector and the `getBy*` intent it was located by for
+ * sending to the AI: mask values quoted by `[value=…]` selectors and pattern
+ * matches. Returns them redacted, with what was masked.
+ */
+export function redactHealingTarget(
+  selector: string,
+  intent: SemanticIntent | undefined,
+  config: RedactionConfig = {},
+): { selector: string; intent?: SemanticIntent; stats: RedactionStats } {
+  const stats = emptyStats();
+  return {
+    selector: maskPatterns(maskValueSelectors(selector, config, stats), config, stats),
+    intent: intent && maskStrings(intent, config, stats),
+    stats,
+  };
+}
+
+/** Add up redaction counts. */
+export function addRedactionStats(
+  total: RedactionStats | undefined,
+  stats: RedactionStats,
+): RedactionStats {
+  const sum = total
+    ? { ...total, patterns: { ...total.patterns } }
+    : emptyStats();
+  sum.values += stats.values;
+  sum.inputs += stats.inputs;
+  sum.regions += stats.regions;
+  for (const [name, count] of Object.entries(stats.patterns)) {
+    sum.patterns[name] = (sum.patterns[name] ?? 0) + count;
+  }
+  return sum;
+}
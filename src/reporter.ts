@@ -5,12 +5,58 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { TestReport, HealingEvent, A11yViolation } from './types';
+import {
+  TestReport,
+  AICallRecord,
+  AIUsage,
+  AIUsageTotals,
+  SnapshotMode,
+  SnapshotModeStats,
+  HealingEvent,
+  RedactionStats,
+  A11yViolation,
+  A11ySeverity,
+  SelectorRejection,
+  SelectorFailure,
+} from './types';
 
 // ---------------------------------------------------------------------------
 // Console formatting
 // ---------------------------------------------------------------------------
 
+/** e.g. `1200 in / 90 out tokens, 840 ms, $0.0050`. */
+function formatUsage(usage: AIUsage): string {
+  const cost = usage.costUsd !== undefined ? `, $${usage.costUsd.toFixed(4)}` : '';
+  return (
+    `${usage.inputTokens} in / ${usage.outputTokens} out tokens, ` +
+    `${usage.latencyMs} ms${cost}`
+  );
+}
+
+/** e.g. `2 value(s), 1 input(s), 3 email`; empty if nothing was masked. */
+function formatRedaction(stats: RedactionStats): string {
+  const parts = [
+    [stats.values, 'value(s)'],
+    [stats.inputs, 'input(s)'],
+    [stats.regions, 'region(s)'],
+    ...Object.entries(stats.patterns).map(([name, count]) => [count, name]),
+  ] as Array<[number, string]>;
+  return parts
+    .filter(([count]) => count > 0)
+    .map(([count, label]) => `${count} ${label}`)
+    .join(', ');
+}
+
+/** e.g. ` (1 critical, 2 serious)`; empty if there are no violations. */
+function formatSeverities(violations: A11yViolation[]): string {
+  const order: A11ySeverity[] = ['critical', 'serious', 'moderate', 'minor'];
+  const parts = order
+    .map((severity) => [violations.filter((v) => v.severity === severity).length, severity] as const)
+    .filter(([count]) => count > 0)
+    .map(([count, severity]) => `${count} ${severity}`);
+  return parts.length ? ` (${parts.join(', ')})` : '';
+}
+
 function formatConsoleSummary(report: TestReport): string {
   const status = report.passed ? 'PASSED' : 'FAILED';
   const lines: string[] = [
@@ -21,18 +67,88 @@ function formatConsoleSummary(report: TestReport): string {
     '='.repeat(60),
     '',
     `  Healing Events : ${report.healingCount}`,
-    `  A11y Violations: ${report.a11yViolationCount} (critical + serious)`,
+    `  A11y Violations: ${report.a11yViolationCount}${formatSeverities(report.a11yViolations)}`,
+    `  Rejected Fixes : ${report.rejectionCount}`,
+    `  Failed Actions : ${report.failureCount}`,
     `  Duration       : ${report.durationMs} ms`,
-    '',
   ];
+  const ai = report.aiUsage;
+  if (ai?.calls) {
+    const notes = [
+      ai.unpricedCalls ? `${ai.unpricedCalls} unpriced` : '',
+      ai.replayedCalls ? `${ai.replayedCalls} replayed` : '',
+    ].filter(Boolean);
+    const noted = notes.length ? ` (${notes.join(', ')})` : '';
+    lines.push(
+      `  AI Usage       : ${ai.calls} call(s), ${formatUsage(ai)}${noted}`,
+    );
+    const modes = Object.entries(ai.bySnapshotMode ?? {}) as [SnapshotMode, SnapshotModeStats][];
+    if (modes.length > 1 || modes.some(([mode]) => mode !== 'html')) {
+      const perMode = modes.map(
+        ([mode, stats]) =>
+          `${mode} ${stats.healed}/${stats.calls} healed, ` +
+          `${Math.round(stats.inputTokens / stats.calls)} in tokens/call`,
+      );
+      lines.push(`  AI Snapshots   : ${perMode.join('; ')}`);
+    }
+  }
+  lines.push('');
 
   if (report.healingEvents.length > 0) {
     lines.push('  --- Healing Events ---');
     for (const h of report.healingEvents) {
       lines.push(`  [${h.timestamp}] (${h.action})`);
+      if (h.pageLabel) lines.push(`    Page     : ${h.pageLabel}`);
+      if (h.framePath) lines.push(`    Frame    : ${h.framePath.join(' >> ')}`);
+      if (h.locatorChain) lines.push(`    Chain    : ${h.locatorChain}`);
       lines.push(`    Original : ${h.originalSelector}`);
       lines.push(`    Healed   : ${h.healedSelector}`);
-      lines.push(`    Provider : ${h.aiProvider}`);
+      const attempts =
+        h.aiAttempts && h.aiAttempts > 1 ? ` (${h.aiAttempts} attempts)` : '';
+      const snapshot =
+        h.snapshotMode && h.snapshotMode !== 'html' ? `, ${h.snapshotMode} snapshot` : '';
+      const vision = h.vision ? ', with screenshots' : '';
+      lines.push(`    Provider : ${h.aiProvider}${attempts}${snapshot}${vision}`);
+      if (h.aiUsage) lines.push(`    AI Usage : ${formatUsage(h.aiUsage)}`);
+      const redacted = h.redaction ? formatRedaction(h.redaction) : '';
+      if (redacted) lines.push(`    Redacted : ${redacted}`);
+      if (h.confidence !== undefined) {
+        const rank = h.candidateRank
+          ? ` (candidate ${h.candidateRank} of ${h.candidateCount})`
+          : '';
+        lines.push(`    Confidence: ${h.confidence}${rank}`);
+      }
+      if (h.rationale) lines.push(`    Rationale: ${h.rationale}`);
+      if (h.mode && h.mode !== 'auto') {
+        lines.push(
+          `    Mode     : ${h.mode}${h.applied === false ? ' (not applied)' : ''}`,
+        );
+      }
+    }
+    lines.push('');
+  }
+
+  if (report.rejections.length > 0) {
+    lines.push('  --- Rejected Suggestions ---');
+    for (const r of report.rejections) {
+      lines.push(`  [${r.timestamp}] (${r.action}) ${r.reason}`);
+      if (r.pageLabel) lines.push(`    Page      : ${r.pageLabel}`);
+      lines.push(`    Original  : ${r.originalSelector}`);
+      lines.push(`    Suggested : ${r.suggestedSelector}`);
+      lines.push(`    Detail    : ${r.detail}`);
+    }
+    lines.push('');
+  }
+
+  if (report.failures.length > 0) {
+    lines.push('  --- Failed Actions ---');
+    for (const f of report.failures) {
+      lines.push(`  [${f.timestamp}] (${f.action}) ${f.cause}`);
+      if (f.pageLabel) lines.push(`    Page     : ${f.pageLabel}`);
+      if (f.framePath) lines.push(`    Frame    : ${f.framePath.join(' >> ')}`);
+      if (f.locatorChain) lines.push(`    Chain    : ${f.locatorChain}`);
+      lines.push(`    Selector : ${f.selector}`);
+      lines.push(`    Healing  : ${f.healingAttempted ? 'attempted' : 'not attempted'}`);
     }
     lines.push('');
   }
@@ -43,6 +159,7 @@ function formatConsoleSummary(report: TestReport): string {
       lines.push(
         `  [${v.severity.toUpperCase()}] ${v.ruleId} — ${v.description}`,
       );
+      if (v.pageLabel) lines.push(`    Page   : ${v.pageLabel}`);
       lines.push(`    Action : ${v.triggeringAction}`);
       lines.push(`    URL    : ${v.url}`);
       lines.push(`    Nodes  : ${v.affectedNodes.join(', ')}`);
@@ -80,6 +197,9 @@ export function buildReport(
   healingEvents: HealingEvent[],
   a11yViolations: A11yViolation[],
   durationMs: number,
+  rejections: SelectorRejection[] = [],
+  failures: SelectorFailure[] = [],
+  aiCalls: AICallRecord[] = [],
 ): TestReport {
   return {
     testName,
@@ -88,10 +208,75 @@ export function buildReport(
     healingEvents,
     a11yViolationCount: a11yViolations.length,
     a11yViolations,
+    rejectionCount: rejections.length,
+    rejections,
+    failureCount: failures.length,
+    failures,
     durationMs,
+    aiUsage: totalAIUsage(aiCalls),
   };
 }
 
+/**
+ * Sum the usage of `calls`; tokens and `costUsd` cover only what was spent,
+ * so leave out replayed calls, and `costUsd` covers only the priced ones.
+ */
+function totalAIUsage(calls: AICallRecord[]): AIUsageTotals {
+  const live = calls.filter((call) => !call.replayed);
+  const priced = live.filter((call) => call.costUsd !== undefined);
+  const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+  return {
+    calls: calls.length,
+    inputTokens: sum(live.map((call) => call.inputTokens)),
+    outputTokens: sum(live.map((call) => call.outputTokens)),
+    latencyMs: sum(calls.map((call) => call.latencyMs)),
+    costUsd: sum(priced.map((call) => call.costUsd!)),
+    unpricedCalls: live.length - priced.length,
+    replayedCalls: calls.length - live.length,
+    bySnapshotMode: statsBySnapshotMode(calls),
+  };
+}
+
+/** Count calls, heals and input tokens per snapshot mode. */
+function statsBySnapshotMode(
+  calls: AICallRecord[],
+): Partial<Record<SnapshotMode, SnapshotModeStats>> {
+  const stats: Partial<Record<SnapshotMode, SnapshotModeStats>> = {};
+  for (const call of calls) {
+    const entry = (stats[call.snapshotMode ?? 'html'] ??= { calls: 0, healed: 0, inputTokens: 0 });
+    entry.calls++;
+    if (call.healed) entry.healed++;
+    entry.inputTokens += call.inputTokens;
+  }
+  return stats;
+}
+
+/** Annotation type added to tests that healed a selector in `warn` mode. */
+export const HEALING_WARNING_ANNOTATION = 'healing-warning';
+/** Annotation type added to tests that got a suggestion in `suggest` mode. */
+export const HEALING_SUGGESTION_ANNOTATION = 'healing-suggestion';
+
+/**
+ * Build Playwright test annotations for healing events that were not
+ * silently applied (`warn` and `suggest` modes).
+ */
+export function buildHealingAnnotations(
+  healingEvents: HealingEvent[],
+): Array<{ type: string; description: string }> {
+  const annotations: Array<{ type: string; description: string }> = [];
+  for (const h of healingEvents) {
+    if (h.mode !== 'warn' && h.mode !== 'suggest') continue;
+    annotations.push({
+      type:
+        h.mode === 'warn'
+          ? HEALING_WARNING_ANNOTATION
+          : HEALING_SUGGESTION_ANNOTATION,
+      description: `${h.action}: "${h.originalSelector}" -> "${h.healedSelector}"`,
+    });
+  }
+  return annotations;
+}
+
 /**
  * Output the report according to the requested mode.
  *
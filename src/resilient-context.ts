@@ -0,0 +1,122 @@
+/**
+ * ResilientContext — wraps a Playwright BrowserContext so that every page in
+ * it, including popups and tabs the test opens along the way (OAuth logins,
+ * print previews), gets self-healing selectors and a11y scanning.
+ *
+ * Healing events, violations, rejections and failures are merged across
+ * pages. When the context has more than one page, each entry is attributed
+ * to its page via `pageLabel`.
+ */
+
+import type { BrowserContext, Page } from '@playwright/test';
+import { ResilientPage } from './resilient-page';
+import {
+  A11yViolation,
+  AICallRecord,
+  HealingEvent,
+  ResilientAuditorConfig,
+  SelectorFailure,
+  SelectorRejection,
+} from './types';
+
+const byTimestamp = (a: { timestamp: string }, b: { timestamp: string }) =>
+  a.timestamp.localeCompare(b.timestamp);
+
+export class ResilientContext {
+  readonly context: BrowserContext;
+
+  private readonly config: Partial<ResilientAuditorConfig>;
+  private readonly wrapped = new Map<Page, ResilientPage<Page>>();
+
+  constructor(
+    context: BrowserContext,
+    config: Partial<ResilientAuditorConfig> = {},
+  ) {
+    this.context = context;
+    this.config = config;
+
+    for (const page of context.pages()) this.pageFor(page);
+    context.on('page', (page) => {
+      this.pageFor(page);
+    });
+  }
+
+  /** Every page opened in the context, in the order they were opened. */
+  get pages(): ResilientPage<Page>[] {
+    return [...this.wrapped.values()];
+  }
+
+  /** The `ResilientPage` wrapping `page`, created on first use. */
+  pageFor(page: Page): ResilientPage<Page> {
+    let resilientPage = this.wrapped.get(page);
+    if (!resilientPage) {
+      resilientPage = new ResilientPage(page, this.config);
+      this.wrapped.set(page, resilientPage);
+    }
+    return resilientPage;
+  }
+
+  /** Label identifying `page` in reports: `page 1`, `page 2`, … in opening order. */
+  labelOf(page: ResilientPage<Page>): string {
+    return `page ${this.pages.indexOf(page) + 1}`;
+  }
+
+  /** Open a new page (tab) in the context. */
+  async newPage(): Promise<ResilientPage<Page>> {
+    return this.pageFor(await this.context.newPage());
+  }
+
+  /**
+   * Wait for the next page opened in the context — a popup or a new tab —
+   * while running `trigger` (e.g. the click that opens it). Resolves once
+   * the new page's DOM has loaded.
+   */
+  async waitForPopup(
+    trigger?: () => Promise<unknown>,
+    options: { timeout?: number } = {},
+  ): Promise<ResilientPage<Page>> {
+    const [page] = await Promise.all([
+      this.context.waitForEvent('page', options),
+      trigger?.(),
+    ]);
+    await page.waitForLoadState('domcontentloaded');
+    return this.pageFor(page);
+  }
+
+  /** Healing events from every page, oldest first. */
+  get healingEvents(): HealingEvent[] {
+    return this.collect((p) => p.healingEvents).sort(byTimestamp);
+  }
+
+  /** A11y violations from every page, grouped by page. */
+  get a11yViolations(): A11yViolation[] {
+    return this.collect((p) => p.a11yViolations);
+  }
+
+  /** Rejected suggestions from every page, oldest first. */
+  get selectorRejections(): SelectorRejection[] {
+    return this.collect((p) => p.selectorRejections).sort(byTimestamp);
+  }
+
+  /** Failed actions from every page, oldest first. */
+  get selectorFailures(): SelectorFailure[] {
+    return this.collect((p) => p.selectorFailures).sort(byTimestamp);
+  }
+
+  /** AI calls from every page, oldest first. */
+  get aiCalls(): AICallRecord[] {
+    return this.collect((p) => p.aiCalls).sort(byTimestamp);
+  }
+
+  /** Merge the entries `pick` selects from each page, labelling them by page. */
+  private collect<T extends { pageLabel?: string }>(
+    pick: (page: ResilientPage<Page>) => T[],
+  ): T[] {
+    const pages = this.pages;
+    if (pages.length === 1) return [...pick(pages[0])];
+    return pages.flatMap((page) => {
+      const pageLabel = this.labelOf(page);
+      return pick(page).map((entry) => ({ ...entry, pageLabel }));
+    });
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * ResilientFrame — the self-healing selector surface scoped to an iframe.
+ *
+ * Locators created here resolve inside the frame, and healing snapshots and
+ * scans the frame's document rather than the top-level page. Healing events
+ * record the frame path.
+ */
+
+import type { ResilientPage } from './resilient-page';
+import { FrameLocatorLike } from './types';
+import { LocatorScope } from './locator-scope';
+import { ChainStep, ResilientLocator } from './resilient-locator';
+
+export class ResilientFrame extends LocatorScope {
+  /** @internal Use `ResilientPage.frame()` to create one. */
+  constructor(
+    private readonly owner: ResilientPage,
+    /** Selectors of the iframes leading to this frame, outermost first. */
+    readonly framePath: readonly string[],
+  ) {
+    super();
+  }
+
+  /** The iframe matched by `selector` inside this frame. */
+  frame(selector: string): ResilientFrame {
+    return new ResilientFrame(this.owner, [...this.framePath, selector]);
+  }
+
+  /** The equivalent raw driver frame locator — no healing. */
+  toFrameLocator(): FrameLocatorLike {
+    const page = this.owner.page;
+    if (!page.frameLocator) {
+      throw new Error('frame() is not supported: the page has no frameLocator() method');
+    }
+    const [outermost, ...nested] = this.framePath;
+    return nested.reduce(
+      (frame, selector) => frame.frameLocator(selector),
+      page.frameLocator(outermost),
+    );
+  }
+
+  protected chainFrom(step: ChainStep): ResilientLocator {
+    return new ResilientLocator(this.owner, [step], this);
+  }
+}
@@ -0,0 +1,594 @@
+/**
+ * ResilientLocator — a chainable, healing-aware counterpart of Playwright's
+ * Locator.
+ *
+ * The chain (`locator`, `getBy*`, `filter`, `nth`, …) is recorded rather
+ * than resolved up front. When an action fails, the chain is resolved link
+ * by link to find the one that no longer matches anything, and only that
+ * link is healed; the rest of the chain is kept as written.
+ */
+
+import type { HealTarget, ResilientPage } from './resilient-page';
+import type { ResilientFrame } from './resilient-frame';
+import {
+  A11yScanOptions,
+  ActionOptions,
+  ByRoleOptions,
+  ByTextOptions,
+  DriverOptions,
+  InputFiles,
+  LocatorLike,
+  LocatorRootLike,
+  SelectOptionValues,
+  SemanticIntent,
+} from './types';
+
+/** Split `options` into those for the driver and the action's a11y scan setting. */
+function splitA11y(
+  options: ActionOptions | undefined,
+): [DriverOptions | undefined, boolean | A11yScanOptions] {
+  if (!options) return [undefined, true];
+  const { a11y, ...driverOptions } = options;
+  return [driverOptions, a11y ?? true];
+}
+
+/** Options accepted by `locator()` and `filter()`. */
+export interface ResilientFilterOptions {
+  has?: LocatorLike | ResilientLocator;
+  hasNot?: LocatorLike | ResilientLocator;
+  hasText?: string | RegExp;
+  hasNotText?: string | RegExp;
+  visible?: boolean;
+}
+
+type TextQuery = 'getByText' | 'getByLabel' | 'getByPlaceholder' | 'getByAltText' | 'getByTitle';
+
+/** One recorded link of a locator chain. */
+export type ChainStep =
+  | { kind: 'locator'; selector: string; options?: ResilientFilterOptions }
+  | { kind: 'getByRole'; role: string; options?: ByRoleOptions }
+  | { kind: TextQuery; text: string | RegExp; options?: ByTextOptions }
+  | { kind: 'getByTestId'; testId: string | RegExp }
+  | { kind: 'filter'; options: ResilientFilterOptions }
+  | { kind: 'nth'; index: number }
+  | { kind: 'first' }
+  | { kind: 'last' }
+  | { kind: 'and' | 'or'; other: ResilientLocator };
+
+/** Links that select elements, and can therefore be healed. */
+function isHealable(step: ChainStep): boolean {
+  return step.kind === 'locator' || step.kind.startsWith('getBy');
+}
+
+/** The semantic intent of a `getBy*` link, if it is one. */
+function intentOf(step: ChainStep): SemanticIntent | undefined {
+  const text = (t: string | RegExp | undefined) =>
+    t === undefined ? undefined : typeof t === 'string' ? t : t.source;
+  switch (step.kind) {
+    case 'getByRole': {
+      const name = step.options?.name;
+      return {
+        method: 'getByRole',
+        role: step.role,
+        text: text(name),
+        exact: step.options?.exact,
+      };
+    }
+    case 'getByTestId':
+      return { method: 'getByTestId', text: text(step.testId), exact: true };
+    case 'getByText':
+    case 'getByLabel':
+    case 'getByPlaceholder':
+    case 'getByAltText':
+    case 'getByTitle':
+      return { method: step.kind, text: text(step.text), exact: step.options?.exact };
+    default:
+      return undefined;
+  }
+}
+
+function renderValue(value: unknown): string {
+  if (typeof value === 'string') return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+  if (value instanceof ResilientLocator) return value.description;
+  if (value instanceof RegExp || typeof value !== 'object' || value === null) return String(value);
+  const entries = Object.entries(value).filter(([, v]) => v !== undefined);
+  if (entries.length === 0) return '{}';
+  return `{ ${entries.map(([k, v]) => `${k}: ${renderValue(v)}`).join(', ')} }`;
+}
+
+function describeStep(step: ChainStep): string {
+  const args = (...values: unknown[]) =>
+    values.filter((v) => v !== undefined).map(renderValue).join(', ');
+  switch (step.kind) {
+    case 'locator':
+      return `locator(${args(step.selector, step.options)})`;
+    case 'getByRole':
+      return `getByRole(${args(step.role, step.options)})`;
+    case 'getByTestId':
+      return `getByTestId(${args(step.testId)})`;
+    case 'filter':
+      return `filter(${args(step.options)})`;
+    case 'nth':
+      return `nth(${step.index})`;
+    case 'first':
+    case 'last':
+      return `${step.kind}()`;
+    case 'and':
+    case 'or':
+      return `${step.kind}(${step.other.description})`;
+    default:
+      return `${step.kind}(${args(step.text, step.options)})`;
+  }
+}
+
+/** Convert `has`/`hasNot` locators in filter options to Playwright locators. */
+function toPlaywrightOptions(options: ResilientFilterOptions | undefined) {
+  if (!options) return undefined;
+  const unwrap = (l: LocatorLike | ResilientLocator | undefined) =>
+    l instanceof ResilientLocator ? l.toLocator() : l;
+  return { ...options, has: unwrap(options.has), hasNot: unwrap(options.hasNot) };
+}
+
+export class ResilientLocator {
+  /** Human-readable description of the chain, e.g. `locator('form').nth(1)`. */
+  readonly description: string;
+
+  /** @internal Use `ResilientPage.locator()` or `getBy*()` to create one. */
+  constructor(
+    private readonly owner: ResilientPage,
+    private readonly steps: readonly ChainStep[],
+    /** The iframe the chain starts in; omit for the page itself. */
+    private readonly frame?: ResilientFrame,
+  ) {
+    this.description = steps.map(describeStep).join('.');
+  }
+
+  // -----------------------------------------------------------------------
+  // Chaining
+  // -----------------------------------------------------------------------
+
+  private chain(step: ChainStep): ResilientLocator {
+    return new ResilientLocator(this.owner, [...this.steps, step], this.frame);
+  }
+
+  locator(selector: string, options?: ResilientFilterOptions): ResilientLocator {
+    return this.chain({ kind: 'locator', selector, options });
+  }
+
+  getByRole(role: string, options?: ByRoleOptions): ResilientLocator {
+    return this.chain({ kind: 'getByRole', role, options });
+  }
+
+  getByText(text: string | RegExp, options?: ByTextOptions): ResilientLocator {
+    return this.chain({ kind: 'getByText', text, options });
+  }
+
+  getByLabel(text: string | RegExp, options?: ByTextOptions): ResilientLocator {
+    return this.chain({ kind: 'getByLabel', text, options });
+  }
+
+  getByPlaceholder(text: string | RegExp, options?: ByTextOptions): ResilientLocator {
+    return this.chain({ kind: 'getByPlaceholder', text, options });
+  }
+
+  getByAltText(text: string | RegExp, options?: ByTextOptions): ResilientLocator {
+    return this.chain({ kind: 'getByAltText', text, options });
+  }
+
+  getByTitle(text: string | RegExp, options?: ByTextOptions): ResilientLocator {
+    return this.chain({ kind: 'getByTitle', text, options });
+  }
+
+  getByTestId(testId: string | RegExp): ResilientLocator {
+    return this.chain({ kind: 'getByTestId', testId });
+  }
+
+  filter(options: ResilientFilterOptions): ResilientLocator {
+    return this.chain({ kind: 'filter', options });
+  }
+
+  nth(index: number): ResilientLocator {
+    return this.chain({ kind: 'nth', index });
+  }
+
+  first(): ResilientLocator {
+    return this.chain({ kind: 'first' });
+  }
+
+  last(): ResilientLocator {
+    return this.chain({ kind: 'last' });
+  }
+
+  and(other: ResilientLocator): ResilientLocator {
+    return this.chain({ kind: 'and', other });
+  }
+
+  or(other: ResilientLocator): ResilientLocator {
+    return this.chain({ kind: 'or', other });
+  }
+
+  /** The equivalent raw driver locator — no healing. */
+  toLocator(): LocatorLike {
+    return this.build(this.steps);
+  }
+
+  toString(): string {
+    return this.description;
+  }
+
+  // -----------------------------------------------------------------------
+  // Resolution and healing
+  // -----------------------------------------------------------------------
+
+  /** Where the chain starts: the page, or the iframe's document. */
+  private root(): LocatorRootLike {
+    return this.frame ? this.frame.toFrameLocator() : this.owner.page;
+  }
+
+  private build(steps: readonly ChainStep[]): LocatorLike {
+    // The first link is always a selector link, which pages and frames
+    // support too.
+    let scope = this.root();
+    for (const step of steps) {
+      const loc = scope as LocatorLike;
+      switch (step.kind) {
+        case 'locator':
+          scope = loc.locator(step.selector, toPlaywrightOptions(step.options));
+          break;
+        case 'getByRole':
+          scope = loc.getByRole(step.role, step.options);
+          break;
+        case 'getByTestId':
+          scope = loc.getByTestId(step.testId);
+          break;
+        case 'filter':
+          scope = loc.filter(toPlaywrightOptions(step.options));
+          break;
+        case 'nth':
+          scope = loc.nth(step.index);
+          break;
+        case 'first':
+          scope = loc.first();
+          break;
+        case 'last':
+          scope = loc.last();
+          break;
+        case 'and':
+          scope = loc.and(step.other.toLocator());
+          break;
+        case 'or':
+          scope = loc.or(step.other.toLocator());
+          break;
+        default:
+          scope = loc[step.kind](step.text, step.options);
+      }
+    }
+    return scope as LocatorLike;
+  }
+
+  /** Selector under which the final element's fingerprint is stored. */
+  private get fingerprintKey(): string {
+    const [only] = this.steps;
+    return this.steps.length === 1 && only.kind === 'locator' ? only.selector : this.description;
+  }
+
+  /** Where a target of this chain lives, for snapshots and scans. */
+  private get location(): Pick<HealTarget, 'framePath' | 'frame'> {
+    if (!this.frame) return {};
+    return { framePath: [...this.frame.framePath], frame: this.frame.toFrameLocator() };
+  }
+
+  /** A target that heals the link at `index` and keeps the rest of the chain. */
+  private linkTarget(index: number): HealTarget {
+    const step = this.steps[index];
+    const isLast = index === this.steps.length - 1;
+    return {
+      ...this.location,
+      selector: step.kind === 'locator' ? step.selector : describeStep(step),
+      locator: this.build(this.steps.slice(0, index + 1)),
+      resolve: (healed) =>
+        this.build([
+          ...this.steps.slice(0, index),
+          { kind: 'locator', selector: healed },
+          ...this.steps.slice(index + 1),
+        ]),
+      fingerprintKey: isLast ? this.fingerprintKey : undefined,
+      chain: this.steps.length > 1 ? this.description : undefined,
+      intent: intentOf(step),
+    };
+  }
+
+  /**
+   * The heal target for this chain. A single selector is healed directly;
+   * a longer chain is healed as a whole unless `narrow` finds the failing
+   * link.
+   */
+  private target(): HealTarget {
+    if (this.steps.length === 1 && isHealable(this.steps[0])) {
+      return this.linkTarget(0);
+    }
+    const root = this.root();
+    return {
+      ...this.location,
+      selector: this.description,
+      locator: this.toLocator(),
+      resolve: (healed) => root.locator(healed),
+      fingerprintKey: this.fingerprintKey,
+      chain: this.description,
+      narrow: () => this.findFailingLink(),
+    };
+  }
+
+  /**
+   * Resolve the chain one link at a time and return a target for the first
+   * link that matches nothing, if it is a selector link.
+   */
+  private async findFailingLink(): Promise<HealTarget | undefined> {
+    for (let i = 0; i < this.steps.length; i++) {
+      let count: number;
+      try {
+        count = await this.build(this.steps.slice(0, i + 1)).count();
+      } catch {
+        return undefined;
+      }
+      if (count > 0) continue;
+      return isHealable(this.steps[i]) ? this.linkTarget(i) : undefined;
+    }
+    return undefined;
+  }
+
+  private perform(
+    action: string,
+    fn: (loc: LocatorLike) => Promise<void>,
+    scan: boolean | A11yScanOptions,
+    input?: string,
+  ): Promise<void> {
+    return this.owner.perform(this.target(), action, fn, scan, input);
+  }
+
+  // -----------------------------------------------------------------------
+  // Actions
+  // -----------------------------------------------------------------------
+
+  /** Self-healing `click()`. */
+  async click(options?: ActionOptions): Promise<void> {
+    const [driverOptions, scan] = splitA11y(options);
+    await this.perform('click', (loc) => loc.click(driverOptions), scan);
+  }
+
+  /** Self-healing `dblclick()`. */
+  async dblclick(options?: ActionOptions): Promise<void> {
+    const [driverOptions, scan] = splitA11y(options);
+    await this.perform('dblclick', (loc) => loc.dblclick(driverOptions), scan);
+  }
+
+  /** Self-healing `tap()`. */
+  async tap(options?: ActionOptions): Promise<void> {
+    const [driverOptions, scan] = splitA11y(options);
+    await this.perform('tap', (loc) => loc.tap(driverOptions), scan);
+  }
+
+  /** Self-healing `fill()`. */
+  async fill(value: string, options?: ActionOptions): Promise<void> {
+    const [driverOptions, scan] = splitA11y(options);
+    await this.perform('fill', (loc) => loc.fill(value, driverOptions), scan, value);
+  }
+
+  /** Self-healing `check()`. */
+  async check(options?: ActionOptions): Promise<void> {
+    const [driverOptions, scan] = splitA11y(options);
+    await this.perform('check', (loc) => loc.check(driverOptions), scan);
+  }
+
+  /** Self-healing `uncheck()`. */
+  async uncheck(options?: ActionOptions): Promise<void> {
+    const [driverOptions, scan] = splitA11y(options);
+    await this.perform('uncheck', (loc) => loc.uncheck(driverOptions), scan);
+  }
+
+  /** Self-healing `setChecked()`. */
+  async setChecked(checked: boolean, options?: ActionOptions): Promise<void> {
+    const [driverOptions, scan] = splitA11y(options);
+    await this.perform('setChecked', (loc) => loc.setChecked(checked, driverOptions), scan);
+  }
+
+  /** Self-healing `selectOption()`; returns the values of the selected options. */
+  async selectOption(
+    values: SelectOptionValues,
+    options?: ActionOptions,
+  ): Promise<string[]> {
+    const [driverOptions, scan] = splitA11y(options);
+    let result: string[] = [];
+    await this.perform(
+      'selectOption',
+      async (loc) => {
+        result = await loc.selectOption(values, driverOptions);
+      },
+      scan,
+    );
+    return result;
+  }
+
+  /** Self-healing `clear()`. */
+  async clear(options?: ActionOptions): Promise<void> {
+    const [driverOptions, scan] = splitA11y(options);
+    await this.perform('clear', (loc) => loc.clear(driverOptions), scan);
+  }
+
+  /** Self-healing `press()`. */
+  async press(key: string, options?: ActionOptions): Promise<void> {
+    const [driverOptions, scan] = splitA11y(options);
+    await this.perform('press', (loc) => loc.press(key, driverOptions), scan);
+  }
+
+  /** Self-healing `pressSequentially()`. */
+  async pressSequentially(text: string, options?: ActionOptions): Promise<void> {
+    const [driverOptions, scan] = splitA11y(options);
+    await this.perform(
+      'pressSequentially',
+      (loc) => loc.pressSequentially(text, driverOptions),
+      scan,
+      text,
+    );
+  }
+
+  /** Self-healing replacement for the deprecated `type()`; prefer `pressSequentially`. */
+  async type(text: string, options?: ActionOptions): Promise<void> {
+    const [driverOptions, scan] = splitA11y(options);
+    await this.perform('type', (loc) => loc.pressSequentially(text, driverOptions), scan, text);
+  }
+
+  /** Self-healing `setInputFiles()`. */
+  async setInputFiles(
+    files: InputFiles,
+    options?: ActionOptions,
+  ): Promise<void> {
+    const [driverOptions, scan] = splitA11y(options);
+    await this.perform('setInputFiles', (loc) => loc.setInputFiles(files, driverOptions), scan);
+  }
+
+  /** Self-healing `hover()`. */
+  async hover(options?: ActionOptions): Promise<void> {
+    const [driverOptions, scan] = splitA11y(options);
+    await this.perform('hover', (loc) => loc.hover(driverOptions), scan);
+  }
+
+  /** Self-healing `focus()`. */
+  async focus(options?: Record<string, unknown>): Promise<void> {
+    await this.perform('focus', (loc) => loc.focus(options), false);
+  }
+
+  /** Self-healing `blur()`. */
+  async blur(options?: Record<string, unknown>): Promise<void> {
+    await this.perform('blur', (loc) => loc.blur(options), false);
+  }
+
+  /** Self-healing `dispatchEvent()`. */
+  async dispatchEvent(
+    type: string,
+    eventInit?: Record<string, unknown>,
+    options?: ActionOptions,
+  ): Promise<void> {
+    const [driverOptions, scan] = splitA11y(options);
+    await this.perform(
+      'dispatchEvent',
+      (loc) => loc.dispatchEvent(type, eventInit, driverOptions),
+      scan,
+    );
+  }
+
+  /**
+   * Self-healing drag and drop onto `target`. The target is resolved (and
+   * healed if needed) first, then this locator.
+   */
+  async dragTo(target: ResilientLocator, options?: ActionOptions): Promise<void> {
+    const [driverOptions, scan] = splitA11y(options);
+    let dropTarget: LocatorLike | undefined;
+    await target.perform(
+      'dragTo',
+      async (loc) => {
+        dropTarget = loc;
+      },
+      false,
+    );
+    await this.perform('dragTo', (loc) => loc.dragTo(dropTarget!, driverOptions), scan);
+  }
+
+  /** Self-healing `scrollIntoViewIfNeeded()`. */
+  async scrollIntoViewIfNeeded(options?: Record<string, unknown>): Promise<void> {
+    await this.perform('scrollIntoViewIfNeeded', (loc) => loc.scrollIntoViewIfNeeded(options), false);
+  }
+
+  /** Self-healing `selectText()`. */
+  async selectText(options?: Record<string, unknown>): Promise<void> {
+    await this.perform('selectText', (loc) => loc.selectText(options), false);
+  }
+
+  // -----------------------------------------------------------------------
+  // Queries
+  // -----------------------------------------------------------------------
+
+  /** Run a healing query and return its result. */
+  private async query<T>(action: string, initial: T, fn: (loc: LocatorLike) => Promise<T>): Promise<T> {
+    let result = initial;
+    await this.perform(
+      action,
+      async (loc) => {
+        result = await fn(loc);
+      },
+      false,
+    );
+    return result;
+  }
+
+  /** Self-healing `textContent()`. */
+  textContent(options?: Record<string, unknown>): Promise<string | null> {
+    return this.query<string | null>('textContent', null, (loc) => loc.textContent(options));
+  }
+
+  /** Self-healing `innerText()`. */
+  innerText(options?: Record<string, unknown>): Promise<string> {
+    return this.query('innerText', '', (loc) => loc.innerText(options));
+  }
+
+  /** Self-healing `innerHTML()`. */
+  innerHTML(options?: Record<string, unknown>): Promise<string> {
+    return this.query('innerHTML', '', (loc) => loc.innerHTML(options));
+  }
+
+  /** Self-healing `inputValue()`. */
+  inputValue(options?: Record<string, unknown>): Promise<string> {
+    return this.query('inputValue', '', (loc) => loc.inputValue(options));
+  }
+
+  /** Self-healing `getAttribute()`. */
+  getAttribute(name: string, options?: Record<string, unknown>): Promise<string | null> {
+    return this.query<string | null>('getAttribute', null, (loc) => loc.getAttribute(name, options));
+  }
+
+  /** Self-healing `isVisible()`. */
+  isVisible(): Promise<boolean> {
+    return this.query('isVisible', false, (loc) => loc.isVisible());
+  }
+
+  /** Self-healing `isChecked()`. */
+  isChecked(options?: Record<string, unknown>): Promise<boolean> {
+    return this.query('isChecked', false, (loc) => loc.isChecked(options));
+  }
+
+  /** Self-healing `isEnabled()`. */
+  isEnabled(options?: Record<string, unknown>): Promise<boolean> {
+    return this.query('isEnabled', false, (loc) => loc.isEnabled(options));
+  }
+
+  /** Self-healing `isDisabled()`. */
+  isDisabled(options?: Record<string, unknown>): Promise<boolean> {
+    return this.query('isDisabled', false, (loc) => loc.isDisabled(options));
+  }
+
+  /** Self-healing `isEditable()`. */
+  isEditable(options?: Record<string, unknown>): Promise<boolean> {
+    return this.query('isEditable', false, (loc) => loc.isEditable(options));
+  }
+
+  /** Self-healing `boundingBox()`. */
+  boundingBox(
+    options?: Record<string, unknown>,
+  ): Promise<{ x: number; y: number; width: number; height: number } | null> {
+    return this.query<{ x: number; y: number; width: number; height: number } | null>(
+      'boundingBox',
+      null,
+      (loc) => loc.boundingBox(options),
+    );
+  }
+
+  /** Self-healing element `screenshot()`. */
+  screenshot(options?: Record<string, unknown>): Promise<Buffer> {
+    return this.query<Buffer>('screenshot', Buffer.alloc(0), (loc) => loc.screenshot(options));
+  }
+
+  /** Number of elements the chain matches right now — no healing. */
+  count(): Promise<number> {
+    return this.toLocator().count();
+  }
+}
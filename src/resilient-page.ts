@@ -3,40 +3,280 @@
  * and automatic accessibility scanning after every action.
  */
 
-import type { Page, Locator } from '@playwright/test';
+import * as path from 'path';
 import {
+  AICallRecord,
   AIHealingService,
+  AIUsage,
+  CallSite,
+  ElementFingerprint,
+  FingerprintStore,
+  HealingCache,
+  HealingScreenshots,
+  HealingCacheKey,
+  HealingContext,
+  HealingCoordinator,
   HealingEvent,
+  InputValueType,
   A11yViolation,
+  AIProviderConfig,
+  ScreenshotStore,
+  SelectorRejection,
+  SelectorSuggestions,
+  SharedHealing,
   ResilientAuditorConfig,
   DEFAULT_CONFIG,
+  HealingMode,
+  FailureClass,
+  SelectorFailure,
+  SemanticIntent,
+  SnapshotMode,
+  A11yScanOptions,
+  A11yScanner,
+  ActionOptions,
+  FrameLocatorLike,
+  LocatorFilterLike,
+  LocatorLike,
+  PageLike,
+  RedactionConfig,
+  RedactionStats,
+  RejectedSuggestion,
+  TestReport,
+  VisionConfig,
 } from './types';
-import { createAIHealingService } from './ai-healing-service';
-import { runAccessibilityScan } from './accessibility-scanner';
+import { createAIHealingService, requestTimeoutMs } from './ai-healing-service';
+import { createAxeScanner, runAccessibilityScan } from './accessibility-scanner';
+import { buildReport, outputReport } from './reporter';
+import { createHealingCache, toUrlPattern } from './healing-cache';
+import { createHealingCoordinator } from './healing-coordinator';
+import { captureCallSite } from './call-site';
+import {
+  captureFingerprint,
+  createFingerprintStore,
+} from './element-fingerprint';
+import {
+  DEFAULT_MIN_SCORE,
+  fingerprintFromIntent,
+  healWithFingerprint,
+} from './heuristic-healer';
+import { validateSuggestion } from './selector-validator';
+import { InvalidSelectorError } from './selector-normalizer';
+import { classifyFailure, describeFailure } from './failure-classifier';
+import { SnapshotRoot, captureAriaSnapshot, captureSnapshot } from './dom-snapshot';
+import {
+  addRedactionStats,
+  redactAriaSnapshot,
+  redactHealingContext,
+  redactHealingTarget,
+  redactHtml,
+} from './redaction';
+import { buildSnapshot } from './snapshot-builder';
+import {
+  DEFAULT_MAX_IMAGE_BYTES,
+  captureScreenshot,
+  createScreenshotStore,
+} from './screenshots';
+import { LocatorScope } from './locator-scope';
+import { ChainStep, ResilientLocator } from './resilient-locator';
+import { ResilientFrame } from './resilient-frame';
+
+/**
+ * What a healing action operates on: the selector that may be replaced,
+ * and how to build the locator to act on once it has been.
+ */
+export interface HealTarget {
+  /** The selector (or chain link) to heal; keys the cache and events. */
+  selector: string;
+  /** Locator for the target as written. */
+  locator: LocatorLike;
+  /** Locator to act on once `selector` has been replaced by `healed`. */
+  resolve(healed: string): LocatorLike;
+  /** Key of the acted-on element's fingerprint; omit to skip fingerprinting. */
+  fingerprintKey?: string;
+  /** Description of the full locator chain, for chained locators. */
+  chain?: string;
+  /** What a `getBy*` target was looking for; guides the AI and heuristic. */
+  intent?: SemanticIntent;
+  /** Selectors of the iframes the target lives in, outermost first. */
+  framePath?: string[];
+  /** The iframe the target lives in; omit for the page's own document. */
+  frame?: FrameLocatorLike;
+  /** Narrow a failing chain down to the link that broke, if one did. */
+  narrow?(): Promise<HealTarget | undefined>;
+}
+
+/** Per-call state threaded through the healing steps. */
+interface HealContext {
+  target: HealTarget;
+  key: HealingCacheKey;
+  callSite: CallSite | undefined;
+  mode: HealingMode;
+  /** The classified failure of the original selector. */
+  cause: FailureClass;
+  /** Kind of text the action types, if it types any. */
+  valueType?: InputValueType;
+}
+
+/** The vision settings of the first provider in the chain that uses vision. */
+function visionConfig(ai: AIProviderConfig): VisionConfig | undefined {
+  const vision = [ai, ...(ai.fallbacks ?? [])].find((c) => c.vision)?.vision;
+  if (!vision) return undefined;
+  return vision === true ? {} : vision;
+}
+
+/** What `value` looks like, so the AI can be told without being sent it. */
+function inputValueType(value: string): InputValueType {
+  const text = value.trim();
+  if (!text) return 'empty';
+  if (/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(text)) return 'email';
+  if (/^[a-z][a-z\d+.-]*:\/\/\S+$/i.test(text)) return 'url';
+  if (/^(?:\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}\S*)?|\d{1,2}[/.]\d{1,2}[/.]\d{2,4})$/.test(text)) {
+    return 'date';
+  }
+  if (/^[-+]?\d+(?:[.,]\d+)?$/.test(text)) return 'number';
+  if (/^\+?[\d\s().-]{7,}$/.test(text)) return 'phone';
+  return 'text';
+}
+
+/** How much of a reply without a usable selector the AI is shown again. */
+const MAX_REJECTED_REPLY_LENGTH = 200;
 
-export class ResilientPage {
-  readonly page: Page;
+/** First line of an error message (Playwright appends long call logs). */
+function firstLine(err: unknown): string {
+  return (err instanceof Error ? err.message : String(err)).split('\n')[0];
+}
+
+/** Add AI usage across round-trips; cost stays unknown if any part is. */
+function addUsage(total: AIUsage | undefined, usage: AIUsage): AIUsage {
+  if (!total) return { ...usage };
+  return {
+    inputTokens: total.inputTokens + usage.inputTokens,
+    outputTokens: total.outputTokens + usage.outputTokens,
+    latencyMs: total.latencyMs + usage.latencyMs,
+    costUsd:
+      total.costUsd !== undefined && usage.costUsd !== undefined
+        ? total.costUsd + usage.costUsd
+        : undefined,
+    ...(total.replayed && usage.replayed && { replayed: true }),
+  };
+}
+
+/**
+ * A page with self-healing selectors. `P` is the driver's page type — a
+ * Playwright `Page`, or anything else implementing `PageLike`.
+ */
+export class ResilientPage<P extends PageLike = PageLike> extends LocatorScope {
+  readonly page: P;
 
   private readonly aiService: AIHealingService | null;
+  private readonly snapshotTokens: number | undefined;
+  private readonly maxImageBytes: number;
+  private readonly screenshotStore: ScreenshotStore | null;
+  private readonly redaction: RedactionConfig | false;
+  /** Selectors of sensitive regions, removed from snapshots and masked in screenshots. */
+  private readonly redactSelectors: string[];
+  /** Fingerprint keys whose element has been screenshotted by this page. */
+  private readonly screenshotted = new Set<string>();
+  private readonly healingCache: HealingCache | null;
+  private readonly coordinator: HealingCoordinator | null;
+  private readonly fingerprintStore: FingerprintStore | null;
+  private readonly heuristicMinScore: number;
+  private readonly validateSuggestions: boolean;
+  private readonly healingMode: HealingMode;
+  private readonly selectorHealingModes: Record<string, HealingMode>;
+  private readonly healOn: FailureClass[];
   private readonly a11yEnabled: boolean;
+  private readonly a11yScanner: A11yScanner;
+  private a11yOptions: A11yScanOptions;
   private readonly locatorTimeout: number;
   private readonly maxRetries: number;
+  private readonly reporterMode: typeof DEFAULT_CONFIG.reporterMode;
+  private readonly reportDir: string;
+  private readonly testTitle: string | undefined;
+  /** When the current reporting period started (see `report()`). */
+  private periodStart = Date.now();
 
   /** Accumulated healing events for the current test. */
   readonly healingEvents: HealingEvent[] = [];
   /** Accumulated a11y violations for the current test. */
   readonly a11yViolations: A11yViolation[] = [];
+  /** AI suggestions rejected by validation during the current test. */
+  readonly selectorRejections: SelectorRejection[] = [];
+  /** Actions that failed without being healed during the current test. */
+  readonly selectorFailures: SelectorFailure[] = [];
+  /** AI calls made while healing during the current test. */
+  readonly aiCalls: AICallRecord[] = [];
 
-  constructor(page: Page, config: Partial<ResilientAuditorConfig> = {}) {
+  constructor(page: P, config: Partial<ResilientAuditorConfig> = {}) {
+    super();
     this.page = page;
 
     const merged = { ...DEFAULT_CONFIG, ...config };
 
     this.aiService =
-      merged.ai !== false ? createAIHealingService(merged.ai) : null;
+      merged.ai !== false
+        ? createAIHealingService(
+            merged.ai.budget
+              ? {
+                  ...merged.ai,
+                  budget: {
+                    path: path.join(merged.reportDir, 'ai-budget.json'),
+                    ...merged.ai.budget,
+                  },
+                }
+              : merged.ai,
+          )
+        : null;
+    this.snapshotTokens = merged.ai !== false ? merged.ai.snapshotTokens : undefined;
+    const vision = merged.ai !== false ? visionConfig(merged.ai) : undefined;
+    this.maxImageBytes = vision?.maxImageBytes ?? DEFAULT_MAX_IMAGE_BYTES;
+    this.screenshotStore =
+      vision && vision.elementScreenshots !== false
+        ? createScreenshotStore(
+            vision.screenshotDir ?? path.join(merged.reportDir, 'element-screenshots'),
+          )
+        : null;
+    this.redaction = merged.redaction;
+    this.redactSelectors = (merged.redaction && merged.redaction.selectors) || [];
+    this.healingCache =
+      merged.healingCache !== false
+        ? createHealingCache(
+            merged.healingCache.path ??
+              path.join(merged.reportDir, 'healing-cache.json'),
+          )
+        : null;
+    this.coordinator =
+      merged.healingCoordinator !== false
+        ? createHealingCoordinator({
+            staleLockMs: merged.ai !== false ? requestTimeoutMs(merged.ai) : undefined,
+            ...merged.healingCoordinator,
+            dir:
+              merged.healingCoordinator.dir ??
+              path.join(merged.reportDir, 'healing-locks'),
+          })
+        : null;
+    this.fingerprintStore =
+      merged.heuristicHealing !== false
+        ? createFingerprintStore(
+            merged.heuristicHealing.path ??
+              path.join(merged.reportDir, 'fingerprints.json'),
+          )
+        : null;
+    this.heuristicMinScore =
+      (merged.heuristicHealing !== false && merged.heuristicHealing.minScore) ||
+      DEFAULT_MIN_SCORE;
+    this.validateSuggestions = merged.validateSuggestions;
+    this.healingMode = merged.healingMode;
+    this.selectorHealingModes = merged.selectorHealingModes;
+    this.healOn = merged.healOn;
     this.a11yEnabled = merged.a11yEnabled;
+    this.a11yScanner = merged.a11yScanner ?? createAxeScanner();
+    this.a11yOptions = merged.a11yOptions;
     this.locatorTimeout = merged.locatorTimeout;
     this.maxRetries = merged.maxHealingRetries;
+    this.reporterMode = merged.reporterMode;
+    this.reportDir = merged.reportDir;
+    this.testTitle = merged.testTitle;
   }
 
   // -----------------------------------------------------------------------
@@ -44,179 +284,718 @@ export class ResilientPage {
   // -----------------------------------------------------------------------
 
   /**
-   * Attempt to resolve a locator. If it fails (timeout) and AI healing is
-   * enabled, ask the AI for a better selector, then retry.
+   * Attempt to resolve a locator and run the action. If that fails, the
+   * failure is classified; only the classes listed in `healOn` (by default
+   * a selector that matches nothing or several elements) go on to healing.
+   *
+   * Healing tries a selector remembered in the healing cache, then the most
+   * similar element to the stored fingerprint; failing that, and if AI
+   * healing is enabled, it asks the AI for a better selector, then retries.
+   *
+   * In `suggest` mode the healed selector is only resolved, never acted on,
+   * and the call fails with the suggestion in the error message.
+   *
+   * `input` is the text the action types, if any; the AI is told what kind
+   * of text it is.
    */
   private async healAndRetry(
-    selector: string,
+    target: HealTarget,
     action: string,
-    fn: (loc: Locator) => Promise<void>,
+    fn: (loc: LocatorLike) => Promise<void>,
+    input?: string,
   ): Promise<void> {
+    // Capture the caller before the first await so the spec frame is intact.
+    const callSite = captureCallSite();
+
     // 1. First attempt with the original selector.
-    const locator = this.page.locator(selector);
+    const locator = target.locator;
+    let cause: FailureClass;
+    let firstError: unknown;
     try {
       await locator.waitFor({ state: 'attached', timeout: this.locatorTimeout });
-      await fn(locator);
-      return;
-    } catch {
-      // Selector failed — fall through to healing logic.
+    } catch (err) {
+      cause = classifyFailure(err, 'resolve');
+      firstError = err;
     }
+    if (firstError === undefined) {
+      await this.rememberFingerprint(target, locator);
+      await this.rememberScreenshot(target, locator);
+      try {
+        await fn(locator);
+        return;
+      } catch (err) {
+        cause = classifyFailure(err, 'action');
+        firstError = err;
+      }
+    }
+
+    // A chain is healed at the link that broke, when there is one.
+    const healable = this.healOn.includes(cause!);
+    if (healable && target.narrow) target = (await target.narrow()) ?? target;
 
-    // 2. If no AI service, rethrow with a clear message.
-    if (!this.aiService) {
+    const selector = target.selector;
+    const ctx: HealContext = {
+      target,
+      key: {
+        originalSelector: selector,
+        urlPattern: this.documentPattern(target),
+        action,
+      },
+      callSite,
+      mode: this.selectorHealingModes[selector] ?? this.healingMode,
+      cause: cause!,
+      valueType: input === undefined ? undefined : inputValueType(input),
+    };
+
+    // 2. Only selector problems are healed; a disabled or covered element is not.
+    if (!healable) {
+      throw this.recordFailure(
+        ctx,
+        false,
+        `healing is not enabled for "${ctx.cause}" failures. ` +
+          `Original error: ${firstLine(firstError)}`,
+      );
+    }
+
+    const healFn = ctx.mode === 'suggest' ? async () => {} : fn;
+    let outcome: string | undefined;
+    try {
+      // 3. Reuse a selector healed in an earlier run, if we have one.
+      // 4. Otherwise look for the element that best matches the stored fingerprint.
+      const healedLocally =
+        (await this.tryCachedSelector(ctx, healFn)) ||
+        (await this.tryHeuristicHealing(ctx, healFn));
+
+      if (!healedLocally) {
+        // 5. Without an AI service there is nothing left to try.
+        // 6. Otherwise run the AI healing loop, unless another worker is
+        //    already healing this selector and can share its result.
+        outcome = !this.aiService
+          ? 'AI healing is disabled.'
+          : await this.healWithCoordinator(this.aiService, ctx, healFn);
+      }
+    } catch (err) {
+      outcome = `healing failed: ${firstLine(err)}`;
+    }
+    if (outcome !== undefined) throw this.recordFailure(ctx, true, outcome);
+
+    if (ctx.mode === 'suggest') {
+      const event = this.healingEvents[this.healingEvents.length - 1];
       throw new Error(
-        `Selector "${selector}" timed out and AI healing is disabled.`,
+        `Selector "${selector}" failed; suggested replacement "${event.healedSelector}" ` +
+          `was not applied because healingMode is "suggest".`,
       );
     }
+  }
+
+  /**
+   * Heal with the AI, coordinating with other workers when a coordinator is
+   * configured: if another worker is healing the same selector, wait for
+   * its result and try that first; otherwise heal and publish the result.
+   * Without a coordinator, or if it is unavailable, heal on our own.
+   */
+  private async healWithCoordinator(
+    aiService: AIHealingService,
+    ctx: HealContext,
+    fn: (loc: LocatorLike) => Promise<void>,
+  ): Promise<string | undefined> {
+    const claim = this.coordinator ? await this.coordinator.claim(ctx.key) : undefined;
+    if (claim?.status === 'shared' && (await this.trySharedSelector(ctx, claim.result, fn))) {
+      return undefined;
+    }
+    if (claim?.status !== 'claimed') return this.healWithAI(aiService, ctx, fn);
+
+    let result: Omit<SharedHealing, 'healedAt'> | undefined;
+    try {
+      const outcome = await this.healWithAI(aiService, ctx, fn);
+      // Only publish a selector that worked for the action, not a suggestion.
+      if (outcome === undefined && ctx.mode !== 'suggest') {
+        const event = this.healingEvents[this.healingEvents.length - 1];
+        result = { healedSelector: event.healedSelector, aiProvider: event.aiProvider };
+      }
+      return outcome;
+    } finally {
+      this.coordinator!.release(ctx.key, result);
+    }
+  }
+
+  /** Try the selector another worker healed `ctx`'s selector with. */
+  private async trySharedSelector(
+    ctx: HealContext,
+    shared: SharedHealing,
+    fn: (loc: LocatorLike) => Promise<void>,
+  ): Promise<boolean> {
+    try {
+      await this.runWithSelector(ctx, shared.healedSelector, fn);
+    } catch {
+      return false;
+    }
+    this.recordHealing(ctx, {
+      healedSelector: shared.healedSelector,
+      aiProvider: shared.aiProvider,
+      source: 'shared',
+    });
+    return true;
+  }
 
-    // 3. Healing loop.
+  /**
+   * Ask the AI for ranked replacement candidates (up to `maxRetries`
+   * round-trips) and run `fn` on the first one that validates and works.
+   * Each round-trip is told which earlier suggestions failed and why.
+   * Returns `undefined` on success, or a description of why no candidate
+   * succeeded.
+   */
+  private async healWithAI(
+    aiService: AIHealingService,
+    ctx: HealContext,
+    fn: (loc: LocatorLike) => Promise<void>,
+  ): Promise<string | undefined> {
+    const selector = ctx.key.originalSelector;
+    const fingerprint = this.storedFingerprint(ctx);
+    // Validate in the scope the suggestion will be used in.
+    const scope = { locator: (s: string) => ctx.target.resolve(s) };
     let lastError: unknown;
-    let currentSelector = selector;
+    const rejected: RejectedSuggestion[] = [];
+    const baseContext = await this.healingContext(ctx, fingerprint);
+    let aiAttempts = 0;
+    let aiUsage: AIUsage | undefined;
+    let redaction: RedactionStats | undefined;
 
-    for (let attempt = 0; attempt < this.maxRetries; attempt++) {
-      const html = await this.page.content();
-      const suggested = await this.aiService.suggestSelector(
-        currentSelector,
-        html,
-      );
+    const root = ctx.target.frame ?? this.page;
+    // An ARIA snapshot cannot have sensitive regions removed, nor password
+    // fields told apart to mask when other values are kept, so is not sent.
+    const wantsAria =
+      (aiService.snapshotMode ?? 'html') !== 'html' &&
+      this.redactSelectors.length === 0 &&
+      (this.redaction === false || this.redaction.maskValues !== false);
 
-      const healedLocator = this.page.locator(suggested);
+    for (let attempt = 0; attempt < this.maxRetries; attempt++) {
+      const captured = await this.captureForAI(root, wantsAria);
+      if (captured.redaction) redaction = addRedactionStats(redaction, captured.redaction);
+      // Condense around where the element was, which the service can't know.
+      const html = buildSnapshot(captured.html, {
+        maxTokens: this.snapshotTokens,
+        focus: { selector, fingerprint },
+      });
+      const ariaSnapshot = captured.ariaSnapshot;
+      const screenshots = aiService.vision ? await this.screenshots(ctx) : undefined;
+      let context: HealingContext = {
+        ...baseContext,
+        attempt: attempt + 1,
+        rejectedSuggestions: [...rejected],
+      };
+      // The failed selector and its intent may quote data too.
+      let target: { selector: string; intent?: SemanticIntent } = {
+        selector,
+        intent: ctx.target.intent,
+      };
+      let callRedaction = captured.redaction;
+      if (this.redaction) {
+        const redacted = redactHealingContext(context, this.redaction);
+        const redactedTarget = redactHealingTarget(selector, target.intent, this.redaction);
+        context = redacted.context;
+        target = redactedTarget;
+        const stats = addRedactionStats(redacted.stats, redactedTarget.stats);
+        callRedaction = addRedactionStats(callRedaction, stats);
+        redaction = addRedactionStats(redaction, stats);
+      }
+      const recordCall = (
+        usage: AIUsage,
+        provider: string,
+        model?: string,
+        snapshotMode?: SnapshotMode,
+      ): AICallRecord => {
+        const call: AICallRecord = {
+          ...usage,
+          provider,
+          model,
+          originalSelector: selector,
+          action: ctx.key.action,
+          timestamp: new Date().toISOString(),
+          snapshotMode,
+          redaction: callRedaction,
+        };
+        this.aiCalls.push(call);
+        aiUsage = addUsage(aiUsage, usage);
+        return call;
+      };
+      let suggestions: SelectorSuggestions;
       try {
-        await healedLocator.waitFor({
-          state: 'attached',
-          timeout: this.locatorTimeout,
+        suggestions = await aiService.suggestSelectors(
+          target.selector,
+          html,
+          target.intent,
+          { ariaSnapshot, screenshots },
+          context,
+        );
+      } catch (err) {
+        // The requests were still made, and charged to the budget.
+        const usage = (err as { usage?: AIUsage }).usage;
+        if (usage) recordCall(usage, aiService.providerName);
+        if (!(err instanceof InvalidSelectorError)) throw err;
+        // A reply without a usable selector: say so, and ask again.
+        lastError = err;
+        rejected.push({
+          selector: err.rawResponse.trim().slice(0, MAX_REJECTED_REPLY_LENGTH),
+          attempt: attempt + 1,
+          error: err.message,
         });
-        await fn(healedLocator);
+        continue;
+      }
+      const { candidates, provider, attempts, model, usage, rawResponse, snapshotMode, vision } =
+        suggestions;
+      aiAttempts += attempts ?? 1;
+      const call = usage && recordCall(usage, provider, model, snapshotMode);
+      if (candidates.length === 0) {
+        lastError = new Error(`${provider} returned no candidate selectors`);
+        continue;
+      }
+
+      // Try each ranked candidate from this single round-trip in order.
+      for (const [index, candidate] of candidates.entries()) {
+        const suggested = candidate.selector;
+
+        // Never act on a suggestion that fails validation.
+        if (this.validateSuggestions) {
+          const verdict = await validateSuggestion(
+            scope,
+            suggested,
+            fingerprint,
+          );
+          if (!verdict.valid) {
+            this.selectorRejections.push({
+              originalSelector: selector,
+              suggestedSelector: suggested,
+              action: ctx.key.action,
+              reason: verdict.reason,
+              detail: verdict.detail,
+              aiProvider: provider,
+              timestamp: new Date().toISOString(),
+            });
+            lastError = new Error(
+              `Suggestion "${suggested}" rejected (${verdict.reason}): ${verdict.detail}`,
+            );
+            rejected.push({
+              selector: suggested,
+              attempt: attempt + 1,
+              error: `rejected (${verdict.reason}): ${verdict.detail}`,
+            });
+            continue;
+          }
+        }
+
+        try {
+          await this.runWithSelector(ctx, suggested, fn);
+        } catch (err) {
+          lastError = err;
+          rejected.push({ selector: suggested, attempt: attempt + 1, error: firstLine(err) });
+          continue;
+        }
 
         // Success — record the healing event.
-        this.healingEvents.push({
-          originalSelector: selector,
+        if (call) call.healed = true;
+        this.recordHealing(ctx, {
           healedSelector: suggested,
-          action,
-          timestamp: new Date().toISOString(),
-          aiProvider: this.aiService.providerName,
+          aiProvider: provider,
+          aiAttempts,
+          aiUsage,
+          rawResponse,
+          snapshotMode,
+          vision: vision || undefined,
+          redaction,
+          source: 'ai',
+          confidence: candidate.confidence,
+          rationale: candidate.rationale || undefined,
+          candidateRank: index + 1,
+          candidateCount: candidates.length,
         });
-        return;
-      } catch (err) {
-        lastError = err;
-        currentSelector = suggested; // feed the failed suggestion back
+        // A suggestion was never tried on the action, so is not remembered.
+        if (ctx.mode !== 'suggest') this.healingCache?.store(ctx.key, suggested, provider);
+        return undefined;
       }
+
     }
 
-    throw new Error(
-      `Selector "${selector}" could not be healed after ${this.maxRetries} attempt(s). ` +
-        `Last error: ${lastError instanceof Error ? lastError.message : String(lastError)}`,
+    return (
+      `could not be healed after ${this.maxRetries} attempt(s). ` +
+      `Last error: ${lastError instanceof Error ? lastError.message : String(lastError)}`
     );
   }
 
-  // -----------------------------------------------------------------------
-  // After-action hook
-  // -----------------------------------------------------------------------
+  /**
+   * Record a failed action on the report and build the error to throw,
+   * stating the classified cause followed by `outcome`.
+   */
+  private recordFailure(
+    ctx: HealContext,
+    healingAttempted: boolean,
+    outcome: string,
+  ): Error {
+    const framePath = ctx.target.framePath;
+    const subject =
+      (ctx.target.chain
+        ? `Locator ${ctx.target.chain}`
+        : `Selector "${ctx.key.originalSelector}"`) +
+      (framePath ? ` in frame ${framePath.join(' >> ')}` : '');
+    const message =
+      `${subject} failed to ${ctx.key.action}: ` +
+      `${describeFailure(ctx.cause)} [${ctx.cause}]; ${outcome}`;
+    this.selectorFailures.push({
+      selector: ctx.key.originalSelector,
+      action: ctx.key.action,
+      cause: ctx.cause,
+      healingAttempted,
+      message,
+      locatorChain: ctx.target.chain,
+      framePath,
+      callSite: ctx.callSite,
+      timestamp: new Date().toISOString(),
+    });
+    return new Error(message);
+  }
+
+  /**
+   * Retry the action with the cached healed selector. Returns true on
+   * success; a cached selector that fails is invalidated.
+   */
+  private async tryCachedSelector(
+    ctx: HealContext,
+    fn: (loc: LocatorLike) => Promise<void>,
+  ): Promise<boolean> {
+    const cached = this.healingCache?.lookup(ctx.key);
+    if (!this.healingCache || !cached) return false;
 
-  private async afterAction(action: string): Promise<void> {
-    if (!this.a11yEnabled) return;
     try {
-      const violations = await runAccessibilityScan(this.page, action);
-      this.a11yViolations.push(...violations);
+      await this.runWithSelector(ctx, cached.healedSelector, fn);
     } catch {
-      // axe-core can fail on certain pages (e.g., about:blank). Swallow.
+      this.healingCache.invalidate(ctx.key);
+      return false;
     }
-  }
 
-  // -----------------------------------------------------------------------
-  // Public action methods (the ones users call)
-  // -----------------------------------------------------------------------
+    this.healingCache.recordHit(ctx.key);
+    this.recordHealing(ctx, {
+      healedSelector: cached.healedSelector,
+      aiProvider: cached.aiProvider,
+      source: 'cache',
+    });
+    return true;
+  }
 
   /**
-   * Self-healing wrapper around `page.locator(selector).click()`.
+   * Heal by local similarity search against the fingerprint stored for the
+   * original selector or, for a `getBy*` target never seen before, the
+   * fingerprint its semantic intent describes. Returns true if a match was
+   * found and the action succeeded on it.
    */
-  async click(selector: string, options?: Record<string, unknown>): Promise<void> {
-    await this.healAndRetry(selector, 'click', async (loc) => {
-      await loc.click(options);
+  private async tryHeuristicHealing(
+    ctx: HealContext,
+    fn: (loc: LocatorLike) => Promise<void>,
+  ): Promise<boolean> {
+    if (!this.fingerprintStore) return false;
+    const stored = this.storedFingerprint(ctx);
+    const intent = ctx.target.intent;
+    const fingerprint = stored ?? (intent && fingerprintFromIntent(intent));
+    if (!fingerprint) return false;
+
+    let match: { selector: string; score: number } | undefined;
+    try {
+      match = await healWithFingerprint(
+        ctx.target.frame ?? this.page,
+        fingerprint,
+        this.heuristicMinScore,
+        !stored,
+      );
+      if (!match) return false;
+      await this.runWithSelector(ctx, match.selector, fn);
+    } catch {
+      return false;
+    }
+
+    this.recordHealing(ctx, {
+      healedSelector: match.selector,
+      aiProvider: 'heuristic',
+      source: 'heuristic',
+      confidence: Math.round(match.score * 100) / 100,
     });
-    await this.afterAction('click');
+    // A suggestion was never tried on the action, so is not remembered.
+    if (ctx.mode !== 'suggest') this.healingCache?.store(ctx.key, match.selector, 'heuristic');
+    return true;
+  }
+
+  /** Append a healing event for the call described by `ctx`. */
+  private recordHealing(
+    ctx: HealContext,
+    details: Omit<
+      HealingEvent,
+      | 'originalSelector'
+      | 'action'
+      | 'timestamp'
+      | 'mode'
+      | 'applied'
+      | 'callSite'
+      | 'failureCause'
+      | 'locatorChain'
+      | 'framePath'
+    >,
+  ): void {
+    this.healingEvents.push({
+      originalSelector: ctx.key.originalSelector,
+      action: ctx.key.action,
+      timestamp: new Date().toISOString(),
+      ...details,
+      mode: ctx.mode,
+      applied: ctx.mode !== 'suggest',
+      callSite: ctx.callSite,
+      failureCause: ctx.cause,
+      locatorChain: ctx.target.chain,
+      framePath: ctx.target.framePath,
+    });
+  }
+
+  /** Store the fingerprint of the element `target` currently matches. */
+  private async rememberFingerprint(
+    target: HealTarget,
+    locator: LocatorLike,
+  ): Promise<void> {
+    if (!this.fingerprintStore || target.fingerprintKey === undefined) return;
+    const fingerprint = await captureFingerprint(locator);
+    if (!fingerprint) return;
+    this.fingerprintStore.save(
+      { selector: target.fingerprintKey, urlPattern: this.documentPattern(target) },
+      fingerprint,
+    );
+  }
+
+  /**
+   * Save a screenshot of the element `target` currently matches, for AI
+   * vision. Taken once per selector per page, as screenshots are slow.
+   */
+  private async rememberScreenshot(target: HealTarget, locator: LocatorLike): Promise<void> {
+    if (!this.screenshotStore || target.fingerprintKey === undefined) return;
+    const key = { selector: target.fingerprintKey, urlPattern: this.documentPattern(target) };
+    const id = `${key.urlPattern}\n${key.selector}`;
+    if (this.screenshotted.has(id)) return;
+    this.screenshotted.add(id);
+    const image = await captureScreenshot(
+      locator,
+      this.locatorTimeout,
+      this.maxImageBytes,
+      this.sensitiveRegions(),
+    );
+    if (image) this.screenshotStore.save(key, image);
+  }
+
+  /** Locators of the sensitive regions, for masking screenshots. */
+  private sensitiveRegions(): LocatorLike[] {
+    return this.redactSelectors.map((s) => this.page.locator(s));
+  }
+
+  /**
+   * Capture the HTML of `root` (and its ARIA snapshot, if wanted) redacted
+   * for sending to the AI, with what redaction masked.
+   */
+  private async captureForAI(
+    root: SnapshotRoot,
+    wantsAria: boolean,
+  ): Promise<{ html: string; ariaSnapshot?: string; redaction?: RedactionStats }> {
+    const html = await captureSnapshot(root, this.locatorTimeout, this.redactSelectors);
+    const ariaSnapshot = wantsAria
+      ? await captureAriaSnapshot(root, this.locatorTimeout)
+      : undefined;
+    if (!this.redaction) return { html, ariaSnapshot };
+
+    const redactedHtml = redactHtml(html, this.redaction);
+    if (ariaSnapshot === undefined) {
+      return { html: redactedHtml.html, redaction: redactedHtml.stats };
+    }
+    const redactedAria = redactAriaSnapshot(ariaSnapshot, this.redaction);
+    return {
+      html: redactedHtml.html,
+      ariaSnapshot: redactedAria.text,
+      redaction: addRedactionStats(redactedHtml.stats, redactedAria.stats),
+    };
+  }
+
+  /**
+   * Screenshots to show the AI: the page, and the element from when its
+   * selector last worked. `undefined` if the page cannot be captured.
+   */
+  private async screenshots(ctx: HealContext): Promise<HealingScreenshots | undefined> {
+    const page = await captureScreenshot(
+      this.page,
+      this.locatorTimeout,
+      this.maxImageBytes,
+      this.sensitiveRegions(),
+    );
+    if (!page) return undefined;
+    const key = ctx.target.fingerprintKey;
+    const element =
+      key !== undefined
+        ? this.screenshotStore?.get({ selector: key, urlPattern: ctx.key.urlPattern })
+        : undefined;
+    return element ? { page, element } : { page };
+  }
+
+  /**
+   * URL pattern keying the cache and fingerprints for `target`'s document;
+   * a frame's document is keyed by the page URL followed by the frame path.
+   */
+  private documentPattern(target: HealTarget): string {
+    return [toUrlPattern(this.page.url()), ...(target.framePath ?? [])].join(' >> ');
   }
 
   /**
-   * Self-healing wrapper around `page.locator(selector).fill()`.
+   * What is known about the healing in `ctx`, for the AI, before any
+   * round-trip has been made.
    */
-  async fill(
+  private async healingContext(
+    ctx: HealContext,
+    fingerprint: ElementFingerprint | undefined,
+  ): Promise<HealingContext> {
+    let pageTitle: string | undefined;
+    try {
+      pageTitle = (await this.page.title?.()) || undefined;
+    } catch {
+      // A closing page has no title; heal without it.
+    }
+    return {
+      originalSelector: ctx.key.originalSelector,
+      action: ctx.key.action,
+      valueType: ctx.valueType,
+      url: this.page.url(),
+      pageTitle,
+      testTitle: this.testTitle,
+      intent: ctx.target.intent,
+      fingerprint,
+      nearbyText: fingerprint?.nearbyLabels ?? [],
+      attempt: 1,
+      maxAttempts: this.maxRetries,
+      rejectedSuggestions: [],
+    };
+  }
+
+  /** The fingerprint last recorded for the element being healed, if any. */
+  private storedFingerprint(ctx: HealContext) {
+    const key = ctx.target.fingerprintKey;
+    if (key === undefined) return undefined;
+    return this.fingerprintStore?.get({ selector: key, urlPattern: ctx.key.urlPattern });
+  }
+
+  /** Wait for the healed `selector` to attach, then run `fn` on its locator. */
+  private async runWithSelector(
+    ctx: HealContext,
     selector: string,
-    value: string,
-    options?: Record<string, unknown>,
+    fn: (loc: LocatorLike) => Promise<void>,
   ): Promise<void> {
-    await this.healAndRetry(selector, 'fill', async (loc) => {
-      await loc.fill(value, options);
-    });
-    await this.afterAction('fill');
+    const locator = ctx.target.resolve(selector);
+    await locator.waitFor({ state: 'attached', timeout: this.locatorTimeout });
+    await fn(locator);
+  }
+
+  // -----------------------------------------------------------------------
+  // After-action hook
+  // -----------------------------------------------------------------------
+
+  private async afterAction(action: string, overrides?: A11yScanOptions): Promise<void> {
+    if (!this.a11yEnabled) return;
+    try {
+      const violations = await runAccessibilityScan(
+        this.page,
+        action,
+        this.a11yScanner,
+        { ...this.a11yOptions, ...overrides },
+      );
+      this.a11yViolations.push(...violations);
+    } catch {
+      // axe-core can fail on certain pages (e.g., about:blank). Swallow.
+    }
   }
 
   /**
-   * Navigate to a URL and run an a11y scan afterward.
+   * Run `fn` on `target` with healing, then scan for a11y violations if
+   * the action mutates the page (`scan`), with any options given for this
+   * action. `input` is the text the action types, if any.
+   * @internal Used by `ResilientLocator`.
    */
-  async goto(url: string, options?: Record<string, unknown>): Promise<void> {
-    await this.page.goto(url, options);
-    await this.afterAction('goto');
+  async perform(
+    target: HealTarget,
+    action: string,
+    fn: (loc: LocatorLike) => Promise<void>,
+    scan: boolean | A11yScanOptions,
+    input?: string,
+  ): Promise<void> {
+    await this.healAndRetry(target, action, fn, input);
+    if (scan) await this.afterAction(action, scan === true ? undefined : scan);
   }
 
+  // -----------------------------------------------------------------------
+  // Public action methods (the ones users call)
+  // -----------------------------------------------------------------------
+
   /**
-   * Self-healing wrapper that returns a locator's text content.
+   * Navigate to a URL and run an a11y scan afterward. `options.a11y`
+   * overrides the scan options for this scan, or skips it when `false`.
    */
-  async textContent(
-    selector: string,
-    options?: Record<string, unknown>,
-  ): Promise<string | null> {
-    let result: string | null = null;
-    await this.healAndRetry(selector, 'textContent', async (loc) => {
-      result = await loc.textContent(options);
-    });
-    return result;
+  async goto(url: string, options?: ActionOptions): Promise<void> {
+    const { a11y, ...driverOptions } = options ?? {};
+    await this.page.goto(url, options && driverOptions);
+    if (a11y !== false) await this.afterAction('goto', a11y);
   }
 
   /**
-   * Self-healing wrapper that returns a locator's inner text.
+   * Set what later a11y scans on this page check and report, replacing the
+   * configured `a11yOptions` field by field, e.g. for one test.
    */
-  async innerText(
-    selector: string,
-    options?: Record<string, unknown>,
-  ): Promise<string> {
-    let result = '';
-    await this.healAndRetry(selector, 'innerText', async (loc) => {
-      result = await loc.innerText(options);
-    });
-    return result;
+  setA11yOptions(options: A11yScanOptions): void {
+    this.a11yOptions = { ...this.a11yOptions, ...options };
   }
 
   /**
-   * Self-healing wrapper that returns a locator's input value.
+   * The driver's own locator for `selector` — a Playwright `Locator` for a
+   * Playwright page — without healing, for `expect()` assertions and APIs
+   * that need one. `locator()` returns a `ResilientLocator` instead.
    */
-  async inputValue(
-    selector: string,
-    options?: Record<string, unknown>,
-  ): Promise<string> {
-    let result = '';
-    await this.healAndRetry(selector, 'inputValue', async (loc) => {
-      result = await loc.inputValue(options);
-    });
-    return result;
+  rawLocator(selector: string, options?: LocatorFilterLike): ReturnType<P['locator']> {
+    return this.page.locator(selector, options) as ReturnType<P['locator']>;
   }
 
+  // -----------------------------------------------------------------------
+  // Reporting
+  // -----------------------------------------------------------------------
+
   /**
-   * Self-healing wrapper that checks if a locator is visible.
+   * Report everything recorded since the page was created or last reported,
+   * output it as configured (`reporterMode`, `reportDir`), and start a new
+   * reporting period. The Playwright fixture reports for you; call this
+   * when using the page standalone, e.g. once per monitoring run.
    */
-  async isVisible(selector: string): Promise<boolean> {
-    let result = false;
-    await this.healAndRetry(selector, 'isVisible', async (loc) => {
-      result = await loc.isVisible();
-    });
-    return result;
+  report(name: string, passed = true): TestReport {
+    const report = buildReport(
+      name,
+      passed,
+      this.healingEvents.splice(0),
+      this.a11yViolations.splice(0),
+      Date.now() - this.periodStart,
+      this.selectorRejections.splice(0),
+      this.selectorFailures.splice(0),
+      this.aiCalls.splice(0),
+    );
+    outputReport(report, this.reporterMode, this.reportDir);
+    this.periodStart = Date.now();
+    return report;
   }
 
   /**
-   * Direct access to the underlying page.locator() — no healing,
-   * useful when you need the raw Playwright API.
+   * The iframe matched by `selector`. Actions in the returned scope heal
+   * against the frame's own document; call `.frame()` on it for nested
+   * iframes.
    */
-  locator(selector: string): Locator {
-    return this.page.locator(selector);
+  frame(selector: string): ResilientFrame {
+    return new ResilientFrame(this, [selector]);
+  }
+
+  protected chainFrom(step: ChainStep): ResilientLocator {
+    return new ResilientLocator(this, [step]);
   }
 }
+
@@ -0,0 +1,90 @@
+/**
+ * Screenshots — captures the page and elements for AI vision, within a size
+ * limit, and keeps element screenshots between runs.
+ *
+ * Screenshots are JPEG-encoded at CSS pixel scale, so they stay small on
+ * high-DPI displays; one that is still too large is re-taken at lower
+ * quality until it fits.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { DriverOptions, FingerprintKey, LocatorLike, ScreenshotStore } from './types';
+
+/** Largest screenshot sent to the AI by default, in bytes. */
+export const DEFAULT_MAX_IMAGE_BYTES = 1024 * 1024;
+
+/** JPEG qualities to try, best first. */
+const QUALITIES = [80, 60, 40, 20];
+
+/** Anything that can take a screenshot: a page or a locator. */
+export interface ScreenshotTarget {
+  screenshot?(options?: DriverOptions): Promise<Buffer>;
+}
+
+/**
+ * Take a JPEG screenshot of `target` (the visible part of a page, or an
+ * element) no larger than `maxBytes`, with the `mask` locators (sensitive
+ * regions) blacked out. Returns `undefined` if the driver cannot take
+ * screenshots, taking one fails, or none fits.
+ */
+export async function captureScreenshot(
+  target: ScreenshotTarget,
+  timeout: number,
+  maxBytes = DEFAULT_MAX_IMAGE_BYTES,
+  mask: LocatorLike[] = [],
+): Promise<Buffer | undefined> {
+  if (!target.screenshot) return undefined;
+  try {
+    for (const quality of QUALITIES) {
+      const image = await target.screenshot({
+        type: 'jpeg',
+        quality,
+        scale: 'css',
+        animations: 'disabled',
+        timeout,
+        ...(mask.length > 0 ? { mask, maskColor: '#000000' } : {}),
+      });
+      if (image.length <= maxBytes) return image;
+    }
+  } catch {
+    // Vision is best-effort: heal from the DOM alone.
+  }
+  return undefined;
+}
+
+/** File name of the screenshot for `key`. */
+function fileName(key: FingerprintKey): string {
+  const hash = crypto
+    .createHash('sha256')
+    .update(`${key.urlPattern}\n${key.selector}`)
+    .digest('hex');
+  return `${hash.slice(0, 16)}.jpg`;
+}
+
+/**
+ * Create a store keeping one element screenshot per fingerprint key in
+ * `dir`, named by a hash of the key.
+ */
+export function createScreenshotStore(dir: string): ScreenshotStore {
+  return {
+    dir,
+
+    get(key) {
+      try {
+        return fs.readFileSync(path.join(dir, fileName(key)));
+      } catch {
+        return undefined;
+      }
+    },
+
+    save(key, image) {
+      fs.mkdirSync(dir, { recursive: true });
+      const filePath = path.join(dir, fileName(key));
+      const tmpPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+      fs.writeFileSync(tmpPath, image);
+      fs.renameSync(tmpPath, filePath);
+    },
+  };
+}
@@ -0,0 +1,227 @@
+/**
+ * Selector Normalizer — turns what a model replied into a selector
+ * Playwright can run. Models wrap selectors in markdown fences, quotes and
+ * prose ("Try: `#login`"), or answer with locator calls; all of that is
+ * stripped, and anything still not a syntactically valid selector is
+ * rejected before the page acts on it.
+ */
+
+/** Thrown when a model reply contains no usable selector. */
+export class InvalidSelectorError extends Error {
+  constructor(
+    /** What is wrong with the reply. */
+    readonly detail: string,
+    /** The reply exactly as the model sent it. */
+    readonly rawResponse: string,
+  ) {
+    super(`AI returned an invalid selector: ${detail}`);
+    this.name = 'InvalidSelectorError';
+  }
+}
+
+/** Playwright selector engines accepted as `engine=body`. */
+const ENGINE =
+  /^(css|text|role|xpath|id|data-testid|data-test-id|data-test|nth|visible|internal:[\w-]+)=/;
+
+/**
+ * HTML (and common SVG) element names. A "selector" made only of bare
+ * words, not all of them element names, is prose rather than type selectors.
+ */
+const ELEMENT_NAMES = new Set(
+  (
+    'a abbr address area article aside audio b bdi bdo blockquote body br button canvas ' +
+    'caption cite code col colgroup data datalist dd del details dfn dialog div dl dt em ' +
+    'embed fieldset figcaption figure footer form h1 h2 h3 h4 h5 h6 head header hgroup hr ' +
+    'html i iframe img input ins kbd label legend li link main map mark menu meta meter nav ' +
+    'noscript object ol optgroup option output p picture pre progress q rp rt ruby s samp ' +
+    'script search section select slot small source span strong style sub summary sup table ' +
+    'tbody td template textarea tfoot th thead time title tr track u ul var video wbr ' +
+    'svg path g circle rect line polyline polygon text use'
+  ).split(' '),
+);
+
+// ---------------------------------------------------------------------------
+// Stripping
+// ---------------------------------------------------------------------------
+
+/** Undo JavaScript string escapes of quotes and backslashes. */
+function unescapeQuotes(value: string): string {
+  return value.replace(/\\(["'`\\])/g, '$1');
+}
+
+/** A JavaScript string literal, capturing its contents. */
+const STRING = String.raw`(["'\x60])((?:\\.|(?!\1).)*)\1`;
+
+/** `page.locator('css')` and the common `getBy*` calls, as selectors. */
+const LOCATOR_CALLS: Array<[RegExp, (m: RegExpExecArray) => string]> = [
+  [
+    new RegExp(String.raw`^(?:await\s+)?(?:\w+\.)*locator\(\s*${STRING}\s*\)`),
+    (m) => unescapeQuotes(m[2]),
+  ],
+  [
+    new RegExp(
+      String.raw`^(?:await\s+)?(?:\w+\.)*getByRole\(\s*${STRING}\s*(?:,\s*\{[^}]*?\bname:\s*(["'\x60])((?:\\.|(?!\3).)*)\3[^}]*\})?`,
+    ),
+    (m) =>
+      m[4] !== undefined
+        ? `role=${m[2]}[name="${unescapeQuotes(m[4]).replace(/"/g, '\\"')}"]`
+        : `role=${m[2]}`,
+  ],
+  [
+    new RegExp(String.raw`^(?:await\s+)?(?:\w+\.)*getByText\(\s*${STRING}`),
+    (m) => `text=${unescapeQuotes(m[2])}`,
+  ],
+  [
+    new RegExp(String.raw`^(?:await\s+)?(?:\w+\.)*getByTestId\(\s*${STRING}`),
+    (m) => `data-testid=${unescapeQuotes(m[2])}`,
+  ],
+];
+
+/** Strip decoration from one line of a reply, leaving the selector candidate. */
+function stripLine(line: string): string {
+  let text = line.trim();
+  // List markers: "1. ", "- ", "* ".
+  text = text.replace(/^(?:[-*•]\s+|\d+[.)]\s+)/, '');
+  // Prose lead-ins: "Try: ", "The best selector is: ". CSS pseudo-classes
+  // never have whitespace after their colon.
+  text = text.replace(/^[A-Za-z][\w ,'’-]*:\s+/, '');
+  // Inline code and quotes around the whole selector, ending a sentence.
+  text = text.replace(/(["'`])[.,;:]+$/, '$1');
+  let quoted: RegExpExecArray | null;
+  while ((quoted = /^(["'`])([\s\S]+)\1$/.exec(text))) text = quoted[2].trim();
+  for (const [pattern, toSelector] of LOCATOR_CALLS) {
+    const match = pattern.exec(text);
+    if (match) return toSelector(match);
+  }
+  // Sentence punctuation after a CSS selector.
+  if (!ENGINE.test(text)) text = text.replace(/[.,;:]+$/, '');
+  return text.trim();
+}
+
+/** The lines of `raw` worth trying, with markdown fences unwrapped. */
+function candidateLines(raw: string): string[] {
+  const fenced = /```[\w-]*[^\S\n]*\n?([\s\S]*?)```/.exec(raw);
+  const body = fenced ? fenced[1] : raw;
+  return body
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('```'));
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+/** Split `selector` on top-level `>>`, ignoring any inside quotes or brackets. */
+function splitChain(selector: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote = '';
+  let start = 0;
+  for (let i = 0; i < selector.length; i++) {
+    const ch = selector[i];
+    if (quote) {
+      if (ch === '\\') i++;
+      else if (ch === quote) quote = '';
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '(' || ch === '[') {
+      depth++;
+    } else if (ch === ')' || ch === ']') {
+      depth--;
+    } else if (depth === 0 && ch === '>' && selector[i + 1] === '>') {
+      parts.push(selector.slice(start, i));
+      start = i + 2;
+      i++;
+    }
+  }
+  parts.push(selector.slice(start));
+  return parts.map((part) => part.trim());
+}
+
+/** Find bracket, quote and character errors in CSS, or `undefined` if none. */
+function checkCss(css: string): string | undefined {
+  const closers: Record<string, string> = { ')': '(', ']': '[' };
+  const stack: string[] = [];
+  let quote = '';
+  for (let i = 0; i < css.length; i++) {
+    const ch = css[i];
+    if (quote) {
+      if (ch === '\\') i++;
+      else if (ch === quote) quote = '';
+      continue;
+    }
+    if (ch === '"' || ch === "'") quote = ch;
+    else if (ch === '(' || ch === '[') stack.push(ch);
+    else if (ch in closers) {
+      if (stack.pop() !== closers[ch]) return `unbalanced "${ch}" in "${css}"`;
+    } else if (ch === '\\') i++;
+    else if ('{};`!?@/'.includes(ch)) return `unexpected "${ch}" in "${css}"`;
+  }
+  if (quote) return `unterminated string in "${css}"`;
+  if (stack.length > 0) return `unclosed "${stack[stack.length - 1]}" in "${css}"`;
+  if (/^[+~,]|[>+~,]$/.test(css)) return `dangling combinator in "${css}"`;
+
+  const words = css.split(/\s+/);
+  if (
+    words.every((word) => /^[A-Za-z]+$/.test(word)) &&
+    words.some((word) => !ELEMENT_NAMES.has(word.toLowerCase()))
+  ) {
+    return `"${css}" is prose, not a selector`;
+  }
+  return undefined;
+}
+
+/** Find what makes one link of a selector chain invalid, or `undefined`. */
+function checkPart(part: string): string | undefined {
+  if (!part) return 'empty selector';
+  const engine = ENGINE.exec(part);
+  const body = engine ? part.slice(engine[0].length).trim() : part;
+  const name = engine?.[1] ?? (/^\(*(?:\/\/|\.\.)/.test(part) ? 'xpath' : 'css');
+
+  if (!body) return `empty ${name}= selector`;
+  switch (name) {
+    case 'css':
+      return checkCss(body);
+    case 'role':
+      return /^[a-z]+(?:\s*\[[^\]]+\])*$/i.test(body)
+        ? undefined
+        : `invalid role selector "${part}"`;
+    case 'xpath':
+      return /^\(*[/.]/.test(body) ? undefined : `invalid xpath "${part}"`;
+    default:
+      return undefined;
+  }
+}
+
+/** Describe what makes `selector` invalid, or `undefined` if it is valid. */
+export function findSelectorError(selector: string): string | undefined {
+  if (!selector.trim()) return 'empty selector';
+  for (const part of splitChain(selector)) {
+    const error = checkPart(part);
+    if (error) return error;
+  }
+  return undefined;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Extract the selector from a model reply: the first line that, once
+ * stripped of fences, quotes, list markers and prose, is a valid CSS,
+ * XPath or Playwright engine selector (including `>>` chains).
+ *
+ * Throws `InvalidSelectorError` if no line is.
+ */
+export function normalizeSelector(raw: string): string {
+  let firstError: string | undefined;
+  for (const line of candidateLines(raw)) {
+    const selector = stripLine(line);
+    const error = findSelectorError(selector);
+    if (!error) return selector;
+    firstError ??= error;
+  }
+  throw new InvalidSelectorError(firstError ?? 'empty response', raw);
+}
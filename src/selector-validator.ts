@@ -0,0 +1,106 @@
+/**
+ * Selector Validator — vets AI-suggested selectors before any action is
+ * performed on them, so a bad suggestion cannot "heal" a test by clicking
+ * the wrong element.
+ */
+
+import { ElementFingerprint, LocatorRootLike, RejectionReason } from './types';
+import { captureFingerprint } from './element-fingerprint';
+import { textSimilarity } from './heuristic-healer';
+
+/** Outcome of validating a single suggested selector. */
+export type ValidationResult =
+  | { valid: true }
+  | { valid: false; reason: RejectionReason; detail: string };
+
+/**
+ * Tokens that tie a selector to something specific about the element:
+ * ids, classes, attributes, text/role engines and text pseudo-classes.
+ * Positional pseudo-classes (`:first-child`, `:nth-of-type(2)`) and bare
+ * tag names do not count.
+ */
+const IDENTIFYING_TOKEN =
+  /[#.][\w-]|\[[^\]\d]|(?:^|\s|>>)\s*(?:text|role|id|data-testid|data-test-id|xpath|internal:[\w-]+)=|:(?:has-)?text(?:-is|-matches)?\(|:has\(/;
+
+/**
+ * Whether `selector` is too generic to trust: empty, `*`, a bare tag, or a
+ * purely structural path such as `body *:first-child`.
+ */
+export function isOverlyGeneric(selector: string): boolean {
+  const trimmed = selector.trim();
+  if (trimmed === '' || trimmed === '*') return true;
+  return !IDENTIFYING_TOKEN.test(trimmed);
+}
+
+function reject(reason: RejectionReason, detail: string): ValidationResult {
+  return { valid: false, reason, detail };
+}
+
+/**
+ * Compare the element a suggestion resolves to against the fingerprint of
+ * the element the original selector used to match.
+ */
+export function compareFingerprints(
+  expected: ElementFingerprint,
+  actual: ElementFingerprint,
+): ValidationResult {
+  if (expected.role && actual.role && expected.role !== actual.role) {
+    return reject(
+      'role-mismatch',
+      `expected role "${expected.role}" but found "${actual.role}"`,
+    );
+  }
+  if ((!expected.role || !actual.role) && expected.tag !== actual.tag) {
+    return reject(
+      'tag-mismatch',
+      `expected <${expected.tag}> but found <${actual.tag}>`,
+    );
+  }
+  if (
+    expected.accessibleName &&
+    actual.accessibleName &&
+    textSimilarity(expected.accessibleName, actual.accessibleName) === 0
+  ) {
+    return reject(
+      'name-mismatch',
+      `expected name "${expected.accessibleName}" but found "${actual.accessibleName}"`,
+    );
+  }
+  return { valid: true };
+}
+
+/**
+ * Validate a suggested selector against the live page.
+ *
+ * Rejects selectors that are overly generic, fail to parse, match zero or
+ * several elements, or — when `fingerprint` is known — resolve to an
+ * element whose role, tag or accessible name disagrees with it.
+ */
+export async function validateSuggestion(
+  page: Pick<LocatorRootLike, 'locator'>,
+  selector: string,
+  fingerprint?: ElementFingerprint,
+): Promise<ValidationResult> {
+  if (isOverlyGeneric(selector)) {
+    return reject('too-generic', 'selector does not identify a specific element');
+  }
+
+  const locator = page.locator(selector);
+  let count: number;
+  try {
+    count = await locator.count();
+  } catch (err) {
+    return reject(
+      'unparseable',
+      err instanceof Error ? err.message.split('\n')[0] : String(err),
+    );
+  }
+  if (count === 0) return reject('no-match', 'selector matches no elements');
+  if (count > 1) return reject('ambiguous', `selector matches ${count} elements`);
+
+  if (fingerprint) {
+    const actual = await captureFingerprint(locator);
+    if (actual) return compareFingerprints(fingerprint, actual);
+  }
+  return { valid: true };
+}
@@ -0,0 +1,695 @@
+/**
+ * Snapshot Builder — condenses page HTML into what the AI needs to choose a
+ * selector, within a token budget.
+ *
+ * It works on an HTML string, so it runs in Node and can be tested on
+ * static fixtures. `<head>`, scripts, styles, comments, SVG internals and
+ * hidden elements are removed, and only identifying attributes are kept.
+ * If that is still over budget, elements are replaced by omission markers,
+ * least important first: those without interactive elements, and those far
+ * from where the element was last seen.
+ */
+
+import { ElementFingerprint, SnapshotOptions } from './types';
+
+/** Default token budget of a snapshot. */
+export const DEFAULT_SNAPSHOT_TOKENS = 3000;
+
+/** Rough token count of `text`, at about four characters per token. */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+interface TextNode {
+  kind: 'text';
+  text: string;
+}
+
+/** An omission marker from a previous build, kept when a snapshot is rebuilt. */
+interface MarkerNode {
+  kind: 'marker';
+  count: number;
+}
+
+/** Adjacent omitted siblings, rendered as one marker. */
+interface OmittedRun {
+  /** Elements omitted, counting descendants. */
+  count: number;
+  first: ElementNode;
+  last: ElementNode;
+}
+
+interface ElementNode {
+  kind: 'element';
+  tag: string;
+  /** Attribute values; `null` for attributes without one. */
+  attrs: Array<[name: string, value: string | null]>;
+  children: SnapshotNode[];
+  parent: ElementNode | null;
+  /** Rendered length in characters, kept up to date while collapsing. */
+  length: number;
+  /** Whether it can be interacted with, judged before attributes are cleaned. */
+  interactive: boolean;
+  /** How important it is to keep: the highest score in its subtree. */
+  value: number;
+  /** Position in the parent's children. */
+  index: number;
+  /** Set once the element is omitted; only current on the run's first and last elements. */
+  run?: OmittedRun;
+}
+
+type SnapshotNode = TextNode | MarkerNode | ElementNode;
+
+const VOID_TAGS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input',
+  'link', 'meta', 'param', 'source', 'track', 'wbr',
+]);
+
+/** Elements whose content is text up to their end tag. */
+const RAW_TEXT_TAGS = new Set(['script', 'style', 'textarea', 'title', 'noscript']);
+
+/** Open elements closed implicitly by a new start tag, keyed by that tag. */
+const CLOSED_BY: Record<string, string[]> = {
+  li: ['li'],
+  option: ['option'],
+  dt: ['dt', 'dd'],
+  dd: ['dt', 'dd'],
+  tr: ['tr', 'td', 'th'],
+  td: ['td', 'th'],
+  th: ['td', 'th'],
+};
+
+/** Start tags that implicitly close an open `<p>`. */
+const CLOSES_P = new Set([
+  'p', 'div', 'ul', 'ol', 'dl', 'table', 'form', 'section', 'article', 'aside',
+  'header', 'footer', 'nav', 'main', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'pre',
+  'blockquote', 'fieldset', 'figure', 'hr',
+]);
+
+const START_TAG =
+  /<([a-zA-Z][\w:-]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*(\/?)>/y;
+const ATTRIBUTE = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+const END_TAG = /<\/([a-zA-Z][\w:-]*)\s*>/y;
+const OMISSION_MARKER = /^<!-- (\d+) elements? omitted -->$/;
+
+function createElement(
+  tag: string,
+  attrs: ElementNode['attrs'],
+  parent: ElementNode | null,
+): ElementNode {
+  return {
+    kind: 'element',
+    tag,
+    attrs,
+    children: [],
+    parent,
+    length: 0,
+    interactive: false,
+    value: 0,
+    index: 0,
+  };
+}
+
+function parseAttributes(source: string): ElementNode['attrs'] {
+  const attrs: ElementNode['attrs'] = [];
+  for (const m of source.matchAll(ATTRIBUTE)) {
+    attrs.push([m[1].toLowerCase(), m[2] ?? m[3] ?? m[4] ?? null]);
+  }
+  return attrs;
+}
+
+/** Parse `html` leniently into a tree under a synthetic root. */
+function parseHtml(html: string): ElementNode {
+  const root = createElement('#root', [], null);
+  let current = root;
+  let i = 0;
+  const addText = (text: string) => {
+    if (text) current.children.push({ kind: 'text', text });
+  };
+
+  while (i < html.length) {
+    const lt = html.indexOf('<', i);
+    if (lt < 0) {
+      addText(html.slice(i));
+      break;
+    }
+    addText(html.slice(i, lt));
+
+    if (html.startsWith('<!--', lt)) {
+      const end = html.indexOf('-->', lt + 4);
+      i = end < 0 ? html.length : end + 3;
+      const marker = OMISSION_MARKER.exec(html.slice(lt, i));
+      if (marker) current.children.push({ kind: 'marker', count: Number(marker[1]) });
+      continue;
+    }
+    if (html[lt + 1] === '!' || html[lt + 1] === '?') {
+      const end = html.indexOf('>', lt);
+      i = end < 0 ? html.length : end + 1;
+      continue;
+    }
+
+    END_TAG.lastIndex = lt;
+    const end = END_TAG.exec(html);
+    if (end) {
+      const tag = end[1].toLowerCase();
+      let open: ElementNode | null = current;
+      while (open && open.tag !== tag) open = open.parent;
+      if (open?.parent) current = open.parent;
+      i = END_TAG.lastIndex;
+      continue;
+    }
+
+    START_TAG.lastIndex = lt;
+    const start = START_TAG.exec(html);
+    if (!start) {
+      addText('<');
+      i = lt + 1;
+      continue;
+    }
+    const tag = start[1].toLowerCase();
+    while (
+      CLOSED_BY[tag]?.includes(current.tag) ||
+      (current.tag === 'p' && CLOSES_P.has(tag))
+    ) {
+      current = current.parent!;
+    }
+    const el = createElement(tag, parseAttributes(start[2]), current);
+    current.children.push(el);
+    i = START_TAG.lastIndex;
+
+    if (RAW_TEXT_TAGS.has(tag)) {
+      const close = new RegExp(`</${tag}\\s*>`, 'gi');
+      close.lastIndex = i;
+      const match = close.exec(html);
+      const textEnd = match ? match.index : html.length;
+      if (textEnd > i) el.children.push({ kind: 'text', text: html.slice(i, textEnd) });
+      i = match ? close.lastIndex : html.length;
+    } else if (!VOID_TAGS.has(tag) && start[3] !== '/') {
+      current = el;
+    }
+  }
+  return root;
+}
+
+// ---------------------------------------------------------------------------
+// Cleaning
+// ---------------------------------------------------------------------------
+
+/** Elements never worth sending. */
+const DROPPED_TAGS = new Set([
+  'head', 'script', 'style', 'noscript', 'link', 'meta', 'base', 'br', 'wbr',
+  'param', 'source', 'track', 'template',
+]);
+
+/** Elements kept with their attributes but without their content. */
+const OPAQUE_TAGS = new Set(['svg', 'math', 'iframe', 'object', 'canvas', 'video', 'audio']);
+
+const KEPT_ATTRIBUTES = new Set([
+  'id', 'class', 'name', 'type', 'role', 'href', 'title', 'alt', 'placeholder',
+  'for', 'value', 'action', 'method', 'tabindex', 'disabled', 'checked',
+  'selected', 'readonly', 'required', 'contenteditable', 'src', 'label',
+  'shadowrootmode',
+]);
+
+/** Attributes that name or identify an element. */
+const IDENTIFYING_ATTRIBUTES = new Set([
+  'id', 'name', 'role', 'aria-label', 'aria-labelledby', 'title', 'alt',
+  'placeholder', 'for', 'data-testid', 'data-test', 'data-test-id', 'data-qa',
+  'data-cy',
+]);
+
+const INTERACTIVE_TAGS = new Set([
+  'button', 'input', 'select', 'textarea', 'label', 'summary', 'option',
+]);
+
+const INTERACTIVE_ROLES = new Set([
+  'button', 'link', 'checkbox', 'radio', 'tab', 'menuitem', 'menuitemcheckbox',
+  'menuitemradio', 'option', 'textbox', 'searchbox', 'combobox', 'switch',
+  'slider', 'spinbutton', 'treeitem', 'gridcell',
+]);
+
+const MAX_TEXT_LENGTH = 120;
+const MAX_ATTRIBUTE_LENGTH = 80;
+const MAX_CLASSES = 6;
+
+function attr(el: ElementNode, name: string): string | null | undefined {
+  return el.attrs.find(([n]) => n === name)?.[1];
+}
+
+function isKeptAttribute(name: string): boolean {
+  return (
+    KEPT_ATTRIBUTES.has(name) ||
+    name.startsWith('aria-') ||
+    name.startsWith('data-test') ||
+    name === 'data-qa' ||
+    name === 'data-cy'
+  );
+}
+
+function isHidden(el: ElementNode): boolean {
+  const style = (attr(el, 'style') ?? '').toLowerCase();
+  return (
+    attr(el, 'hidden') !== undefined ||
+    attr(el, 'aria-hidden') === 'true' ||
+    (el.tag === 'input' && (attr(el, 'type') ?? '').toLowerCase() === 'hidden') ||
+    /display\s*:\s*none|visibility\s*:\s*hidden/.test(style)
+  );
+}
+
+function isInteractive(el: ElementNode): boolean {
+  return (
+    INTERACTIVE_TAGS.has(el.tag) ||
+    (el.tag === 'a' && attr(el, 'href') != null) ||
+    INTERACTIVE_ROLES.has(attr(el, 'role') ?? '') ||
+    attr(el, 'onclick') !== undefined ||
+    attr(el, 'contenteditable') !== undefined ||
+    (attr(el, 'tabindex') ?? '-1') !== '-1'
+  );
+}
+
+const isSpace = (node: SnapshotNode | undefined) => node?.kind === 'text' && node.text === ' ';
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+function cleanAttributes(el: ElementNode): ElementNode['attrs'] {
+  const attrs: ElementNode['attrs'] = [];
+  for (const [name, value] of el.attrs) {
+    if (!isKeptAttribute(name)) continue;
+    if (value === null) {
+      attrs.push([name, null]);
+      continue;
+    }
+    const cleaned =
+      name === 'class'
+        ? value.split(/\s+/).filter(Boolean).slice(0, MAX_CLASSES).join(' ')
+        : value.startsWith('data:')
+          ? 'data:…'
+          : truncate(value, MAX_ATTRIBUTE_LENGTH);
+    if (cleaned || name === 'value') attrs.push([name, cleaned]);
+  }
+  return attrs;
+}
+
+/**
+ * Strip `el`'s subtree in place. Returns false if `el` should be removed:
+ * dropped or hidden elements, and elements left with nothing identifying.
+ */
+function clean(el: ElementNode): boolean {
+  if (DROPPED_TAGS.has(el.tag) && !(el.tag === 'template' && attr(el, 'shadowrootmode'))) {
+    return false;
+  }
+  if (isHidden(el)) return false;
+  el.interactive = isInteractive(el);
+  el.attrs = cleanAttributes(el);
+
+  if (OPAQUE_TAGS.has(el.tag)) {
+    el.children = [];
+  } else {
+    const children: SnapshotNode[] = [];
+    for (const child of el.children) {
+      if (child.kind === 'element') {
+        if (clean(child)) children.push(child);
+      } else if (child.kind === 'marker') {
+        children.push(child);
+      } else {
+        const text = child.text.replace(/\s+/g, ' ');
+        const previous = children[children.length - 1];
+        if (text.trim() === '') {
+          // Keep one space between inline elements.
+          if (previous && previous.kind !== 'text') children.push({ kind: 'text', text: ' ' });
+        } else {
+          children.push({ kind: 'text', text: truncate(text, MAX_TEXT_LENGTH) });
+        }
+      }
+    }
+    while (isSpace(children[children.length - 1])) children.pop();
+    el.children = children;
+  }
+
+  return (
+    el.children.length > 0 ||
+    el.attrs.length > 0 ||
+    el.interactive ||
+    el.tag === 'img' ||
+    el.tag === 'body' ||
+    el.tag === 'html'
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Scoring
+// ---------------------------------------------------------------------------
+
+/** What the element looked like, gathered from the selector and fingerprint. */
+interface FocusHints {
+  ids: Set<string>;
+  testIds: Set<string>;
+  classes: Set<string>;
+  values: Set<string>;
+  texts: Set<string>;
+  tag?: string;
+  domPath?: string;
+}
+
+const normalise = (s: string) => s.replace(/\s+/g, ' ').trim().toLowerCase();
+
+function focusHints(
+  selector: string | undefined,
+  fingerprint: ElementFingerprint | undefined,
+): FocusHints {
+  const hints: FocusHints = {
+    ids: new Set(),
+    testIds: new Set(),
+    classes: new Set(),
+    values: new Set(),
+    texts: new Set(),
+  };
+  const add = (set: Set<string>, value: string | null | undefined) => {
+    const v = normalise(value ?? '');
+    if (v) set.add(v);
+  };
+
+  if (selector) {
+    for (const m of selector.matchAll(/#([\w-]+)/g)) add(hints.ids, m[1]);
+    for (const m of selector.matchAll(/\.([a-zA-Z_][\w-]*)/g)) add(hints.classes, m[1]);
+    for (const m of selector.matchAll(/\[([\w-]+)[~|^$*]?=\s*["']?([^"'\]]+)/g)) {
+      const isTestId = m[1].startsWith('data-t') || m[1] === 'data-qa' || m[1] === 'data-cy';
+      add(isTestId ? hints.testIds : hints.values, m[2]);
+    }
+    for (const m of selector.matchAll(/(?:text=|has-text\(|name=)\s*["']?([^"')\]]+)/g)) {
+      add(hints.texts, m[1]);
+    }
+  }
+  if (fingerprint) {
+    add(hints.ids, fingerprint.id);
+    add(hints.testIds, fingerprint.testId);
+    for (const c of fingerprint.classes) add(hints.classes, c);
+    add(hints.texts, fingerprint.accessibleName);
+    add(hints.texts, fingerprint.text);
+    for (const label of fingerprint.nearbyLabels) add(hints.values, label);
+    for (const value of Object.values(fingerprint.attributes)) add(hints.values, value);
+    hints.tag = fingerprint.tag;
+    hints.domPath = fingerprint.domPath;
+  }
+  return hints;
+}
+
+/** Words of an identifier, for fuzzy id matching (`submit-btn` ~ `submitButton`). */
+function words(value: string): string[] {
+  return value
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((w) => w.length >= 3);
+}
+
+function directText(el: ElementNode): string {
+  return normalise(
+    el.children.map((c) => (c.kind === 'text' ? c.text : '')).join(' '),
+  );
+}
+
+function domPathOf(el: ElementNode): string {
+  const tags: string[] = [];
+  for (let node = el; node.parent && node.tag !== 'body'; node = node.parent) {
+    tags.unshift(node.tag);
+  }
+  return ['body', ...tags].join(' > ');
+}
+
+/** How closely `el` matches the hints about where the element was. */
+function focusMatch(el: ElementNode, hints: FocusHints): number {
+  let score = 0;
+  const id = normalise(attr(el, 'id') ?? '');
+  if (id && hints.ids.has(id)) score += 6;
+  else if (id && [...hints.ids].some((hint) => words(hint).some((w) => words(id).includes(w)))) {
+    score += 2;
+  }
+
+  const testId = ['data-testid', 'data-test', 'data-test-id', 'data-qa', 'data-cy']
+    .map((name) => normalise(attr(el, name) ?? ''))
+    .find(Boolean);
+  if (testId && hints.testIds.has(testId)) score += 6;
+
+  const classes = (attr(el, 'class') ?? '').split(/\s+/).map(normalise);
+  score += Math.min(3, classes.filter((c) => c && hints.classes.has(c)).length);
+
+  for (const name of ['name', 'placeholder', 'aria-label', 'title', 'alt', 'href', 'for']) {
+    const value = normalise(attr(el, name) ?? '');
+    if (value && hints.values.has(value)) score += 4;
+  }
+
+  const text = directText(el);
+  if (text && hints.texts.has(text)) score += 4;
+  else if (text && [...hints.texts].some((t) => t.length >= 3 && text.includes(t))) score += 1;
+
+  if (score > 0 && hints.tag === el.tag) score += 1;
+  if (hints.domPath && domPathOf(el) === hints.domPath) score += 2;
+  return score;
+}
+
+function elementsOf(root: ElementNode): ElementNode[] {
+  const all: ElementNode[] = [];
+  const visit = (el: ElementNode) => {
+    all.push(el);
+    for (const child of el.children) if (child.kind === 'element') visit(child);
+  };
+  visit(root);
+  return all;
+}
+
+/** Minimum focus match for an element to count as the last-known location. */
+const MIN_FOCUS_MATCH = 4;
+/** Elements within this many tree steps of the focus are kept longest. */
+const FOCUS_RADIUS = 3;
+
+/** Score every element, then set `value` to the highest score in its subtree. */
+function score(root: ElementNode, hints: FocusHints): void {
+  const elements = elementsOf(root);
+  const own = new Map<ElementNode, number>();
+  for (const el of elements) {
+    let s = 0;
+    if (el.interactive) s += 10;
+    if (el.attrs.some(([name]) => IDENTIFYING_ATTRIBUTES.has(name))) s += 3;
+    if (directText(el)) s += 1;
+    own.set(el, s);
+  }
+
+  // Boost the neighbourhood of the best matches for the last-known location.
+  const matches = elements
+    .map((el) => ({ el, match: focusMatch(el, hints) }))
+    .filter(({ match }) => match >= MIN_FOCUS_MATCH)
+    .sort((a, b) => b.match - a.match);
+  const anchors = matches
+    .filter(({ match }) => match >= matches[0]?.match * 0.75)
+    .slice(0, 3)
+    .map(({ el }) => el);
+  const distance = new Map<ElementNode, number>(anchors.map((el) => [el, 0]));
+  const queue = [...anchors];
+  while (queue.length > 0) {
+    const el = queue.shift()!;
+    const d = distance.get(el)!;
+    if (d >= FOCUS_RADIUS) continue;
+    const neighbours = [
+      el.parent,
+      ...el.children.filter((c): c is ElementNode => c.kind === 'element'),
+    ];
+    for (const next of neighbours) {
+      if (next && !distance.has(next)) {
+        distance.set(next, d + 1);
+        queue.push(next);
+      }
+    }
+  }
+  for (const [el, d] of distance) own.set(el, own.get(el)! + 40 / (1 + d));
+
+  const rollUp = (el: ElementNode): number => {
+    el.value = own.get(el)!;
+    for (const child of el.children) {
+      if (child.kind === 'element') el.value = Math.max(el.value, rollUp(child));
+    }
+    return el.value;
+  };
+  rollUp(root);
+}
+
+// ---------------------------------------------------------------------------
+// Rendering and budget fitting
+// ---------------------------------------------------------------------------
+
+function openTag(el: ElementNode): string {
+  const attrs = el.attrs
+    .map(([name, value]) =>
+      value === null ? ` ${name}` : ` ${name}="${value.replace(/"/g, '&quot;')}"`,
+    )
+    .join('');
+  return `<${el.tag}${attrs}>`;
+}
+
+function closeTag(el: ElementNode): string {
+  return VOID_TAGS.has(el.tag) ? '' : `</${el.tag}>`;
+}
+
+function omissionMarker(count: number): string {
+  return `<!-- ${count} element${count === 1 ? '' : 's'} omitted -->`;
+}
+
+function render(node: SnapshotNode): string {
+  if (node.kind === 'text') return node.text;
+  if (node.kind === 'marker') return omissionMarker(node.count);
+  let inner = '';
+  for (let i = 0; i < node.children.length; i++) {
+    const child = node.children[i];
+    if (child.kind === 'element' && child.run) {
+      inner += omissionMarker(child.run.count);
+      i = child.run.last.index;
+    } else {
+      inner += render(child);
+    }
+  }
+  return node.tag === '#root' ? inner : openTag(node) + inner + closeTag(node);
+}
+
+/** Set `length` and `index` on every element, bottom-up. */
+function measure(node: SnapshotNode): number {
+  if (node.kind !== 'element') return render(node).length;
+  let inner = 0;
+  node.children.forEach((child, index) => {
+    if (child.kind === 'element') child.index = index;
+    inner += measure(child);
+  });
+  node.length =
+    (node.tag === '#root' ? 0 : openTag(node).length + closeTag(node).length) + inner;
+  return node.length;
+}
+
+/** The run ending just before `index` in `siblings`, allowing one space between. */
+function runBefore(siblings: SnapshotNode[], index: number): [OmittedRun, number] | undefined {
+  const space = isSpace(siblings[index - 1]) ? 1 : 0;
+  const node = siblings[index - 1 - space];
+  return node?.kind === 'element' && node.run?.last === node ? [node.run, space] : undefined;
+}
+
+/** The run starting just after `index` in `siblings`, allowing one space between. */
+function runAfter(siblings: SnapshotNode[], index: number): [OmittedRun, number] | undefined {
+  const space = isSpace(siblings[index + 1]) ? 1 : 0;
+  const node = siblings[index + 1 + space];
+  return node?.kind === 'element' && node.run?.first === node ? [node.run, space] : undefined;
+}
+
+/**
+ * Replace `el` with an omission marker, merged with any run of omitted
+ * siblings next to it (so omitted list items become one marker). Returns
+ * the number of characters saved; 0, leaving `el` in place, if the marker
+ * would be no shorter.
+ */
+function omit(el: ElementNode): number {
+  const siblings = el.parent!.children;
+  const before = runBefore(siblings, el.index);
+  const after = runAfter(siblings, el.index);
+  const count = elementsOf(el).length + (before?.[0].count ?? 0) + (after?.[0].count ?? 0);
+
+  let replaced = el.length;
+  for (const adjacent of [before, after]) {
+    if (adjacent) replaced += omissionMarker(adjacent[0].count).length + adjacent[1];
+  }
+  const saved = replaced - omissionMarker(count).length;
+  if (saved <= 0) return 0;
+
+  const run: OmittedRun = { count, first: before?.[0].first ?? el, last: after?.[0].last ?? el };
+  el.run = run;
+  run.first.run = run;
+  run.last.run = run;
+  return saved;
+}
+
+/** Whether `el` or one of its ancestors has been omitted. */
+function isOmitted(el: ElementNode): boolean {
+  for (let node: ElementNode | null = el; node; node = node.parent) {
+    if (node.run) return true;
+  }
+  return false;
+}
+
+/**
+ * Replace elements with omission markers, least valuable (and largest)
+ * first, until the snapshot fits in `maxChars`.
+ */
+function fitToBudget(root: ElementNode, maxChars: number): void {
+  if (root.length <= maxChars) return;
+  const structural = new Set(['#root', 'html', 'body']);
+  const candidates = elementsOf(root)
+    .filter((el) => !structural.has(el.tag))
+    .sort((a, b) => a.value - b.value || b.length - a.length);
+
+  const tryOmit = (el: ElementNode, exact: boolean) => {
+    if (isOmitted(el)) return;
+    // Rather than omit far more than needed, leave it to the children,
+    // which come later in the order.
+    const excess = root.length - maxChars;
+    if (exact && el.length > excess && el.children.some((c) => c.kind === 'element')) return;
+    const saved = omit(el);
+    for (let ancestor = el.parent; ancestor; ancestor = ancestor.parent) {
+      ancestor.length -= saved;
+    }
+  };
+
+  // Elements of equal value are tried exactly first, then at any size,
+  // before anything more valuable is touched.
+  for (let start = 0; start < candidates.length && root.length > maxChars; ) {
+    let end = start;
+    while (end < candidates.length && candidates[end].value === candidates[start].value) end++;
+    const group = candidates.slice(start, end);
+    for (const exact of [true, false]) {
+      for (const el of group) {
+        if (root.length <= maxChars) return;
+        tryOmit(el, exact);
+      }
+    }
+    start = end;
+  }
+}
+
+/**
+ * Condense `html` into a snapshot for the AI: strip what cannot help pick a
+ * selector, then collapse the least important subtrees until it fits
+ * `options.maxTokens`. With `options.focus`, the region around where the
+ * element was last seen is kept in full as long as possible.
+ *
+ * Custom providers can call this on `page.content()` to build their own
+ * snapshots.
+ */
+export function buildSnapshot(html: string, options: SnapshotOptions = {}): string {
+  const maxChars = (options.maxTokens ?? DEFAULT_SNAPSHOT_TOKENS) * 4;
+  const root = parseHtml(html);
+  clean(root);
+  score(root, focusHints(options.focus?.selector, options.focus?.fingerprint));
+  measure(root);
+  fitToBudget(root, maxChars);
+
+  const snapshot = render(root);
+  if (snapshot.length <= maxChars) return snapshot;
+  return snapshot.slice(0, maxChars) + '\n<!-- ... truncated ... -->';
+}
+
+/**
+ * Fit a Playwright ARIA snapshot (YAML, one node per line) in `maxTokens`,
+ * keeping whole lines from the top.
+ */
+export function trimAriaSnapshot(
+  yaml: string,
+  maxTokens = DEFAULT_SNAPSHOT_TOKENS,
+): string {
+  const maxChars = maxTokens * 4;
+  if (yaml.length <= maxChars) return yaml;
+  const cut = yaml.lastIndexOf('\n', maxChars);
+  const kept = yaml.slice(0, cut > 0 ? cut : maxChars);
+  const omitted = yaml.slice(kept.length).split('\n').filter(Boolean).length;
+  return `${kept}\n# ... ${omitted} more line${omitted === 1 ? '' : 's'} truncated`;
+}
@@ -0,0 +1,37 @@
+/**
+ * Standalone entry point — the healing engine without the Playwright Test
+ * fixture, for plain `playwright` library scripts, other drivers and
+ * scraping or monitoring jobs. Loading it does not load `@playwright/test`:
+ *
+ *   import { createResilientPage } from 'resilient-auditor/dist/standalone';
+ *
+ *   const resilientPage = createResilientPage(page, { ai: { provider: 'anthropic' } });
+ *   await resilientPage.goto('https://example.com');
+ *   await resilientPage.click('#submit');
+ *   resilientPage.report('nightly check');
+ */
+
+import { ResilientPage } from './resilient-page';
+import { PageLike, ResilientAuditorConfig } from './types';
+
+/**
+ * Wrap `page` — a Playwright `Page` or any other `PageLike` — with
+ * self-healing selectors and a11y scanning. Call `report()` on the result
+ * to output what was recorded and start a new reporting period.
+ */
+export function createResilientPage<P extends PageLike>(
+  page: P,
+  config: Partial<ResilientAuditorConfig> = {},
+): ResilientPage<P> {
+  return new ResilientPage(page, config);
+}
+
+export { ResilientPage } from './resilient-page';
+export { ResilientLocator } from './resilient-locator';
+export type { ResilientFilterOptions } from './resilient-locator';
+export { ResilientFrame } from './resilient-frame';
+export { axeRunOptions, createAxeScanner, runAccessibilityScan } from './accessibility-scanner';
+export { AIBudgetExhaustedError, resetAIBudget } from './ai-budget';
+export { buildReport, outputReport } from './reporter';
+export type * from './types';
+export { REPORTABLE_SEVERITIES, DEFAULT_CONFIG } from './types';
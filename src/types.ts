@@ -5,12 +5,43 @@
 /** Severity levels for accessibility violations. */
 export type A11ySeverity = 'minor' | 'moderate' | 'serious' | 'critical';
 
-/** The severity levels we report on (filtering out noise). */
+/** The severity levels reported by default (filtering out noise). */
 export const REPORTABLE_SEVERITIES: ReadonlySet<A11ySeverity> = new Set([
   'critical',
   'serious',
 ]);
 
+/**
+ * What accessibility scans check and report. Set for the whole run in
+ * `ResilientAuditorConfig.a11yOptions`, for a test with `test.use()` or
+ * `setA11yOptions()`, and for one action with its `a11y` option; each level's
+ * fields replace the one above's.
+ */
+export interface A11yScanOptions {
+  /** Severities reported; others are dropped. Defaults to `critical` and `serious`. */
+  severities?: A11ySeverity[];
+  /**
+   * Run only the rules with these tags, e.g. `wcag2a`, `wcag2aa`,
+   * `wcag21aa` or `best-practice`. Defaults to every rule.
+   */
+  tags?: string[];
+  /** Rule ids to run in addition to those selected by `tags`. */
+  enableRules?: string[];
+  /** Rule ids not to run. */
+  disableRules?: string[];
+  /** Scan only the elements matching these CSS selectors. Defaults to the whole page. */
+  include?: string[];
+  /** Skip the elements matching these CSS selectors, e.g. third-party chat widgets. */
+  exclude?: string[];
+}
+
+/**
+ * Options of a resilient action that scans afterward (`click`, `fill`,
+ * `goto`, …): passed to the driver, except `a11y`, which overrides the scan
+ * options for this action or, when `false`, skips its scan.
+ */
+export type ActionOptions = DriverOptions & { a11y?: A11yScanOptions | false };
+
 /** A single accessibility violation captured during a test. */
 export interface A11yViolation {
   /** axe-core rule ID (e.g., "color-contrast"). */
@@ -25,8 +56,49 @@ export interface A11yViolation {
   url: string;
   /** The action that triggered the scan (e.g., "click", "fill", "goto"). */
   triggeringAction: string;
+  /** Which page of the context it happened on (e.g. `page 2`), when the test used several. */
+  pageLabel?: string;
 }
 
+/** A source location (1-based line and column). */
+export interface CallSite {
+  /** Absolute path of the source file. */
+  file: string;
+  line: number;
+  column: number;
+}
+
+/** Where a healed selector came from. */
+export type HealingSource = 'ai' | 'cache' | 'heuristic' | 'shared';
+
+/**
+ * What to do once a broken selector has been healed:
+ * - `auto`: use the healed selector and let the test pass.
+ * - `suggest`: report the healed selector but fail the action.
+ * - `warn`: use the healed selector, but flag the test with a
+ *   `healing-warning` annotation so the run can be failed at the end.
+ */
+export type HealingMode = 'auto' | 'suggest' | 'warn';
+
+/**
+ * Why a locator action failed:
+ * - `not-attached`: no element matched the selector before the timeout.
+ * - `not-unique`: the selector matched several elements (strict mode violation).
+ * - `not-visible`, `not-enabled`: the element exists but cannot be acted on.
+ * - `intercepted`: another element (e.g. an overlay) receives the pointer events.
+ * - `invalid-value`: the element rejected the value (e.g. `fill` on a checkbox).
+ * - `action-timeout`: the action timed out for another reason.
+ */
+export type FailureClass =
+  | 'not-attached'
+  | 'not-unique'
+  | 'not-visible'
+  | 'not-enabled'
+  | 'intercepted'
+  | 'invalid-value'
+  | 'action-timeout'
+  | 'unknown';
+
 /** A record of a self-healing event where a selector was repaired. */
 export interface HealingEvent {
   /** The original selector that failed. */
@@ -39,6 +111,101 @@ export interface HealingEvent {
   timestamp: string;
   /** The AI provider that suggested the fix. */
   aiProvider: string;
+  /**
+   * AI requests the healing took, counting retries, failed fallback
+   * providers and repeated round-trips.
+   */
+  aiAttempts?: number;
+  /** Tokens, latency and estimated cost of the AI calls the healing made. */
+  aiUsage?: AIUsage;
+  /** The AI response the healed selector was parsed from, for debugging. */
+  rawResponse?: string;
+  /** What the AI was shown of the page when it suggested the fix. */
+  snapshotMode?: SnapshotMode;
+  /** Whether the AI was also shown screenshots (see `AIProviderConfig.vision`). */
+  vision?: boolean;
+  /** What was masked in the snapshots sent to the AI, summed over its calls. */
+  redaction?: RedactionStats;
+  /** Whether the fix came from the AI, the persistent cache or the heuristic healer. */
+  source?: HealingSource;
+  /** Confidence in the healed selector (0–1): model confidence or heuristic similarity. */
+  confidence?: number;
+  /** The model's short explanation for the healed selector. */
+  rationale?: string;
+  /** 1-based rank of the candidate that succeeded within its AI response. */
+  candidateRank?: number;
+  /** How many candidates that AI response contained. */
+  candidateCount?: number;
+  /** The healing mode in effect for this selector. */
+  mode?: HealingMode;
+  /** Whether the healed selector was used for the action (false in `suggest` mode). */
+  applied?: boolean;
+  /** Where the failing selector was used (the first frame outside the auditor). */
+  callSite?: CallSite;
+  /** The classified failure of the original selector that triggered healing. */
+  failureCause?: FailureClass;
+  /**
+   * For chained locators, the full chain (e.g. `locator('form').nth(1)`);
+   * `originalSelector` is then the link that was healed.
+   */
+  locatorChain?: string;
+  /** Selectors of the iframes the element lives in, outermost first. */
+  framePath?: string[];
+  /** Which page of the context it happened on (e.g. `page 2`), when the test used several. */
+  pageLabel?: string;
+}
+
+/** A selector action that failed and was not (or could not be) healed. */
+export interface SelectorFailure {
+  /** The selector that failed. */
+  selector: string;
+  /** The action being attempted (e.g., "click", "fill"). */
+  action: string;
+  /** The classified cause of the failure. */
+  cause: FailureClass;
+  /** Whether healing was attempted (false when `healOn` excludes the cause). */
+  healingAttempted: boolean;
+  /** The error message thrown to the test. */
+  message: string;
+  /** For chained locators, the full chain. */
+  locatorChain?: string;
+  /** Selectors of the iframes the element lives in, outermost first. */
+  framePath?: string[];
+  /** Where the selector was used (the first frame outside the auditor). */
+  callSite?: CallSite;
+  /** ISO-8601 timestamp of the failure. */
+  timestamp: string;
+  /** Which page of the context it happened on (e.g. `page 2`), when the test used several. */
+  pageLabel?: string;
+}
+
+/** Why a suggested selector was rejected without being acted on. */
+export type RejectionReason =
+  | 'unparseable'
+  | 'no-match'
+  | 'ambiguous'
+  | 'too-generic'
+  | 'tag-mismatch'
+  | 'role-mismatch'
+  | 'name-mismatch';
+
+/** A suggested selector that failed validation. */
+export interface SelectorRejection {
+  /** The original selector that failed. */
+  originalSelector: string;
+  /** The suggestion that was rejected. */
+  suggestedSelector: string;
+  /** The action being attempted (e.g., "click", "fill"). */
+  action: string;
+  reason: RejectionReason;
+  /** Human-readable explanation (e.g. "selector matches 3 elements"). */
+  detail: string;
+  /** The AI provider that made the suggestion. */
+  aiProvider: string;
+  /** ISO-8601 timestamp of the rejection. */
+  timestamp: string;
+  /** Which page of the context it happened on (e.g. `page 2`), when the test used several. */
+  pageLabel?: string;
 }
 
 /** Summary produced by the unified reporter at the end of a test. */
@@ -51,33 +218,427 @@ export interface TestReport {
   healingCount: number;
   /** All healing events that occurred. */
   healingEvents: HealingEvent[];
-  /** Total number of a11y violations (critical + serious only). */
+  /** Total number of a11y violations at the reported severities. */
   a11yViolationCount: number;
   /** All a11y violations found. */
   a11yViolations: A11yViolation[];
+  /** Total number of rejected selector suggestions. */
+  rejectionCount: number;
+  /** Suggestions rejected by validation, with the reason. */
+  rejections: SelectorRejection[];
+  /** Total number of selector actions that failed without being healed. */
+  failureCount: number;
+  /** Failed selector actions, with their classified cause. */
+  failures: SelectorFailure[];
   /** Total test duration in milliseconds. */
   durationMs: number;
+  /** Tokens, latency and estimated cost of every AI call made during the test. */
+  aiUsage: AIUsageTotals;
+}
+
+/** Tokens, latency and estimated cost of one or more AI calls. */
+export interface AIUsage {
+  /** Prompt tokens, as reported by the provider (0 if it reports none). */
+  inputTokens: number;
+  /** Completion tokens, as reported by the provider (0 if it reports none). */
+  outputTokens: number;
+  /** Time spent waiting for the AI in ms, including retries. */
+  latencyMs: number;
+  /**
+   * Estimated cost in USD. Absent when the model is not in the price table;
+   * 0 for replayed calls.
+   */
+  costUsd?: number;
+  /**
+   * Whether the answer was replayed from a cassette, so cost nothing. Its
+   * tokens are those of the recording, and are left out of totals.
+   */
+  replayed?: boolean;
+}
+
+/** One AI call made while healing. */
+export interface AICallRecord extends AIUsage {
+  /** The provider that answered. */
+  provider: string;
+  /** The model that answered, if known. */
+  model?: string;
+  /** The selector being healed. */
+  originalSelector: string;
+  /** The action being attempted (e.g., "click", "fill"). */
+  action: string;
+  /** ISO-8601 timestamp of the call. */
+  timestamp: string;
+  /** Which page of the context it happened on (e.g. `page 2`), when the test used several. */
+  pageLabel?: string;
+  /** What the AI was shown of the page. */
+  snapshotMode?: SnapshotMode;
+  /** Whether one of the call's suggestions healed the selector. */
+  healed?: boolean;
+  /** What was masked in the snapshots sent. */
+  redaction?: RedactionStats;
+}
+
+/** Counts of what redaction masked before a snapshot was sent to the AI. */
+export interface RedactionStats {
+  /** `value` attributes and `<textarea>` contents masked. */
+  values: number;
+  /** Password and hidden inputs whose value was masked. */
+  inputs: number;
+  /** Elements matching `RedactionConfig.selectors` whose content was removed. */
+  regions: number;
+  /** Matches masked, per pattern name. */
+  patterns: Record<string, number>;
+}
+
+/** AI usage summed over a test. */
+export interface AIUsageTotals extends AIUsage {
+  /** Number of AI calls. */
+  calls: number;
+  /** Calls whose model had no price, so are missing from `costUsd`. */
+  unpricedCalls: number;
+  /** Calls answered from a cassette, which are missing from the tokens and cost. */
+  replayedCalls: number;
+  /** Calls and heals per kind of page snapshot, to compare them. */
+  bySnapshotMode: Partial<Record<SnapshotMode, SnapshotModeStats>>;
+}
+
+/** How AI calls shown one kind of page snapshot fared. */
+export interface SnapshotModeStats {
+  calls: number;
+  /** Calls whose suggestions healed the selector. */
+  healed: number;
+  inputTokens: number;
+}
+
+/** Price of a model in USD per million tokens. */
+export interface ModelPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+/**
+ * Run-wide ceilings on AI spend. Once either is reached, no more AI calls
+ * are made. Every request to a provider is charged, including failed,
+ * timed-out and retried ones; replayed cassette responses are free.
+ */
+export interface AIBudget {
+  /** Maximum input + output tokens. */
+  maxTokens?: number;
+  /**
+   * Maximum estimated cost in USD. Hosted models must have a price (see
+   * `pricing`); `ollama` and `local` models are free unless priced.
+   */
+  maxCostUsd?: number;
+  /**
+   * JSON file the run's spend is kept in, shared by every worker of the run.
+   * `ResilientPage` defaults it to `<reportDir>/ai-budget.json`. Without one,
+   * each process has its own budget.
+   */
+  path?: string;
+}
+
+/** What AI healing has spent against an `AIBudget`. */
+export interface AIBudgetLedger {
+  /** Throw `AIBudgetExhaustedError` if the budget has been spent. */
+  check(): void;
+  /** Record one provider request's tokens and cost (`undefined` if unpriced). */
+  charge(tokens: number, costUsd: number | undefined): void;
 }
 
 /**
  * Configuration for the AI provider used for selector healing.
- * Supports Anthropic and OpenAI APIs, or a custom implementation.
+ * Supports Anthropic and OpenAI APIs, a local Ollama server, any local
+ * OpenAI-compatible server (llama.cpp, LM Studio, vLLM), or a custom
+ * implementation.
  */
 export interface AIProviderConfig {
   /** Which AI provider to use. */
-  provider: 'anthropic' | 'openai' | 'custom';
-  /** API key (read from env if not supplied). */
+  provider: 'anthropic' | 'openai' | 'ollama' | 'local' | 'custom';
+  /**
+   * API key (read from env if not supplied). Not needed for `ollama`; sent
+   * as a bearer token to a `local` server if given.
+   */
   apiKey?: string;
-  /** Model identifier (e.g., "claude-sonnet-4-20250514", "gpt-4o"). */
+  /** Model identifier (e.g., "claude-sonnet-4-20250514", "gpt-4o", "llama3.1"). */
   model?: string;
-  /** Base URL override for the API endpoint. */
+  /**
+   * Base URL override for the API endpoint. Defaults to
+   * `http://localhost:11434` for `ollama` and `http://localhost:8080` for `local`.
+   */
   baseUrl?: string;
   /**
-   * Custom healing function. Required when provider is 'custom'.
-   * Receives the failed selector and a simplified HTML snapshot,
-   * and returns a suggested replacement selector.
+   * Request timeout in ms. Defaults to 60 s for hosted providers and 5 min
+   * for `ollama` and `local`, where inference may run on a CPU.
+   */
+  timeoutMs?: number;
+  /** Maximum number of ranked candidates to request per AI call. Defaults to 3. */
+  maxCandidates?: number;
+  /**
+   * Token budget of the DOM snapshot sent with each call. Larger pages are
+   * condensed to fit (see `buildSnapshot`). Defaults to 3000.
+   */
+  snapshotTokens?: number;
+  /**
+   * What the provider is shown of the page: the HTML snapshot (`'html'`,
+   * the default), Playwright's ARIA snapshot of roles, names and states
+   * (`'aria'`), or both. With the ARIA snapshot the provider is asked for
+   * role-based selectors where possible. Falls back to HTML if the driver
+   * cannot take ARIA snapshots.
+   */
+  snapshotMode?: SnapshotMode;
+  /**
+   * Also send screenshots with each call: the visible page, plus the
+   * element as it looked when its selector last worked, if one was
+   * captured. Helps with drift that is only obvious visually, such as icon
+   * buttons or canvas-heavy UIs. Used by `anthropic`, `openai` and
+   * `custom`; other providers get the DOM only. Disabled by default.
+   */
+  vision?: boolean | VisionConfig;
+  /**
+   * Requests per call, including retries of rate-limited (429), server
+   * error (5xx), timed-out and unreachable requests. Defaults to 3.
+   */
+  maxAttempts?: number;
+  /**
+   * Delay before the first retry in ms, doubling on each further retry;
+   * each wait is a random fraction of it (full jitter). A `retry-after`
+   * header from the provider takes precedence. Defaults to 1000.
+   */
+  retryBaseDelayMs?: number;
+  /**
+   * Longest delay to wait before a retry, including one a provider asks for
+   * with `retry-after`. Defaults to 30 s.
+   */
+  maxRetryDelayMs?: number;
+  /**
+   * Stop calling this provider for the rest of the run once its calls keep
+   * failing. Set to `false` to disable. Enabled by default.
+   */
+  circuitBreaker?: CircuitBreakerConfig | false;
+  /**
+   * Providers to fall back to, in order, when this one fails or its
+   * circuit is open. Each has its own timeout, retry and circuit settings.
+   */
+  fallbacks?: Omit<AIProviderConfig, 'fallbacks' | 'pricing' | 'budget' | 'cassette'>[];
+  /**
+   * Prices per model id, used to estimate the cost of AI calls. Merged over
+   * the built-in prices of common hosted models; `ollama` and `local`
+   * models cost nothing unless priced here.
+   */
+  pricing?: Record<string, ModelPricing>;
+  /** Stop calling the AI once this much has been spent in the run. */
+  budget?: AIBudget;
+  /**
+   * Record provider responses to a file, or replay them from it without
+   * calling the provider, for deterministic offline runs. Applies to every
+   * provider in the chain except `custom`.
+   */
+  cassette?: CassetteConfig;
+  /**
+   * Replaces the built-in prompt: a function building it from the healing
+   * context and snapshots, or a string with `{{placeholder}}`s (see
+   * `PromptTemplateInput` for what is available). Ignored by `custom`.
+   */
+  promptTemplate?: PromptTemplate;
+  /**
+   * Custom healing function. Required when provider is 'custom' and
+   * `customSuggestFn` is not given.
+   * Receives the failed selector and a simplified HTML snapshot (and the
+   * screenshots, with `vision`, and what is known about the healing), and
+   * returns a suggested replacement selector.
+   */
+  customHealFn?: (
+    failedSelector: string,
+    htmlSnapshot: string,
+    screenshots?: HealingScreenshots,
+    context?: HealingContext,
+  ) => Promise<string>;
+  /**
+   * Custom ranked-suggestion function for provider 'custom'. Takes
+   * precedence over `customHealFn` when healing. Also receives the ARIA
+   * snapshot when `snapshotMode` is `'aria'` or `'both'`, the
+   * screenshots with `vision`, and what is known about the healing.
+   */
+  customSuggestFn?: (
+    failedSelector: string,
+    htmlSnapshot: string,
+    intent?: SemanticIntent,
+    ariaSnapshot?: string,
+    screenshots?: HealingScreenshots,
+    context?: HealingContext,
+  ) => Promise<SelectorCandidate[]>;
+}
+
+/**
+ * A custom AI prompt: a function of the healing context and snapshots, or a
+ * string in which `{{name}}` is replaced by the `name` field of
+ * `PromptTemplateInput` or of its `sections` (e.g. `{{failedSelector}}`,
+ * `{{context}}`, `{{snapshot}}`, `{{responseFormat}}`), or by one of
+ * `{{action}}`, `{{valueType}}`, `{{url}}`, `{{pageTitle}}`, `{{testTitle}}`
+ * and `{{nearbyText}}` from the context. Unknown placeholders are rejected
+ * when the service is created.
+ */
+export type PromptTemplate = string | ((input: PromptTemplateInput) => string);
+
+/** What a `promptTemplate` builds the prompt from. */
+export interface PromptTemplateInput {
+  /** The selector that failed. */
+  failedSelector: string;
+  /** What is known about the healing, when the call is made while healing. */
+  context?: HealingContext;
+  /** The condensed HTML snapshot, unless only the ARIA snapshot is sent. */
+  html?: string;
+  /** The ARIA snapshot, with `snapshotMode` `'aria'` or `'both'`. */
+  aria?: string;
+  /** How many candidates to ask for; 1 for `suggestSelector`. */
+  maxCandidates: number;
+  /** Parts of the built-in prompt, as text. */
+  sections: PromptSections;
+}
+
+/** Parts of the built-in prompt, for reuse in a `promptTemplate`. */
+export interface PromptSections {
+  /** The healing context in words, including earlier attempts; empty if none. */
+  context: string;
+  /** The earlier attempts and why they failed; empty on the first. */
+  previousAttempts: string;
+  /** The snapshots, each under a heading. */
+  snapshot: string;
+  /** How to reply. Without it the response may not be understood. */
+  responseFormat: string;
+  /** The whole built-in prompt. */
+  defaultPrompt: string;
+}
+
+/**
+ * Kind of text an action types, given to the AI instead of the text itself:
+ * `empty` when clearing a field, otherwise what the text looks like.
+ */
+export type InputValueType = 'empty' | 'email' | 'url' | 'date' | 'number' | 'phone' | 'text';
+
+/** What is known about a healing, for the AI prompt and custom providers. */
+export interface HealingContext {
+  /** The selector as written in the test. */
+  originalSelector: string;
+  /** The action being attempted (e.g. "click", "fill"). */
+  action: string;
+  /** Kind of text typed, for `fill`, `pressSequentially` and `type`. */
+  valueType?: InputValueType;
+  /** URL of the page. */
+  url?: string;
+  /** Title of the page, if the driver provides it. */
+  pageTitle?: string;
+  /** Title of the test, when run by the fixture. */
+  testTitle?: string;
+  /** What a `getBy*` locator was looking for. */
+  intent?: SemanticIntent;
+  /** The element's fingerprint from when its selector last worked, if known. */
+  fingerprint?: ElementFingerprint;
+  /** Labels, headings and sibling text near the element when last seen. */
+  nearbyText: string[];
+  /** Which round-trip to the AI this is, from 1. */
+  attempt: number;
+  /** Round-trips allowed (`maxHealingRetries`). */
+  maxAttempts: number;
+  /** Suggestions from earlier round-trips that did not work, in order. */
+  rejectedSuggestions: RejectedSuggestion[];
+}
+
+/** An AI suggestion that was tried while healing and did not work. */
+export interface RejectedSuggestion {
+  selector: string;
+  /** The round-trip that suggested it, from 1. */
+  attempt: number;
+  /** Why it did not work: the validation verdict or the action's error. */
+  error: string;
+}
+
+/** Settings for sending screenshots to the AI provider. */
+export interface VisionConfig {
+  /**
+   * Largest encoded size of each screenshot in bytes. Screenshots are
+   * re-encoded at lower JPEG quality until they fit, and left out if they
+   * never do. Defaults to 1 MB.
+   */
+  maxImageBytes?: number;
+  /**
+   * Capture each element when its selector resolves, to show the AI what
+   * it looked like once it breaks. Defaults to true.
+   */
+  elementScreenshots?: boolean;
+  /** Where element screenshots are kept. Defaults to `<reportDir>/element-screenshots`. */
+  screenshotDir?: string;
+}
+
+/** Screenshots shown to the AI, JPEG-encoded. */
+export interface HealingScreenshots {
+  /** The visible part of the page. */
+  page: Buffer;
+  /** The element from the last run in which its selector worked, if captured. */
+  element?: Buffer;
+}
+
+/** What was captured of the page besides its HTML, for an AI call. */
+export interface PageCaptures {
+  /** Playwright's ARIA snapshot, for `snapshotMode` `'aria'` or `'both'`. */
+  ariaSnapshot?: string;
+  /** Screenshots, for `vision`. */
+  screenshots?: HealingScreenshots;
+}
+
+/**
+ * How a cassette is used: `record` calls the provider and saves each
+ * response, `replay` answers from saved responses, and `passthrough`
+ * ignores the cassette.
+ */
+export type CassetteMode = 'record' | 'replay' | 'passthrough';
+
+/** Settings for recording and replaying AI responses. */
+export interface CassetteConfig {
+  /** Path of the cassette file, e.g. `tests/cassettes/checkout.json`. */
+  path: string;
+  mode: CassetteMode;
+  /**
+   * In `replay` mode, throw when a prompt has no saved response, rather
+   * than calling the provider. Defaults to true.
    */
-  customHealFn?: (failedSelector: string, htmlSnapshot: string) => Promise<string>;
+  strict?: boolean;
+}
+
+/** An AI request, as identified in a cassette. */
+export interface CassetteRequest {
+  provider: string;
+  model: string;
+  /** Which kind of call: a single selector, or ranked candidates. */
+  kind: 'selector' | 'candidates';
+  prompt: string;
+}
+
+/** Saved AI responses, keyed by a hash of the request. */
+export interface Cassette {
+  readonly mode: CassetteMode;
+  /** Absolute or relative path of the backing file. */
+  readonly filePath: string;
+  /**
+   * Answer `request` according to the mode: from the cassette, or by
+   * running `call` (saving its result when recording). `call`'s result
+   * must be JSON-serialisable.
+   */
+  play<T>(request: CassetteRequest, call: () => Promise<T>): Promise<T>;
+}
+
+/** What an AI provider is shown of the page. */
+export type SnapshotMode = 'html' | 'aria' | 'both';
+
+/** When to stop calling a failing AI provider. */
+export interface CircuitBreakerConfig {
+  /** Consecutive failed calls (after retries) that open the circuit. Defaults to 3. */
+  failureThreshold?: number;
+  /**
+   * How long the circuit stays open before the provider is tried again, in
+   * ms. Defaults to the rest of the run.
+   */
+  cooldownMs?: number;
 }
 
 /** Top-level configuration for The Resilient Auditor fixture. */
@@ -86,6 +647,11 @@ export interface ResilientAuditorConfig {
   ai: AIProviderConfig | false;
   /** Whether to run accessibility scans after actions. Defaults to true. */
   a11yEnabled?: boolean;
+  /**
+   * What accessibility scans check and report. Defaults to every rule on
+   * the whole page, reporting critical and serious violations.
+   */
+  a11yOptions?: A11yScanOptions;
   /** Timeout in ms for the initial locator attempt before triggering healing. */
   locatorTimeout?: number;
   /** Maximum number of healing retries per action. Defaults to 1. */
@@ -94,20 +660,220 @@ export interface ResilientAuditorConfig {
   reporterMode?: 'console' | 'json' | 'both';
   /** Directory path for JSON report output. Defaults to './reports'. */
   reportDir?: string;
+  /**
+   * Persistent healed-selector cache shared across runs.
+   * Set to `false` to disable. Defaults to `false`.
+   */
+  healingCache?: HealingCacheConfig | false;
+  /**
+   * Fingerprint elements whose selectors resolve, and heal later failures
+   * by local similarity search before calling the AI.
+   * Set to `false` to disable. Defaults to `false`.
+   */
+  heuristicHealing?: HeuristicHealingConfig | false;
+  /**
+   * Share AI healing between Playwright workers: while one worker heals a
+   * selector the others wait for its result instead of asking the AI too.
+   * Set to `false` to disable. Defaults to `false`.
+   */
+  healingCoordinator?: HealingCoordinatorConfig | false;
+  /**
+   * Validate AI-suggested selectors (specificity, uniqueness, fingerprint
+   * agreement) before acting on them. Defaults to true.
+   */
+  validateSuggestions?: boolean;
+  /** What to do with healed selectors. Defaults to 'auto'. */
+  healingMode?: HealingMode;
+  /** Per-selector overrides of `healingMode`, keyed by the original selector. */
+  selectorHealingModes?: Record<string, HealingMode>;
+  /**
+   * Failure classes that trigger healing. Anything else (a disabled button,
+   * a covering overlay) fails straight away with its classified cause.
+   * Defaults to `['not-attached', 'not-unique']`.
+   */
+  healOn?: FailureClass[];
+  /** Accessibility scanner run after actions. Defaults to axe-core. */
+  a11yScanner?: A11yScanner;
+  /**
+   * Masking applied to page snapshots before they are sent to the AI
+   * provider. Set to `false` to send them unredacted. Enabled by default.
+   */
+  redaction?: RedactionConfig | false;
+  /**
+   * Title of the test the page is used in, given to the AI as context when
+   * healing. The fixture sets it.
+   */
+  testTitle?: string;
+}
+
+/** What to mask in page snapshots before they are sent to the AI. */
+export interface RedactionConfig {
+  /**
+   * Mask the `value` of form fields and the contents of `<textarea>`s.
+   * Values that label or identify rather than hold data (buttons, options,
+   * checkboxes and radios) are kept. Password and hidden inputs are masked
+   * regardless. Defaults to true.
+   */
+  maskValues?: boolean;
+  /**
+   * Patterns masked wherever they appear in text or attributes, by name.
+   * Merged over the built-in `email`, `cardNumber` (Luhn-checked) and `jwt`
+   * patterns; set a built-in to `false` to turn it off.
+   */
+  patterns?: Record<string, RegExp | false>;
+  /**
+   * CSS selectors of sensitive regions. Matching elements are sent with
+   * their content removed, and masked in screenshots. While any are set, no
+   * ARIA snapshot is sent, since it cannot be redacted by region.
+   */
+  selectors?: string[];
+}
+
+/** Settings for sharing AI healing between workers. */
+export interface HealingCoordinatorConfig {
+  /**
+   * Directory of the lock and result files the workers share. Defaults to
+   * `<reportDir>/healing-locks`.
+   */
+  dir?: string;
+  /**
+   * Longest a worker waits for another to heal the same selector before
+   * healing it itself, in ms. Defaults to `staleLockMs`.
+   */
+  waitTimeoutMs?: number;
+  /**
+   * Time in ms after which a lock its worker has stopped refreshing is
+   * presumed abandoned (e.g. the worker crashed) and taken over. A worker
+   * refreshes its lock every third of this while it heals. Defaults to the
+   * AI request timeout: 60 s for hosted providers, 5 min for local ones.
+   */
+  staleLockMs?: number;
+  /**
+   * How long in ms a published result is reused by workers that hit the
+   * same failure later. Defaults to 5 min.
+   */
+  resultTtlMs?: number;
+  /** How often in ms a waiting worker checks for the result. Defaults to 100. */
+  pollIntervalMs?: number;
+}
+
+/** A selector healed by one worker and published for the others. */
+export interface SharedHealing {
+  healedSelector: string;
+  /** The AI provider that suggested it. */
+  aiProvider: string;
+  /** ISO-8601 timestamp of when it was published. */
+  healedAt: string;
+}
+
+/**
+ * The outcome of claiming a healing: `claimed` when this worker should heal
+ * and then `release` it, `shared` when another worker healed it meanwhile,
+ * and `unavailable` when coordination failed and the worker should heal on
+ * its own.
+ */
+export type HealingClaim =
+  | { status: 'claimed' }
+  | { status: 'shared'; result: SharedHealing }
+  | { status: 'unavailable'; reason: string };
+
+/** Dedupes identical in-flight healings across workers. */
+export interface HealingCoordinator {
+  /** Directory of the lock and result files. */
+  readonly dir: string;
+  /**
+   * Claim the healing of `key`. While another worker holds the claim, wait
+   * for it to publish a result or give the claim up.
+   */
+  claim(key: HealingCacheKey): Promise<HealingClaim>;
+  /** Give up a claim, publishing the healed selector if there is one. */
+  release(key: HealingCacheKey, result?: Omit<SharedHealing, 'healedAt'>): void;
+}
+
+/** Settings for fingerprint-based heuristic healing. */
+export interface HeuristicHealingConfig {
+  /** Path of the fingerprint file. Defaults to `<reportDir>/fingerprints.json`. */
+  path?: string;
+  /** Minimum similarity (0–1) for a match to be used. Defaults to 0.6. */
+  minScore?: number;
+}
+
+/** Settings for the persistent healed-selector cache. */
+export interface HealingCacheConfig {
+  /** Path of the cache file. Defaults to `<reportDir>/healing-cache.json`. */
+  path?: string;
 }
 
 /** Default configuration values. */
-export const DEFAULT_CONFIG: Required<Omit<ResilientAuditorConfig, 'ai'>> & {
+export const DEFAULT_CONFIG: Required<
+  Omit<ResilientAuditorConfig, 'ai' | 'a11yScanner' | 'testTitle'>
+> & {
   ai: false;
 } = {
   ai: false,
   a11yEnabled: true,
+  a11yOptions: {},
   locatorTimeout: 5000,
   maxHealingRetries: 1,
   reporterMode: 'console',
   reportDir: './reports',
+  healingCache: false,
+  heuristicHealing: false,
+  healingCoordinator: false,
+  validateSuggestions: true,
+  healingMode: 'auto',
+  selectorHealingModes: {},
+  healOn: ['not-attached', 'not-unique'],
+  redaction: {},
 };
 
+/** One replacement selector proposed by the AI. */
+export interface SelectorCandidate {
+  selector: string;
+  /** Model-reported confidence, 0–1. */
+  confidence: number;
+  /** Short explanation of why this selector targets the intended element. */
+  rationale: string;
+}
+
+/** What a semantic (`getBy*`) locator was looking for. */
+export interface SemanticIntent {
+  method:
+    | 'getByRole'
+    | 'getByText'
+    | 'getByLabel'
+    | 'getByPlaceholder'
+    | 'getByAltText'
+    | 'getByTitle'
+    | 'getByTestId';
+  /** ARIA role, for `getByRole`. */
+  role?: string;
+  /** The accessible name, text, label, placeholder, alt text, title or test id sought. */
+  text?: string;
+  /** Whether `text` had to match exactly. */
+  exact?: boolean;
+}
+
+/** The ranked candidates returned by a single AI round-trip. */
+export interface SelectorSuggestions {
+  /** Candidates ordered best-first. */
+  candidates: SelectorCandidate[];
+  /** The provider that produced them. */
+  provider: string;
+  /** Requests made to get them, counting retries and failed fallbacks. */
+  attempts?: number;
+  /** The model that produced them, if known. */
+  model?: string;
+  /** The response as the provider sent it, before parsing. */
+  rawResponse?: string;
+  /** Tokens, latency and estimated cost of getting them. */
+  usage?: AIUsage;
+  /** What the provider was shown of the page. */
+  snapshotMode?: SnapshotMode;
+  /** Whether the provider was also shown screenshots. */
+  vision?: boolean;
+}
+
 /**
  * The interface exposed by our AI healing service.
  */
@@ -121,33 +887,311 @@ export interface AIHealingService {
     htmlSnapshot: string,
   ): Promise<string>;
 
+  /**
+   * Given a failed selector and an HTML snapshot, returns several ranked
+   * replacement candidates with confidence scores and rationales.
+   * `intent` describes what a `getBy*` locator was looking for,
+   * `captures` holds the ARIA snapshot and screenshots, if any were taken,
+   * and `context` what else is known, including earlier failed attempts.
+   * If it fails after making requests, the error carries their usage as
+   * `usage`.
+   */
+  suggestSelectors(
+    failedSelector: string,
+    htmlSnapshot: string,
+    intent?: SemanticIntent,
+    captures?: PageCaptures,
+    context?: HealingContext,
+  ): Promise<SelectorSuggestions>;
+
+  /**
+   * Which snapshots the service uses. An ARIA snapshot is only taken for
+   * `'aria'` and `'both'`; defaults to `'html'`.
+   */
+  readonly snapshotMode?: SnapshotMode;
+
+  /** Whether the service uses screenshots, so they should be taken. */
+  readonly vision?: boolean;
+
+  /**
+   * Check that the provider can be reached (and, for local providers, that
+   * the model is available), throwing a descriptive error if not.
+   * Only implemented by providers where that check is cheap.
+   */
+  verifyConnection?(): Promise<void>;
+
   /** The name of the provider for logging purposes. */
   readonly providerName: string;
 }
 
+/** Identifies a cached healing: one selector, on one kind of page, for one action. */
+export interface HealingCacheKey {
+  /** The selector as written in the test. */
+  originalSelector: string;
+  /** The page URL with query, hash and ID-like path segments removed. */
+  urlPattern: string;
+  /** The action being attempted (e.g., "click", "fill"). */
+  action: string;
+}
+
+/** A healed selector remembered from a previous run. */
+export interface HealingCacheEntry extends HealingCacheKey {
+  /** The replacement selector that last worked. */
+  healedSelector: string;
+  /** The AI provider that originally suggested the fix. */
+  aiProvider: string;
+  /** How many times the cached selector has been reused successfully. */
+  hitCount: number;
+  /** ISO-8601 timestamp of when the entry was first stored. */
+  createdAt: string;
+  /** ISO-8601 timestamp of the last time the cached selector worked. */
+  lastVerifiedAt: string;
+}
+
 /**
- * Minimal subset of the Playwright Page interface used by the auditor.
- * This allows testing without importing Playwright directly.
+ * Persistent store of healed selectors, consulted before asking the AI.
  */
-export interface PageLike {
-  locator(selector: string): LocatorLike;
-  content(): Promise<string>;
-  url(): string;
-  goto(url: string, options?: Record<string, unknown>): Promise<unknown>;
-  evaluate<R>(pageFunction: string | ((...args: unknown[]) => R)): Promise<R>;
+export interface HealingCache {
+  /** Absolute or relative path of the backing file. */
+  readonly filePath: string;
+  /** Return the cached entry for `key`, if any. */
+  lookup(key: HealingCacheKey): HealingCacheEntry | undefined;
+  /** Remember a freshly healed selector, replacing any previous entry. */
+  store(key: HealingCacheKey, healedSelector: string, aiProvider: string): void;
+  /** Record that the cached selector for `key` worked again. */
+  recordHit(key: HealingCacheKey): void;
+  /** Drop the entry for `key` because its cached selector failed. */
+  invalidate(key: HealingCacheKey): void;
+}
+
+/** Identifying features of an element, captured while its selector worked. */
+export interface ElementFingerprint {
+  /** Lower-case tag name (e.g. "button"). */
+  tag: string;
+  id: string | null;
+  classes: string[];
+  /** Value of data-testid (or data-test, data-qa, data-cy). */
+  testId: string | null;
+  /** Explicit or implicit ARIA role. */
+  role: string | null;
+  accessibleName: string;
+  /** Normalised text content (truncated). */
+  text: string;
+  /** Tag path from <body> to the element, e.g. "body > form > button". */
+  domPath: string;
+  /** Text of associated labels, the preceding sibling and the section heading. */
+  nearbyLabels: string[];
+  /**
+   * Other identifying attributes (name, type, placeholder, href, ...).
+   * `value` is kept only for buttons, so form contents are never stored.
+   */
+  attributes: Record<string, string>;
+}
+
+/** Options for condensing page HTML with `buildSnapshot`. */
+export interface SnapshotOptions {
+  /** Token budget of the snapshot, at about four characters per token. Defaults to 3000. */
+  maxTokens?: number;
+  /** Where the element was last seen; that region is collapsed last. */
+  focus?: SnapshotFocus;
+}
+
+/** What is known about the element being healed. */
+export interface SnapshotFocus {
+  /** The selector that failed. Its ids, classes, attributes and text are matched. */
+  selector?: string;
+  /** The element's fingerprint from when the selector last worked. */
+  fingerprint?: ElementFingerprint;
+}
+
+/** An element found on the page, with a selector that uniquely matches it. */
+export interface ElementCandidate {
+  fingerprint: ElementFingerprint;
+  selector: string;
+}
+
+/** Identifies a stored fingerprint: one selector on one kind of page. */
+export interface FingerprintKey {
+  selector: string;
+  /** The page URL with query, hash and ID-like path segments removed. */
+  urlPattern: string;
+}
+
+/** Element screenshots kept on disk, one per fingerprint key. */
+export interface ScreenshotStore {
+  /** Directory the screenshots are kept in. */
+  readonly dir: string;
+  /** Return the last screenshot saved for `key`, if any. */
+  get(key: FingerprintKey): Buffer | undefined;
+  /** Remember the screenshot for `key`, replacing any previous one. */
+  save(key: FingerprintKey, image: Buffer): void;
+}
+
+/** Persistent store of element fingerprints. */
+export interface FingerprintStore {
+  /** Absolute or relative path of the backing file. */
+  readonly filePath: string;
+  /** Return the last fingerprint captured for `key`, if any. */
+  get(key: FingerprintKey): ElementFingerprint | undefined;
+  /** Remember the fingerprint for `key`, replacing any previous one. */
+  save(key: FingerprintKey, fingerprint: ElementFingerprint): void;
+}
+
+// ---------------------------------------------------------------------------
+// Driver abstraction
+//
+// The auditor is programmed against these interfaces rather than
+// Playwright's concrete classes. A Playwright `Page` (from `@playwright/test`
+// or the plain `playwright` library) satisfies `PageLike` as is; other
+// drivers, or an in-memory fake DOM, can implement it to reuse the healing
+// engine.
+// ---------------------------------------------------------------------------
+
+/** Options bag passed through to the driver unchanged. */
+export type DriverOptions = Record<string, unknown>;
+
+/** Options accepted by `getByRole`, as in Playwright. */
+export interface ByRoleOptions {
+  name?: string | RegExp;
+  exact?: boolean;
+  checked?: boolean;
+  disabled?: boolean;
+  expanded?: boolean;
+  includeHidden?: boolean;
+  level?: number;
+  pressed?: boolean;
+  selected?: boolean;
+}
+
+/** Options accepted by the text-based `getBy*` methods. */
+export interface ByTextOptions {
+  exact?: boolean;
 }
 
 /**
- * Minimal subset of the Playwright Locator interface used by the auditor.
+ * Options accepted by `locator()` and `filter()`. Locators handed back to
+ * the driver (`has`, `and`, `dragTo`, …) are typed `unknown`: each driver
+ * accepts only locators it created itself.
  */
-export interface LocatorLike {
-  click(options?: Record<string, unknown>): Promise<void>;
-  fill(value: string, options?: Record<string, unknown>): Promise<void>;
+export interface LocatorFilterLike {
+  has?: unknown;
+  hasNot?: unknown;
+  hasText?: string | RegExp;
+  hasNotText?: string | RegExp;
+  visible?: boolean;
+}
+
+/** Options to select: values, or descriptions by value, label or index. */
+export type SelectOptionValues =
+  | string
+  | readonly string[]
+  | { value?: string; label?: string; index?: number }
+  | readonly { value?: string; label?: string; index?: number }[]
+  | null;
+
+/** Files to upload: paths, or in-memory payloads. */
+export type InputFiles =
+  | string
+  | readonly string[]
+  | { name: string; mimeType: string; buffer: Buffer }
+  | readonly { name: string; mimeType: string; buffer: Buffer }[];
+
+/** The element-locating entry points shared by pages, frames and locators. */
+export interface LocatorRootLike {
+  locator(selector: string, options?: LocatorFilterLike): LocatorLike;
+  getByRole(role: string, options?: ByRoleOptions): LocatorLike;
+  getByText(text: string | RegExp, options?: ByTextOptions): LocatorLike;
+  getByLabel(text: string | RegExp, options?: ByTextOptions): LocatorLike;
+  getByPlaceholder(text: string | RegExp, options?: ByTextOptions): LocatorLike;
+  getByAltText(text: string | RegExp, options?: ByTextOptions): LocatorLike;
+  getByTitle(text: string | RegExp, options?: ByTextOptions): LocatorLike;
+  getByTestId(testId: string | RegExp): LocatorLike;
+}
+
+/** A document inside an iframe, as reached from its parent. */
+export interface FrameLocatorLike extends LocatorRootLike {
+  frameLocator(selector: string): FrameLocatorLike;
+}
+
+/** The subset of a Playwright Page the auditor uses. */
+export interface PageLike extends LocatorRootLike {
+  url(): string;
+  content(): Promise<string>;
+  goto(url: string, options?: DriverOptions): Promise<unknown>;
+  /** Needed only for `ResilientPage.frame()`. */
+  frameLocator?(selector: string): FrameLocatorLike;
+  /** Needed only for AI `vision`. */
+  screenshot?(options?: DriverOptions): Promise<Buffer>;
+  /** Needed only for the page title in AI healing context. */
+  title?(): Promise<string>;
+}
+
+/** The subset of a Playwright Locator the auditor uses. */
+export interface LocatorLike extends LocatorRootLike {
+  filter(options?: LocatorFilterLike): LocatorLike;
   first(): LocatorLike;
-  waitFor(options?: Record<string, unknown>): Promise<void>;
-  textContent(options?: Record<string, unknown>): Promise<string | null>;
-  innerText(options?: Record<string, unknown>): Promise<string>;
-  inputValue(options?: Record<string, unknown>): Promise<string>;
-  isVisible(options?: Record<string, unknown>): Promise<boolean>;
+  last(): LocatorLike;
+  nth(index: number): LocatorLike;
+  and(locator: unknown): LocatorLike;
+  or(locator: unknown): LocatorLike;
+
+  waitFor(options?: DriverOptions): Promise<void>;
   count(): Promise<number>;
+  evaluate<R, Arg>(
+    pageFunction: (element: Element, arg: Arg) => R | Promise<R>,
+    arg?: Arg,
+    options?: { timeout?: number },
+  ): Promise<R>;
+
+  click(options?: DriverOptions): Promise<void>;
+  dblclick(options?: DriverOptions): Promise<void>;
+  tap(options?: DriverOptions): Promise<void>;
+  fill(value: string, options?: DriverOptions): Promise<void>;
+  check(options?: DriverOptions): Promise<void>;
+  uncheck(options?: DriverOptions): Promise<void>;
+  setChecked(checked: boolean, options?: DriverOptions): Promise<void>;
+  selectOption(values: SelectOptionValues, options?: DriverOptions): Promise<string[]>;
+  clear(options?: DriverOptions): Promise<void>;
+  press(key: string, options?: DriverOptions): Promise<void>;
+  pressSequentially(text: string, options?: DriverOptions): Promise<void>;
+  setInputFiles(files: InputFiles, options?: DriverOptions): Promise<void>;
+  hover(options?: DriverOptions): Promise<void>;
+  focus(options?: DriverOptions): Promise<void>;
+  blur(options?: DriverOptions): Promise<void>;
+  dispatchEvent(type: string, eventInit?: DriverOptions, options?: DriverOptions): Promise<void>;
+  dragTo(target: unknown, options?: DriverOptions): Promise<void>;
+  scrollIntoViewIfNeeded(options?: DriverOptions): Promise<void>;
+  selectText(options?: DriverOptions): Promise<void>;
+
+  textContent(options?: DriverOptions): Promise<string | null>;
+  innerText(options?: DriverOptions): Promise<string>;
+  innerHTML(options?: DriverOptions): Promise<string>;
+  inputValue(options?: DriverOptions): Promise<string>;
+  getAttribute(name: string, options?: DriverOptions): Promise<string | null>;
+  isVisible(options?: DriverOptions): Promise<boolean>;
+  isChecked(options?: DriverOptions): Promise<boolean>;
+  isEnabled(options?: DriverOptions): Promise<boolean>;
+  isDisabled(options?: DriverOptions): Promise<boolean>;
+  isEditable(options?: DriverOptions): Promise<boolean>;
+  boundingBox(
+    options?: DriverOptions,
+  ): Promise<{ x: number; y: number; width: number; height: number } | null>;
+  screenshot(options?: DriverOptions): Promise<Buffer>;
+  /** Playwright's ARIA snapshot, as YAML. Needed only for `snapshotMode` `'aria'` or `'both'`. */
+  ariaSnapshot?(options?: DriverOptions): Promise<string>;
+}
+
+/** A violation as reported by an `A11yScanner`, before it is attributed to an action. */
+export type ScannedViolation = Omit<A11yViolation, 'url' | 'triggeringAction' | 'pageLabel'>;
+
+/**
+ * Runs accessibility checks on a page. The default scanner uses axe-core via
+ * `@axe-core/playwright`; plug in another to use a different engine or driver.
+ */
+export interface A11yScanner {
+  /**
+   * Return the violations found on `page`, at any severity, applying the
+   * rule and scope settings of `options`.
+   */
+  scan(page: PageLike, options?: A11yScanOptions): Promise<ScannedViolation[]>;
 }
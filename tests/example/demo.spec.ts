@@ -52,7 +52,8 @@ test.describe('Example — self-healing with custom provider', () => {
             const name = failedSelector.slice(1);
             return `[data-testid="${name}"]`;
           }
-          // Otherwise, return a generic fallback.
+          // Otherwise, return a generic fallback. Suggestion validation
+          // rejects it as too generic rather than clicking the wrong thing.
           return 'body *:first-child';
         },
       },
@@ -0,0 +1,105 @@
+import { describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { axeRunOptions, runAccessibilityScan } from '../../src/accessibility-scanner.ts';
+import type { A11yScanner, ScannedViolation } from '../../src/types.ts';
+
+function violation(overrides: Partial<ScannedViolation> = {}): ScannedViolation {
+  return {
+    ruleId: 'image-alt',
+    severity: 'critical',
+    description: 'Images must have alternate text',
+    affectedNodes: ['img.hero'],
+    ...overrides,
+  };
+}
+
+const page = { url: () => 'https://example.com/checkout' } as any;
+
+describe('runAccessibilityScan', () => {
+  it('runs the given scanner on the page', async () => {
+    const scanner: A11yScanner = { scan: mock.fn(async () => []) };
+
+    await runAccessibilityScan(page, 'click', scanner);
+
+    const scan = scanner.scan as ReturnType<typeof mock.fn>;
+    assert.equal(scan.mock.calls[0].arguments[0], page);
+  });
+
+  it('passes the scan options to the scanner', async () => {
+    const scanner: A11yScanner = { scan: mock.fn(async () => []) };
+    const options = { tags: ['wcag2aa'], exclude: ['#chat-widget'] };
+
+    await runAccessibilityScan(page, 'click', scanner, options);
+
+    const scan = scanner.scan as ReturnType<typeof mock.fn>;
+    assert.deepEqual(scan.mock.calls[0].arguments[1], options);
+  });
+
+  it('keeps only critical and serious violations', async () => {
+    const scanner: A11yScanner = {
+      scan: async () => [
+        violation({ ruleId: 'image-alt', severity: 'critical' }),
+        violation({ ruleId: 'color-contrast', severity: 'serious' }),
+        violation({ ruleId: 'region', severity: 'moderate' }),
+        violation({ ruleId: 'tabindex', severity: 'minor' }),
+      ],
+    };
+
+    const violations = await runAccessibilityScan(page, 'click', scanner);
+
+    assert.deepEqual(violations.map((v) => v.ruleId), ['image-alt', 'color-contrast']);
+  });
+
+  it('keeps the configured severities instead', async () => {
+    const scanner: A11yScanner = {
+      scan: async () => [
+        violation({ ruleId: 'image-alt', severity: 'critical' }),
+        violation({ ruleId: 'region', severity: 'moderate' }),
+        violation({ ruleId: 'tabindex', severity: 'minor' }),
+      ],
+    };
+
+    const violations = await runAccessibilityScan(page, 'click', scanner, {
+      severities: ['critical', 'moderate'],
+    });
+
+    assert.deepEqual(violations.map((v) => v.ruleId), ['image-alt', 'region']);
+  });
+
+  it('attributes violations to the page URL and triggering action', async () => {
+    const scanner: A11yScanner = { scan: async () => [violation()] };
+
+    const [v] = await runAccessibilityScan(page, 'fill', scanner);
+
+    assert.equal(v.url, 'https://example.com/checkout');
+    assert.equal(v.triggeringAction, 'fill');
+    assert.deepEqual(v.affectedNodes, ['img.hero']);
+  });
+});
+
+describe('axeRunOptions', () => {
+  it('is undefined when nothing narrows the rules', () => {
+    assert.equal(axeRunOptions(), undefined);
+    assert.equal(axeRunOptions({ severities: ['minor'], include: ['main'], tags: [] }), undefined);
+  });
+
+  it('runs only the rules with the given tags', () => {
+    assert.deepEqual(axeRunOptions({ tags: ['wcag2a', 'wcag2aa'] }), {
+      runOnly: { type: 'tag', values: ['wcag2a', 'wcag2aa'] },
+    });
+  });
+
+  it('enables and disables rules by id, disabling last', () => {
+    assert.deepEqual(
+      axeRunOptions({
+        tags: ['wcag2aa'],
+        enableRules: ['region', 'color-contrast'],
+        disableRules: ['color-contrast'],
+      }),
+      {
+        runOnly: { type: 'tag', values: ['wcag2aa'] },
+        rules: { region: { enabled: true }, 'color-contrast': { enabled: false } },
+      },
+    );
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import {
+  AIBudgetExhaustedError,
+  createAIBudgetLedger,
+  currentRunId,
+  resetAIBudget,
+} from '../../src/ai-budget.ts';
+
+const tempDirs: string[] = [];
+afterEach(() => {
+  resetAIBudget();
+  for (const d of tempDirs) fs.rmSync(d, { recursive: true, force: true });
+  tempDirs.length = 0;
+});
+
+function makeBudgetPath(): string {
+  const d = fs.mkdtempSync(path.join(os.tmpdir(), 'resilient-budget-'));
+  tempDirs.push(d);
+  return path.join(d, 'reports', 'ai-budget.json');
+}
+
+const exhausted = (message: RegExp) => (err: unknown) =>
+  err instanceof AIBudgetExhaustedError && message.test(err.message);
+
+describe('createAIBudgetLedger', () => {
+  it('throws once the tokens or cost are spent', () => {
+    const tokens = createAIBudgetLedger({ maxTokens: 100 });
+    tokens.charge(60, 0);
+    tokens.check();
+    tokens.charge(60, 0);
+    assert.throws(() => tokens.check(), exhausted(/120 of 100 tokens used/));
+
+    resetAIBudget();
+    const cost = createAIBudgetLedger({ maxCostUsd: 0.5 });
+    cost.charge(10, 0.5);
+    assert.throws(() => cost.check(), exhausted(/\$0\.5000 of \$0\.5 spent/));
+  });
+
+  it('never throws without a budget', () => {
+    const ledger = createAIBudgetLedger(undefined);
+    ledger.charge(1_000_000, 100);
+    assert.doesNotThrow(() => ledger.check());
+  });
+
+  it('keeps the spend of every worker in the budget file', () => {
+    const filePath = makeBudgetPath();
+    const budget = { maxTokens: 100, path: filePath };
+
+    createAIBudgetLedger(budget).charge(60, undefined);
+    createAIBudgetLedger(budget).charge(60, undefined);
+
+    const saved = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    assert.deepEqual(saved, { runId: currentRunId(), tokens: 120, costUsd: 0, requests: 2 });
+    assert.throws(() => createAIBudgetLedger(budget).check(), exhausted(/120 of 100/));
+  });
+
+  it('ignores spend recorded by an earlier run', () => {
+    const filePath = makeBudgetPath();
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(
+      filePath,
+      JSON.stringify({ runId: 'earlier-run', tokens: 5000, costUsd: 9, requests: 40 }),
+    );
+    const ledger = createAIBudgetLedger({ maxTokens: 100, path: filePath });
+
+    assert.doesNotThrow(() => ledger.check());
+    ledger.charge(10, 0);
+    assert.equal(JSON.parse(fs.readFileSync(filePath, 'utf-8')).tokens, 10);
+  });
+
+  it('shares the budget between processes given the same run id', () => {
+    const filePath = makeBudgetPath();
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(
+      filePath,
+      JSON.stringify({ runId: 'nightly-42', tokens: 5000, costUsd: 0, requests: 40 }),
+    );
+    process.env.RESILIENT_AUDITOR_RUN_ID = 'nightly-42';
+    try {
+      const ledger = createAIBudgetLedger({ maxTokens: 100, path: filePath });
+      assert.throws(() => ledger.check(), exhausted(/5000 of 100/));
+    } finally {
+      delete process.env.RESILIENT_AUDITOR_RUN_ID;
+    }
+  });
+
+  it('resets the budget files it has used', () => {
+    const filePath = makeBudgetPath();
+    const ledger = createAIBudgetLedger({ maxTokens: 100, path: filePath });
+    ledger.charge(500, 0);
+
+    resetAIBudget();
+
+    assert.doesNotThrow(() => ledger.check());
+    assert.equal(fs.existsSync(filePath), false);
+  });
+});
@@ -1,13 +1,34 @@
-import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import { describe, it, beforeEach, afterEach, before, after, mock } from 'node:test';
 import assert from 'node:assert/strict';
-import { createAIHealingService } from '../../src/ai-healing-service.ts';
-import type { AIProviderConfig } from '../../src/types.ts';
+import * as fs from 'node:fs';
+import * as http from 'node:http';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { AddressInfo } from 'node:net';
+import {
+  createAIHealingService,
+  parseCandidates,
+  resetCircuitBreakers,
+  verifyAIProvider,
+} from '../../src/ai-healing-service.ts';
+import { CassetteMissError } from '../../src/cassette.ts';
+import { AIBudgetExhaustedError, resetAIBudget } from '../../src/ai-budget.ts';
+import { InvalidSelectorError } from '../../src/selector-normalizer.ts';
+import { estimateTokens } from '../../src/snapshot-builder.ts';
+import type { AIProviderConfig, AIUsage, HealingContext, PromptTemplateInput } from '../../src/types.ts';
 
 // ---------------------------------------------------------------------------
 // Custom provider tests
 // ---------------------------------------------------------------------------
 
 describe('createAIHealingService — custom provider', () => {
+  it('throws a descriptive error for an unknown provider', () => {
+    assert.throws(
+      () => createAIHealingService({ provider: 'gemini' as AIProviderConfig['provider'] }),
+      /Unknown AI provider "gemini"\. Use one of: anthropic, openai, ollama, local, custom\./,
+    );
+  });
+
   it('throws if customHealFn is missing', () => {
     assert.throws(
       () => createAIHealingService({ provider: 'custom' }),
@@ -36,20 +57,23 @@ describe('createAIHealingService — custom provider', () => {
     assert.equal(healFn.mock.calls[0].arguments[0], '#old-btn');
   });
 
-  it('truncates HTML snapshots longer than 12,000 chars', async () => {
+  it('condenses HTML snapshots to the snapshot token budget', async () => {
     let receivedHtml = '';
     const service = createAIHealingService({
       provider: 'custom',
+      snapshotTokens: 500,
       customHealFn: async (_sel, html) => {
         receivedHtml = html;
         return '#x';
       },
     });
 
-    const bigHtml = 'x'.repeat(20_000);
+    const rows = Array.from({ length: 500 }, (_, i) => `<li><a href="/item/${i}">Item ${i}</a></li>`);
+    const bigHtml = `<body><script>${'x'.repeat(5_000)}</script><ul>${rows.join('')}</ul></body>`;
     await service.suggestSelector('#a', bigHtml);
-    assert.ok(receivedHtml.length < bigHtml.length);
-    assert.ok(receivedHtml.endsWith('<!-- ... truncated ... -->'));
+    assert.ok(estimateTokens(receivedHtml) <= 500);
+    assert.ok(!receivedHtml.includes('<script>'));
+    assert.match(receivedHtml, /<!-- \d+ elements omitted -->/);
   });
 
   it('passes through short HTML snapshots unchanged', async () => {
@@ -68,6 +92,130 @@ describe('createAIHealingService — custom provider', () => {
   });
 });
 
+describe('createAIHealingService — custom provider candidates', () => {
+  it('wraps customHealFn as a single candidate', async () => {
+    const service = createAIHealingService({
+      provider: 'custom',
+      customHealFn: async () => '#new',
+    });
+
+    const result = await service.suggestSelectors('#old', '<html></html>');
+    assert.equal(result.provider, 'custom');
+    assert.deepEqual(result.candidates, [
+      { selector: '#new', confidence: 1, rationale: '' },
+    ]);
+  });
+
+  it('uses customSuggestFn when provided, ranking and capping candidates', async () => {
+    const service = createAIHealingService({
+      provider: 'custom',
+      maxCandidates: 2,
+      customSuggestFn: async () => [
+        { selector: '#low', confidence: 0.2, rationale: 'guess' },
+        { selector: '#high', confidence: 0.9, rationale: 'same label' },
+        { selector: '#mid', confidence: 0.5, rationale: 'same form' },
+      ],
+    });
+
+    const { candidates } = await service.suggestSelectors('#old', '<html></html>');
+    assert.deepEqual(candidates.map((c) => c.selector), ['#high', '#mid']);
+  });
+
+  it('passes the semantic intent to customSuggestFn', async () => {
+    const suggestFn = mock.fn(async () => [{ selector: '#save', confidence: 0.8, rationale: '' }]);
+    const service = createAIHealingService({ provider: 'custom', customSuggestFn: suggestFn });
+    const intent = { method: 'getByRole' as const, role: 'button', text: 'Save' };
+
+    await service.suggestSelectors("getByRole('button', { name: 'Save' })", '<html></html>', intent);
+    assert.deepEqual(suggestFn.mock.calls[0].arguments[2], intent);
+  });
+
+  it('answers suggestSelector from customSuggestFn when customHealFn is absent', async () => {
+    const service = createAIHealingService({
+      provider: 'custom',
+      customSuggestFn: async () => [{ selector: '#top', confidence: 0.7, rationale: '' }],
+    });
+    assert.equal(await service.suggestSelector('#old', ''), '#top');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// parseCandidates
+// ---------------------------------------------------------------------------
+
+describe('parseCandidates', () => {
+  it('parses a {candidates} object', () => {
+    const result = parseCandidates(
+      { candidates: [{ selector: '#a', confidence: 0.8, rationale: 'r' }] },
+      3,
+    );
+    assert.deepEqual(result, [{ selector: '#a', confidence: 0.8, rationale: 'r' }]);
+  });
+
+  it('extracts JSON from fenced or chatty text', () => {
+    const text = 'Sure!\n```json\n{"candidates": [{"selector": "#b", "confidence": 0.6, "rationale": "x"}]}\n```';
+    assert.equal(parseCandidates(text, 3)[0].selector, '#b');
+  });
+
+  it('accepts bare arrays of strings', () => {
+    const result = parseCandidates('["#a", "#b"]', 3);
+    assert.deepEqual(result.map((c) => c.selector), ['#a', '#b']);
+    assert.equal(result[0].confidence, 0.5);
+  });
+
+  it('falls back to one selector per line for plain text', () => {
+    const result = parseCandidates('button[type=submit]\n#login', 3);
+    assert.deepEqual(result.map((c) => c.selector), ['button[type=submit]', '#login']);
+  });
+
+  it('normalises percentages and out-of-range confidences', () => {
+    const result = parseCandidates(
+      [
+        { selector: '#pct', confidence: 80 },
+        { selector: '#neg', confidence: -1 },
+        { selector: '#str', confidence: '0.3' },
+      ],
+      3,
+    );
+    assert.deepEqual(
+      result.map((c) => [c.selector, c.confidence]),
+      [['#pct', 0.8], ['#str', 0.3], ['#neg', 0]],
+    );
+  });
+
+  it('normalises each selector', () => {
+    const result = parseCandidates(
+      [{ selector: '`#a`' }, { selector: 'Try: #b' }, { selector: '"#a"' }],
+      5,
+    );
+    assert.deepEqual(result.map((c) => c.selector), ['#a', '#b']);
+  });
+
+  it('drops invalid selectors and prose lines', () => {
+    const result = parseCandidates('Here are my suggestions:\n#login\nform button[type=submit', 3);
+    assert.deepEqual(result.map((c) => c.selector), ['#login']);
+  });
+
+  it('throws InvalidSelectorError when no selector is valid', () => {
+    assert.throws(
+      () => parseCandidates({ candidates: [{ selector: 'div {' }] }, 3),
+      (err: unknown) => {
+        assert.ok(err instanceof InvalidSelectorError);
+        assert.equal(err.rawResponse, '{"candidates":[{"selector":"div {"}]}');
+        return true;
+      },
+    );
+  });
+
+  it('drops empty and duplicate selectors', () => {
+    const result = parseCandidates(
+      [{ selector: '#a' }, { selector: '' }, { selector: '#a' }, { foo: 1 }, null],
+      5,
+    );
+    assert.deepEqual(result.map((c) => c.selector), ['#a']);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // Anthropic provider tests
 // ---------------------------------------------------------------------------
@@ -144,6 +292,49 @@ describe('createAIHealingService — anthropic provider', () => {
     }
   });
 
+  it('requests candidates via a forced tool call and parses the tool input', async () => {
+    const mockResponse = {
+      ok: true,
+      json: async () => ({
+        content: [{
+          type: 'tool_use',
+          name: 'suggest_selectors',
+          input: {
+            candidates: [
+              { selector: '#b', confidence: 0.4, rationale: 'weaker' },
+              { selector: '#a', confidence: 0.9, rationale: 'same label' },
+            ],
+          },
+        }],
+      }),
+      text: async () => '',
+    };
+
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = mock.fn(async () => mockResponse) as unknown as typeof fetch;
+
+    try {
+      const service = createAIHealingService({
+        provider: 'anthropic',
+        apiKey: 'test-key',
+        maxCandidates: 4,
+      });
+
+      const result = await service.suggestSelectors('#old', '<html></html>');
+      assert.equal(result.provider, 'anthropic');
+      assert.deepEqual(result.candidates.map((c) => c.selector), ['#a', '#b']);
+      assert.equal(result.candidates[0].rationale, 'same label');
+
+      const fetchMock = globalThis.fetch as unknown as ReturnType<typeof mock.fn>;
+      const body = JSON.parse((fetchMock.mock.calls[0].arguments[1] as RequestInit).body as string);
+      assert.deepEqual(body.tool_choice, { type: 'tool', name: 'suggest_selectors' });
+      assert.equal(body.tools[0].name, 'suggest_selectors');
+      assert.ok(body.messages[0].content.includes('up to 4'));
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
   it('throws on Anthropic API error response', async () => {
     const mockResponse = {
       ok: false,
@@ -259,6 +450,63 @@ describe('createAIHealingService — openai provider', () => {
     }
   });
 
+  it('requests JSON output for candidates and parses it', async () => {
+    const mockResponse = {
+      ok: true,
+      json: async () => ({
+        choices: [{
+          message: {
+            content: '{"candidates": [{"selector": "#x", "confidence": 0.7, "rationale": "r"}]}',
+          },
+        }],
+      }),
+      text: async () => '',
+    };
+
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = mock.fn(async () => mockResponse) as unknown as typeof fetch;
+
+    try {
+      const service = createAIHealingService({ provider: 'openai', apiKey: 'test-key' });
+      const result = await service.suggestSelectors('#old', '<html></html>');
+
+      assert.deepEqual(result.candidates, [{ selector: '#x', confidence: 0.7, rationale: 'r' }]);
+      const fetchMock = globalThis.fetch as unknown as ReturnType<typeof mock.fn>;
+      const body = JSON.parse((fetchMock.mock.calls[0].arguments[1] as RequestInit).body as string);
+      assert.deepEqual(body.response_format, { type: 'json_object' });
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  it('describes the semantic intent in the candidates prompt', async () => {
+    const mockResponse = {
+      ok: true,
+      json: async () => ({ choices: [{ message: { content: '{"candidates": []}' } }] }),
+      text: async () => '',
+    };
+
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = mock.fn(async () => mockResponse) as unknown as typeof fetch;
+
+    try {
+      const service = createAIHealingService({ provider: 'openai', apiKey: 'test-key' });
+      await service.suggestSelectors("getByRole('button', { name: 'Save' })", '<html></html>', {
+        method: 'getByRole',
+        role: 'button',
+        text: 'Save',
+      });
+
+      const fetchMock = globalThis.fetch as unknown as ReturnType<typeof mock.fn>;
+      const body = JSON.parse((fetchMock.mock.calls[0].arguments[1] as RequestInit).body as string);
+      const prompt: string = body.messages[0].content;
+      assert.ok(prompt.includes('an element with role "button" and accessible name "Save"'));
+      assert.ok(prompt.includes('may have drifted'));
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
   it('throws on OpenAI API error response', async () => {
     const mockResponse = {
       ok: false,
@@ -372,3 +620,1201 @@ describe('createAIHealingService — defaults', () => {
     }
   });
 });
+
+// ---------------------------------------------------------------------------
+// Local providers, against a stub HTTP server
+// ---------------------------------------------------------------------------
+
+type StubRequest = { method: string; url: string; headers: http.IncomingHttpHeaders; body: any };
+type StubHandler = (req: StubRequest) => {
+  status?: number;
+  json?: unknown;
+  headers?: Record<string, string>;
+  delayMs?: number;
+};
+
+/** A local HTTP server that records requests and answers with `handler`. */
+function startStubServer() {
+  const requests: StubRequest[] = [];
+  let handler: StubHandler = () => ({ json: {} });
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', () => {
+      const request = {
+        method: req.method ?? '',
+        url: req.url ?? '',
+        headers: req.headers,
+        body: raw ? JSON.parse(raw) : undefined,
+      };
+      requests.push(request);
+      const { status = 200, json = {}, headers = {}, delayMs = 0 } = handler(request);
+      const timer = setTimeout(() => {
+        res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+        res.end(JSON.stringify(json));
+      }, delayMs);
+      res.on('close', () => clearTimeout(timer));
+    });
+  });
+  return {
+    requests,
+    respond(next: StubHandler) {
+      handler = next;
+    },
+    listen: () =>
+      new Promise<string>((resolve) =>
+        server.listen(0, '127.0.0.1', () =>
+          resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`),
+        ),
+      ),
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+}
+
+describe('createAIHealingService — ollama provider', () => {
+  const stub = startStubServer();
+  let baseUrl = '';
+
+  before(async () => {
+    baseUrl = await stub.listen();
+  });
+  after(() => stub.close());
+  beforeEach(() => {
+    stub.requests.length = 0;
+  });
+
+  it('does not require an API key', () => {
+    const service = createAIHealingService({ provider: 'ollama' });
+    assert.equal(service.providerName, 'ollama');
+  });
+
+  it('calls /api/chat without streaming and parses the message content', async () => {
+    stub.respond(() => ({ json: { message: { role: 'assistant', content: ' #save ' } } }));
+    const service = createAIHealingService({ provider: 'ollama', baseUrl });
+
+    const result = await service.suggestSelector('#old', '<html></html>');
+
+    assert.equal(result, '#save');
+    const [req] = stub.requests;
+    assert.equal(req.method, 'POST');
+    assert.equal(req.url, '/api/chat');
+    assert.equal(req.body.model, 'llama3.1');
+    assert.equal(req.body.stream, false);
+    assert.equal(req.headers.authorization, undefined);
+  });
+
+  it('requests JSON output for candidates', async () => {
+    stub.respond(() => ({
+      json: {
+        message: {
+          content: JSON.stringify({
+            candidates: [{ selector: '#a', confidence: 0.8, rationale: 'same label' }],
+          }),
+        },
+      },
+    }));
+    const service = createAIHealingService({ provider: 'ollama', model: 'qwen2.5-coder', baseUrl });
+
+    const result = await service.suggestSelectors('#old', '<html></html>');
+
+    assert.deepEqual(result.candidates.map((c) => c.selector), ['#a']);
+    assert.equal(result.provider, 'ollama');
+    assert.equal(stub.requests[0].body.format, 'json');
+    assert.equal(stub.requests[0].body.model, 'qwen2.5-coder');
+  });
+
+  it('times out slow responses after timeoutMs', async () => {
+    stub.respond(() => ({ json: { message: { content: '#x' } }, delayMs: 500 }));
+    const service = createAIHealingService({
+      provider: 'ollama',
+      baseUrl,
+      timeoutMs: 50,
+      maxAttempts: 1,
+    });
+
+    await assert.rejects(
+      () => service.suggestSelector('#x', '<html></html>'),
+      /Ollama request timed out after 50 ms/,
+    );
+  });
+
+  it('verifyConnection passes when the model is pulled', async () => {
+    stub.respond(() => ({ json: { models: [{ name: 'llama3.1:latest' }] } }));
+    const service = createAIHealingService({ provider: 'ollama', baseUrl });
+
+    await service.verifyConnection!();
+
+    assert.equal(stub.requests[0].method, 'GET');
+    assert.equal(stub.requests[0].url, '/api/tags');
+  });
+
+  it('verifyConnection suggests pulling a missing model', async () => {
+    stub.respond(() => ({ json: { models: [{ name: 'mistral:latest' }] } }));
+
+    await assert.rejects(
+      () => verifyAIProvider({ provider: 'ollama', model: 'llama3.1', baseUrl }),
+      /does not have model "llama3\.1".*ollama pull llama3\.1/,
+    );
+  });
+});
+
+describe('createAIHealingService — local provider', () => {
+  const stub = startStubServer();
+  let baseUrl = '';
+
+  before(async () => {
+    baseUrl = await stub.listen();
+  });
+  after(() => stub.close());
+  beforeEach(() => {
+    stub.requests.length = 0;
+  });
+
+  it('calls /v1/chat/completions without an API key', async () => {
+    stub.respond(() => ({ json: { choices: [{ message: { content: '#save' } }] } }));
+    const service = createAIHealingService({ provider: 'local', baseUrl: `${baseUrl}/` });
+
+    const result = await service.suggestSelector('#old', '<html></html>');
+
+    assert.equal(result, '#save');
+    const [req] = stub.requests;
+    assert.equal(req.url, '/v1/chat/completions');
+    assert.equal(req.headers.authorization, undefined);
+    assert.equal(req.body.response_format, undefined);
+  });
+
+  it('sends the API key when one is configured', async () => {
+    stub.respond(() => ({ json: { choices: [{ message: { content: '#save' } }] } }));
+    const service = createAIHealingService({ provider: 'local', apiKey: 'secret', baseUrl });
+
+    await service.suggestSelector('#old', '<html></html>');
+
+    assert.equal(stub.requests[0].headers.authorization, 'Bearer secret');
+  });
+
+  it('surfaces server errors', async () => {
+    stub.respond(() => ({ status: 400, json: { error: 'context length exceeded' } }));
+    const service = createAIHealingService({ provider: 'local', baseUrl });
+
+    await assert.rejects(
+      () => service.suggestSelector('#x', '<html></html>'),
+      /Local LLM API error 400/,
+    );
+  });
+
+  it('verifyConnection lists the served models', async () => {
+    stub.respond(() => ({ json: { data: [{ id: 'default' }] } }));
+
+    await verifyAIProvider({ provider: 'local', baseUrl });
+
+    assert.equal(stub.requests[0].url, '/v1/models');
+  });
+
+  it('verifies each provider and endpoint once per worker, retrying failures', async () => {
+    stub.respond(() => ({ status: 503, json: {} }));
+    const config = { provider: 'local' as const, baseUrl, model: 'once' };
+
+    await assert.rejects(() => verifyAIProvider(config));
+    stub.respond(() => ({ json: { data: [{ id: 'once' }] } }));
+    await verifyAIProvider(config);
+    await verifyAIProvider({ ...config });
+    await verifyAIProvider({ ...config, model: 'other' });
+
+    assert.equal(stub.requests.length, 3);
+  });
+
+  it('reports an unreachable server clearly', async () => {
+    const closed = startStubServer();
+    const url = await closed.listen();
+    await closed.close();
+
+    await assert.rejects(
+      () => verifyAIProvider({ provider: 'local', baseUrl: url }),
+      (err: Error) => {
+        assert.match(err.message, /Local LLM is not reachable at http:\/\/127\.0\.0\.1:\d+ \(ECONNREFUSED\)/);
+        return true;
+      },
+    );
+  });
+});
+
+describe('createAIHealingService — retries and fallback', () => {
+  const primary = startStubServer();
+  const backup = startStubServer();
+  let primaryUrl = '';
+  let backupUrl = '';
+
+  const answer = (selector: string) => ({
+    json: { choices: [{ message: { content: JSON.stringify({ candidates: [{ selector, confidence: 0.9 }] }) } }] },
+  });
+
+  /** Respond with each of `responses` in turn, repeating the last one. */
+  const sequence = (...responses: ReturnType<StubHandler>[]): StubHandler => {
+    let i = 0;
+    return () => responses[Math.min(i++, responses.length - 1)];
+  };
+
+  const chain = (overrides: Partial<AIProviderConfig> = {}): AIProviderConfig => ({
+    provider: 'local',
+    baseUrl: primaryUrl,
+    retryBaseDelayMs: 1,
+    ...overrides,
+    fallbacks: [{ provider: 'local', baseUrl: backupUrl, retryBaseDelayMs: 1 }],
+  });
+
+  before(async () => {
+    primaryUrl = await primary.listen();
+    backupUrl = await backup.listen();
+  });
+  after(async () => {
+    await primary.close();
+    await backup.close();
+  });
+  beforeEach(() => {
+    resetCircuitBreakers();
+    primary.requests.length = 0;
+    backup.requests.length = 0;
+    backup.respond(() => answer('#from-backup'));
+  });
+
+  it('retries rate-limited requests and reports the attempts', async () => {
+    primary.respond(sequence({ status: 429, json: {} }, { status: 503, json: {} }, answer('#save')));
+    const service = createAIHealingService(chain());
+
+    const result = await service.suggestSelectors('#old', '<html></html>');
+
+    assert.equal(result.candidates[0].selector, '#save');
+    assert.equal(result.provider, 'local');
+    assert.equal(result.attempts, 3);
+    assert.equal(backup.requests.length, 0);
+  });
+
+  it('waits as long as retry-after asks', async () => {
+    primary.respond(sequence({ status: 429, headers: { 'retry-after': '0.2' } }, answer('#save')));
+    const service = createAIHealingService(chain());
+
+    const start = Date.now();
+    await service.suggestSelectors('#old', '<html></html>');
+
+    assert.ok(Date.now() - start >= 190);
+    assert.equal(primary.requests.length, 2);
+  });
+
+  it('backs off exponentially between retries', async (t) => {
+    t.mock.method(Math, 'random', () => 0.999);
+    primary.respond(sequence({ status: 500 }, { status: 500 }, answer('#save')));
+    const service = createAIHealingService(chain({ retryBaseDelayMs: 40 }));
+
+    const start = Date.now();
+    await service.suggestSelectors('#old', '<html></html>');
+
+    // 40 ms, then 80 ms, at the top of the jitter range.
+    assert.ok(Date.now() - start >= 115);
+  });
+
+  it('waits a random fraction of the backoff delay', async (t) => {
+    t.mock.method(Math, 'random', () => 0);
+    primary.respond(sequence({ status: 500 }, { status: 500 }, answer('#save')));
+    const service = createAIHealingService(chain({ retryBaseDelayMs: 5_000 }));
+
+    const start = Date.now();
+    await service.suggestSelectors('#old', '<html></html>');
+
+    assert.ok(Date.now() - start < 1_000);
+    assert.equal(primary.requests.length, 3);
+  });
+
+  it('retries timed-out requests', async () => {
+    primary.respond(sequence({ delayMs: 500, ...answer('#slow') }, answer('#save')));
+    const service = createAIHealingService(chain({ timeoutMs: 50 }));
+
+    const result = await service.suggestSelectors('#old', '<html></html>');
+
+    assert.equal(result.candidates[0].selector, '#save');
+    assert.equal(result.attempts, 2);
+  });
+
+  it('falls back without retrying errors that will not go away', async () => {
+    primary.respond(() => ({ status: 401, json: { error: 'bad key' } }));
+    const service = createAIHealingService(chain());
+
+    const result = await service.suggestSelectors('#old', '<html></html>');
+
+    assert.equal(primary.requests.length, 1);
+    assert.equal(result.candidates[0].selector, '#from-backup');
+    assert.equal(result.attempts, 2);
+  });
+
+  it('waits at most maxRetryDelayMs when retry-after asks for longer', async () => {
+    primary.respond(sequence({ status: 429, headers: { 'retry-after': '120' } }, answer('#save')));
+    const service = createAIHealingService(chain({ maxRetryDelayMs: 100 }));
+
+    const start = Date.now();
+    const result = await service.suggestSelectors('#old', '<html></html>');
+
+    assert.ok(Date.now() - start >= 95);
+    assert.equal(primary.requests.length, 2);
+    assert.equal(result.candidates[0].selector, '#save');
+  });
+
+  it('falls back once retries are exhausted', async () => {
+    primary.respond(() => ({ status: 503 }));
+    const service = createAIHealingService(chain({ maxAttempts: 2 }));
+
+    const result = await service.suggestSelectors('#old', '<html></html>');
+
+    assert.equal(primary.requests.length, 2);
+    assert.equal(result.candidates[0].selector, '#from-backup');
+  });
+
+  it('stops calling a provider once its circuit opens', async () => {
+    primary.respond(() => ({ status: 500 }));
+    const config = chain({ maxAttempts: 1, circuitBreaker: { failureThreshold: 2 } });
+
+    for (let i = 0; i < 4; i++) {
+      // A fresh service per call, as each test page creates its own.
+      await createAIHealingService(config).suggestSelectors('#old', '<html></html>');
+    }
+
+    assert.equal(primary.requests.length, 2);
+    assert.equal(backup.requests.length, 4);
+  });
+
+  it('tries the provider again after the cooldown', async () => {
+    primary.respond(() => ({ status: 500 }));
+    const service = createAIHealingService(
+      chain({ maxAttempts: 1, circuitBreaker: { failureThreshold: 1, cooldownMs: 50 } }),
+    );
+
+    await service.suggestSelectors('#old', '<html></html>');
+    await service.suggestSelectors('#old', '<html></html>');
+    assert.equal(primary.requests.length, 1);
+
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    primary.respond(() => answer('#save'));
+    const result = await service.suggestSelectors('#old', '<html></html>');
+
+    assert.equal(primary.requests.length, 2);
+    assert.equal(result.candidates[0].selector, '#save');
+  });
+
+  it('does not open the circuit when circuitBreaker is false', async () => {
+    primary.respond(() => ({ status: 500 }));
+    const service = createAIHealingService(chain({ maxAttempts: 1, circuitBreaker: false }));
+
+    for (let i = 0; i < 4; i++) await service.suggestSelectors('#old', '<html></html>');
+
+    assert.equal(primary.requests.length, 4);
+  });
+
+  it('reports every provider when all of them fail', async () => {
+    primary.respond(() => ({ status: 401, json: 'bad key' }));
+    backup.respond(() => ({ status: 400, json: 'bad request' }));
+    const service = createAIHealingService(chain());
+
+    await assert.rejects(
+      () => service.suggestSelectors('#old', '<html></html>'),
+      /All AI providers failed — local: Local LLM API error 401.*; local: Local LLM API error 400/,
+    );
+  });
+
+  it('names every provider in the chain', () => {
+    const service = createAIHealingService({
+      provider: 'ollama',
+      fallbacks: [{ provider: 'openai', apiKey: 'test-key' }],
+    });
+    assert.equal(service.providerName, 'ollama, openai');
+  });
+
+  it('verifies the connection when any provider is reachable', async () => {
+    await verifyAIProvider({
+      provider: 'ollama',
+      baseUrl: 'http://127.0.0.1:1',
+      fallbacks: [{ provider: 'local', baseUrl: backupUrl }],
+    });
+    assert.equal(backup.requests[0].url, '/v1/models');
+  });
+});
+
+describe('createAIHealingService — usage and cost', () => {
+  const stub = startStubServer();
+  let baseUrl = '';
+
+  const completion = (promptTokens: number, completionTokens: number) => ({
+    json: {
+      choices: [{ message: { content: '{"candidates":[{"selector":"#a","confidence":0.9}]}' } }],
+      usage: { prompt_tokens: promptTokens, completion_tokens: completionTokens },
+    },
+  });
+
+  before(async () => {
+    baseUrl = await stub.listen();
+  });
+  after(() => stub.close());
+  beforeEach(() => {
+    resetAIBudget();
+    stub.requests.length = 0;
+  });
+
+  it('reports Anthropic token usage and the estimated cost', async () => {
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = mock.fn(async () => ({
+      ok: true,
+      json: async () => ({
+        content: [{ type: 'tool_use', name: 'suggest_selectors', input: { candidates: [] } }],
+        usage: { input_tokens: 1000, output_tokens: 100 },
+      }),
+    })) as unknown as typeof fetch;
+
+    try {
+      const service = createAIHealingService({ provider: 'anthropic', apiKey: 'test-key' });
+      const { usage, model } = await service.suggestSelectors('#old', '<html></html>');
+
+      assert.equal(model, 'claude-sonnet-4-20250514');
+      assert.equal(usage?.inputTokens, 1000);
+      assert.equal(usage?.outputTokens, 100);
+      // $3 / $15 per million tokens.
+      assert.ok(Math.abs(usage!.costUsd! - 0.0045) < 1e-9);
+      assert.ok(usage!.latencyMs >= 0);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  it('reads Ollama eval counts as tokens', async () => {
+    stub.respond(() => ({
+      json: { message: { content: '#a' }, prompt_eval_count: 812, eval_count: 37 },
+    }));
+    const service = createAIHealingService({ provider: 'ollama', baseUrl });
+
+    const { usage } = await service.suggestSelectors('#old', '<html></html>');
+
+    assert.equal(usage?.inputTokens, 812);
+    assert.equal(usage?.outputTokens, 37);
+    assert.equal(usage?.costUsd, 0);
+  });
+
+  it('uses the configured price table', async () => {
+    stub.respond(() => completion(2_000_000, 1_000_000));
+    const service = createAIHealingService({
+      provider: 'local',
+      model: 'qwen',
+      baseUrl,
+      pricing: { qwen: { inputPerMillion: 0.5, outputPerMillion: 1 } },
+    });
+
+    const { usage } = await service.suggestSelectors('#old', '<html></html>');
+
+    assert.equal(usage?.costUsd, 2);
+  });
+
+  it('leaves the cost unknown for unpriced hosted models', async () => {
+    stub.respond(() => completion(10, 5));
+    const service = createAIHealingService({
+      provider: 'openai',
+      apiKey: 'test-key',
+      model: 'gpt-next',
+      baseUrl,
+    });
+
+    const { usage } = await service.suggestSelectors('#old', '<html></html>');
+
+    assert.equal(usage?.inputTokens, 10);
+    assert.equal(usage?.costUsd, undefined);
+  });
+
+  it('stops calling the AI once the token budget is spent', async () => {
+    stub.respond(() => completion(600, 100));
+    const service = createAIHealingService({
+      provider: 'local',
+      baseUrl,
+      budget: { maxTokens: 1000 },
+    });
+
+    await service.suggestSelectors('#old', '<html></html>');
+    await service.suggestSelectors('#old', '<html></html>');
+    await assert.rejects(
+      () => service.suggestSelectors('#old', '<html></html>'),
+      /AI budget exhausted: 1400 of 1000 tokens used/,
+    );
+    assert.equal(stub.requests.length, 2);
+  });
+
+  it('shares the budget across services in the run', async () => {
+    stub.respond(() => completion(1_000_000, 0));
+    const config: AIProviderConfig = {
+      provider: 'local',
+      baseUrl,
+      pricing: { default: { inputPerMillion: 1, outputPerMillion: 1 } },
+      budget: { maxCostUsd: 1 },
+    };
+
+    await createAIHealingService(config).suggestSelectors('#old', '<html></html>');
+
+    await assert.rejects(
+      () => createAIHealingService(config).suggestSelectors('#old', '<html></html>'),
+      /AI budget exhausted: \$1\.0000 of \$1 spent/,
+    );
+    resetAIBudget();
+    await createAIHealingService(config).suggestSelectors('#old', '<html></html>');
+    assert.equal(stub.requests.length, 2);
+  });
+
+  it('charges failed requests and stops retrying once the budget is spent', async () => {
+    stub.respond(() => ({ status: 503, json: {} }));
+    const service = createAIHealingService({
+      provider: 'local',
+      baseUrl,
+      retryBaseDelayMs: 1,
+      budget: { maxTokens: 1 },
+    });
+
+    await assert.rejects(
+      () => service.suggestSelectors('#old', '<html></html>'),
+      (err: unknown) => err instanceof AIBudgetExhaustedError,
+    );
+    assert.equal(stub.requests.length, 1);
+  });
+
+  it('charges unparseable answers and the single-selector path', async () => {
+    stub.respond(() => ({
+      json: {
+        choices: [{ message: { content: 'no idea' } }],
+        usage: { prompt_tokens: 600, completion_tokens: 0 },
+      },
+    }));
+    const service = createAIHealingService({ provider: 'local', baseUrl, budget: { maxTokens: 1000 } });
+
+    await assert.rejects(() => service.suggestSelectors('#old', '<html></html>'));
+    await service.suggestSelector('#old', '<html></html>').catch(() => undefined);
+
+    await assert.rejects(
+      () => service.suggestSelectors('#old', '<html></html>'),
+      /AI budget exhausted: 1200 of 1000 tokens used/,
+    );
+    assert.equal(stub.requests.length, 2);
+  });
+
+  it('shares a budget file between services, as workers do', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'resilient-budget-'));
+    try {
+      stub.respond(() => completion(600, 100));
+      const filePath = path.join(dir, 'ai-budget.json');
+      const config: AIProviderConfig = { provider: 'local', baseUrl, budget: { maxTokens: 1000, path: filePath } };
+      const first = createAIHealingService(config);
+      const second = createAIHealingService(config);
+
+      await first.suggestSelectors('#old', '<html></html>');
+      assert.equal(JSON.parse(fs.readFileSync(filePath, 'utf-8')).tokens, 700);
+      await second.suggestSelectors('#old', '<html></html>');
+
+      await assert.rejects(
+        () => first.suggestSelectors('#old', '<html></html>'),
+        /AI budget exhausted: 1400 of 1000 tokens used/,
+      );
+      assert.equal(stub.requests.length, 2);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('reports the usage of every request made, as charged to the budget', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'resilient-budget-'));
+    try {
+      stub.respond((req) =>
+        req.url === '/api/chat'
+          ? { json: { message: { content: '#a' }, prompt_eval_count: 812, eval_count: 37 } }
+          : { status: 503, json: {} },
+      );
+      const filePath = path.join(dir, 'ai-budget.json');
+      const service = createAIHealingService({
+        provider: 'local',
+        baseUrl,
+        maxAttempts: 2,
+        retryBaseDelayMs: 1,
+        fallbacks: [{ provider: 'ollama', baseUrl }],
+        budget: { maxTokens: 100_000, path: filePath },
+      });
+
+      const { usage } = await service.suggestSelectors('#old', '<html></html>');
+
+      assert.equal(stub.requests.length, 3);
+      assert.ok(usage!.inputTokens > 812);
+      assert.equal(usage!.outputTokens, 37);
+      assert.equal(
+        usage!.inputTokens + usage!.outputTokens,
+        JSON.parse(fs.readFileSync(filePath, 'utf-8')).tokens,
+      );
+      assert.equal(usage!.costUsd, 0);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('attaches the usage of the requests made to the error', async () => {
+    stub.respond(() => ({
+      json: {
+        choices: [{ message: { content: 'no idea' } }],
+        usage: { prompt_tokens: 600, completion_tokens: 20 },
+      },
+    }));
+    const service = createAIHealingService({ provider: 'local', baseUrl });
+
+    await assert.rejects(
+      () => service.suggestSelectors('#old', '<html></html>'),
+      (err: { usage?: AIUsage }) =>
+        err.usage?.inputTokens === 600 && err.usage.outputTokens === 20 && err.usage.costUsd === 0,
+    );
+  });
+
+  it('refuses maxCostUsd for hosted models without a price', () => {
+    assert.throws(
+      () =>
+        createAIHealingService({
+          provider: 'openai',
+          apiKey: 'test-key',
+          model: 'gpt-next',
+          budget: { maxCostUsd: 1 },
+        }),
+      /budget\.maxCostUsd cannot limit "gpt-next", which has no price/,
+    );
+    assert.doesNotThrow(() =>
+      createAIHealingService({ provider: 'ollama', budget: { maxCostUsd: 1 } }),
+    );
+  });
+});
+
+describe('createAIHealingService — response normalisation', () => {
+  it('strips fences, quotes and prose from single-selector replies', async () => {
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = mock.fn(async () => ({
+      ok: true,
+      json: async () => ({ content: [{ type: 'text', text: 'Try: `#login`' }] }),
+    })) as unknown as typeof fetch;
+
+    try {
+      const service = createAIHealingService({ provider: 'anthropic', apiKey: 'test-key' });
+      assert.equal(await service.suggestSelector('#old', '<html></html>'), '#login');
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  it('rejects replies without a valid selector with a typed error', async () => {
+    const service = createAIHealingService({
+      provider: 'custom',
+      customHealFn: async () => 'I cannot see that element.',
+    });
+
+    await assert.rejects(
+      () => service.suggestSelector('#old', '<html></html>'),
+      (err: unknown) => err instanceof InvalidSelectorError &&
+        err.rawResponse === 'I cannot see that element.',
+    );
+  });
+
+  it('keeps the raw response on the suggestions', async () => {
+    const service = createAIHealingService({
+      provider: 'custom',
+      customHealFn: async () => '```css\n#login\n```',
+    });
+
+    const result = await service.suggestSelectors('#old', '<html></html>');
+
+    assert.equal(result.candidates[0].selector, '#login');
+    assert.equal(result.rawResponse, '```css\n#login\n```');
+  });
+});
+
+describe('createAIHealingService — ARIA snapshots', () => {
+  const stub = startStubServer();
+  let baseUrl = '';
+  const aria = '- main:\n  - button "Save changes"';
+  const html = '<main><button class="primary">Save changes</button></main>';
+
+  before(async () => {
+    baseUrl = await stub.listen();
+  });
+  after(() => stub.close());
+  beforeEach(() => {
+    stub.requests.length = 0;
+    stub.respond(() => ({
+      json: {
+        message: {
+          content: JSON.stringify({
+            candidates: [{ selector: 'role=button[name="Save changes"]', confidence: 0.9 }],
+          }),
+        },
+      },
+    }));
+  });
+
+  const promptOf = (index = 0): string => stub.requests[index].body.messages[0].content;
+
+  it('sends only the HTML by default', async () => {
+    const service = createAIHealingService({ provider: 'ollama', baseUrl });
+    assert.equal(service.snapshotMode, 'html');
+
+    const result = await service.suggestSelectors('#save', html, undefined, { ariaSnapshot: aria });
+
+    assert.equal(result.snapshotMode, 'html');
+    assert.ok(promptOf().includes('--- HTML SNAPSHOT ---'));
+    assert.ok(!promptOf().includes('--- ARIA SNAPSHOT ---'));
+  });
+
+  it('sends the ARIA snapshot instead of HTML and asks for role selectors', async () => {
+    const service = createAIHealingService({ provider: 'ollama', baseUrl, snapshotMode: 'aria' });
+
+    const result = await service.suggestSelectors('#save', html, undefined, { ariaSnapshot: aria });
+
+    assert.equal(result.snapshotMode, 'aria');
+    assert.equal(result.candidates[0].selector, 'role=button[name="Save changes"]');
+    const prompt = promptOf();
+    assert.ok(prompt.includes(`--- ARIA SNAPSHOT ---\n${aria}`));
+    assert.ok(!prompt.includes('--- HTML SNAPSHOT ---'));
+    assert.ok(prompt.includes('prefer a role selector'));
+  });
+
+  it('sends both snapshots in "both" mode', async () => {
+    const service = createAIHealingService({ provider: 'ollama', baseUrl, snapshotMode: 'both' });
+
+    const result = await service.suggestSelectors('#save', html, undefined, { ariaSnapshot: aria });
+
+    assert.equal(result.snapshotMode, 'both');
+    assert.ok(promptOf().includes('--- ARIA SNAPSHOT ---'));
+    assert.ok(promptOf().includes(`--- HTML SNAPSHOT ---\n${html}`));
+  });
+
+  it('falls back to HTML when no ARIA snapshot was taken', async () => {
+    const service = createAIHealingService({ provider: 'ollama', baseUrl, snapshotMode: 'aria' });
+
+    const result = await service.suggestSelectors('#save', html);
+
+    assert.equal(result.snapshotMode, 'html');
+    assert.ok(promptOf().includes('--- HTML SNAPSHOT ---'));
+  });
+
+  it('passes the ARIA snapshot to customSuggestFn', async () => {
+    const suggestFn = mock.fn(async () => [{ selector: '#save', confidence: 0.8, rationale: '' }]);
+    const service = createAIHealingService({
+      provider: 'custom',
+      snapshotMode: 'aria',
+      customSuggestFn: suggestFn,
+    });
+
+    const result = await service.suggestSelectors('#save', html, undefined, { ariaSnapshot: aria });
+
+    assert.equal(suggestFn.mock.calls[0].arguments[1], html);
+    assert.equal(suggestFn.mock.calls[0].arguments[3], aria);
+    assert.equal(result.snapshotMode, 'aria');
+  });
+
+  it('is selected per provider in a fallback chain', async () => {
+    resetCircuitBreakers();
+    const service = createAIHealingService({
+      provider: 'custom',
+      customSuggestFn: async () => {
+        throw new Error('down');
+      },
+      fallbacks: [{ provider: 'ollama', baseUrl, snapshotMode: 'aria' }],
+    });
+    assert.equal(service.snapshotMode, 'both');
+
+    const result = await service.suggestSelectors('#save', html, undefined, { ariaSnapshot: aria });
+
+    assert.equal(result.provider, 'ollama');
+    assert.equal(result.snapshotMode, 'aria');
+  });
+});
+
+describe('createAIHealingService — vision', () => {
+  const stub = startStubServer();
+  let baseUrl = '';
+  const html = '<main><button class="icon"><svg></svg></button></main>';
+  const screenshots = { page: Buffer.from('page-jpeg'), element: Buffer.from('element-jpeg') };
+  const candidates = { candidates: [{ selector: 'button.icon', confidence: 0.8 }] };
+
+  before(async () => {
+    baseUrl = await stub.listen();
+  });
+  after(() => stub.close());
+  beforeEach(() => {
+    stub.requests.length = 0;
+    stub.respond((req) => ({
+      json: req.url === '/v1/messages'
+        ? { content: [{ type: 'tool_use', name: 'suggest_selectors', input: candidates }] }
+        : req.url === '/api/chat'
+          ? { message: { content: JSON.stringify(candidates) } }
+          : { choices: [{ message: { content: JSON.stringify(candidates) } }] },
+    }));
+  });
+
+  it('attaches the screenshots to Anthropic requests as base64 JPEG images', async () => {
+    const service = createAIHealingService({
+      provider: 'anthropic',
+      apiKey: 'test-key',
+      baseUrl,
+      vision: true,
+    });
+    assert.equal(service.vision, true);
+
+    const result = await service.suggestSelectors('#close', html, undefined, { screenshots });
+
+    assert.equal(result.vision, true);
+    const [page, element, text] = stub.requests[0].body.messages[0].content;
+    assert.deepEqual(page, {
+      type: 'image',
+      source: { type: 'base64', media_type: 'image/jpeg', data: screenshots.page.toString('base64') },
+    });
+    assert.equal(element.source.data, screenshots.element.toString('base64'));
+    assert.equal(text.type, 'text');
+    assert.ok(text.text.includes('The second shows the element'));
+    assert.ok(text.text.includes('--- HTML SNAPSHOT ---'));
+  });
+
+  it('attaches the screenshots to OpenAI requests as data URLs', async () => {
+    const service = createAIHealingService({ provider: 'openai', apiKey: 'test-key', baseUrl, vision: {} });
+
+    await service.suggestSelectors('#close', html, undefined, {
+      screenshots: { page: screenshots.page },
+    });
+
+    const content = stub.requests[0].body.messages[0].content;
+    assert.equal(content.length, 2);
+    assert.equal(content[0].type, 'text');
+    assert.ok(content[0].text.includes('screenshot of the visible part of the page'));
+    assert.ok(!content[0].text.includes('The second shows'));
+    assert.deepEqual(content[1], {
+      type: 'image_url',
+      image_url: { url: `data:image/jpeg;base64,${screenshots.page.toString('base64')}` },
+    });
+  });
+
+  it('sends a plain text prompt without vision', async () => {
+    const service = createAIHealingService({ provider: 'anthropic', apiKey: 'test-key', baseUrl });
+    assert.equal(service.vision, false);
+
+    const result = await service.suggestSelectors('#close', html, undefined, { screenshots });
+
+    assert.equal(result.vision, false);
+    assert.equal(typeof stub.requests[0].body.messages[0].content, 'string');
+  });
+
+  it('is ignored by providers without vision', async () => {
+    const service = createAIHealingService({ provider: 'ollama', baseUrl, vision: true });
+    assert.equal(service.vision, false);
+
+    await service.suggestSelectors('#close', html, undefined, { screenshots });
+
+    assert.equal(typeof stub.requests[0].body.messages[0].content, 'string');
+  });
+
+  it('passes the screenshots to custom functions', async () => {
+    const suggestFn = mock.fn(async () => [{ selector: '#close', confidence: 0.8, rationale: '' }]);
+    const healFn = mock.fn(async () => '#close');
+    const suggest = createAIHealingService({ provider: 'custom', vision: true, customSuggestFn: suggestFn });
+    const heal = createAIHealingService({ provider: 'custom', vision: true, customHealFn: healFn });
+
+    const result = await suggest.suggestSelectors('#x', html, undefined, { screenshots });
+    await heal.suggestSelectors('#x', html, undefined, { screenshots });
+
+    assert.equal(suggestFn.mock.calls[0].arguments[4], screenshots);
+    assert.equal(healFn.mock.calls[0].arguments[2], screenshots);
+    assert.equal(result.vision, true);
+  });
+
+  it('is used by the chain if any provider uses it', () => {
+    const service = createAIHealingService({
+      provider: 'ollama',
+      baseUrl,
+      fallbacks: [{ provider: 'openai', apiKey: 'test-key', baseUrl, vision: true }],
+    });
+    assert.equal(service.vision, true);
+  });
+});
+
+describe('createAIHealingService — cassettes', () => {
+  const stub = startStubServer();
+  let baseUrl = '';
+  let cassettePath = '';
+  const html = '<main><button id="save">Save</button></main>';
+  const candidates = { candidates: [{ selector: '#save', confidence: 0.9 }] };
+
+  before(async () => {
+    baseUrl = await stub.listen();
+  });
+  after(() => stub.close());
+  beforeEach(() => {
+    stub.requests.length = 0;
+    resetCircuitBreakers();
+    cassettePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'resilient-ai-cassette-')), 'ai.json');
+    stub.respond(() => ({
+      json: { content: [{ type: 'tool_use', name: 'suggest_selectors', input: candidates }] },
+    }));
+  });
+  afterEach(() => {
+    fs.rmSync(path.dirname(cassettePath), { recursive: true, force: true });
+  });
+
+  it('replays recorded responses without calling the provider or needing a key', async () => {
+    const recorder = createAIHealingService({
+      provider: 'anthropic',
+      apiKey: 'test-key',
+      baseUrl,
+      cassette: { path: cassettePath, mode: 'record' },
+    });
+    const recorded = await recorder.suggestSelectors('#old', html);
+    assert.equal(stub.requests.length, 1);
+
+    const saved = process.env.ANTHROPIC_API_KEY;
+    delete process.env.ANTHROPIC_API_KEY;
+    try {
+      const player = createAIHealingService({
+        provider: 'anthropic',
+        baseUrl,
+        cassette: { path: cassettePath, mode: 'replay' },
+      });
+      const replayed = await player.suggestSelectors('#old', html);
+
+      assert.equal(stub.requests.length, 1);
+      assert.deepEqual(replayed.candidates, recorded.candidates);
+      assert.deepEqual(replayed.usage?.inputTokens, recorded.usage?.inputTokens);
+    } finally {
+      if (saved !== undefined) process.env.ANTHROPIC_API_KEY = saved;
+    }
+  });
+
+  it('replays across runs whose screenshots differ, spending nothing', async () => {
+    stub.respond(() => ({
+      json: {
+        content: [{ type: 'tool_use', name: 'suggest_selectors', input: candidates }],
+        usage: { input_tokens: 700, output_tokens: 50 },
+      },
+    }));
+    const config = { provider: 'anthropic' as const, apiKey: 'test-key', baseUrl, vision: true };
+    const recorder = createAIHealingService({
+      ...config,
+      cassette: { path: cassettePath, mode: 'record' },
+    });
+    const recorded = await recorder.suggestSelectors('#old', html, undefined, {
+      screenshots: { page: Buffer.from('first run') },
+    });
+    assert.equal(recorded.usage?.replayed, undefined);
+    assert.ok(recorded.usage!.costUsd! > 0);
+
+    const player = createAIHealingService({
+      ...config,
+      cassette: { path: cassettePath, mode: 'replay' },
+      budget: { maxTokens: 1000 },
+    });
+    for (let run = 0; run < 3; run++) {
+      const replayed = await player.suggestSelectors('#old', html, undefined, {
+        screenshots: { page: Buffer.from(`replay ${run}`) },
+      });
+      assert.deepEqual(replayed.candidates, recorded.candidates);
+      assert.equal(replayed.usage?.replayed, true);
+      assert.equal(replayed.usage?.inputTokens, 700);
+      assert.equal(replayed.usage?.costUsd, 0);
+    }
+    assert.equal(stub.requests.length, 1);
+  });
+
+  it('fails on an unrecorded prompt in strict replay, without trying fallbacks', async () => {
+    const service = createAIHealingService({
+      provider: 'anthropic',
+      apiKey: 'test-key',
+      baseUrl,
+      cassette: { path: cassettePath, mode: 'replay' },
+      fallbacks: [{ provider: 'ollama', baseUrl }],
+    });
+
+    await assert.rejects(() => service.suggestSelectors('#old', html), CassetteMissError);
+    assert.equal(stub.requests.length, 0);
+  });
+
+  it('calls the provider in passthrough mode', async () => {
+    const service = createAIHealingService({
+      provider: 'anthropic',
+      apiKey: 'test-key',
+      baseUrl,
+      cassette: { path: cassettePath, mode: 'passthrough' },
+    });
+
+    await service.suggestSelectors('#old', html);
+
+    assert.equal(stub.requests.length, 1);
+    assert.equal(fs.existsSync(cassettePath), false);
+  });
+
+  it('skips the connection check when replaying', () => {
+    const service = createAIHealingService({
+      provider: 'ollama',
+      baseUrl,
+      cassette: { path: cassettePath, mode: 'replay' },
+    });
+    assert.equal(service.verifyConnection, undefined);
+  });
+});
+
+describe('createAIHealingService — prompt templates and context', () => {
+  const stub = startStubServer();
+  let baseUrl = '';
+  const html = '<main><button id="save">Save</button></main>';
+  const context: HealingContext = {
+    originalSelector: '#email',
+    action: 'fill',
+    valueType: 'email',
+    url: 'https://shop.example/checkout',
+    pageTitle: 'Checkout',
+    testTitle: 'checkout › pays by card',
+    fingerprint: {
+      tag: 'input',
+      id: 'email',
+      classes: ['field'],
+      testId: null,
+      role: 'textbox',
+      accessibleName: 'Email',
+      text: '',
+      domPath: 'body > form > input',
+      nearbyLabels: ['Email', 'Contact details'],
+      attributes: { type: 'email' },
+    },
+    nearbyText: ['Email', 'Contact details'],
+    attempt: 2,
+    maxAttempts: 3,
+    rejectedSuggestions: [
+      { selector: 'input', attempt: 1, error: 'rejected (ambiguous): selector matches 3 elements' },
+      { selector: '#mail', attempt: 1, error: 'Timeout 100ms exceeded.' },
+    ],
+  };
+  const prompt = () => stub.requests[0].body.messages[0].content as string;
+
+  before(async () => {
+    baseUrl = await stub.listen();
+  });
+  after(() => stub.close());
+  beforeEach(() => {
+    stub.requests.length = 0;
+    stub.respond(() => ({
+      json: {
+        content: [
+          { type: 'tool_use', name: 'suggest_selectors', input: { candidates: [{ selector: '#save' }] } },
+        ],
+      },
+    }));
+  });
+
+  it('describes the context and earlier attempts in the built-in prompt', async () => {
+    const service = createAIHealingService({ provider: 'anthropic', apiKey: 'test-key', baseUrl });
+
+    await service.suggestSelectors('#email', html, undefined, undefined, context);
+
+    const text = prompt();
+    assert.ok(text.includes('  Test: checkout › pays by card'));
+    assert.ok(text.includes('  Page: "Checkout" at https://shop.example/checkout'));
+    assert.ok(text.includes('  Action: fill, typing an email address'));
+    assert.ok(text.includes('it matched: <input> with id="email", class="field", role textbox'));
+    assert.ok(text.includes('at body > form > input'));
+    assert.ok(text.includes('  Nearby text: "Email", "Contact details"'));
+    assert.ok(text.includes('This is attempt 2 of 3.'));
+    assert.ok(text.includes('  - input (attempt 1): rejected (ambiguous): selector matches 3 elements'));
+    assert.ok(text.includes('  - #mail (attempt 1): Timeout 100ms exceeded.'));
+  });
+
+  it('leaves the context out when there is none', async () => {
+    const service = createAIHealingService({ provider: 'anthropic', apiKey: 'test-key', baseUrl });
+
+    await service.suggestSelectors('#email', html);
+
+    assert.ok(!prompt().includes('Context:'));
+  });
+
+  it('fills in the placeholders of a string template', async () => {
+    const service = createAIHealingService({
+      provider: 'anthropic',
+      apiKey: 'test-key',
+      baseUrl,
+      promptTemplate:
+        'Fix {{ failedSelector }} for {{action}} on {{pageTitle}} ({{valueType}}).\n' +
+        '{{previousAttempts}}\n{{responseFormat}}\n{{snapshot}}',
+    });
+
+    await service.suggestSelectors('#email', html, undefined, undefined, context);
+
+    const lines = prompt().split('\n');
+    assert.equal(lines[0], 'Fix #email for fill on Checkout (email).');
+    assert.equal(
+      lines[1],
+      'This is attempt 2 of 3. These suggestions from earlier attempts did not work; do not suggest them again:',
+    );
+    assert.ok(prompt().includes('{"candidates": [{"selector": "...", "confidence"'));
+    assert.ok(prompt().endsWith(`--- HTML SNAPSHOT ---\n${html}`));
+  });
+
+  it('calls a template function with the context, snapshots and built-in prompt', async () => {
+    const template = mock.fn(() => 'custom prompt');
+    const service = createAIHealingService({
+      provider: 'anthropic',
+      apiKey: 'test-key',
+      baseUrl,
+      maxCandidates: 2,
+      promptTemplate: template,
+    });
+
+    await service.suggestSelectors('#email', html, undefined, undefined, context);
+
+    assert.equal(prompt(), 'custom prompt');
+    const [input] = template.mock.calls[0].arguments as unknown as [PromptTemplateInput];
+    assert.equal(input.failedSelector, '#email');
+    assert.equal(input.context, context);
+    assert.equal(input.html, html);
+    assert.equal(input.maxCandidates, 2);
+    assert.ok(input.sections.defaultPrompt.includes('Suggest up to 2 replacement'));
+    assert.ok(input.sections.context.startsWith('Context:'));
+  });
+
+  it('asks for a bare selector in templates for single suggestions', async () => {
+    stub.respond(() => ({ json: { content: [{ type: 'text', text: '#save' }] } }));
+    const service = createAIHealingService({
+      provider: 'anthropic',
+      apiKey: 'test-key',
+      baseUrl,
+      promptTemplate: '{{failedSelector}} {{maxCandidates}}\n{{responseFormat}}',
+    });
+
+    assert.equal(await service.suggestSelector('#email', html), '#save');
+    assert.equal(
+      prompt(),
+      '#email 1\nReply with ONLY the selector string — no explanation, no quotes, no markdown.',
+    );
+  });
+
+  it('rejects unknown placeholders when the service is created', () => {
+    assert.throws(
+      () =>
+        createAIHealingService({
+          provider: 'anthropic',
+          apiKey: 'test-key',
+          promptTemplate: 'Fix {{selector}}',
+        }),
+      /Unknown placeholder \{\{selector\}\} in promptTemplate\. Available: \{\{failedSelector\}\}/,
+    );
+  });
+
+  it('passes the context to custom functions', async () => {
+    const healFn = mock.fn(async () => '#save');
+    const suggestFn = mock.fn(async () => [{ selector: '#save', confidence: 0.8, rationale: '' }]);
+    const heal = createAIHealingService({ provider: 'custom', customHealFn: healFn });
+    const suggest = createAIHealingService({ provider: 'custom', customSuggestFn: suggestFn });
+
+    await heal.suggestSelectors('#email', html, undefined, undefined, context);
+    await suggest.suggestSelectors('#email', html, undefined, undefined, context);
+
+    assert.equal(healFn.mock.calls[0].arguments[3], context);
+    assert.equal(suggestFn.mock.calls[0].arguments[5], context);
+  });
+});
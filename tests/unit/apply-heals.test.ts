@@ -0,0 +1,272 @@
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import {
+  loadHealingEvents,
+  planHeals,
+  renderUnifiedDiff,
+  applyHealPlan,
+} from '../../src/apply-heals.ts';
+import { runCli } from '../../src/cli.ts';
+import { captureCallSite } from '../../src/call-site.ts';
+import type { HealingEvent } from '../../src/types.ts';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const tempDirs: string[] = [];
+afterEach(() => {
+  for (const d of tempDirs) {
+    fs.rmSync(d, { recursive: true, force: true });
+  }
+  tempDirs.length = 0;
+});
+
+function makeTempDir(): string {
+  const d = fs.mkdtempSync(path.join(os.tmpdir(), 'resilient-heals-'));
+  tempDirs.push(d);
+  return d;
+}
+
+const SPEC = [
+  "import { test } from 'resilient-auditor';",
+  '',
+  "test('login', async ({ resilientPage }) => {",
+  "  await resilientPage.fill('#user', 'alice');",
+  '  await resilientPage.click("#old-submit");',
+  '});',
+  '',
+].join('\n');
+
+function writeSpec(dir: string, source = SPEC): string {
+  const file = path.join(dir, 'login.spec.ts');
+  fs.writeFileSync(file, source, 'utf-8');
+  return file;
+}
+
+function makeEvent(file: string, overrides: Partial<HealingEvent> = {}): HealingEvent {
+  return {
+    originalSelector: '#old-submit',
+    healedSelector: 'button[type="submit"]',
+    action: 'click',
+    timestamp: '2025-01-01T00:00:00.000Z',
+    aiProvider: 'custom',
+    callSite: { file, line: 5, column: 23 },
+    ...overrides,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// captureCallSite
+// ---------------------------------------------------------------------------
+
+describe('captureCallSite', () => {
+  it('returns the first frame outside the auditor sources', () => {
+    const ownFile = path.resolve(__dirname, '../../src/resilient-page.ts');
+    const stack = [
+      'Error',
+      `    at ResilientPage.healAndRetry (${ownFile}:60:22)`,
+      '    at node:internal/process/task_queues:95:5',
+      `    at ${path.sep}proj${path.sep}node_modules${path.sep}x${path.sep}index.js:1:1`,
+      `    at async ${path.sep}proj${path.sep}tests${path.sep}a.spec.ts:12:5`,
+    ].join('\n');
+
+    assert.deepEqual(captureCallSite(stack), {
+      file: `${path.sep}proj${path.sep}tests${path.sep}a.spec.ts`,
+      line: 12,
+      column: 5,
+    });
+  });
+
+  it('returns undefined when no foreign frame exists', () => {
+    assert.equal(captureCallSite('Error\n    at node:internal/x:1:1'), undefined);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// loadHealingEvents
+// ---------------------------------------------------------------------------
+
+describe('loadHealingEvents', () => {
+  it('collects events from reports and ignores other JSON files', () => {
+    const dir = makeTempDir();
+    fs.writeFileSync(path.join(dir, 'a.json'), JSON.stringify({ healingEvents: [makeEvent('/x')] }));
+    fs.writeFileSync(path.join(dir, 'healing-cache.json'), JSON.stringify({ version: 1, entries: [] }));
+    fs.writeFileSync(path.join(dir, 'broken.json'), '{');
+    fs.writeFileSync(path.join(dir, 'notes.txt'), 'hello');
+
+    const events = loadHealingEvents(dir);
+    assert.equal(events.length, 1);
+    assert.equal(events[0].originalSelector, '#old-submit');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// planHeals
+// ---------------------------------------------------------------------------
+
+describe('planHeals', () => {
+  it('replaces the literal on the reported line, keeping the quote style', () => {
+    const file = writeSpec(makeTempDir());
+    const plan = planHeals([makeEvent(file)]);
+
+    assert.equal(plan.skipped.length, 0);
+    assert.equal(plan.files.length, 1);
+    assert.equal(plan.files[0].edits[0].line, 5);
+    assert.ok(plan.files[0].after.includes('resilientPage.click("button[type=\\"submit\\"]");'));
+  });
+
+  it('writes selectors containing $ patterns verbatim', () => {
+    const file = writeSpec(makeTempDir());
+    const healedSelector = "a[href$='.pdf'], [data-x=\"$&$$$`$'\"]";
+    const plan = planHeals([makeEvent(file, { healedSelector })]);
+
+    assert.ok(
+      plan.files[0].after.includes(
+        'resilientPage.click("a[href$=\'.pdf\'], [data-x=\\"$&$$$`$\'\\"]");',
+      ),
+    );
+  });
+
+  it('falls back to a unique occurrence elsewhere in the file', () => {
+    const file = writeSpec(makeTempDir());
+    const plan = planHeals([makeEvent(file, { callSite: { file, line: 1, column: 1 } })]);
+
+    assert.equal(plan.files[0].edits[0].line, 5);
+  });
+
+  it('deduplicates identical heals of the same literal', () => {
+    const file = writeSpec(makeTempDir());
+    const plan = planHeals([makeEvent(file), makeEvent(file)]);
+
+    assert.equal(plan.files[0].edits.length, 1);
+    assert.equal(plan.skipped.length, 0);
+  });
+
+  it('skips conflicting heals of the same literal', () => {
+    const file = writeSpec(makeTempDir());
+    const plan = planHeals([makeEvent(file), makeEvent(file, { healedSelector: '#other' })]);
+
+    assert.equal(plan.files[0].edits.length, 1);
+    assert.equal(plan.skipped.length, 1);
+    assert.match(plan.skipped[0].reason, /conflicts/);
+  });
+
+  it('skips events without a call site or with a missing literal', () => {
+    const file = writeSpec(makeTempDir());
+    const plan = planHeals([
+      makeEvent(file, { callSite: undefined }),
+      makeEvent(file, { originalSelector: '#nowhere' }),
+      makeEvent(path.join(path.dirname(file), 'missing.spec.ts')),
+    ]);
+
+    assert.equal(plan.files.length, 0);
+    assert.deepEqual(
+      plan.skipped.map((s) => s.reason),
+      [
+        'no call site recorded',
+        `source file not found: ${path.join(path.dirname(file), 'missing.spec.ts')}`,
+        'selector literal not found in file',
+      ],
+    );
+  });
+
+  it('does not modify files until the plan is applied', () => {
+    const file = writeSpec(makeTempDir());
+    const plan = planHeals([makeEvent(file)]);
+    assert.equal(fs.readFileSync(file, 'utf-8'), SPEC);
+
+    applyHealPlan(plan);
+    assert.equal(fs.readFileSync(file, 'utf-8'), plan.files[0].after);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// renderUnifiedDiff
+// ---------------------------------------------------------------------------
+
+describe('renderUnifiedDiff', () => {
+  it('renders a hunk with context lines', () => {
+    const before = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'].join('\n');
+    const after = ['a', 'b', 'c', 'D', 'e', 'f', 'g', 'h'].join('\n');
+
+    assert.equal(
+      renderUnifiedDiff('x.ts', before, after),
+      [
+        '--- a/x.ts',
+        '+++ b/x.ts',
+        '@@ -1,7 +1,7 @@',
+        ' a', ' b', ' c', '-d', '+D', ' e', ' f', ' g',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('returns an empty string when nothing changed', () => {
+    assert.equal(renderUnifiedDiff('x.ts', 'same', 'same'), '');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// CLI
+// ---------------------------------------------------------------------------
+
+describe('runCli — apply-heals', () => {
+  function setup() {
+    const dir = makeTempDir();
+    const file = writeSpec(dir);
+    const reportDir = path.join(dir, 'reports');
+    fs.mkdirSync(reportDir);
+    fs.writeFileSync(
+      path.join(reportDir, 'login_1.json'),
+      JSON.stringify({ testName: 'login', healingEvents: [makeEvent(file)] }),
+    );
+    return { dir, file, reportDir };
+  }
+
+  function run(argv: string[]) {
+    let stdout = '';
+    let stderr = '';
+    const code = runCli(argv, (t) => { stdout += t; }, (t) => { stderr += t; });
+    return { code, stdout, stderr };
+  }
+
+  it('prints a diff and leaves files untouched with --dry-run', () => {
+    const { file, reportDir } = setup();
+    const { code, stdout } = run(['apply-heals', reportDir, '--dry-run']);
+
+    assert.equal(code, 0);
+    assert.ok(stdout.includes('-  await resilientPage.click("#old-submit");'));
+    assert.ok(stdout.includes('+  await resilientPage.click("button[type=\\"submit\\"]");'));
+    assert.equal(fs.readFileSync(file, 'utf-8'), SPEC);
+  });
+
+  it('writes a patch file with --patch', () => {
+    const { dir, file, reportDir } = setup();
+    const patchPath = path.join(dir, 'heals.patch');
+    const { code } = run(['apply-heals', reportDir, '--patch', patchPath]);
+
+    assert.equal(code, 0);
+    assert.ok(fs.readFileSync(patchPath, 'utf-8').startsWith('--- a/'));
+    assert.equal(fs.readFileSync(file, 'utf-8'), SPEC);
+  });
+
+  it('rewrites the spec file by default', () => {
+    const { file, reportDir } = setup();
+    const { code, stdout } = run(['apply-heals', reportDir]);
+
+    assert.equal(code, 0);
+    assert.ok(stdout.includes('Applied 1 change(s) in 1 file(s)'));
+    assert.ok(fs.readFileSync(file, 'utf-8').includes('button[type=\\"submit\\"]'));
+  });
+
+  it('fails with usage on bad input', () => {
+    assert.equal(run(['apply-heals']).code, 1);
+    assert.equal(run(['frobnicate']).code, 1);
+    assert.equal(run(['apply-heals', '/does/not/exist']).code, 1);
+    assert.equal(run([]).code, 0);
+  });
+});
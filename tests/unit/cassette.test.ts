@@ -0,0 +1,135 @@
+import { describe, it, mock, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { spawn } from 'node:child_process';
+import { CassetteMissError, cassetteKey, createCassette } from '../../src/cassette.ts';
+import type { CassetteRequest } from '../../src/types.ts';
+
+const tempDirs: string[] = [];
+afterEach(() => {
+  for (const d of tempDirs) fs.rmSync(d, { recursive: true, force: true });
+  tempDirs.length = 0;
+});
+
+function makeCassettePath(): string {
+  const d = fs.mkdtempSync(path.join(os.tmpdir(), 'resilient-cassette-'));
+  tempDirs.push(d);
+  return path.join(d, 'cassettes', 'login.json');
+}
+
+const REQUEST: CassetteRequest = {
+  provider: 'anthropic',
+  model: 'claude-sonnet-4-20250514',
+  kind: 'candidates',
+  prompt: 'Failed selector: #old',
+};
+
+describe('cassetteKey', () => {
+  it('is stable for the same request', () => {
+    assert.equal(cassetteKey(REQUEST), cassetteKey({ ...REQUEST }));
+    assert.match(cassetteKey(REQUEST), /^[0-9a-f]{64}$/);
+  });
+
+  it('differs by provider, model, kind and prompt', () => {
+    const keys = new Set([
+      cassetteKey(REQUEST),
+      cassetteKey({ ...REQUEST, provider: 'openai' }),
+      cassetteKey({ ...REQUEST, model: 'gpt-4o' }),
+      cassetteKey({ ...REQUEST, kind: 'selector' }),
+      cassetteKey({ ...REQUEST, prompt: 'Failed selector: #new' }),
+    ]);
+    assert.equal(keys.size, 5);
+  });
+});
+
+describe('createCassette', () => {
+  it('records responses, then replays them without calling the provider', async () => {
+    const filePath = makeCassettePath();
+    const reply = { output: { candidates: [{ selector: '#new' }] }, tokens: { inputTokens: 10 } };
+
+    const recorder = createCassette({ path: filePath, mode: 'record' });
+    assert.deepEqual(await recorder.play(REQUEST, async () => reply), reply);
+
+    const call = mock.fn(async () => ({ output: 'live' }));
+    const player = createCassette({ path: filePath, mode: 'replay' });
+    assert.deepEqual(await player.play(REQUEST, call), reply);
+    assert.equal(call.mock.callCount(), 0);
+
+    const saved = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    const entry = saved.entries[cassetteKey(REQUEST)];
+    assert.equal(entry.provider, 'anthropic');
+    assert.equal(entry.kind, 'candidates');
+    assert.deepEqual(entry.response, reply);
+  });
+
+  it('re-records a request, replacing its response', async () => {
+    const filePath = makeCassettePath();
+    const recorder = createCassette({ path: filePath, mode: 'record' });
+    await recorder.play(REQUEST, async () => 'first');
+    await recorder.play(REQUEST, async () => 'second');
+
+    const player = createCassette({ path: filePath, mode: 'replay' });
+    assert.equal(await player.play(REQUEST, async () => 'live'), 'second');
+  });
+
+  it('throws on an unmatched request in strict replay', async () => {
+    const filePath = makeCassettePath();
+    const call = mock.fn(async () => 'live');
+    const player = createCassette({ path: filePath, mode: 'replay' });
+
+    await assert.rejects(
+      () => player.play(REQUEST, call),
+      (err: unknown) => {
+        assert.ok(err instanceof CassetteMissError);
+        assert.equal(err.key, cassetteKey(REQUEST));
+        assert.match(err.message, /No recorded AI response .* re-record/);
+        return true;
+      },
+    );
+    assert.equal(call.mock.callCount(), 0);
+  });
+
+  it('calls the provider on an unmatched request in lenient replay, without recording', async () => {
+    const filePath = makeCassettePath();
+    const player = createCassette({ path: filePath, mode: 'replay', strict: false });
+
+    assert.equal(await player.play(REQUEST, async () => 'live'), 'live');
+    assert.equal(fs.existsSync(filePath), false);
+  });
+
+  it('ignores the cassette in passthrough mode', async () => {
+    const filePath = makeCassettePath();
+    await createCassette({ path: filePath, mode: 'record' }).play(REQUEST, async () => 'saved');
+
+    const cassette = createCassette({ path: filePath, mode: 'passthrough' });
+    assert.equal(await cassette.play(REQUEST, async () => 'live'), 'live');
+    assert.equal(await cassette.play({ ...REQUEST, prompt: 'other' }, async () => 'live'), 'live');
+  });
+
+  it('keeps the recordings of workers recording at the same time', async () => {
+    const filePath = makeCassettePath();
+    const cassetteModule = path.resolve('src/cassette.ts');
+    const worker = (id: number) =>
+      new Promise<void>((resolve, reject) => {
+        const script = `
+          const { createCassette } = require(${JSON.stringify(cassetteModule)});
+          const cassette = createCassette({ path: ${JSON.stringify(filePath)}, mode: 'record' });
+          (async () => {
+            for (let i = 0; i < 20; i++) {
+              const request = { ...${JSON.stringify(REQUEST)}, prompt: 'worker ${id} prompt ' + i };
+              await cassette.play(request, async () => 'reply');
+            }
+          })();`;
+        const child = spawn(process.execPath, ['--import', 'tsx', '-e', script], { stdio: 'ignore' });
+        child.on('error', reject);
+        child.on('exit', (code) => (code === 0 ? resolve() : reject(new Error(`exit ${code}`))));
+      });
+
+    await Promise.all([worker(1), worker(2), worker(3)]);
+
+    const saved = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    assert.equal(Object.keys(saved.entries).length, 60);
+  });
+});
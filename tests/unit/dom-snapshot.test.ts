@@ -0,0 +1,216 @@
+import { describe, it, mock, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { captureAriaSnapshot, captureSnapshot } from '../../src/dom-snapshot.ts';
+
+// ---------------------------------------------------------------------------
+// A minimal fake DOM, enough for the browser-side serialiser
+// ---------------------------------------------------------------------------
+
+interface FakeNode {
+  nodeType: number;
+  tagName?: string;
+  textContent?: string;
+  data?: string;
+  attributes?: Array<{ name: string; value: string }>;
+  childNodes?: FakeNode[];
+  shadowRoot?: { childNodes: FakeNode[] } | null;
+  parentElement?: FakeNode | null;
+}
+
+function el(
+  tag: string,
+  attrs: Record<string, string> = {},
+  children: FakeNode[] = [],
+  shadow?: FakeNode[],
+): FakeNode {
+  const node: FakeNode = {
+    nodeType: 1,
+    tagName: tag.toUpperCase(),
+    attributes: Object.entries(attrs).map(([name, value]) => ({ name, value })),
+    childNodes: children,
+    shadowRoot: shadow ? { childNodes: shadow } : null,
+  };
+  for (const child of [...children, ...(shadow ?? [])]) child.parentElement = node;
+  return node;
+}
+
+function text(value: string): FakeNode {
+  return { nodeType: 3, textContent: value };
+}
+
+const globals = globalThis as Record<string, unknown>;
+
+before(() => {
+  globals.Node = { ELEMENT_NODE: 1, TEXT_NODE: 3, COMMENT_NODE: 8 };
+  globals.HTMLTemplateElement = class {};
+});
+
+after(() => {
+  delete globals.Node;
+  delete globals.HTMLTemplateElement;
+});
+
+/** A root whose `evaluate` runs the serialiser against `documentElement`. */
+function fakeRoot(documentElement: FakeNode) {
+  const evaluate = mock.fn(async (fn: (root: unknown) => string) =>
+    fn({ ownerDocument: { documentElement } }));
+  return { evaluate, root: { locator: mock.fn(() => ({ evaluate })) } };
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('captureSnapshot', () => {
+  it('serialises open shadow roots as declarative templates', async () => {
+    const doc = el('html', {}, [
+      el('body', {}, [
+        el('checkout-form', { id: 'checkout' }, [], [
+          el('button', { class: 'pay' }, [text('Pay')]),
+        ]),
+      ]),
+    ]);
+    const { root } = fakeRoot(doc);
+
+    const html = await captureSnapshot(root, 1000);
+
+    assert.equal(
+      html,
+      '<!DOCTYPE html><html><body><checkout-form id="checkout">' +
+        '<template shadowrootmode="open"><button class="pay">Pay</button></template>' +
+        '</checkout-form></body></html>',
+    );
+  });
+
+  it('escapes text and attributes but not script contents', async () => {
+    const doc = el('html', {}, [
+      el('body', { 'data-x': 'a "b" & c' }, [
+        text('1 < 2'),
+        el('script', {}, [text('if (a < b) go();')]),
+        el('br'),
+      ]),
+    ]);
+    const { root } = fakeRoot(doc);
+
+    const html = await captureSnapshot(root, 1000);
+
+    assert.ok(html.includes('data-x="a &quot;b&quot; &amp; c"'));
+    assert.ok(html.includes('1 &lt; 2'));
+    assert.ok(html.includes('<script>if (a < b) go();</script>'));
+    assert.ok(html.includes('<br></body>'));
+  });
+
+  it('evaluates against :root with the given timeout', async () => {
+    const { root, evaluate } = fakeRoot(el('html'));
+
+    await captureSnapshot(root, 1234);
+
+    assert.deepEqual(root.locator.mock.calls[0].arguments, [':root']);
+    assert.deepEqual(evaluate.mock.calls[0].arguments.slice(1), [[], { timeout: 1234 }]);
+  });
+
+  it('falls back to content() when the document cannot be evaluated', async () => {
+    const root = {
+      locator: mock.fn(() => ({
+        evaluate: mock.fn(async () => { throw new Error('Execution context was destroyed'); }),
+      })),
+      content: mock.fn(async () => '<html>fallback</html>'),
+    };
+
+    assert.equal(await captureSnapshot(root as any, 1000), '<html>fallback</html>');
+  });
+
+  it('rethrows when a frame cannot be evaluated', async () => {
+    const root = {
+      locator: mock.fn(() => ({
+        evaluate: mock.fn(async () => { throw new Error('Timeout 1000ms exceeded'); }),
+      })),
+    };
+
+    await assert.rejects(() => captureSnapshot(root as any, 1000), /Timeout 1000ms/);
+  });
+});
+
+describe('captureSnapshot — redacted regions', () => {
+  /** Match `#id` selectors only, which is all these tests use. */
+  function matchingIds(node: FakeNode): FakeNode {
+    (node as FakeNode & { matches(s: string): boolean }).matches = (selector: string) =>
+      node.attributes?.some((a) => a.name === 'id' && `#${a.value}` === selector) ?? false;
+    for (const child of node.childNodes ?? []) if (child.nodeType === 1) matchingIds(child);
+    return node;
+  }
+
+  function redactingRoot(documentElement: FakeNode) {
+    const querySelector = (selector: string) => {
+      if (!selector.startsWith('#')) throw new SyntaxError(`'${selector}' is not a valid selector`);
+      return null;
+    };
+    const evaluate = mock.fn(async (fn: (root: unknown, redact: string[]) => string, redact: string[]) =>
+      fn({ ownerDocument: { documentElement, querySelector } }, redact));
+    return { locator: mock.fn(() => ({ evaluate })) };
+  }
+
+  it('removes the content and most attributes of matching elements', async () => {
+    const doc = matchingIds(el('html', {}, [
+      el('body', {}, [
+        el('div', { id: 'billing', class: 'card', title: 'Alice Smith' }, [text('4111 1111 1111 1111')]),
+        el('input', { id: 'ssn', value: '123-45-6789' }),
+        el('p', {}, [text('Public')]),
+      ]),
+    ]));
+
+    const html = await captureSnapshot(redactingRoot(doc), 1000, ['#billing', '#ssn']);
+
+    assert.equal(
+      html,
+      '<!DOCTYPE html><html><body>' +
+        '<div id="billing" class="card" data-redacted>[REDACTED]</div>' +
+        '<input id="ssn" data-redacted><p>Public</p></body></html>',
+    );
+  });
+
+  it('fails on invalid selectors rather than sending the region', async () => {
+    const doc = matchingIds(el('html', {}, [el('body')]));
+    await assert.rejects(
+      () => captureSnapshot(redactingRoot(doc), 1000, ['div[']),
+      /Invalid redaction selector "div\["/,
+    );
+  });
+
+  it('does not fall back to content(), which cannot be redacted', async () => {
+    const root = {
+      locator: mock.fn(() => ({
+        evaluate: mock.fn(async () => { throw new Error('Execution context was destroyed'); }),
+      })),
+      content: mock.fn(async () => '<html>unredacted</html>'),
+    };
+
+    await assert.rejects(() => captureSnapshot(root as any, 1000, ['#billing']), /Execution context/);
+    assert.equal(root.content.mock.callCount(), 0);
+  });
+});
+
+describe('captureAriaSnapshot', () => {
+  it('takes the ARIA snapshot of the body with the given timeout', async () => {
+    const ariaSnapshot = mock.fn(async () => '- button "Save"');
+    const root = { locator: mock.fn(() => ({ ariaSnapshot })) };
+
+    assert.equal(await captureAriaSnapshot(root as any, 1234), '- button "Save"');
+    assert.deepEqual(root.locator.mock.calls[0].arguments, ['body']);
+    assert.deepEqual(ariaSnapshot.mock.calls[0].arguments, [{ timeout: 1234 }]);
+  });
+
+  it('returns undefined when the driver cannot take ARIA snapshots', async () => {
+    const root = { locator: mock.fn(() => ({})) };
+    assert.equal(await captureAriaSnapshot(root as any, 1000), undefined);
+  });
+
+  it('returns undefined when taking the snapshot fails', async () => {
+    const root = {
+      locator: mock.fn(() => ({
+        ariaSnapshot: mock.fn(async () => { throw new Error('Timeout 1000ms exceeded'); }),
+      })),
+    };
+    assert.equal(await captureAriaSnapshot(root as any, 1000), undefined);
+  });
+});
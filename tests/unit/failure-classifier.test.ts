@@ -0,0 +1,145 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  classifyFailure,
+  describeFailure,
+} from '../../src/failure-classifier.ts';
+
+/** Build an error shaped like Playwright's: a message plus a call log. */
+function playwrightError(message: string, ...log: string[]): Error {
+  return new Error([message, 'Call log:', ...log.map((l) => `  - ${l}`)].join('\n'));
+}
+
+describe('classifyFailure — resolve phase', () => {
+  it('classifies a waitFor timeout as not-attached', () => {
+    const err = playwrightError(
+      'locator.waitFor: Timeout 5000ms exceeded.',
+      "waiting for locator('#missing')",
+    );
+    assert.equal(classifyFailure(err, 'resolve'), 'not-attached');
+  });
+
+  it('classifies a strict mode violation as not-unique', () => {
+    const err = new Error(
+      "locator.waitFor: Error: strict mode violation: locator('button') resolved to 3 elements",
+    );
+    assert.equal(classifyFailure(err, 'resolve'), 'not-unique');
+  });
+
+  it('classifies a TimeoutError from another driver as not-attached', () => {
+    const err = new Error('waiting for selector "#missing" failed');
+    err.name = 'TimeoutError';
+    assert.equal(classifyFailure(err, 'resolve'), 'not-attached');
+  });
+
+  it('does not mistake a closed page for a missing element', () => {
+    const err = playwrightError(
+      'locator.waitFor: Target page, context or browser has been closed',
+      "waiting for locator('#submit') to be attached",
+    );
+    assert.equal(classifyFailure(err, 'resolve'), 'unknown');
+  });
+
+  it('does not mistake a navigation or detached frame for a missing element', () => {
+    assert.equal(
+      classifyFailure(
+        new Error('locator.waitFor: Execution context was destroyed, most likely because of a navigation'),
+        'resolve',
+      ),
+      'unknown',
+    );
+    assert.equal(classifyFailure(new Error('locator.waitFor: Frame was detached'), 'resolve'), 'unknown');
+  });
+
+  it('classifies a timeout only by its message, not its call log', () => {
+    const err = playwrightError(
+      'locator.waitFor: Target page, context or browser has been closed',
+      "waiting for locator('#submit') to be attached (timeout 5000ms)",
+    );
+    assert.equal(classifyFailure(err, 'resolve'), 'unknown');
+  });
+
+  it('treats non-Error values as unknown', () => {
+    assert.equal(classifyFailure('boom', 'resolve'), 'unknown');
+  });
+});
+
+describe('classifyFailure — action phase', () => {
+  it('classifies a disabled element as not-enabled', () => {
+    const err = playwrightError(
+      'locator.click: Timeout 30000ms exceeded.',
+      'waiting for element to be visible, enabled and stable',
+      'element is not enabled',
+      'retrying click action',
+    );
+    assert.equal(classifyFailure(err, 'action'), 'not-enabled');
+  });
+
+  it('classifies a read-only input as not-enabled', () => {
+    const err = playwrightError(
+      'locator.fill: Timeout 30000ms exceeded.',
+      'element is not editable',
+    );
+    assert.equal(classifyFailure(err, 'action'), 'not-enabled');
+  });
+
+  it('classifies a covering overlay as intercepted', () => {
+    const err = playwrightError(
+      'locator.click: Timeout 30000ms exceeded.',
+      'element is visible, enabled and stable',
+      '<div class="modal-backdrop"></div> intercepts pointer events',
+    );
+    assert.equal(classifyFailure(err, 'action'), 'intercepted');
+  });
+
+  it('classifies a hidden element as not-visible', () => {
+    const err = playwrightError(
+      'locator.click: Timeout 30000ms exceeded.',
+      'element is not visible',
+    );
+    assert.equal(classifyFailure(err, 'action'), 'not-visible');
+  });
+
+  it('classifies a rejected fill value as invalid-value', () => {
+    const err = new Error(
+      'locator.fill: Error: Element is not an <input>, <textarea> or [contenteditable] element',
+    );
+    assert.equal(classifyFailure(err, 'action'), 'invalid-value');
+    assert.equal(
+      classifyFailure(new Error('locator.fill: Error: Malformed value'), 'action'),
+      'invalid-value',
+    );
+  });
+
+  it('classifies a strict mode violation as not-unique', () => {
+    const err = new Error("locator.click: Error: strict mode violation: locator('a') resolved to 2 elements");
+    assert.equal(classifyFailure(err, 'action'), 'not-unique');
+  });
+
+  it('classifies an element detached mid-action as not-attached', () => {
+    const err = playwrightError(
+      'locator.click: Timeout 30000ms exceeded.',
+      'element was detached from the DOM, retrying',
+    );
+    assert.equal(classifyFailure(err, 'action'), 'not-attached');
+  });
+
+  it('falls back to action-timeout for other timeouts', () => {
+    const err = playwrightError(
+      'locator.click: Timeout 30000ms exceeded.',
+      'waiting for element to be stable',
+    );
+    assert.equal(classifyFailure(err, 'action'), 'action-timeout');
+  });
+
+  it('returns unknown for unrecognised errors', () => {
+    assert.equal(classifyFailure(new Error('Target page has been closed'), 'action'), 'unknown');
+  });
+});
+
+describe('describeFailure', () => {
+  it('describes each class in plain words', () => {
+    assert.equal(describeFailure('not-attached'), 'no element matched the selector');
+    assert.equal(describeFailure('intercepted'), 'another element intercepts pointer events');
+  });
+});
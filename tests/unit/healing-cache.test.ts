@@ -0,0 +1,184 @@
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { spawn } from 'node:child_process';
+import { createHealingCache, toUrlPattern } from '../../src/healing-cache.ts';
+import type { HealingCacheKey } from '../../src/types.ts';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const tempDirs: string[] = [];
+afterEach(() => {
+  for (const d of tempDirs) {
+    fs.rmSync(d, { recursive: true, force: true });
+  }
+  tempDirs.length = 0;
+});
+
+function makeCachePath(): string {
+  const d = fs.mkdtempSync(path.join(os.tmpdir(), 'resilient-cache-'));
+  tempDirs.push(d);
+  return path.join(d, 'nested', 'healing-cache.json');
+}
+
+const KEY: HealingCacheKey = {
+  originalSelector: '#old',
+  urlPattern: 'https://example.com/login',
+  action: 'click',
+};
+
+// ---------------------------------------------------------------------------
+// toUrlPattern
+// ---------------------------------------------------------------------------
+
+describe('toUrlPattern', () => {
+  it('drops query string and hash', () => {
+    assert.equal(
+      toUrlPattern('https://example.com/login?next=/home#top'),
+      'https://example.com/login',
+    );
+  });
+
+  it('replaces numeric and UUID path segments with *', () => {
+    assert.equal(
+      toUrlPattern('https://shop.test/orders/12345/items/3f2b8c1e-9a4d-4e6f-8b7a-1c2d3e4f5a6b'),
+      'https://shop.test/orders/*/items/*',
+    );
+  });
+
+  it('keeps ordinary word segments', () => {
+    assert.equal(
+      toUrlPattern('https://example.com/settings/profile'),
+      'https://example.com/settings/profile',
+    );
+  });
+
+  it('returns non-URL input unchanged', () => {
+    assert.equal(toUrlPattern('about:blank'), 'about:blank');
+    assert.equal(toUrlPattern('not a url'), 'not a url');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// createHealingCache
+// ---------------------------------------------------------------------------
+
+describe('createHealingCache', () => {
+  it('returns undefined for unknown keys when the file does not exist', () => {
+    const cache = createHealingCache(makeCachePath());
+    assert.equal(cache.lookup(KEY), undefined);
+  });
+
+  it('stores and looks up a healed selector', () => {
+    const filePath = makeCachePath();
+    const cache = createHealingCache(filePath);
+    cache.store(KEY, '#new', 'anthropic');
+
+    const entry = cache.lookup(KEY);
+    assert.ok(entry);
+    assert.equal(entry.healedSelector, '#new');
+    assert.equal(entry.aiProvider, 'anthropic');
+    assert.equal(entry.hitCount, 0);
+    assert.ok(fs.existsSync(filePath));
+  });
+
+  it('distinguishes entries by action and URL pattern', () => {
+    const cache = createHealingCache(makeCachePath());
+    cache.store(KEY, '#new', 'custom');
+
+    assert.equal(cache.lookup({ ...KEY, action: 'fill' }), undefined);
+    assert.equal(
+      cache.lookup({ ...KEY, urlPattern: 'https://example.com/other' }),
+      undefined,
+    );
+  });
+
+  it('persists entries across cache instances', () => {
+    const filePath = makeCachePath();
+    createHealingCache(filePath).store(KEY, '#new', 'custom');
+
+    const entry = createHealingCache(filePath).lookup(KEY);
+    assert.equal(entry?.healedSelector, '#new');
+  });
+
+  it('increments hitCount and refreshes lastVerifiedAt on recordHit', async () => {
+    const cache = createHealingCache(makeCachePath());
+    cache.store(KEY, '#new', 'custom');
+    const before = cache.lookup(KEY)!;
+
+    await new Promise((r) => setTimeout(r, 5));
+    cache.recordHit(KEY);
+    cache.recordHit(KEY);
+
+    const after = cache.lookup(KEY)!;
+    assert.equal(after.hitCount, 2);
+    assert.equal(after.createdAt, before.createdAt);
+    assert.ok(after.lastVerifiedAt > before.lastVerifiedAt);
+  });
+
+  it('replaces an existing entry when storing the same key again', () => {
+    const cache = createHealingCache(makeCachePath());
+    cache.store(KEY, '#first', 'custom');
+    cache.store(KEY, '#second', 'custom');
+
+    assert.equal(cache.lookup(KEY)?.healedSelector, '#second');
+  });
+
+  it('removes entries on invalidate', () => {
+    const cache = createHealingCache(makeCachePath());
+    cache.store(KEY, '#new', 'custom');
+    cache.invalidate(KEY);
+    assert.equal(cache.lookup(KEY), undefined);
+  });
+
+  it('treats a corrupt cache file as empty', () => {
+    const filePath = makeCachePath();
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, '{ not json', 'utf-8');
+
+    const cache = createHealingCache(filePath);
+    assert.equal(cache.lookup(KEY), undefined);
+    cache.store(KEY, '#new', 'custom');
+    assert.equal(cache.lookup(KEY)?.healedSelector, '#new');
+  });
+
+  it('takes over a lock left by a worker that has exited', () => {
+    const filePath = makeCachePath();
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(
+      `${filePath}.lock`,
+      JSON.stringify({ pid: 2 ** 30, host: os.hostname(), claimedAt: new Date().toISOString() }),
+    );
+
+    createHealingCache(filePath).store(KEY, '#new', 'custom');
+
+    assert.equal(createHealingCache(filePath).lookup(KEY)?.healedSelector, '#new');
+    assert.equal(fs.existsSync(`${filePath}.lock`), false);
+  });
+
+  it('keeps the entries of workers storing at the same time', async () => {
+    const filePath = makeCachePath();
+    const cacheModule = path.resolve('src/healing-cache.ts');
+    const worker = (id: number) =>
+      new Promise<void>((resolve, reject) => {
+        const script = `
+          const { createHealingCache } = require(${JSON.stringify(cacheModule)});
+          const cache = createHealingCache(${JSON.stringify(filePath)});
+          for (let i = 0; i < 20; i++) {
+            cache.store({ originalSelector: '#w${id}-' + i, urlPattern: 'u', action: 'click' }, '#x', 'custom');
+          }`;
+        const child = spawn(process.execPath, ['--import', 'tsx', '-e', script], { stdio: 'ignore' });
+        child.on('error', reject);
+        child.on('exit', (code) => (code === 0 ? resolve() : reject(new Error(`exit ${code}`))));
+      });
+
+    await Promise.all([worker(1), worker(2), worker(3)]);
+
+    const saved = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    assert.equal(saved.entries.length, 60);
+  });
+});
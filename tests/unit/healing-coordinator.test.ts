@@ -0,0 +1,200 @@
+import { describe, it, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { spawn } from 'node:child_process';
+import { createHealingCoordinator } from '../../src/healing-coordinator.ts';
+import type { HealingCacheKey } from '../../src/types.ts';
+
+const tempDirs: string[] = [];
+afterEach(() => {
+  for (const d of tempDirs) fs.rmSync(d, { recursive: true, force: true });
+  tempDirs.length = 0;
+});
+
+function makeDir(): string {
+  const d = fs.mkdtempSync(path.join(os.tmpdir(), 'resilient-coordinator-'));
+  tempDirs.push(d);
+  return path.join(d, 'healing-locks');
+}
+
+const KEY: HealingCacheKey = {
+  originalSelector: '#submit',
+  urlPattern: 'https://example.com/checkout',
+  action: 'click',
+};
+const HEALED = { healedSelector: '[data-testid="submit"]', aiProvider: 'anthropic' };
+
+/** Two coordinators on one directory, as two workers would have. */
+function workers(
+  options: { waitTimeoutMs?: number; staleLockMs?: number; resultTtlMs?: number } = {},
+) {
+  const dir = makeDir();
+  const config = { dir, pollIntervalMs: 10, ...options };
+  return { dir, first: createHealingCoordinator(config), second: createHealingCoordinator(config) };
+}
+
+const lockFile = (dir: string) => fs.readdirSync(dir).find((f) => f.endsWith('.lock'))!;
+
+describe('createHealingCoordinator', () => {
+  it('lets the first worker heal and shares its result with later ones', async () => {
+    const { dir, first, second } = workers();
+
+    assert.deepEqual(await first.claim(KEY), { status: 'claimed' });
+    first.release(KEY, HEALED);
+
+    const claim = await second.claim(KEY);
+    assert.equal(claim.status, 'shared');
+    assert.equal(claim.status === 'shared' && claim.result.healedSelector, HEALED.healedSelector);
+    assert.equal(claim.status === 'shared' && claim.result.aiProvider, 'anthropic');
+    assert.deepEqual(fs.readdirSync(dir).filter((f) => f.endsWith('.lock')), []);
+  });
+
+  it('makes a concurrent worker wait for the result', async () => {
+    const { first, second } = workers();
+    await first.claim(KEY);
+
+    const waiting = second.claim(KEY);
+    setTimeout(() => first.release(KEY, HEALED), 50);
+
+    const claim = await waiting;
+    assert.equal(claim.status, 'shared');
+  });
+
+  it('keeps different requests apart', async () => {
+    const { first, second } = workers({ waitTimeoutMs: 0 });
+    await first.claim(KEY);
+
+    assert.deepEqual(await second.claim({ ...KEY, action: 'fill' }), { status: 'claimed' });
+    assert.deepEqual(await second.claim({ ...KEY, urlPattern: 'https://example.com/cart' }), {
+      status: 'claimed',
+    });
+  });
+
+  it('hands the claim on when the healing worker gives up', async () => {
+    const { first, second } = workers();
+    await first.claim(KEY);
+
+    const waiting = second.claim(KEY);
+    setTimeout(() => first.release(KEY), 30);
+
+    assert.deepEqual(await waiting, { status: 'claimed' });
+  });
+
+  it('stops waiting after waitTimeoutMs', async () => {
+    const { first, second } = workers({ waitTimeoutMs: 50 });
+    await first.claim(KEY);
+
+    const claim = await second.claim(KEY);
+
+    assert.equal(claim.status, 'unavailable');
+    assert.match(claim.status === 'unavailable' ? claim.reason : '', /timed out after 50 ms/);
+  });
+
+  it('takes over a lock older than staleLockMs', async () => {
+    const { dir, first, second } = workers({ staleLockMs: 1000 });
+    await first.claim(KEY);
+    const old = new Date(Date.now() - 5000);
+    fs.utimesSync(path.join(dir, lockFile(dir)), old, old);
+
+    assert.deepEqual(await second.claim(KEY), { status: 'claimed' });
+  });
+
+  it('keeps the lock fresh however long the healing takes', async () => {
+    const { first, second } = workers({ staleLockMs: 60, waitTimeoutMs: 300 });
+    await first.claim(KEY);
+
+    const claim = await second.claim(KEY);
+    first.release(KEY);
+
+    assert.equal(claim.status, 'unavailable');
+  });
+
+  it('leaves a lock taken over from it to the new holder', async () => {
+    const { dir, first, second } = workers({ staleLockMs: 1000 });
+    await first.claim(KEY);
+    const old = new Date(Date.now() - 5000);
+    fs.utimesSync(path.join(dir, lockFile(dir)), old, old);
+    assert.deepEqual(await second.claim(KEY), { status: 'claimed' });
+
+    first.release(KEY);
+    assert.ok(lockFile(dir));
+    second.release(KEY);
+    assert.equal(lockFile(dir), undefined);
+  });
+
+  it('takes over the lock of a worker that has exited', async () => {
+    const { dir, first, second } = workers();
+    await first.claim(KEY);
+    // As if the lock were held by a process that no longer exists.
+    fs.writeFileSync(
+      path.join(dir, lockFile(dir)),
+      JSON.stringify({ pid: 2 ** 30, host: os.hostname(), claimedAt: new Date().toISOString() }),
+    );
+
+    assert.deepEqual(await second.claim(KEY), { status: 'claimed' });
+  });
+
+  it('takes over from a worker that dies while others wait', async () => {
+    const { dir, second } = workers({ waitTimeoutMs: 30_000, staleLockMs: 30_000 });
+    const script = `
+      const { createHealingCoordinator } = require(${JSON.stringify(path.resolve('src/healing-coordinator.ts'))});
+      createHealingCoordinator({ dir: ${JSON.stringify(dir)} })
+        .claim(${JSON.stringify(KEY)})
+        .then((claim) => console.log(claim.status));
+      setInterval(() => {}, 1000);`;
+    const holder = spawn(process.execPath, ['--import', 'tsx', '-e', script], {
+      stdio: ['ignore', 'pipe', 'ignore'],
+    });
+    try {
+      await new Promise<void>((resolve, reject) => {
+        holder.stdout.on('data', (data) => (String(data).includes('claimed') ? resolve() : reject()));
+        holder.on('exit', () => reject(new Error('holder exited before claiming')));
+      });
+      const start = Date.now();
+      const waiting = second.claim(KEY);
+      setTimeout(() => holder.kill('SIGKILL'), 50);
+
+      assert.deepEqual(await waiting, { status: 'claimed' });
+      assert.ok(Date.now() - start < 5000);
+    } finally {
+      holder.kill('SIGKILL');
+    }
+  });
+
+  it('claims a stale lock as soon as it is taken over, however long the wait', async () => {
+    const { dir, first, second } = workers({ staleLockMs: 1000, waitTimeoutMs: 0 });
+    await first.claim(KEY);
+    const old = new Date(Date.now() - 5000);
+    fs.utimesSync(path.join(dir, lockFile(dir)), old, old);
+
+    assert.deepEqual(await second.claim(KEY), { status: 'claimed' });
+  });
+
+  it('does not reuse results older than resultTtlMs', async () => {
+    const { dir, first, second } = workers({ resultTtlMs: 1000 });
+    await first.claim(KEY);
+    first.release(KEY, HEALED);
+    const resultFile = path.join(dir, fs.readdirSync(dir).find((f) => f.endsWith('.json'))!);
+    const result = JSON.parse(fs.readFileSync(resultFile, 'utf-8'));
+    fs.writeFileSync(
+      resultFile,
+      JSON.stringify({ ...result, healedAt: new Date(Date.now() - 5000).toISOString() }),
+    );
+
+    assert.deepEqual(await second.claim(KEY), { status: 'claimed' });
+  });
+
+  it('is unavailable when its directory cannot be used', async () => {
+    const file = path.join(path.dirname(makeDir()), 'not-a-dir');
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, '');
+    const coordinator = createHealingCoordinator({ dir: path.join(file, 'locks') });
+
+    const claim = await coordinator.claim(KEY);
+
+    assert.equal(claim.status, 'unavailable');
+    assert.doesNotThrow(() => coordinator.release(KEY, HEALED));
+  });
+});
@@ -0,0 +1,294 @@
+import { describe, it, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { spawn } from 'node:child_process';
+import {
+  scoreFingerprint,
+  findBestMatch,
+  healWithFingerprint,
+  fingerprintFromIntent,
+  textSimilarity,
+} from '../../src/heuristic-healer.ts';
+import { captureFingerprint, createFingerprintStore } from '../../src/element-fingerprint.ts';
+import type { ElementCandidate, ElementFingerprint } from '../../src/types.ts';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function makeFingerprint(overrides: Partial<ElementFingerprint> = {}): ElementFingerprint {
+  return {
+    tag: 'button',
+    id: 'submit',
+    classes: ['btn', 'btn-primary'],
+    testId: null,
+    role: 'button',
+    accessibleName: 'Sign in',
+    text: 'Sign in',
+    domPath: 'body > main > form > button',
+    nearbyLabels: ['Login'],
+    attributes: { type: 'submit' },
+    ...overrides,
+  };
+}
+
+function candidate(selector: string, overrides: Partial<ElementFingerprint> = {}): ElementCandidate {
+  return { selector, fingerprint: makeFingerprint(overrides) };
+}
+
+// ---------------------------------------------------------------------------
+// Scoring
+// ---------------------------------------------------------------------------
+
+describe('textSimilarity', () => {
+  it('is 1 for identical strings and 0 for disjoint ones', () => {
+    assert.equal(textSimilarity('Save', 'Save'), 1);
+    assert.equal(textSimilarity('Save', 'Cancel'), 0);
+  });
+
+  it('rewards shared words', () => {
+    const s = textSimilarity('Save', 'Save changes');
+    assert.ok(s > 0.5 && s < 1);
+  });
+});
+
+describe('scoreFingerprint', () => {
+  it('scores an identical element as 1', () => {
+    assert.equal(scoreFingerprint(makeFingerprint(), makeFingerprint()), 1);
+  });
+
+  it('still scores a renamed id highly when everything else matches', () => {
+    const score = scoreFingerprint(makeFingerprint(), makeFingerprint({ id: 'login-submit' }));
+    assert.ok(score > 0.8, `score was ${score}`);
+  });
+
+  it('scores an unrelated element low', () => {
+    const score = scoreFingerprint(
+      makeFingerprint(),
+      makeFingerprint({
+        tag: 'a',
+        id: null,
+        classes: ['nav-link'],
+        role: 'link',
+        accessibleName: 'Pricing',
+        text: 'Pricing',
+        domPath: 'body > header > nav > a',
+        nearbyLabels: [],
+        attributes: { href: '/pricing' },
+      }),
+    );
+    assert.ok(score < 0.3, `score was ${score}`);
+  });
+
+  it('ignores features that are absent from the expected fingerprint', () => {
+    const expected = makeFingerprint({ id: null, testId: null, classes: [] });
+    assert.equal(scoreFingerprint(expected, makeFingerprint({ id: 'x', classes: ['y'] })), 1);
+  });
+});
+
+describe('findBestMatch', () => {
+  it('returns the most similar candidate', () => {
+    const match = findBestMatch(makeFingerprint(), [
+      candidate('a.nav', { tag: 'a', role: 'link', text: 'Home', accessibleName: 'Home' }),
+      candidate('#login-submit', { id: 'login-submit' }),
+    ]);
+    assert.equal(match?.candidate.selector, '#login-submit');
+  });
+
+  it('returns undefined when nothing reaches the minimum score', () => {
+    const match = findBestMatch(
+      makeFingerprint(),
+      [candidate('a.nav', { tag: 'a', id: null, role: 'link', text: 'Home', accessibleName: 'Home', classes: [], attributes: {} })],
+    );
+    assert.equal(match, undefined);
+  });
+
+  it('returns undefined when two candidates are equally good', () => {
+    const match = findBestMatch(makeFingerprint(), [
+      candidate('#a', { id: 'a' }),
+      candidate('#b', { id: 'b' }),
+    ]);
+    assert.equal(match, undefined);
+  });
+});
+
+describe('healWithFingerprint', () => {
+  it('collects candidates from the page and returns the best selector', async () => {
+    const evaluate = mock.fn(async () => [
+      candidate('#login-submit', { id: 'login-submit' }),
+      candidate('a.nav', { tag: 'a', id: null, role: 'link', text: 'Home', accessibleName: 'Home' }),
+    ]);
+    const page = { locator: mock.fn(() => ({ evaluate })) };
+
+    const result = await healWithFingerprint(page as any, makeFingerprint());
+    assert.equal(result?.selector, '#login-submit');
+    assert.ok(result!.score > 0.8);
+    assert.equal(page.locator.mock.calls[0].arguments[0], ':root');
+
+    const arg = evaluate.mock.calls[0].arguments[1] as Record<string, unknown>;
+    assert.equal(arg.scan, true);
+    assert.equal(arg.tag, 'button');
+    assert.equal(arg.name, undefined);
+  });
+
+  it('also scans by accessible name when matchName is set', async () => {
+    const evaluate = mock.fn(async () => []);
+    const page = { locator: mock.fn(() => ({ evaluate })) };
+
+    await healWithFingerprint(page as any, makeFingerprint(), 0.6, true);
+    const arg = evaluate.mock.calls[0].arguments[1] as Record<string, unknown>;
+    assert.equal(arg.name, 'Sign in');
+  });
+});
+
+describe('fingerprintFromIntent', () => {
+  it('describes getByRole as a role and accessible name', () => {
+    const fp = fingerprintFromIntent({ method: 'getByRole', role: 'button', text: 'Save' });
+    assert.equal(fp.role, 'button');
+    assert.equal(fp.accessibleName, 'Save');
+    assert.equal(fp.tag, '');
+  });
+
+  it('maps label, placeholder and test id intents to their features', () => {
+    assert.deepEqual(fingerprintFromIntent({ method: 'getByLabel', text: 'Email' }).nearbyLabels, ['Email']);
+    assert.deepEqual(
+      fingerprintFromIntent({ method: 'getByPlaceholder', text: 'Search' }).attributes,
+      { placeholder: 'Search' },
+    );
+    assert.equal(fingerprintFromIntent({ method: 'getByTestId', text: 'save' }).testId, 'save');
+  });
+
+  it('matches an element whose accessible name has drifted', () => {
+    const expected = fingerprintFromIntent({ method: 'getByRole', role: 'button', text: 'Save' });
+    const match = findBestMatch(expected, [
+      candidate('#save', { accessibleName: 'Save changes', text: 'Save changes' }),
+      candidate('#cancel', { accessibleName: 'Cancel', text: 'Cancel' }),
+      candidate('a.save', { role: 'link', accessibleName: 'Save', text: 'Save' }),
+    ]);
+    assert.equal(match?.candidate.selector, '#save');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// captureFingerprint
+// ---------------------------------------------------------------------------
+
+describe('captureFingerprint', () => {
+  /** A locator whose element is a minimal stand-in for a DOM element. */
+  function locatorFor(tag: string, attrs: Record<string, string>) {
+    const doc: Record<string, unknown> = { documentElement: {}, getElementById: () => null };
+    const el = {
+      tagName: tag.toUpperCase(),
+      id: '',
+      classList: [],
+      textContent: '',
+      labels: null,
+      parentElement: null,
+      previousElementSibling: null,
+      children: [],
+      ownerDocument: doc,
+      getAttribute: (name: string) => attrs[name] ?? null,
+      hasAttribute: (name: string) => name in attrs,
+      closest: () => null,
+    };
+    doc.querySelectorAll = () => [el];
+    const locator = {
+      first: () => locator,
+      evaluate: async (fn: (el: unknown, arg: unknown) => unknown, arg: unknown) => fn(el, arg),
+    };
+    return locator as any;
+  }
+
+  it('does not record the value of form fields', async () => {
+    const fingerprint = await captureFingerprint(
+      locatorFor('input', { type: 'password', name: 'password', value: 'hunter2' }),
+    );
+
+    assert.deepEqual(fingerprint?.attributes, { name: 'password', type: 'password' });
+  });
+
+  it('records the value of buttons, which is their label', async () => {
+    const fingerprint = await captureFingerprint(
+      locatorFor('input', { type: 'submit', value: 'Sign in' }),
+    );
+
+    assert.deepEqual(fingerprint?.attributes, { type: 'submit', value: 'Sign in' });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// createFingerprintStore
+// ---------------------------------------------------------------------------
+
+describe('createFingerprintStore', () => {
+  const tempDirs: string[] = [];
+  afterEach(() => {
+    for (const d of tempDirs) {
+      fs.rmSync(d, { recursive: true, force: true });
+    }
+    tempDirs.length = 0;
+  });
+
+  function makeStorePath(): string {
+    const d = fs.mkdtempSync(path.join(os.tmpdir(), 'resilient-fp-'));
+    tempDirs.push(d);
+    return path.join(d, 'fingerprints.json');
+  }
+
+  const KEY = { selector: '#submit', urlPattern: 'https://example.com/login' };
+
+  it('saves and reads back fingerprints', () => {
+    const filePath = makeStorePath();
+    createFingerprintStore(filePath).save(KEY, makeFingerprint());
+
+    assert.deepEqual(createFingerprintStore(filePath).get(KEY), makeFingerprint());
+    assert.equal(
+      createFingerprintStore(filePath).get({ ...KEY, urlPattern: 'https://example.com/other' }),
+      undefined,
+    );
+  });
+
+  it('does not rewrite the file for an unchanged fingerprint', () => {
+    const filePath = makeStorePath();
+    const store = createFingerprintStore(filePath);
+    store.save(KEY, makeFingerprint());
+    const before = fs.statSync(filePath).mtimeMs;
+    const content = fs.readFileSync(filePath, 'utf-8');
+
+    store.save(KEY, makeFingerprint());
+    assert.equal(fs.readFileSync(filePath, 'utf-8'), content);
+    assert.equal(fs.statSync(filePath).mtimeMs, before);
+  });
+
+  it('replaces a changed fingerprint', () => {
+    const store = createFingerprintStore(makeStorePath());
+    store.save(KEY, makeFingerprint());
+    store.save(KEY, makeFingerprint({ text: 'Log in' }));
+    assert.equal(store.get(KEY)?.text, 'Log in');
+  });
+
+  it('keeps the fingerprints of workers saving at the same time', async () => {
+    const filePath = makeStorePath();
+    const storeModule = path.resolve('src/element-fingerprint.ts');
+    const worker = (id: number) =>
+      new Promise<void>((resolve, reject) => {
+        const script = `
+          const { createFingerprintStore } = require(${JSON.stringify(storeModule)});
+          const store = createFingerprintStore(${JSON.stringify(filePath)});
+          const fingerprint = ${JSON.stringify(makeFingerprint())};
+          for (let i = 0; i < 20; i++) {
+            store.save({ selector: '#w${id}-' + i, urlPattern: 'u' }, fingerprint);
+          }`;
+        const child = spawn(process.execPath, ['--import', 'tsx', '-e', script], { stdio: 'ignore' });
+        child.on('error', reject);
+        child.on('exit', (code) => (code === 0 ? resolve() : reject(new Error(`exit ${code}`))));
+      });
+
+    await Promise.all([worker(1), worker(2), worker(3)]);
+
+    const saved = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    assert.equal(saved.entries.length, 60);
+  });
+});
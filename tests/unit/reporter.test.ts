@@ -3,8 +3,20 @@ import assert from 'node:assert/strict';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import * as os from 'node:os';
-import { buildReport, outputReport } from '../../src/reporter.ts';
-import type { HealingEvent, A11yViolation, TestReport } from '../../src/types.ts';
+import {
+  buildReport,
+  buildHealingAnnotations,
+  outputReport,
+} from '../../src/reporter.ts';
+import HealingReporter from '../../src/healing-reporter.ts';
+import type {
+  AICallRecord,
+  HealingEvent,
+  A11yViolation,
+  SelectorRejection,
+  SelectorFailure,
+  TestReport,
+} from '../../src/types.ts';
 
 // ---------------------------------------------------------------------------
 // Helpers
@@ -33,6 +45,46 @@ function makeViolation(overrides: Partial<A11yViolation> = {}): A11yViolation {
   };
 }
 
+function makeRejection(overrides: Partial<SelectorRejection> = {}): SelectorRejection {
+  return {
+    originalSelector: '#old',
+    suggestedSelector: 'body *:first-child',
+    action: 'click',
+    reason: 'too-generic',
+    detail: 'selector does not identify a specific element',
+    aiProvider: 'custom',
+    timestamp: '2025-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function makeFailure(overrides: Partial<SelectorFailure> = {}): SelectorFailure {
+  return {
+    selector: '#submit',
+    action: 'click',
+    cause: 'not-enabled',
+    healingAttempted: false,
+    message: 'Selector "#submit" failed to click: the element is not enabled or not editable',
+    timestamp: '2025-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+function makeAICall(overrides: Partial<AICallRecord> = {}): AICallRecord {
+  return {
+    provider: 'anthropic',
+    model: 'claude-sonnet-4-20250514',
+    originalSelector: '#old',
+    action: 'click',
+    inputTokens: 1000,
+    outputTokens: 100,
+    latencyMs: 800,
+    costUsd: 0.0045,
+    timestamp: '2025-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
 // Clean up temp dirs after tests
 const tempDirs: string[] = [];
 afterEach(() => {
@@ -73,10 +125,62 @@ describe('buildReport', () => {
     assert.equal(report.a11yViolationCount, 0);
   });
 
+  it('includes rejected suggestions, defaulting to none', () => {
+    assert.equal(buildReport('none', true, [], [], 0).rejectionCount, 0);
+
+    const report = buildReport('rejects', true, [], [], 0, [makeRejection()]);
+    assert.equal(report.rejectionCount, 1);
+    assert.equal(report.rejections[0].reason, 'too-generic');
+  });
+
+  it('includes failed actions, defaulting to none', () => {
+    assert.equal(buildReport('none', true, [], [], 0).failureCount, 0);
+
+    const report = buildReport('fails', false, [], [], 0, [], [makeFailure()]);
+    assert.equal(report.failureCount, 1);
+    assert.equal(report.failures[0].cause, 'not-enabled');
+  });
+
   it('records failed status', () => {
     const report = buildReport('fail test', false, [], [], 500);
     assert.equal(report.passed, false);
   });
+
+  it('totals AI usage, costing only priced calls', () => {
+    assert.equal(buildReport('none', true, [], [], 0).aiUsage.calls, 0);
+
+    const calls = [
+      makeAICall(),
+      makeAICall({ inputTokens: 500, outputTokens: 50, latencyMs: 200, costUsd: 0.0015 }),
+      makeAICall({ provider: 'openai', model: 'gpt-next', costUsd: undefined }),
+    ];
+    const report = buildReport('usage', true, [], [], 0, [], [], calls);
+
+    assert.equal(report.aiUsage.calls, 3);
+    assert.equal(report.aiUsage.inputTokens, 2500);
+    assert.equal(report.aiUsage.outputTokens, 250);
+    assert.equal(report.aiUsage.latencyMs, 1800);
+    assert.ok(Math.abs(report.aiUsage.costUsd! - 0.006) < 1e-9);
+    assert.equal(report.aiUsage.unpricedCalls, 1);
+  });
+
+  it('leaves replayed calls out of the tokens and cost', () => {
+    const calls = [
+      makeAICall({ inputTokens: 500, outputTokens: 50, costUsd: 0.0015 }),
+      makeAICall({ provider: 'openai', model: 'gpt-next', costUsd: 0, replayed: true }),
+    ];
+    const report = buildReport('replay', true, [], [], 0, [], [], calls);
+
+    assert.equal(report.aiUsage.calls, 2);
+    assert.equal(report.aiUsage.inputTokens, 500);
+    assert.equal(report.aiUsage.outputTokens, 50);
+    assert.equal(report.aiUsage.costUsd, 0.0015);
+    assert.equal(report.aiUsage.unpricedCalls, 0);
+    assert.equal(report.aiUsage.replayedCalls, 1);
+    const { consoleOutput } = outputReport(report, 'console', '/dev/null');
+    assert.ok(consoleOutput.includes('AI Usage       : 2 call(s), 500 in / 50 out tokens'));
+    assert.ok(consoleOutput.includes('$0.0015 (1 replayed)'));
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -120,6 +224,22 @@ describe('outputReport — console mode', () => {
     assert.ok(!consoleOutput.includes('1 Healing Events'));
   });
 
+  it('shows confidence, rank and rationale when present', () => {
+    const events = [
+      makeHealingEvent({
+        confidence: 0.85,
+        candidateRank: 2,
+        candidateCount: 3,
+        rationale: 'Same label, new id',
+      }),
+    ];
+    const report = buildReport('ranked', true, events, [], 100);
+    const { consoleOutput } = outputReport(report, 'console', '/dev/null');
+
+    assert.ok(consoleOutput.includes('Confidence: 0.85 (candidate 2 of 3)'));
+    assert.ok(consoleOutput.includes('Rationale: Same label, new id'));
+  });
+
   it('shows violation details', () => {
     const violations = [
       makeViolation({ ruleId: 'image-alt', severity: 'critical' }),
@@ -134,6 +254,81 @@ describe('outputReport — console mode', () => {
     assert.ok(!consoleOutput.includes('1 A11y Violations'));
   });
 
+  it('shows rejected suggestions with their reason', () => {
+    const report = buildReport('reject test', false, [], [], 100, [makeRejection()]);
+    const { consoleOutput } = outputReport(report, 'console', '/dev/null');
+
+    assert.ok(consoleOutput.includes('Rejected Fixes : 1'));
+    assert.ok(consoleOutput.includes('too-generic'));
+    assert.ok(consoleOutput.includes('body *:first-child'));
+  });
+
+  it('shows the locator chain of chained heals', () => {
+    const event = makeHealingEvent({
+      originalSelector: 'button.submit',
+      locatorChain: "locator('#login').locator('button.submit')",
+    });
+    const report = buildReport('chain test', true, [event], [], 100);
+    const { consoleOutput } = outputReport(report, 'console', '/dev/null');
+
+    assert.ok(consoleOutput.includes("Chain    : locator('#login').locator('button.submit')"));
+  });
+
+  it('shows how many AI attempts a heal took', () => {
+    const retried = makeHealingEvent({ aiProvider: 'openai', aiAttempts: 3 });
+    const direct = makeHealingEvent({ aiProvider: 'anthropic', aiAttempts: 1 });
+    const report = buildReport('attempts test', true, [retried, direct], [], 100);
+    const { consoleOutput } = outputReport(report, 'console', '/dev/null');
+
+    assert.ok(consoleOutput.includes('Provider : openai (3 attempts)'));
+    assert.ok(consoleOutput.includes('Provider : anthropic\n'));
+  });
+
+  it('shows the frame path of heals inside iframes', () => {
+    const event = makeHealingEvent({ framePath: ['iframe#checkout', 'iframe.card'] });
+    const report = buildReport('frame test', true, [event], [], 100);
+    const { consoleOutput } = outputReport(report, 'console', '/dev/null');
+
+    assert.ok(consoleOutput.includes('Frame    : iframe#checkout >> iframe.card'));
+  });
+
+  it('attributes entries to their page in multi-page tests', () => {
+    const event = makeHealingEvent({ pageLabel: 'page 2' });
+    const report = buildReport('popup test', true, [event], [], 100);
+    const { consoleOutput } = outputReport(report, 'console', '/dev/null');
+
+    assert.ok(consoleOutput.includes('Page     : page 2'));
+  });
+
+  it('shows failed actions with their classified cause', () => {
+    const report = buildReport('failure test', false, [], [], 100, [], [makeFailure()]);
+    const { consoleOutput } = outputReport(report, 'console', '/dev/null');
+
+    assert.ok(consoleOutput.includes('Failed Actions : 1'));
+    assert.ok(consoleOutput.includes('(click) not-enabled'));
+    assert.ok(consoleOutput.includes('Healing  : not attempted'));
+  });
+
+  it('breaks the violation count down by the severities found', () => {
+    const violations = [
+      makeViolation({ severity: 'serious' }),
+      makeViolation({ severity: 'moderate' }),
+      makeViolation({ severity: 'critical' }),
+      makeViolation({ severity: 'moderate' }),
+    ];
+    const report = buildReport('severities', true, [], violations, 100);
+    const { consoleOutput } = outputReport(report, 'console', '/dev/null');
+
+    assert.ok(consoleOutput.includes('A11y Violations: 4 (1 critical, 1 serious, 2 moderate)\n'));
+  });
+
+  it('shows a zero violation count without a breakdown', () => {
+    const report = buildReport('clean', true, [], [], 100);
+    const { consoleOutput } = outputReport(report, 'console', '/dev/null');
+
+    assert.ok(consoleOutput.includes('A11y Violations: 0\n'));
+  });
+
   it('pluralizes correctly for multiple events', () => {
     const events = [makeHealingEvent(), makeHealingEvent(), makeHealingEvent()];
     const violations = [makeViolation(), makeViolation()];
@@ -144,6 +339,79 @@ describe('outputReport — console mode', () => {
     assert.ok(consoleOutput.includes('2 A11y Violations'));
   });
 
+  it('shows AI usage totals and per-heal usage', () => {
+    const event = makeHealingEvent({
+      aiUsage: { inputTokens: 1000, outputTokens: 100, latencyMs: 800, costUsd: 0.0045 },
+    });
+    const report = buildReport('usage', true, [event], [], 100, [], [], [
+      makeAICall(),
+      makeAICall({ costUsd: undefined }),
+    ]);
+    const { consoleOutput } = outputReport(report, 'console', '/dev/null');
+
+    assert.ok(consoleOutput.includes(
+      'AI Usage       : 2 call(s), 2000 in / 200 out tokens, 1600 ms, $0.0045 (1 unpriced)',
+    ));
+    assert.ok(consoleOutput.includes('AI Usage : 1000 in / 100 out tokens, 800 ms, $0.0045'));
+  });
+
+  it('compares heals and input tokens per snapshot mode', () => {
+    const event = makeHealingEvent({ snapshotMode: 'aria', aiProvider: 'anthropic' });
+    const report = buildReport('modes', true, [event], [], 100, [], [], [
+      makeAICall({ snapshotMode: 'html', inputTokens: 3000 }),
+      makeAICall({ snapshotMode: 'html', inputTokens: 2000, healed: true }),
+      makeAICall({ snapshotMode: 'aria', inputTokens: 600, healed: true }),
+    ]);
+
+    assert.deepEqual(report.aiUsage.bySnapshotMode, {
+      html: { calls: 2, healed: 1, inputTokens: 5000 },
+      aria: { calls: 1, healed: 1, inputTokens: 600 },
+    });
+    const { consoleOutput } = outputReport(report, 'console', '/dev/null');
+    assert.ok(consoleOutput.includes(
+      'AI Snapshots   : html 1/2 healed, 2500 in tokens/call; aria 1/1 healed, 600 in tokens/call',
+    ));
+    assert.ok(consoleOutput.includes('Provider : anthropic, aria snapshot'));
+  });
+
+  it('omits the snapshot comparison when only HTML was sent', () => {
+    const report = buildReport('html', true, [], [], 100, [], [], [makeAICall()]);
+    assert.deepEqual(report.aiUsage.bySnapshotMode, {
+      html: { calls: 1, healed: 0, inputTokens: 1000 },
+    });
+    const { consoleOutput } = outputReport(report, 'console', '/dev/null');
+    assert.ok(!consoleOutput.includes('AI Snapshots'));
+  });
+
+  it('notes heals where the AI was shown screenshots', () => {
+    const event = makeHealingEvent({ aiProvider: 'openai', vision: true });
+    const report = buildReport('vision', true, [event], [], 100);
+    const { consoleOutput } = outputReport(report, 'console', '/dev/null');
+    assert.ok(consoleOutput.includes('Provider : openai, with screenshots'));
+  });
+
+  it('lists what was redacted from the snapshots sent', () => {
+    const event = makeHealingEvent({
+      redaction: { values: 2, inputs: 0, regions: 1, patterns: { email: 3 } },
+    });
+    const quiet = makeHealingEvent({
+      redaction: { values: 0, inputs: 0, regions: 0, patterns: {} },
+    });
+    const { consoleOutput } = outputReport(
+      buildReport('redaction', true, [event, quiet], [], 100),
+      'console',
+      '/dev/null',
+    );
+    assert.ok(consoleOutput.includes('Redacted : 2 value(s), 1 region(s), 3 email'));
+    assert.equal(consoleOutput.match(/Redacted :/g)?.length, 1);
+  });
+
+  it('omits AI usage when no AI calls were made', () => {
+    const report = buildReport('no ai', true, [], [], 100);
+    const { consoleOutput } = outputReport(report, 'console', '/dev/null');
+    assert.ok(!consoleOutput.includes('AI Usage'));
+  });
+
   it('shows duration in summary', () => {
     const report = buildReport('time test', true, [], [], 9876);
     const { consoleOutput } = outputReport(report, 'console', '/dev/null');
@@ -212,3 +480,60 @@ describe('outputReport — both mode', () => {
     assert.ok(fs.existsSync(jsonPath));
   });
 });
+
+// ---------------------------------------------------------------------------
+// Healing annotations and the healing reporter
+// ---------------------------------------------------------------------------
+
+describe('buildHealingAnnotations', () => {
+  it('annotates warn and suggest events only', () => {
+    const annotations = buildHealingAnnotations([
+      makeHealingEvent({ mode: 'auto' }),
+      makeHealingEvent({ mode: 'warn', originalSelector: '#a', healedSelector: '#b' }),
+      makeHealingEvent({ mode: 'suggest', applied: false }),
+      makeHealingEvent(),
+    ]);
+
+    assert.deepEqual(annotations, [
+      { type: 'healing-warning', description: 'click: "#a" -> "#b"' },
+      { type: 'healing-suggestion', description: 'click: "#old" -> "#new"' },
+    ]);
+  });
+});
+
+describe('HealingReporter', () => {
+  function endTest(reporter: HealingReporter, annotations: Array<{ type: string; description?: string }>) {
+    reporter.onTestEnd(
+      { title: 't', annotations: [] } as any,
+      { annotations } as any,
+    );
+  }
+
+  it('fails a passing run when warnings were recorded', async (t) => {
+    t.mock.method(console, 'log', () => {});
+    const reporter = new HealingReporter();
+    endTest(reporter, [{ type: 'healing-warning', description: 'click: "#a" -> "#b"' }]);
+
+    assert.deepEqual(await reporter.onEnd({ status: 'passed' } as any), { status: 'failed' });
+  });
+
+  it('leaves the status alone for suggestions only, or when disabled', async (t) => {
+    t.mock.method(console, 'log', () => {});
+    const suggestOnly = new HealingReporter();
+    endTest(suggestOnly, [{ type: 'healing-suggestion', description: 'x' }]);
+    assert.equal(await suggestOnly.onEnd({ status: 'passed' } as any), undefined);
+
+    const disabled = new HealingReporter({ failOnWarning: false });
+    endTest(disabled, [{ type: 'healing-warning', description: 'x' }]);
+    assert.equal(await disabled.onEnd({ status: 'passed' } as any), undefined);
+  });
+
+  it('prints nothing when no healing needs attention', async (t) => {
+    const log = t.mock.method(console, 'log', () => {});
+    const reporter = new HealingReporter();
+    endTest(reporter, [{ type: 'skip' }]);
+
+    assert.equal(await reporter.onEnd({ status: 'passed' } as any), undefined);
+    assert.equal(log.mock.callCount(), 0);
+  });
+});
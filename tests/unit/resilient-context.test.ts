@@ -0,0 +1,174 @@
+import { describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { EventEmitter } from 'node:events';
+import { ResilientContext } from '../../src/resilient-context.ts';
+import type { HealingEvent, SelectorFailure } from '../../src/types.ts';
+
+// ---------------------------------------------------------------------------
+// Mock helpers
+// ---------------------------------------------------------------------------
+
+function createMockPage(url = 'https://example.com') {
+  return {
+    url: mock.fn(() => url),
+    waitForLoadState: mock.fn(async () => {}),
+  };
+}
+
+type MockPage = ReturnType<typeof createMockPage>;
+
+/** A BrowserContext stand-in that emits `page` like the real one. */
+function createMockContext(initial: MockPage[] = []) {
+  const emitter = new EventEmitter();
+  const pages = [...initial];
+  const open = (page: MockPage) => {
+    pages.push(page);
+    emitter.emit('page', page);
+    return page;
+  };
+  return {
+    open,
+    pages: mock.fn(() => [...pages]),
+    on: mock.fn((event: string, listener: (page: MockPage) => void) => {
+      emitter.on(event, listener);
+    }),
+    newPage: mock.fn(async () => open(createMockPage())),
+    waitForEvent: mock.fn(
+      (event: string) => new Promise((resolve) => emitter.once(event, resolve)),
+    ),
+  };
+}
+
+function makeEvent(overrides: Partial<HealingEvent> = {}): HealingEvent {
+  return {
+    originalSelector: '#old',
+    healedSelector: '#new',
+    action: 'click',
+    timestamp: '2025-01-15T10:30:00.000Z',
+    aiProvider: 'custom',
+    ...overrides,
+  };
+}
+
+const config = { a11yEnabled: false, ai: false as const, healingCache: false as const };
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('ResilientContext — pages', () => {
+  it('wraps pages that already exist', () => {
+    const page = createMockPage();
+    const rc = new ResilientContext(createMockContext([page]) as any, config);
+
+    assert.equal(rc.pages.length, 1);
+    assert.equal(rc.pages[0].page, page as any);
+  });
+
+  it('wraps pages opened later, such as popups', () => {
+    const context = createMockContext([createMockPage()]);
+    const rc = new ResilientContext(context as any, config);
+
+    const popup = context.open(createMockPage('https://auth.example.com'));
+
+    assert.equal(rc.pages.length, 2);
+    assert.equal(rc.pageFor(popup as any), rc.pages[1]);
+  });
+
+  it('returns the same wrapper for the same page', () => {
+    const page = createMockPage();
+    const rc = new ResilientContext(createMockContext([page]) as any, config);
+
+    assert.equal(rc.pageFor(page as any), rc.pageFor(page as any));
+  });
+
+  it('opens new pages through the context', async () => {
+    const context = createMockContext();
+    const rc = new ResilientContext(context as any, config);
+
+    const page = await rc.newPage();
+
+    assert.equal(context.newPage.mock.callCount(), 1);
+    assert.deepEqual(rc.pages, [page]);
+  });
+});
+
+describe('ResilientContext — waitForPopup', () => {
+  it('returns the page opened by the trigger once it has loaded', async () => {
+    const context = createMockContext([createMockPage()]);
+    const rc = new ResilientContext(context as any, config);
+    const popup = createMockPage('https://auth.example.com');
+
+    const result = await rc.waitForPopup(async () => {
+      context.open(popup);
+    });
+
+    assert.equal(result.page, popup as any);
+    assert.deepEqual(popup.waitForLoadState.mock.calls[0].arguments, ['domcontentloaded']);
+  });
+
+  it('passes the timeout to the context', async () => {
+    const context = createMockContext();
+    const rc = new ResilientContext(context as any, config);
+
+    await rc.waitForPopup(async () => {
+      context.open(createMockPage());
+    }, { timeout: 5000 });
+
+    assert.deepEqual(context.waitForEvent.mock.calls[0].arguments, ['page', { timeout: 5000 }]);
+  });
+});
+
+describe('ResilientContext — aggregation', () => {
+  it('leaves entries unlabelled when there is a single page', () => {
+    const rc = new ResilientContext(createMockContext([createMockPage()]) as any, config);
+    rc.pages[0].healingEvents.push(makeEvent());
+
+    assert.equal(rc.healingEvents.length, 1);
+    assert.equal(rc.healingEvents[0].pageLabel, undefined);
+  });
+
+  it('merges healing events from every page in time order, labelled by page', () => {
+    const context = createMockContext([createMockPage()]);
+    const rc = new ResilientContext(context as any, config);
+    context.open(createMockPage('https://auth.example.com'));
+
+    rc.pages[0].healingEvents.push(makeEvent({ timestamp: '2025-01-15T10:30:02.000Z' }));
+    rc.pages[1].healingEvents.push(makeEvent({ timestamp: '2025-01-15T10:30:01.000Z' }));
+
+    assert.deepEqual(
+      rc.healingEvents.map((e) => e.pageLabel),
+      ['page 2', 'page 1'],
+    );
+    // The pages' own records are not modified.
+    assert.equal(rc.pages[0].healingEvents[0].pageLabel, undefined);
+  });
+
+  it('merges violations, rejections and failures', () => {
+    const context = createMockContext([createMockPage()]);
+    const rc = new ResilientContext(context as any, config);
+    context.open(createMockPage());
+
+    rc.pages[1].a11yViolations.push({
+      ruleId: 'image-alt',
+      severity: 'critical',
+      description: 'Images must have alternate text',
+      affectedNodes: ['img'],
+      url: 'https://auth.example.com',
+      triggeringAction: 'click',
+    });
+    const failure: SelectorFailure = {
+      selector: '#pay',
+      action: 'click',
+      cause: 'not-enabled',
+      healingAttempted: false,
+      message: 'Selector "#pay" failed to click',
+      timestamp: '2025-01-15T10:30:00.000Z',
+    };
+    rc.pages[0].selectorFailures.push(failure);
+
+    assert.equal(rc.a11yViolations[0].pageLabel, 'page 2');
+    assert.equal(rc.selectorFailures[0].pageLabel, 'page 1');
+    assert.deepEqual(rc.selectorRejections, []);
+  });
+});
@@ -1,5 +1,9 @@
-import { describe, it, mock, beforeEach } from 'node:test';
+import { describe, it, mock, beforeEach, afterEach } from 'node:test';
 import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import type { AIProviderConfig, HealingContext } from '../../src/types.ts';
 
 /**
  * We test ResilientPage by mocking the Playwright Page and Locator objects.
@@ -21,6 +25,36 @@ interface MockLocator {
   inputValue: ReturnType<typeof mock.fn>;
   isVisible: ReturnType<typeof mock.fn>;
   count: ReturnType<typeof mock.fn>;
+  evaluate: ReturnType<typeof mock.fn>;
+  dblclick: ReturnType<typeof mock.fn>;
+  tap: ReturnType<typeof mock.fn>;
+  check: ReturnType<typeof mock.fn>;
+  uncheck: ReturnType<typeof mock.fn>;
+  setChecked: ReturnType<typeof mock.fn>;
+  selectOption: ReturnType<typeof mock.fn>;
+  clear: ReturnType<typeof mock.fn>;
+  press: ReturnType<typeof mock.fn>;
+  pressSequentially: ReturnType<typeof mock.fn>;
+  setInputFiles: ReturnType<typeof mock.fn>;
+  hover: ReturnType<typeof mock.fn>;
+  focus: ReturnType<typeof mock.fn>;
+  blur: ReturnType<typeof mock.fn>;
+  dispatchEvent: ReturnType<typeof mock.fn>;
+  dragTo: ReturnType<typeof mock.fn>;
+  scrollIntoViewIfNeeded: ReturnType<typeof mock.fn>;
+  selectText: ReturnType<typeof mock.fn>;
+  getAttribute: ReturnType<typeof mock.fn>;
+  innerHTML: ReturnType<typeof mock.fn>;
+  isChecked: ReturnType<typeof mock.fn>;
+  isEnabled: ReturnType<typeof mock.fn>;
+  isDisabled: ReturnType<typeof mock.fn>;
+  isEditable: ReturnType<typeof mock.fn>;
+  boundingBox: ReturnType<typeof mock.fn>;
+  screenshot: ReturnType<typeof mock.fn>;
+  locator: ReturnType<typeof mock.fn>;
+  filter: ReturnType<typeof mock.fn>;
+  nth: ReturnType<typeof mock.fn>;
+  last: ReturnType<typeof mock.fn>;
 }
 
 function createMockLocator(overrides: Partial<Record<keyof MockLocator, unknown>> = {}): MockLocator {
@@ -34,6 +68,36 @@ function createMockLocator(overrides: Partial<Record<keyof MockLocator, unknown>
     inputValue: mock.fn(async () => 'value'),
     isVisible: mock.fn(async () => true),
     count: mock.fn(async () => 1),
+    evaluate: mock.fn(async () => []),
+    dblclick: mock.fn(async () => {}),
+    tap: mock.fn(async () => {}),
+    check: mock.fn(async () => {}),
+    uncheck: mock.fn(async () => {}),
+    setChecked: mock.fn(async () => {}),
+    selectOption: mock.fn(async () => ['selected']),
+    clear: mock.fn(async () => {}),
+    press: mock.fn(async () => {}),
+    pressSequentially: mock.fn(async () => {}),
+    setInputFiles: mock.fn(async () => {}),
+    hover: mock.fn(async () => {}),
+    focus: mock.fn(async () => {}),
+    blur: mock.fn(async () => {}),
+    dispatchEvent: mock.fn(async () => {}),
+    dragTo: mock.fn(async () => {}),
+    scrollIntoViewIfNeeded: mock.fn(async () => {}),
+    selectText: mock.fn(async () => {}),
+    getAttribute: mock.fn(async () => 'attr'),
+    innerHTML: mock.fn(async () => '<b>html</b>'),
+    isChecked: mock.fn(async () => true),
+    isEnabled: mock.fn(async () => true),
+    isDisabled: mock.fn(async () => false),
+    isEditable: mock.fn(async () => true),
+    boundingBox: mock.fn(async () => ({ x: 1, y: 2, width: 3, height: 4 })),
+    screenshot: mock.fn(async () => Buffer.from('png')),
+    locator: mock.fn(() => loc),
+    filter: mock.fn(() => loc),
+    nth: mock.fn(() => loc),
+    last: mock.fn(() => loc),
   };
   for (const [k, v] of Object.entries(overrides)) {
     (loc as Record<string, unknown>)[k] = v;
@@ -202,6 +266,157 @@ describe('ResilientPage — isVisible', () => {
   });
 });
 
+describe('ResilientPage — extended actions', () => {
+  const cases: Array<{
+    method: string;
+    args: unknown[];
+    locatorMethod: keyof MockLocator;
+    locatorArgs: unknown[];
+    result?: unknown;
+  }> = [
+    { method: 'dblclick', args: [], locatorMethod: 'dblclick', locatorArgs: [undefined] },
+    { method: 'tap', args: [], locatorMethod: 'tap', locatorArgs: [undefined] },
+    { method: 'check', args: [], locatorMethod: 'check', locatorArgs: [undefined] },
+    { method: 'uncheck', args: [], locatorMethod: 'uncheck', locatorArgs: [undefined] },
+    { method: 'setChecked', args: [true], locatorMethod: 'setChecked', locatorArgs: [true, undefined] },
+    {
+      method: 'selectOption',
+      args: ['blue'],
+      locatorMethod: 'selectOption',
+      locatorArgs: ['blue', undefined],
+      result: ['selected'],
+    },
+    { method: 'clear', args: [], locatorMethod: 'clear', locatorArgs: [undefined] },
+    { method: 'press', args: ['Enter'], locatorMethod: 'press', locatorArgs: ['Enter', undefined] },
+    {
+      method: 'pressSequentially',
+      args: ['abc', { delay: 10 }],
+      locatorMethod: 'pressSequentially',
+      locatorArgs: ['abc', { delay: 10 }],
+    },
+    { method: 'type', args: ['abc'], locatorMethod: 'pressSequentially', locatorArgs: ['abc', undefined] },
+    {
+      method: 'setInputFiles',
+      args: ['file.txt'],
+      locatorMethod: 'setInputFiles',
+      locatorArgs: ['file.txt', undefined],
+    },
+    { method: 'hover', args: [], locatorMethod: 'hover', locatorArgs: [undefined] },
+    { method: 'focus', args: [], locatorMethod: 'focus', locatorArgs: [undefined] },
+    { method: 'blur', args: [], locatorMethod: 'blur', locatorArgs: [undefined] },
+    {
+      method: 'dispatchEvent',
+      args: ['click'],
+      locatorMethod: 'dispatchEvent',
+      locatorArgs: ['click', undefined, undefined],
+    },
+    {
+      method: 'scrollIntoViewIfNeeded',
+      args: [],
+      locatorMethod: 'scrollIntoViewIfNeeded',
+      locatorArgs: [undefined],
+    },
+    { method: 'selectText', args: [], locatorMethod: 'selectText', locatorArgs: [undefined] },
+    {
+      method: 'getAttribute',
+      args: ['href'],
+      locatorMethod: 'getAttribute',
+      locatorArgs: ['href', undefined],
+      result: 'attr',
+    },
+    { method: 'innerHTML', args: [], locatorMethod: 'innerHTML', locatorArgs: [undefined], result: '<b>html</b>' },
+    { method: 'isChecked', args: [], locatorMethod: 'isChecked', locatorArgs: [undefined], result: true },
+    { method: 'isEnabled', args: [], locatorMethod: 'isEnabled', locatorArgs: [undefined], result: true },
+    { method: 'isDisabled', args: [], locatorMethod: 'isDisabled', locatorArgs: [undefined], result: false },
+    { method: 'isEditable', args: [], locatorMethod: 'isEditable', locatorArgs: [undefined], result: true },
+    {
+      method: 'boundingBox',
+      args: [],
+      locatorMethod: 'boundingBox',
+      locatorArgs: [undefined],
+      result: { x: 1, y: 2, width: 3, height: 4 },
+    },
+    {
+      method: 'screenshot',
+      args: [],
+      locatorMethod: 'screenshot',
+      locatorArgs: [undefined],
+      result: Buffer.from('png'),
+    },
+  ];
+
+  for (const c of cases) {
+    it(`${c.method} delegates to locator.${c.locatorMethod}`, async () => {
+      const ResilientPage = await importResilientPage();
+      const locator = createMockLocator();
+      const page = createMockPage({ '#el': locator });
+
+      const rp = new ResilientPage(page as any, { a11yEnabled: false });
+      const result = await (rp as any)[c.method]('#el', ...c.args);
+
+      const fn = locator[c.locatorMethod];
+      assert.equal(fn.mock.callCount(), 1);
+      assert.deepEqual(fn.mock.calls[0].arguments, c.locatorArgs);
+      if ('result' in c) assert.deepEqual(result, c.result);
+      assert.equal(rp.healingEvents.length, 0);
+    });
+  }
+
+  it('heals check when the selector fails', async () => {
+    const ResilientPage = await importResilientPage();
+    const failingLocator = createMockLocator({
+      waitFor: mock.fn(async () => { throw new Error('Timeout'); }),
+    });
+    const healedLocator = createMockLocator();
+    const page = createMockPage({ '#terms': failingLocator, '#accept-terms': healedLocator });
+
+    const rp = new ResilientPage(page as any, {
+      a11yEnabled: false,
+      ai: { provider: 'custom', customHealFn: async () => '#accept-terms' },
+    });
+
+    await rp.check('#terms');
+    assert.equal(healedLocator.check.mock.callCount(), 1);
+    assert.equal(rp.healingEvents[0].action, 'check');
+  });
+
+  it('heals both the source and the target of dragTo', async () => {
+    const ResilientPage = await importResilientPage();
+    const failing = () =>
+      createMockLocator({
+        waitFor: mock.fn(async () => { throw new Error('Timeout'); }),
+      });
+    const source = createMockLocator();
+    const target = createMockLocator();
+    const page = createMockPage({
+      '#card': failing(),
+      '#column': failing(),
+      '#card-1': source,
+      '#column-done': target,
+    });
+
+    const rp = new ResilientPage(page as any, {
+      a11yEnabled: false,
+      ai: {
+        provider: 'custom',
+        customHealFn: async (failed) => (failed === '#card' ? '#card-1' : '#column-done'),
+      },
+    });
+
+    await rp.dragTo('#card', '#column');
+
+    assert.equal(source.dragTo.mock.callCount(), 1);
+    assert.equal(source.dragTo.mock.calls[0].arguments[0], target);
+    assert.deepEqual(
+      rp.healingEvents.map((e) => [e.originalSelector, e.healedSelector, e.action]),
+      [
+        ['#column', '#column-done', 'dragTo'],
+        ['#card', '#card-1', 'dragTo'],
+      ],
+    );
+  });
+});
+
 describe('ResilientPage — goto', () => {
   it('calls page.goto with the URL', async () => {
     const ResilientPage = await importResilientPage();
@@ -227,14 +442,161 @@ describe('ResilientPage — goto', () => {
 });
 
 describe('ResilientPage — locator', () => {
-  it('returns the raw Playwright locator (no healing)', async () => {
+  it('returns a resilient locator whose raw Playwright locator is unchanged', async () => {
     const ResilientPage = await importResilientPage();
     const mockLoc = createMockLocator();
     const page = createMockPage({ '#raw': mockLoc });
 
     const rp = new ResilientPage(page as any, { a11yEnabled: false });
     const loc = rp.locator('#raw');
-    assert.equal(loc, mockLoc);
+    assert.equal(loc.toLocator(), mockLoc);
+    assert.equal(loc.description, "locator('#raw')");
+  });
+
+  it('returns the driver locator itself from rawLocator', async () => {
+    const ResilientPage = await importResilientPage();
+    const mockLoc = createMockLocator();
+    const page = createMockPage({ '#raw': mockLoc });
+
+    const rp = new ResilientPage(page as any, { a11yEnabled: false });
+
+    assert.equal(rp.rawLocator('#raw', { hasText: 'Go' }), mockLoc);
+    assert.deepEqual(page.locator.mock.calls[0].arguments, ['#raw', { hasText: 'Go' }]);
+  });
+});
+
+describe('ResilientLocator — chaining', () => {
+  /** A locator whose `.locator(sel)` returns the given children. */
+  function withChildren(
+    children: Record<string, MockLocator>,
+    overrides: Partial<Record<keyof MockLocator, unknown>> = {},
+  ): MockLocator {
+    return createMockLocator({
+      locator: mock.fn((sel: string) => children[sel] ?? createMockLocator({ count: mock.fn(async () => 0) })),
+      ...overrides,
+    });
+  }
+
+  const failing = (overrides: Partial<Record<keyof MockLocator, unknown>> = {}) =>
+    createMockLocator({
+      waitFor: mock.fn(async () => { throw new Error('Timeout'); }),
+      count: mock.fn(async () => 0),
+      ...overrides,
+    });
+
+  it('describes the whole chain', async () => {
+    const ResilientPage = await importResilientPage();
+    const rp = new ResilientPage(createMockPage() as any, { a11yEnabled: false });
+
+    const chain = rp
+      .locator('form')
+      .filter({ hasText: 'Login' })
+      .getByRole('button', { name: "Sign 'in'" })
+      .nth(1);
+    assert.equal(
+      chain.description,
+      "locator('form').filter({ hasText: 'Login' }).getByRole('button', { name: 'Sign \\'in\\'' }).nth(1)",
+    );
+    assert.equal(String(rp.locator('a').or(rp.locator('b'))), "locator('a').or(locator('b'))");
+  });
+
+  it('acts on the chained locator without healing when it resolves', async () => {
+    const ResilientPage = await importResilientPage();
+    const button = createMockLocator();
+    const form = withChildren({ button });
+    const page = createMockPage({ form });
+
+    const rp = new ResilientPage(page as any, { a11yEnabled: false });
+    await rp.locator('form').locator('button').click();
+
+    assert.equal(button.click.mock.callCount(), 1);
+    assert.equal(rp.healingEvents.length, 0);
+  });
+
+  it('heals only the link that no longer matches', async () => {
+    const ResilientPage = await importResilientPage();
+    const healedButton = createMockLocator();
+    const form = withChildren({
+      'button.submit': failing(),
+      'button[type="submit"]': healedButton,
+    });
+    const page = createMockPage({ '#login': form });
+    const asked: string[] = [];
+
+    const rp = new ResilientPage(page as any, {
+      a11yEnabled: false,
+      ai: {
+        provider: 'custom',
+        customHealFn: async (failed) => {
+          asked.push(failed);
+          return 'button[type="submit"]';
+        },
+      },
+    });
+
+    await rp.locator('#login').locator('button.submit').click();
+
+    assert.deepEqual(asked, ['button.submit']);
+    assert.equal(healedButton.click.mock.callCount(), 1);
+    const [event] = rp.healingEvents;
+    assert.equal(event.originalSelector, 'button.submit');
+    assert.equal(event.healedSelector, 'button[type="submit"]');
+    assert.equal(event.locatorChain, "locator('#login').locator('button.submit')");
+  });
+
+  it('keeps the rest of the chain when an earlier link is healed', async () => {
+    const ResilientPage = await importResilientPage();
+    const button = createMockLocator();
+    const newForm = withChildren({ button });
+    const page = createMockPage({
+      '#old-form': failing({ locator: mock.fn(() => failing()) }),
+      '#new-form': newForm,
+    });
+
+    const rp = new ResilientPage(page as any, {
+      a11yEnabled: false,
+      ai: { provider: 'custom', customHealFn: async () => '#new-form' },
+    });
+
+    await rp.locator('#old-form').locator('button').click();
+
+    assert.equal(button.click.mock.callCount(), 1);
+    assert.equal(rp.healingEvents[0].originalSelector, '#old-form');
+  });
+
+  it('heals the whole chain when the failing link is not a selector', async () => {
+    const ResilientPage = await importResilientPage();
+    const items = createMockLocator({
+      count: mock.fn(async () => 3),
+      nth: mock.fn(() => failing()),
+    });
+    const page = createMockPage({ li: items, '#item-6': createMockLocator() });
+
+    const rp = new ResilientPage(page as any, {
+      a11yEnabled: false,
+      ai: { provider: 'custom', customHealFn: async () => '#item-6' },
+    });
+
+    await rp.locator('li').nth(5).click();
+
+    const [event] = rp.healingEvents;
+    assert.equal(event.originalSelector, "locator('li').nth(5)");
+    assert.equal(event.healedSelector, '#item-6');
+    assert.equal(event.locatorChain, "locator('li').nth(5)");
+  });
+
+  it('names the chain in the error when healing fails', async () => {
+    const ResilientPage = await importResilientPage();
+    const page = createMockPage({ form: withChildren({ '.gone': failing() }) });
+
+    const rp = new ResilientPage(page as any, { a11yEnabled: false, ai: false });
+
+    await assert.rejects(
+      () => rp.locator('form').locator('.gone').click(),
+      /Locator locator\('form'\)\.locator\('\.gone'\) failed to click: no element matched/,
+    );
+    assert.equal(rp.selectorFailures[0].selector, '.gone');
+    assert.equal(rp.selectorFailures[0].locatorChain, "locator('form').locator('.gone')");
   });
 });
 
@@ -269,6 +631,7 @@ describe('ResilientPage — self-healing', () => {
     assert.equal(rp.healingEvents[0].healedSelector, '#fixed');
     assert.equal(rp.healingEvents[0].action, 'click');
     assert.equal(rp.healingEvents[0].aiProvider, 'custom');
+    assert.equal(rp.healingEvents[0].callSite?.file, __filename);
 
     // The healed locator should have been clicked
     assert.equal(healedLocator.click.mock.callCount(), 1);
@@ -462,67 +825,1737 @@ describe('ResilientPage — self-healing', () => {
   });
 });
 
-describe('ResilientPage — healing for read actions', () => {
-  it('heals textContent when selector fails', async () => {
+describe('ResilientPage — ranked candidates', () => {
+  it('tries candidates in order within a single AI call', async () => {
     const ResilientPage = await importResilientPage();
-
-    const failingLocator = createMockLocator({
+    const firstChoice = createMockLocator({
       waitFor: mock.fn(async () => { throw new Error('Timeout'); }),
     });
-    const healedLocator = createMockLocator({
-      textContent: mock.fn(async () => 'Healed text'),
+    const secondChoice = createMockLocator();
+    const page = createMockPage({
+      '#broken': createMockLocator({
+        waitFor: mock.fn(async () => { throw new Error('Timeout'); }),
+      }),
+      '#first': firstChoice,
+      '#second': secondChoice,
+    });
+
+    const suggestFn = mock.fn(async () => [
+      { selector: '#first', confidence: 0.9, rationale: 'same id prefix' },
+      { selector: '#second', confidence: 0.6, rationale: 'same label' },
+    ]);
+    const rp = new ResilientPage(page as any, {
+      a11yEnabled: false,
+      ai: { provider: 'custom', customSuggestFn: suggestFn },
+      locatorTimeout: 100,
     });
+    await rp.click('#broken');
+
+    assert.equal(suggestFn.mock.callCount(), 1);
+    assert.equal(secondChoice.click.mock.callCount(), 1);
+    const event = rp.healingEvents[0];
+    assert.equal(event.healedSelector, '#second');
+    assert.equal(event.confidence, 0.6);
+    assert.equal(event.rationale, 'same label');
+    assert.equal(event.candidateRank, 2);
+    assert.equal(event.candidateCount, 2);
+  });
 
+  it('keeps the raw AI response on the healing event', async () => {
+    const ResilientPage = await importResilientPage();
+    const fixed = createMockLocator();
     const page = createMockPage({
-      '#broken': failingLocator,
-      '#fixed': healedLocator,
+      '#broken': createMockLocator({
+        waitFor: mock.fn(async () => { throw new Error('Timeout'); }),
+      }),
+      '#fixed': fixed,
+    });
+
+    const rp = new ResilientPage(page as any, {
+      a11yEnabled: false,
+      ai: { provider: 'custom', customHealFn: async () => 'Try: `#fixed`' },
+      locatorTimeout: 100,
+    });
+    await rp.click('#broken');
+
+    assert.equal(fixed.click.mock.callCount(), 1);
+    assert.equal(rp.healingEvents[0].healedSelector, '#fixed');
+    assert.equal(rp.healingEvents[0].rawResponse, 'Try: `#fixed`');
+  });
+
+  it('fails when the AI returns no candidates', async () => {
+    const ResilientPage = await importResilientPage();
+    const page = createMockPage({
+      '#broken': createMockLocator({
+        waitFor: mock.fn(async () => { throw new Error('Timeout'); }),
+      }),
+    });
+
+    const rp = new ResilientPage(page as any, {
+      a11yEnabled: false,
+      ai: { provider: 'custom', customSuggestFn: async () => [] },
+      locatorTimeout: 100,
+    });
+    await assert.rejects(() => rp.click('#broken'), /returned no candidate selectors/);
+  });
+});
+
+describe('ResilientPage — provider fallback', () => {
+  it('records the provider that answered and the attempts it took', async () => {
+    const ResilientPage = await importResilientPage();
+    const fixed = createMockLocator();
+    const page = createMockPage({
+      '#broken': createMockLocator({
+        waitFor: mock.fn(async () => { throw new Error('Timeout'); }),
+      }),
+      '#fixed': fixed,
     });
 
     const rp = new ResilientPage(page as any, {
       a11yEnabled: false,
       ai: {
         provider: 'custom',
-        customHealFn: async () => '#fixed',
+        customSuggestFn: async () => { throw new Error('quota exhausted'); },
+        fallbacks: [
+          {
+            provider: 'custom',
+            customSuggestFn: async () => [{ selector: '#fixed', confidence: 0.8, rationale: '' }],
+          },
+        ],
       },
       locatorTimeout: 100,
     });
+    await rp.click('#broken');
 
-    const text = await rp.textContent('#broken');
-    assert.equal(text, 'Healed text');
-    assert.equal(rp.healingEvents.length, 1);
-    assert.equal(rp.healingEvents[0].action, 'textContent');
+    assert.equal(fixed.click.mock.callCount(), 1);
+    assert.equal(rp.healingEvents[0].aiProvider, 'custom');
+    assert.equal(rp.healingEvents[0].aiAttempts, 2);
   });
 
-  it('heals isVisible when selector fails', async () => {
+  it('fails with every provider error when the whole chain fails', async () => {
     const ResilientPage = await importResilientPage();
+    const page = createMockPage({
+      '#broken': createMockLocator({
+        waitFor: mock.fn(async () => { throw new Error('Timeout'); }),
+      }),
+    });
 
-    const failingLocator = createMockLocator({
-      waitFor: mock.fn(async () => { throw new Error('Timeout'); }),
+    const rp = new ResilientPage(page as any, {
+      a11yEnabled: false,
+      ai: {
+        provider: 'custom',
+        customHealFn: async () => { throw new Error('first down'); },
+        fallbacks: [
+          { provider: 'custom', customHealFn: async () => { throw new Error('second down'); } },
+        ],
+      },
+      locatorTimeout: 100,
     });
-    const healedLocator = createMockLocator({
-      isVisible: mock.fn(async () => true),
+    await assert.rejects(
+      () => rp.click('#broken'),
+      /healing failed: All AI providers failed — custom: first down; custom: second down/,
+    );
+  });
+});
+
+describe('ResilientPage — AI usage', () => {
+  it('records every AI call and attaches usage to the healing event', async () => {
+    const ResilientPage = await importResilientPage();
+    const page = createMockPage({
+      '#broken': createMockLocator({
+        waitFor: mock.fn(async () => { throw new Error('Timeout'); }),
+      }),
+      '#wrong': createMockLocator({
+        click: mock.fn(async () => { throw new Error('Timeout'); }),
+      }),
+      '#fixed': createMockLocator(),
+    });
+    const suggestFn: NonNullable<AIProviderConfig['customSuggestFn']> = async (
+      _selector, _html, _intent, _aria, _screenshots, context,
+    ) => [
+      {
+        selector: context?.rejectedSuggestions.length ? '#fixed' : '#wrong',
+        confidence: 0.8,
+        rationale: '',
+      },
+    ];
+
+    const rp = new ResilientPage(page as any, {
+      a11yEnabled: false,
+      ai: { provider: 'custom', customSuggestFn: suggestFn },
+      locatorTimeout: 100,
+      maxHealingRetries: 2,
+      validateSuggestions: false,
     });
+    await rp.click('#broken');
+
+    assert.equal(rp.aiCalls.length, 2);
+    assert.equal(rp.aiCalls[0].provider, 'custom');
+    assert.equal(rp.aiCalls[0].originalSelector, '#broken');
+    assert.equal(rp.aiCalls[0].action, 'click');
+    const { aiUsage } = rp.healingEvents[0];
+    assert.equal(aiUsage?.inputTokens, 0);
+    assert.equal(aiUsage?.latencyMs, rp.aiCalls[0].latencyMs + rp.aiCalls[1].latencyMs);
+  });
 
+  it('asks again after a reply without a usable selector', async () => {
+    const ResilientPage = await importResilientPage();
     const page = createMockPage({
-      '#broken': failingLocator,
-      '#fixed': healedLocator,
+      '#broken': createMockLocator({
+        waitFor: mock.fn(async () => { throw new Error('Timeout'); }),
+      }),
+      '#fixed': createMockLocator(),
     });
+    const replies = [
+      'no idea',
+      [{ selector: '#fixed', confidence: 0.9, rationale: '' }],
+    ];
+    const suggestFn = mock.fn(async (
+      ..._args: Parameters<NonNullable<AIProviderConfig['customSuggestFn']>>
+    ) => replies.shift()!);
 
     const rp = new ResilientPage(page as any, {
       a11yEnabled: false,
-      ai: {
-        provider: 'custom',
-        customHealFn: async () => '#fixed',
+      ai: { provider: 'custom', customSuggestFn: suggestFn as any },
+      locatorTimeout: 100,
+      maxHealingRetries: 2,
+      validateSuggestions: false,
+    });
+    await rp.click('#broken');
+
+    assert.equal(suggestFn.mock.callCount(), 2);
+    const context = suggestFn.mock.calls[1].arguments[5] as HealingContext;
+    assert.equal(context.rejectedSuggestions[0].selector, 'no idea');
+    assert.match(context.rejectedSuggestions[0].error, /AI returned an invalid selector/);
+    assert.equal(rp.healingEvents[0].healedSelector, '#fixed');
+  });
+
+  it('records the usage of AI calls that fail', async () => {
+    const ResilientPage = await importResilientPage();
+    const page = createMockPage({
+      '#broken': createMockLocator({
+        waitFor: mock.fn(async () => { throw new Error('Timeout'); }),
+      }),
+    });
+    const originalFetch = globalThis.fetch;
+    globalThis.fetch = mock.fn(async () => ({
+      ok: false,
+      status: 400,
+      headers: new Headers(),
+      json: async () => ({}),
+      text: async () => 'bad request',
+    })) as unknown as typeof fetch;
+
+    try {
+      const rp = new ResilientPage(page as any, {
+        a11yEnabled: false,
+        ai: { provider: 'ollama', baseUrl: 'https://failed-usage.test' },
+        locatorTimeout: 100,
+      });
+      await assert.rejects(() => rp.click('#broken'));
+
+      assert.equal(rp.aiCalls.length, 1);
+      assert.equal(rp.aiCalls[0].provider, 'ollama');
+      assert.ok(rp.aiCalls[0].inputTokens > 0);
+      assert.equal(rp.aiCalls[0].healed, undefined);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+});
+
+describe('ResilientPage — healing context', () => {
+  function setup(extra: Record<string, MockLocator> = {}) {
+    const page = createMockPage({
+      '#broken': createMockLocator({
+        waitFor: mock.fn(async () => { throw new Error('Timeout'); }),
+      }),
+      '#fixed': createMockLocator(),
+      ...extra,
+    });
+    (page as any).title = mock.fn(async () => 'Checkout');
+    return page;
+  }
+  const contextOf = (fn: { mock: { calls: Array<{ arguments: unknown[] }> } }, call = 0) =>
+    fn.mock.calls[call].arguments[5] as HealingContext;
+
+  it('tells the AI about the action, page and test, but not the typed value', async () => {
+    const ResilientPage = await importResilientPage();
+    const page = setup();
+    const suggestFn = mock.fn(async () => [{ selector: '#fixed', confidence: 0.9, rationale: '' }]);
+    const rp = new ResilientPage(page as any, {
+      a11yEnabled: false,
+      ai: { provider: 'custom', customSuggestFn: suggestFn },
+      locatorTimeout: 100,
+      testTitle: 'checkout › pays by card',
+    });
+
+    await rp.fill('#broken', 'alice@example.com');
+
+    const context = contextOf(suggestFn);
+    assert.deepEqual(
+      context,
+      {
+        originalSelector: '#broken',
+        action: 'fill',
+        valueType: 'email',
+        url: 'https://example.com',
+        pageTitle: 'Checkout',
+        testTitle: 'checkout › pays by card',
+        intent: undefined,
+        fingerprint: undefined,
+        nearbyText: [],
+        attempt: 1,
+        maxAttempts: 1,
+        rejectedSuggestions: [],
       },
+    );
+    assert.ok(!JSON.stringify(context).includes('alice'));
+  });
+
+  it('describes the kind of text typed', async () => {
+    const ResilientPage = await importResilientPage();
+    const suggestFn = mock.fn(async () => [{ selector: '#fixed', confidence: 0.9, rationale: '' }]);
+    const rp = new ResilientPage(setup() as any, {
+      a11yEnabled: false,
+      ai: { provider: 'custom', customSuggestFn: suggestFn },
       locatorTimeout: 100,
     });
 
-    const visible = await rp.isVisible('#broken');
-    assert.equal(visible, true);
+    await rp.fill('#broken', '');
+    await rp.fill('#broken', '2026-10-18');
+    await rp.fill('#broken', '+44 20 7946 0958');
+    await rp.locator('#broken').pressSequentially('42');
+    await rp.click('#broken');
+
+    assert.deepEqual(
+      [0, 1, 2, 3, 4].map((call) => contextOf(suggestFn, call).valueType),
+      ['empty', 'date', 'phone', 'number', undefined],
+    );
+  });
+
+  it('explains earlier failed suggestions on the next round-trip', async () => {
+    const ResilientPage = await importResilientPage();
+    const page = setup({
+      '.btn': createMockLocator({ count: mock.fn(async () => 4) }),
+      '#wrong': createMockLocator({
+        click: mock.fn(async () => { throw new Error('Element is outside of the viewport\ncall log'); }),
+      }),
+    });
+    let calls = 0;
+    const suggestFn = mock.fn(async () =>
+      ++calls === 1
+        ? [
+            { selector: '.btn', confidence: 0.8, rationale: '' },
+            { selector: '#wrong', confidence: 0.6, rationale: '' },
+          ]
+        : [{ selector: '#fixed', confidence: 0.9, rationale: '' }]);
+    const rp = new ResilientPage(page as any, {
+      a11yEnabled: false,
+      ai: { provider: 'custom', customSuggestFn: suggestFn },
+      locatorTimeout: 100,
+      maxHealingRetries: 3,
+    });
+
+    await rp.click('#broken');
+
+    assert.equal(suggestFn.mock.calls[1].arguments[0], '#broken');
+    const context = contextOf(suggestFn, 1);
+    assert.equal(context.attempt, 2);
+    assert.equal(context.maxAttempts, 3);
+    assert.equal(context.rejectedSuggestions.length, 2);
+    assert.deepEqual(
+      context.rejectedSuggestions.map(({ selector, attempt }) => [selector, attempt]),
+      [['.btn', 1], ['#wrong', 1]],
+    );
+    assert.match(context.rejectedSuggestions[0].error, /^rejected \(ambiguous\): /);
+    assert.equal(context.rejectedSuggestions[1].error, 'Element is outside of the viewport');
+    assert.equal(contextOf(suggestFn, 0).rejectedSuggestions.length, 0);
+  });
+
+  it('redacts the context and counts what was masked', async () => {
+    const ResilientPage = await importResilientPage();
+    const page = setup();
+    (page as any).title = mock.fn(async () => 'Orders for alice@example.com');
+    const healFn = mock.fn(async () => '#fixed');
+    const rp = new ResilientPage(page as any, {
+      a11yEnabled: false,
+      ai: { provider: 'custom', customHealFn: healFn },
+      locatorTimeout: 100,
+    });
+
+    await rp.click('#broken');
+
+    const context = healFn.mock.calls[0].arguments[3] as unknown as HealingContext;
+    assert.equal(context.pageTitle, 'Orders for [REDACTED:email]');
+    assert.deepEqual(rp.healingEvents[0].redaction?.patterns, { email: 1 });
+    assert.deepEqual(rp.aiCalls[0].redaction?.patterns, { email: 1 });
+  });
+
+  it('heals without a page title when the driver has none', async () => {
+    const ResilientPage = await importResilientPage();
+    const page = setup();
+    delete (page as any).title;
+    const suggestFn = mock.fn(async () => [{ selector: '#fixed', confidence: 0.9, rationale: '' }]);
+    const rp = new ResilientPage(page as any, {
+      a11yEnabled: false,
+      ai: { provider: 'custom', customSuggestFn: suggestFn },
+      locatorTimeout: 100,
+    });
+
+    await rp.click('#broken');
+
+    assert.equal(contextOf(suggestFn).pageTitle, undefined);
     assert.equal(rp.healingEvents.length, 1);
   });
 });
 
+describe('ResilientPage — ARIA snapshots', () => {
+  function setup(snapshotMode?: 'html' | 'aria' | 'both') {
+    const ariaSnapshot = mock.fn(async () => '- button "Save"');
+    const page = createMockPage({
+      '#broken': createMockLocator({
+        waitFor: mock.fn(async () => { throw new Error('Timeout'); }),
+      }),
+      body: createMockLocator({ ariaSnapshot }),
+      'role=button[name="Save"]': createMockLocator(),
+    });
+    const suggestFn = mock.fn(async () => [
+      { selector: 'role=button[name="Save"]', confidence: 0.9, rationale: '' },
+    ]);
+    const ai = { provider: 'custom' as const, snapshotMode, customSuggestFn: suggestFn };
+    return { page, ariaSnapshot, suggestFn, ai };
+  }
+
+  it('takes and sends an ARIA snapshot when the provider wants one', async () => {
+    const ResilientPage = await importResilientPage();
+    const { page, ariaSnapshot, suggestFn, ai } = setup('aria');
+    const rp = new ResilientPage(page as any, {
+      a11yEnabled: false,
+      ai,
+      locatorTimeout: 100,
+      validateSuggestions: false,
+    });
+
+    await rp.click('#broken');
+
+    assert.equal(ariaSnapshot.mock.callCount(), 1);
+    assert.equal(suggestFn.mock.calls[0].arguments[3], '- button "Save"');
+    assert.equal(rp.healingEvents[0].snapshotMode, 'aria');
+    assert.equal(rp.aiCalls[0].snapshotMode, 'aria');
+    assert.equal(rp.aiCalls[0].healed, true);
+  });
+
+  it('does not take an ARIA snapshot for HTML-only providers', async () => {
+    const ResilientPage = await importResilientPage();
+    const { page, ariaSnapshot, suggestFn, ai } = setup();
+    const rp = new ResilientPage(page as any, {
+      a11yEnabled: false,
+      ai,
+      locatorTimeout: 100,
+      validateSuggestions: false,
+    });
+
+    await rp.click('#broken');
+
+    assert.equal(ariaSnapshot.mock.callCount(), 0);
+    assert.equal(suggestFn.mock.calls[0].arguments[3], undefined);
+    assert.equal(rp.healingEvents[0].snapshotMode, 'html');
+  });
+
+  it('masks entered values in the ARIA snapshot sent to the provider', async () => {
+    const ResilientPage = await importResilientPage();
+    let password = '';
+    const page = createMockPage({
+      '#password': createMockLocator({
+        fill: mock.fn(async (value: string) => { password = value; }),
+      }),
+      '#broken': createMockLocator({
+        waitFor: mock.fn(async () => { throw new Error('Timeout'); }),
+      }),
+      body: createMockLocator({
+        ariaSnapshot: mock.fn(async () => `- textbox "Password": ${password}\n- button "Save"`),
+      }),
+      'role=button[name="Save"]': createMockLocator(),
+    });
+    const originalFetch = globalThis.fetch;
+    const fetchMock = mock.fn(async () => ({
+      ok: true,
+      json: async () => ({
+        message: {
+          content: JSON.stringify({
+            candidates: [{ selector: 'role=button[name="Save"]', confidence: 0.9, rationale: '' }],
+          }),
+        },
+      }),
+      text: async () => '',
+    }));
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+    try {
+      const rp = new ResilientPage(page as any, {
+        a11yEnabled: false,
+        ai: { provider: 'ollama', baseUrl: 'https://aria-redaction.test', snapshotMode: 'aria' },
+        locatorTimeout: 100,
+        validateSuggestions: false,
+      });
+
+      await rp.fill('#password', 'hunter2');
+      await rp.click('#broken');
+
+      assert.equal(fetchMock.mock.callCount(), 1);
+      const body = (fetchMock.mock.calls[0].arguments as unknown[])[1] as RequestInit;
+      assert.match(body.body as string, /textbox \\"Password\\": \[REDACTED\]/);
+      assert.doesNotMatch(body.body as string, /hunter2/);
+      assert.equal(rp.aiCalls[0].snapshotMode, 'aria');
+      assert.equal(rp.aiCalls[0].redaction?.values, 1);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  it('sends HTML instead of an ARIA snapshot when values are not masked', async () => {
+    const ResilientPage = await importResilientPage();
+    const { page, ariaSnapshot, suggestFn, ai } = setup('aria');
+    const rp = new ResilientPage(page as any, {
+      a11yEnabled: false,
+      ai,
+      locatorTimeout: 100,
+      redaction: { maskValues: false },
+      validateSuggestions: false,
+    });
+
+    await rp.click('#broken');
+
+    assert.equal(ariaSnapshot.mock.callCount(), 0);
+    assert.equal(suggestFn.mock.calls[0].arguments[3], undefined);
+    assert.equal(rp.healingEvents[0].snapshotMode, 'html');
+  });
+});
+
+describe('ResilientPage — redaction', () => {
+  function setup(html: string, root = createMockLocator()) {
+    const page = createMockPage({
+      '#broken': createMockLocator({
+        waitFor: mock.fn(async () => { throw new Error('Timeout'); }),
+      }),
+      ':root': root,
+    });
+    page.content = mock.fn(async () => html);
+    const healFn = mock.fn(async (_selector: string, _html: string) => '#fixed');
+    return { page, healFn };
+  }
+
+  it('redacts the snapshot and records what was masked', async () => {
+    const ResilientPage = await importResilientPage();
+    const { page, healFn } = setup(
+      '<body><input id="email" value="alice@example.com"><p>bob@example.org</p></body>',
+    );
+    const rp = new ResilientPage(page as any, {
+      a11yEnabled: false,
+      ai: { provider: 'custom', customHealFn: healFn },
+      locatorTimeout: 100,
+      validateSuggestions: false,
+    });
+
+    await rp.click('#broken');
+
+    const sent = healFn.mock.calls[0].arguments[1];
+    assert.ok(!sent.includes('alice@example.com'));
+    assert.ok(!sent.includes('bob@example.org'));
+    assert.ok(sent.includes('value="[REDACTED]"'));
+    const expected = { values: 1, inputs: 0, regions: 0, patterns: { email: 1 } };
+    assert.deepEqual(rp.healingEvents[0].redaction, expected);
+    assert.deepEqual(rp.aiCalls[0].redaction, expected);
+  });
+
+  it('sends the snapshot unredacted when disabled', async () => {
+    const ResilientPage = await importResilientPage();
+    const { page, healFn } = setup('<body><p>bob@example.org</p></body>');
+    const rp = new ResilientPage(page as any, {
+      a11yEnabled: false,
+      ai: { provider: 'custom', customHealFn: healFn },
+      locatorTimeout: 100,
+      validateSuggestions: false,
+      redaction: false,
+    });
+
+    await rp.click('#broken');
+
+    assert.ok(healFn.mock.calls[0].arguments[1].includes('bob@example.org'));
+    assert.equal(rp.healingEvents[0].redaction, undefined);
+  });
+
+  it('removes sensitive regions in the browser and skips the ARIA snapshot', async () => {
+    const ResilientPage = await importResilientPage();
+    const evaluate = mock.fn(async () =>
+      '<body><div id="billing" data-redacted>[REDACTED]</div><button id="fixed">Pay</button></body>');
+    const ariaSnapshot = mock.fn(async () => '- text: 4111 1111 1111 1111');
+    const { page } = setup('', createMockLocator({ evaluate }));
+    (page.locator as any).mock.mockImplementation((selector: string) =>
+      selector === 'body'
+        ? createMockLocator({ ariaSnapshot })
+        : selector === '#broken'
+          ? createMockLocator({ waitFor: mock.fn(async () => { throw new Error('Timeout'); }) })
+          : createMockLocator({ evaluate }));
+    const suggestFn = mock.fn(async () => [{ selector: '#fixed', confidence: 0.9, rationale: '' }]);
+    const rp = new ResilientPage(page as any, {
+      a11yEnabled: false,
+      ai: { provider: 'custom', snapshotMode: 'aria', customSuggestFn: suggestFn },
+      locatorTimeout: 100,
+      validateSuggestions: false,
+      redaction: { selectors: ['#billing'] },
+    });
+
+    await rp.click('#broken');
+
+    assert.deepEqual(evaluate.mock.calls[0].arguments[1], ['#billing']);
+    assert.equal(ariaSnapshot.mock.callCount(), 0);
+    assert.equal(suggestFn.mock.calls[0].arguments[3], undefined);
+    assert.equal(rp.healingEvents[0].redaction?.regions, 1);
+  });
+
+  it('masks sensitive regions in screenshots', async () => {
+    const ResilientPage = await importResilientPage();
+    const evaluate = mock.fn(async () => '<body><button id="fixed">Pay</button></body>');
+    const { page, healFn } = setup('', createMockLocator({ evaluate }));
+    const screenshot = mock.fn(async () => Buffer.from('page'));
+    const rp = new ResilientPage({ ...page, screenshot } as any, {
+      a11yEnabled: false,
+      ai: { provider: 'custom', vision: { elementScreenshots: false }, customHealFn: healFn },
+      locatorTimeout: 100,
+      validateSuggestions: false,
+      redaction: { selectors: ['#billing'] },
+    });
+
+    await rp.click('#broken');
+
+    const options = screenshot.mock.calls[0].arguments[0] as { mask: unknown[] };
+    assert.equal(options.mask.length, 1);
+    assert.ok(page.locator.mock.calls.some((call) => call.arguments[0] === '#billing'));
+  });
+});
+
+describe('ResilientPage — vision', () => {
+  const tempDirs: string[] = [];
+  afterEach(() => {
+    for (const d of tempDirs) fs.rmSync(d, { recursive: true, force: true });
+    tempDirs.length = 0;
+  });
+
+  function makeDir(): string {
+    const d = fs.mkdtempSync(path.join(os.tmpdir(), 'resilient-page-vision-'));
+    tempDirs.push(d);
+    return d;
+  }
+
+  it('saves a screenshot of each element whose selector resolves, once per page', async () => {
+    const ResilientPage = await importResilientPage();
+    const screenshot = mock.fn(async () => Buffer.from('save-button'));
+    const page = createMockPage({ '#save': createMockLocator({ screenshot }) });
+    const reportDir = makeDir();
+    const rp = new ResilientPage(page as any, {
+      a11yEnabled: false,
+      reportDir,
+      ai: { provider: 'custom', vision: true, customHealFn: async () => '#x' },
+    });
+
+    await rp.click('#save');
+    await rp.click('#save');
+
+    assert.equal(screenshot.mock.callCount(), 1);
+    assert.equal(screenshot.mock.calls[0].arguments[0].type, 'jpeg');
+    const files = fs.readdirSync(path.join(reportDir, 'element-screenshots'));
+    assert.equal(files.length, 1);
+  });
+
+  it('takes no element screenshots without vision', async () => {
+    const ResilientPage = await importResilientPage();
+    const screenshot = mock.fn(async () => Buffer.from('save-button'));
+    const page = createMockPage({ '#save': createMockLocator({ screenshot }) });
+    const rp = new ResilientPage(page as any, {
+      a11yEnabled: false,
+      reportDir: makeDir(),
+      ai: { provider: 'custom', customHealFn: async () => '#x' },
+    });
+
+    await rp.click('#save');
+
+    assert.equal(screenshot.mock.callCount(), 0);
+  });
+
+  it('sends the page and the last element screenshot when healing', async () => {
+    const ResilientPage = await importResilientPage();
+    const reportDir = makeDir();
+    let broken = false;
+    const saveLocator = createMockLocator({
+      waitFor: mock.fn(async () => {
+        if (broken) throw new Error('Timeout');
+      }),
+      screenshot: mock.fn(async () => Buffer.from('save-button')),
+    });
+    const page = {
+      ...createMockPage({ '#save': saveLocator }),
+      screenshot: mock.fn(async () => Buffer.from('whole-page')),
+    };
+    const healFn = mock.fn(async () => '#save-v2');
+    const config = {
+      a11yEnabled: false,
+      reportDir,
+      locatorTimeout: 100,
+      validateSuggestions: false,
+      ai: { provider: 'custom' as const, vision: true, customHealFn: healFn },
+    };
+
+    // A passing run records what the element looks like…
+    await new ResilientPage(page as any, config).click('#save');
+    // …and a later run, where the selector broke, shows it to the AI.
+    broken = true;
+    const rp = new ResilientPage(page as any, config);
+    await rp.click('#save');
+
+    const screenshots = healFn.mock.calls[0].arguments[2] as { page: Buffer; element?: Buffer };
+    assert.equal(screenshots.page.toString(), 'whole-page');
+    assert.equal(screenshots.element?.toString(), 'save-button');
+    assert.equal(rp.healingEvents[0].vision, true);
+  });
+
+  it('heals from the DOM alone if the page cannot be screenshotted', async () => {
+    const ResilientPage = await importResilientPage();
+    const page = createMockPage({
+      '#broken': createMockLocator({
+        waitFor: mock.fn(async () => { throw new Error('Timeout'); }),
+      }),
+    });
+    const healFn = mock.fn(async () => '#fixed');
+    const rp = new ResilientPage(page as any, {
+      a11yEnabled: false,
+      reportDir: makeDir(),
+      locatorTimeout: 100,
+      validateSuggestions: false,
+      ai: { provider: 'custom', vision: { elementScreenshots: false }, customHealFn: healFn },
+    });
+
+    await rp.click('#broken');
+
+    assert.equal(healFn.mock.calls[0].arguments[2], undefined);
+    assert.equal(rp.healingEvents[0].vision, undefined);
+  });
+});
+
+describe('ResilientPage — healing modes', () => {
+  function setup() {
+    const healedLocator = createMockLocator();
+    const page = createMockPage({
+      '#broken': createMockLocator({
+        waitFor: mock.fn(async () => { throw new Error('Timeout'); }),
+      }),
+      '#fixed': healedLocator,
+    });
+    return { page, healedLocator };
+  }
+
+  const ai = { provider: 'custom' as const, customHealFn: async () => '#fixed' };
+
+  it('records mode "auto" and applied by default', async () => {
+    const ResilientPage = await importResilientPage();
+    const { page } = setup();
+    const rp = new ResilientPage(page as any, { a11yEnabled: false, ai, locatorTimeout: 100 });
+    await rp.click('#broken');
+
+    assert.equal(rp.healingEvents[0].mode, 'auto');
+    assert.equal(rp.healingEvents[0].applied, true);
+  });
+
+  it('reports but does not apply the heal in suggest mode', async () => {
+    const ResilientPage = await importResilientPage();
+    const { page, healedLocator } = setup();
+    const rp = new ResilientPage(page as any, {
+      a11yEnabled: false,
+      ai,
+      healingMode: 'suggest',
+      locatorTimeout: 100,
+    });
+
+    await assert.rejects(
+      () => rp.click('#broken'),
+      /suggested replacement "#fixed" was not applied because healingMode is "suggest"/,
+    );
+    assert.equal(healedLocator.waitFor.mock.callCount(), 1);
+    assert.equal(healedLocator.click.mock.callCount(), 0);
+    assert.equal(rp.healingEvents.length, 1);
+    assert.equal(rp.healingEvents[0].mode, 'suggest');
+    assert.equal(rp.healingEvents[0].applied, false);
+  });
+
+  it('neither caches nor shares a suggestion it did not apply', async () => {
+    const ResilientPage = await importResilientPage();
+    const { page } = setup();
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'resilient-suggest-'));
+    try {
+      const cachePath = path.join(dir, 'healing-cache.json');
+      const locksDir = path.join(dir, 'healing-locks');
+      const rp = new ResilientPage(page as any, {
+        a11yEnabled: false,
+        ai,
+        healingMode: 'suggest',
+        healingCache: { path: cachePath },
+        healingCoordinator: { dir: locksDir },
+        locatorTimeout: 100,
+      });
+
+      await assert.rejects(() => rp.click('#broken'), /healingMode is "suggest"/);
+
+      assert.equal(rp.healingEvents.length, 1);
+      assert.equal(fs.existsSync(cachePath), false);
+      assert.deepEqual(fs.readdirSync(locksDir), []);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('applies the heal and records mode "warn" in warn mode', async () => {
+    const ResilientPage = await importResilientPage();
+    const { page, healedLocator } = setup();
+    const rp = new ResilientPage(page as any, {
+      a11yEnabled: false,
+      ai,
+      healingMode: 'warn',
+      locatorTimeout: 100,
+    });
+    await rp.click('#broken');
+
+    assert.equal(healedLocator.click.mock.callCount(), 1);
+    assert.equal(rp.healingEvents[0].mode, 'warn');
+    assert.equal(rp.healingEvents[0].applied, true);
+  });
+
+  it('lets selectorHealingModes override the default per selector', async () => {
+    const ResilientPage = await importResilientPage();
+    const { page } = setup();
+    const rp = new ResilientPage(page as any, {
+      a11yEnabled: false,
+      ai,
+      healingMode: 'auto',
+      selectorHealingModes: { '#broken': 'suggest' },
+      locatorTimeout: 100,
+    });
+
+    await assert.rejects(() => rp.click('#broken'), /healingMode is "suggest"/);
+  });
+});
+
+describe('ResilientPage — suggestion validation', () => {
+  it('rejects a generic suggestion and records the reason', async () => {
+    const ResilientPage = await importResilientPage();
+    const genericLocator = createMockLocator();
+    const page = createMockPage({
+      '#broken': createMockLocator({
+        waitFor: mock.fn(async () => { throw new Error('Timeout'); }),
+      }),
+      'body *:first-child': genericLocator,
+    });
+
+    const rp = new ResilientPage(page as any, {
+      a11yEnabled: false,
+      ai: { provider: 'custom', customHealFn: async () => 'body *:first-child' },
+      locatorTimeout: 100,
+    });
+
+    await assert.rejects(() => rp.click('#broken'), /rejected \(too-generic\)/);
+    assert.equal(genericLocator.click.mock.callCount(), 0);
+    assert.equal(rp.selectorRejections.length, 1);
+    assert.equal(rp.selectorRejections[0].reason, 'too-generic');
+    assert.equal(rp.selectorRejections[0].suggestedSelector, 'body *:first-child');
+    assert.equal(rp.selectorRejections[0].originalSelector, '#broken');
+  });
+
+  it('rejects an ambiguous suggestion and tries again', async () => {
+    const ResilientPage = await importResilientPage();
+    const healedLocator = createMockLocator();
+    const page = createMockPage({
+      '#broken': createMockLocator({
+        waitFor: mock.fn(async () => { throw new Error('Timeout'); }),
+      }),
+      '.btn': createMockLocator({ count: mock.fn(async () => 4) }),
+      '#save': healedLocator,
+    });
+
+    let calls = 0;
+    const rp = new ResilientPage(page as any, {
+      a11yEnabled: false,
+      ai: {
+        provider: 'custom',
+        customHealFn: async () => (++calls === 1 ? '.btn' : '#save'),
+      },
+      locatorTimeout: 100,
+      maxHealingRetries: 2,
+    });
+    await rp.click('#broken');
+
+    assert.equal(rp.selectorRejections[0].reason, 'ambiguous');
+    assert.equal(rp.healingEvents[0].healedSelector, '#save');
+    assert.equal(healedLocator.click.mock.callCount(), 1);
+  });
+
+  it('skips validation when validateSuggestions is false', async () => {
+    const ResilientPage = await importResilientPage();
+    const page = createMockPage({
+      '#broken': createMockLocator({
+        waitFor: mock.fn(async () => { throw new Error('Timeout'); }),
+      }),
+    });
+
+    const rp = new ResilientPage(page as any, {
+      a11yEnabled: false,
+      ai: { provider: 'custom', customHealFn: async () => 'button' },
+      validateSuggestions: false,
+      locatorTimeout: 100,
+    });
+    await rp.click('#broken');
+
+    assert.equal(rp.selectorRejections.length, 0);
+    assert.equal(rp.healingEvents[0].healedSelector, 'button');
+  });
+});
+
+describe('ResilientPage — healing cache', () => {
+  const tempDirs: string[] = [];
+  afterEach(() => {
+    for (const d of tempDirs) {
+      fs.rmSync(d, { recursive: true, force: true });
+    }
+    tempDirs.length = 0;
+  });
+
+  function makeCachePath(): string {
+    const d = fs.mkdtempSync(path.join(os.tmpdir(), 'resilient-page-cache-'));
+    tempDirs.push(d);
+    return path.join(d, 'healing-cache.json');
+  }
+
+  function readEntries(cachePath: string) {
+    return JSON.parse(fs.readFileSync(cachePath, 'utf-8')).entries;
+  }
+
+  it('stores AI-healed selectors in the cache', async () => {
+    const ResilientPage = await importResilientPage();
+    const cachePath = makeCachePath();
+
+    const page = createMockPage({
+      '#broken': createMockLocator({
+        waitFor: mock.fn(async () => { throw new Error('Timeout'); }),
+      }),
+      '#fixed': createMockLocator(),
+    });
+
+    const rp = new ResilientPage(page as any, {
+      a11yEnabled: false,
+      ai: { provider: 'custom', customHealFn: async () => '#fixed' },
+      healingCache: { path: cachePath },
+      locatorTimeout: 100,
+    });
+    await rp.click('#broken');
+
+    const entries = readEntries(cachePath);
+    assert.equal(entries.length, 1);
+    assert.equal(entries[0].originalSelector, '#broken');
+    assert.equal(entries[0].healedSelector, '#fixed');
+    assert.equal(entries[0].urlPattern, 'https://example.com/');
+    assert.equal(entries[0].action, 'click');
+    assert.equal(rp.healingEvents[0].source, 'ai');
+  });
+
+  it('reuses a cached selector without calling the AI', async () => {
+    const ResilientPage = await importResilientPage();
+    const cachePath = makeCachePath();
+    const healedLocator = createMockLocator();
+    const page = createMockPage({
+      '#broken': createMockLocator({
+        waitFor: mock.fn(async () => { throw new Error('Timeout'); }),
+      }),
+      '#fixed': healedLocator,
+    });
+
+    const healFn = mock.fn(async () => '#fixed');
+    const config = {
+      a11yEnabled: false,
+      ai: { provider: 'custom' as const, customHealFn: healFn },
+      healingCache: { path: cachePath },
+      locatorTimeout: 100,
+    };
+
+    // First run heals via AI, second run (new page object) hits the cache.
+    await new ResilientPage(page as any, config).click('#broken');
+    const rp = new ResilientPage(page as any, config);
+    await rp.click('#broken');
+
+    assert.equal(healFn.mock.callCount(), 1);
+    assert.equal(healedLocator.click.mock.callCount(), 2);
+    assert.equal(rp.healingEvents.length, 1);
+    assert.equal(rp.healingEvents[0].source, 'cache');
+    assert.equal(rp.healingEvents[0].healedSelector, '#fixed');
+    assert.equal(rp.healingEvents[0].aiProvider, 'custom');
+    assert.equal(readEntries(cachePath)[0].hitCount, 1);
+  });
+
+  it('uses cached selectors even when AI healing is disabled', async () => {
+    const ResilientPage = await importResilientPage();
+    const cachePath = makeCachePath();
+    fs.writeFileSync(cachePath, JSON.stringify({
+      version: 1,
+      entries: [{
+        originalSelector: '#broken',
+        urlPattern: 'https://example.com/',
+        action: 'click',
+        healedSelector: '#fixed',
+        aiProvider: 'anthropic',
+        hitCount: 3,
+        createdAt: '2025-01-01T00:00:00.000Z',
+        lastVerifiedAt: '2025-01-01T00:00:00.000Z',
+      }],
+    }));
+
+    const page = createMockPage({
+      '#broken': createMockLocator({
+        waitFor: mock.fn(async () => { throw new Error('Timeout'); }),
+      }),
+      '#fixed': createMockLocator(),
+    });
+
+    const rp = new ResilientPage(page as any, {
+      a11yEnabled: false,
+      ai: false,
+      healingCache: { path: cachePath },
+      locatorTimeout: 100,
+    });
+    await rp.click('#broken');
+
+    assert.equal(rp.healingEvents[0].source, 'cache');
+    assert.equal(readEntries(cachePath)[0].hitCount, 4);
+  });
+
+  it('invalidates a cached selector that fails and falls back to the AI', async () => {
+    const ResilientPage = await importResilientPage();
+    const cachePath = makeCachePath();
+    const failing = () => createMockLocator({
+      waitFor: mock.fn(async () => { throw new Error('Timeout'); }),
+    });
+    const page = createMockPage({
+      '#broken': failing(),
+      '#stale': failing(),
+      '#fresh': createMockLocator(),
+    });
+    fs.writeFileSync(cachePath, JSON.stringify({
+      version: 1,
+      entries: [{
+        originalSelector: '#broken',
+        urlPattern: 'https://example.com/',
+        action: 'click',
+        healedSelector: '#stale',
+        aiProvider: 'custom',
+        hitCount: 0,
+        createdAt: '2025-01-01T00:00:00.000Z',
+        lastVerifiedAt: '2025-01-01T00:00:00.000Z',
+      }],
+    }));
+
+    const rp = new ResilientPage(page as any, {
+      a11yEnabled: false,
+      ai: { provider: 'custom', customHealFn: async () => '#fresh' },
+      healingCache: { path: cachePath },
+      locatorTimeout: 100,
+    });
+    await rp.click('#broken');
+
+    assert.equal(rp.healingEvents[0].source, 'ai');
+    assert.equal(rp.healingEvents[0].healedSelector, '#fresh');
+    const entries = readEntries(cachePath);
+    assert.equal(entries.length, 1);
+    assert.equal(entries[0].healedSelector, '#fresh');
+  });
+});
+
+describe('ResilientPage — healing coordinator', () => {
+  const tempDirs: string[] = [];
+  afterEach(() => {
+    for (const d of tempDirs) fs.rmSync(d, { recursive: true, force: true });
+    tempDirs.length = 0;
+  });
+
+  function makeLockDir(): string {
+    const d = fs.mkdtempSync(path.join(os.tmpdir(), 'resilient-page-locks-'));
+    tempDirs.push(d);
+    return path.join(d, 'healing-locks');
+  }
+
+  function brokenPage(healed: MockLocator = createMockLocator()) {
+    return createMockPage({
+      '#broken': createMockLocator({
+        waitFor: mock.fn(async () => { throw new Error('Timeout'); }),
+      }),
+      '#fixed': healed,
+    });
+  }
+
+  it('lets one worker heal while another waits for and reuses its result', async () => {
+    const ResilientPage = await importResilientPage();
+    const dir = makeLockDir();
+    const slowHeal = mock.fn(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      return '#fixed';
+    });
+    const otherHeal = mock.fn(async () => '#fixed');
+    const config = (healFn: typeof otherHeal) => ({
+      a11yEnabled: false,
+      ai: { provider: 'custom' as const, customHealFn: healFn },
+      healingCoordinator: { dir, pollIntervalMs: 10 },
+      locatorTimeout: 100,
+    });
+    const first = new ResilientPage(brokenPage() as any, config(slowHeal));
+    const secondFixed = createMockLocator();
+    const second = new ResilientPage(brokenPage(secondFixed) as any, config(otherHeal));
+
+    const healing = first.click('#broken');
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    await Promise.all([healing, second.click('#broken')]);
+
+    assert.equal(slowHeal.mock.callCount(), 1);
+    assert.equal(otherHeal.mock.callCount(), 0);
+    assert.equal(first.healingEvents[0].source, 'ai');
+    assert.equal(second.healingEvents[0].source, 'shared');
+    assert.equal(second.healingEvents[0].healedSelector, '#fixed');
+    assert.equal(second.healingEvents[0].aiProvider, 'custom');
+    assert.equal(secondFixed.click.mock.callCount(), 1);
+  });
+
+  it('heals on its own when the shared selector does not work on its page', async () => {
+    const ResilientPage = await importResilientPage();
+    const dir = makeLockDir();
+    const config = (healed: string) => ({
+      a11yEnabled: false,
+      ai: { provider: 'custom' as const, customHealFn: async () => healed },
+      healingCoordinator: { dir },
+      locatorTimeout: 100,
+    });
+    await new ResilientPage(brokenPage() as any, config('#fixed')).click('#broken');
+
+    const page = createMockPage({
+      '#broken': createMockLocator({
+        waitFor: mock.fn(async () => { throw new Error('Timeout'); }),
+      }),
+      '#fixed': createMockLocator({
+        waitFor: mock.fn(async () => { throw new Error('Timeout'); }),
+      }),
+      '#other': createMockLocator(),
+    });
+    const rp = new ResilientPage(page as any, config('#other'));
+    await rp.click('#broken');
+
+    assert.equal(rp.healingEvents.length, 1);
+    assert.equal(rp.healingEvents[0].source, 'ai');
+    assert.equal(rp.healingEvents[0].healedSelector, '#other');
+  });
+
+  it('heals on its own when the coordinator is unavailable', async () => {
+    const ResilientPage = await importResilientPage();
+    const blocker = path.join(path.dirname(makeLockDir()), 'blocker');
+    fs.mkdirSync(path.dirname(blocker), { recursive: true });
+    fs.writeFileSync(blocker, '');
+    const rp = new ResilientPage(brokenPage() as any, {
+      a11yEnabled: false,
+      ai: { provider: 'custom', customHealFn: async () => '#fixed' },
+      healingCoordinator: { dir: path.join(blocker, 'locks') },
+      locatorTimeout: 100,
+    });
+
+    await rp.click('#broken');
+
+    assert.equal(rp.healingEvents[0].source, 'ai');
+  });
+
+  it('does not publish failed healings', async () => {
+    const ResilientPage = await importResilientPage();
+    const dir = makeLockDir();
+    const rp = new ResilientPage(brokenPage() as any, {
+      a11yEnabled: false,
+      ai: { provider: 'custom', customHealFn: async () => '#missing' },
+      healingCoordinator: { dir },
+      locatorTimeout: 100,
+    });
+    (rp.page.locator as any).mock.mockImplementation(() =>
+      createMockLocator({ waitFor: mock.fn(async () => { throw new Error('Timeout'); }) }));
+
+    await assert.rejects(() => rp.click('#broken'), /could not be healed/);
+
+    assert.deepEqual(fs.readdirSync(dir), []);
+  });
+});
+
+describe('ResilientPage — heuristic healing', () => {
+  const tempDirs: string[] = [];
+  afterEach(() => {
+    for (const d of tempDirs) {
+      fs.rmSync(d, { recursive: true, force: true });
+    }
+    tempDirs.length = 0;
+  });
+
+  function makeStorePath(): string {
+    const d = fs.mkdtempSync(path.join(os.tmpdir(), 'resilient-page-fp-'));
+    tempDirs.push(d);
+    return path.join(d, 'fingerprints.json');
+  }
+
+  const fingerprint = {
+    tag: 'button',
+    id: 'submit',
+    classes: ['btn'],
+    testId: null,
+    role: 'button',
+    accessibleName: 'Sign in',
+    text: 'Sign in',
+    domPath: 'body > form > button',
+    nearbyLabels: [],
+    attributes: { type: 'submit' },
+  };
+
+  it('captures a fingerprint when the original selector resolves', async () => {
+    const ResilientPage = await importResilientPage();
+    const storePath = makeStorePath();
+    const locator = createMockLocator({
+      evaluate: mock.fn(async () => [{ fingerprint, selector: '#submit' }]),
+    });
+    const page = createMockPage({ '#submit': locator });
+
+    const rp = new ResilientPage(page as any, {
+      a11yEnabled: false,
+      heuristicHealing: { path: storePath },
+    });
+    await rp.click('#submit');
+
+    const entries = JSON.parse(fs.readFileSync(storePath, 'utf-8')).entries;
+    assert.equal(entries.length, 1);
+    assert.equal(entries[0].selector, '#submit');
+    assert.deepEqual(entries[0].fingerprint, fingerprint);
+    assert.equal(locator.click.mock.callCount(), 1);
+  });
+
+  it('heals from the stored fingerprint without an AI provider', async () => {
+    const ResilientPage = await importResilientPage();
+    const storePath = makeStorePath();
+    fs.writeFileSync(storePath, JSON.stringify({
+      version: 1,
+      entries: [{
+        selector: '#submit',
+        urlPattern: 'https://example.com/',
+        fingerprint,
+        capturedAt: '2025-01-01T00:00:00.000Z',
+      }],
+    }));
+
+    const healedLocator = createMockLocator();
+    const rootLocator = createMockLocator({
+      evaluate: mock.fn(async () => [
+        { fingerprint: { ...fingerprint, id: 'login-submit' }, selector: '#login-submit' },
+      ]),
+    });
+    const page = createMockPage({
+      '#submit': createMockLocator({
+        waitFor: mock.fn(async () => { throw new Error('Timeout'); }),
+      }),
+      '#login-submit': healedLocator,
+      ':root': rootLocator,
+    });
+
+    const rp = new ResilientPage(page as any, {
+      a11yEnabled: false,
+      ai: false,
+      heuristicHealing: { path: storePath },
+      locatorTimeout: 100,
+    });
+    await rp.click('#submit');
+
+    assert.equal(healedLocator.click.mock.callCount(), 1);
+    assert.equal(rp.healingEvents.length, 1);
+    assert.equal(rp.healingEvents[0].source, 'heuristic');
+    assert.equal(rp.healingEvents[0].healedSelector, '#login-submit');
+    assert.ok(rp.healingEvents[0].confidence! > 0.8);
+  });
+
+  it('falls through to the AI when no candidate is similar enough', async () => {
+    const ResilientPage = await importResilientPage();
+    const storePath = makeStorePath();
+    fs.writeFileSync(storePath, JSON.stringify({
+      version: 1,
+      entries: [{
+        selector: '#submit',
+        urlPattern: 'https://example.com/',
+        fingerprint,
+        capturedAt: '2025-01-01T00:00:00.000Z',
+      }],
+    }));
+
+    const page = createMockPage({
+      '#submit': createMockLocator({
+        waitFor: mock.fn(async () => { throw new Error('Timeout'); }),
+      }),
+      '#ai-pick': createMockLocator(),
+      ':root': createMockLocator({ evaluate: mock.fn(async () => []) }),
+    });
+
+    const rp = new ResilientPage(page as any, {
+      a11yEnabled: false,
+      ai: { provider: 'custom', customHealFn: async () => '#ai-pick' },
+      heuristicHealing: { path: storePath },
+      locatorTimeout: 100,
+    });
+    await rp.click('#submit');
+
+    assert.equal(rp.healingEvents[0].source, 'ai');
+  });
+});
+
+describe('ResilientPage — healing for read actions', () => {
+  it('heals textContent when selector fails', async () => {
+    const ResilientPage = await importResilientPage();
+
+    const failingLocator = createMockLocator({
+      waitFor: mock.fn(async () => { throw new Error('Timeout'); }),
+    });
+    const healedLocator = createMockLocator({
+      textContent: mock.fn(async () => 'Healed text'),
+    });
+
+    const page = createMockPage({
+      '#broken': failingLocator,
+      '#fixed': healedLocator,
+    });
+
+    const rp = new ResilientPage(page as any, {
+      a11yEnabled: false,
+      ai: {
+        provider: 'custom',
+        customHealFn: async () => '#fixed',
+      },
+      locatorTimeout: 100,
+    });
+
+    const text = await rp.textContent('#broken');
+    assert.equal(text, 'Healed text');
+    assert.equal(rp.healingEvents.length, 1);
+    assert.equal(rp.healingEvents[0].action, 'textContent');
+  });
+
+  it('heals isVisible when selector fails', async () => {
+    const ResilientPage = await importResilientPage();
+
+    const failingLocator = createMockLocator({
+      waitFor: mock.fn(async () => { throw new Error('Timeout'); }),
+    });
+    const healedLocator = createMockLocator({
+      isVisible: mock.fn(async () => true),
+    });
+
+    const page = createMockPage({
+      '#broken': failingLocator,
+      '#fixed': healedLocator,
+    });
+
+    const rp = new ResilientPage(page as any, {
+      a11yEnabled: false,
+      ai: {
+        provider: 'custom',
+        customHealFn: async () => '#fixed',
+      },
+      locatorTimeout: 100,
+    });
+
+    const visible = await rp.isVisible('#broken');
+    assert.equal(visible, true);
+    assert.equal(rp.healingEvents.length, 1);
+  });
+});
+
+describe('ResilientPage — failure classification', () => {
+  it('does not heal an element that is found but disabled', async () => {
+    const ResilientPage = await importResilientPage();
+    const disabled = createMockLocator({
+      click: mock.fn(async () => {
+        throw new Error('locator.click: Timeout 30000ms exceeded.\nCall log:\n  - element is not enabled');
+      }),
+    });
+    const page = createMockPage({ '#submit': disabled });
+    const healFn = mock.fn(async () => '#other');
+
+    const rp = new ResilientPage(page as any, {
+      a11yEnabled: false,
+      ai: { provider: 'custom', customHealFn: healFn },
+    });
+
+    await assert.rejects(
+      () => rp.click('#submit'),
+      /failed to click: the element is not enabled or not editable \[not-enabled\]; healing is not enabled/,
+    );
+    assert.equal(healFn.mock.callCount(), 0);
+    assert.equal(rp.healingEvents.length, 0);
+    assert.equal(rp.selectorFailures.length, 1);
+    assert.equal(rp.selectorFailures[0].cause, 'not-enabled');
+    assert.equal(rp.selectorFailures[0].healingAttempted, false);
+    assert.equal(rp.selectorFailures[0].callSite?.file, __filename);
+  });
+
+  it('does not heal a click intercepted by an overlay', async () => {
+    const ResilientPage = await importResilientPage();
+    const covered = createMockLocator({
+      click: mock.fn(async () => {
+        throw new Error('locator.click: Timeout\n  - <div class="overlay"></div> intercepts pointer events');
+      }),
+    });
+    const page = createMockPage({ '#buy': covered });
+
+    const rp = new ResilientPage(page as any, {
+      a11yEnabled: false,
+      ai: { provider: 'custom', customHealFn: async () => '#other' },
+    });
+
+    await assert.rejects(() => rp.click('#buy'), /\[intercepted\]/);
+    assert.equal(rp.selectorFailures[0].cause, 'intercepted');
+  });
+
+  it('heals a strict mode violation by default', async () => {
+    const ResilientPage = await importResilientPage();
+    const ambiguous = createMockLocator({
+      click: mock.fn(async () => {
+        throw new Error("strict mode violation: locator('button') resolved to 2 elements");
+      }),
+    });
+    const page = createMockPage({ button: ambiguous, '#save': createMockLocator() });
+
+    const rp = new ResilientPage(page as any, {
+      a11yEnabled: false,
+      ai: { provider: 'custom', customHealFn: async () => '#save' },
+    });
+
+    await rp.click('button');
+    assert.equal(rp.healingEvents.length, 1);
+    assert.equal(rp.healingEvents[0].failureCause, 'not-unique');
+  });
+
+  it('heals the classes listed in healOn', async () => {
+    const ResilientPage = await importResilientPage();
+    const hidden = createMockLocator({
+      click: mock.fn(async () => {
+        throw new Error('locator.click: Timeout\n  - element is not visible');
+      }),
+    });
+    const page = createMockPage({ '#menu': hidden, '#menu-mobile': createMockLocator() });
+
+    const rp = new ResilientPage(page as any, {
+      a11yEnabled: false,
+      ai: { provider: 'custom', customHealFn: async () => '#menu-mobile' },
+      healOn: ['not-attached', 'not-visible'],
+    });
+
+    await rp.click('#menu');
+    assert.equal(rp.healingEvents[0].healedSelector, '#menu-mobile');
+    assert.equal(rp.healingEvents[0].failureCause, 'not-visible');
+  });
+
+  it('records the classified cause when healing fails', async () => {
+    const ResilientPage = await importResilientPage();
+    const failingLocator = createMockLocator({
+      waitFor: mock.fn(async () => { throw new Error('Timeout'); }),
+    });
+    const page = createMockPage({ '#missing': failingLocator });
+
+    const rp = new ResilientPage(page as any, { a11yEnabled: false, ai: false });
+
+    await assert.rejects(
+      () => rp.click('#missing'),
+      /failed to click: no element matched the selector \[not-attached\]; AI healing is disabled/,
+    );
+    assert.equal(rp.selectorFailures.length, 1);
+    assert.equal(rp.selectorFailures[0].cause, 'not-attached');
+    assert.equal(rp.selectorFailures[0].healingAttempted, true);
+  });
+});
+
+describe('ResilientPage — semantic locators', () => {
+  const failing = () =>
+    createMockLocator({
+      waitFor: mock.fn(async () => { throw new Error('Timeout'); }),
+      count: mock.fn(async () => 0),
+    });
+
+  it('acts on page.getByRole without healing when it resolves', async () => {
+    const ResilientPage = await importResilientPage();
+    const button = createMockLocator();
+    const page = { ...createMockPage(), getByRole: mock.fn(() => button) };
+
+    const rp = new ResilientPage(page as any, { a11yEnabled: false });
+    await rp.getByRole('button', { name: 'Save' }).click();
+
+    assert.deepEqual(page.getByRole.mock.calls[0].arguments, ['button', { name: 'Save' }]);
+    assert.equal(button.click.mock.callCount(), 1);
+  });
+
+  it('heals a drifted accessible name and tells the AI the intent', async () => {
+    const ResilientPage = await importResilientPage();
+    const healed = createMockLocator();
+    const page = {
+      ...createMockPage({ 'button:text-is("Save changes")': healed }),
+      getByRole: mock.fn(() => failing()),
+    };
+    const suggestFn = mock.fn(async () => [
+      { selector: 'button:text-is("Save changes")', confidence: 0.9, rationale: 'renamed' },
+    ]);
+
+    const rp = new ResilientPage(page as any, {
+      a11yEnabled: false,
+      ai: { provider: 'custom', customSuggestFn: suggestFn },
+    });
+    await rp.getByRole('button', { name: 'Save' }).click();
+
+    const [failed, , intent] = suggestFn.mock.calls[0].arguments as unknown[];
+    assert.equal(failed, "getByRole('button', { name: 'Save' })");
+    assert.deepEqual(intent, { method: 'getByRole', role: 'button', text: 'Save', exact: undefined });
+    assert.equal(healed.click.mock.callCount(), 1);
+    assert.equal(rp.healingEvents[0].originalSelector, "getByRole('button', { name: 'Save' })");
+    assert.equal(rp.healingEvents[0].locatorChain, undefined);
+  });
+
+  it('masks data in the failed selector and intent sent to the AI', async () => {
+    const ResilientPage = await importResilientPage();
+    const healed = createMockLocator();
+    const page = {
+      ...createMockPage({ '#contact': healed }),
+      getByText: mock.fn(() => failing()),
+    };
+    const originalFetch = globalThis.fetch;
+    const fetchMock = mock.fn(async () => ({
+      ok: true,
+      json: async () => ({
+        message: {
+          content: JSON.stringify({ candidates: [{ selector: '#contact', confidence: 0.9 }] }),
+        },
+      }),
+      text: async () => '',
+    }));
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+    try {
+      const rp = new ResilientPage(page as any, {
+        a11yEnabled: false,
+        ai: { provider: 'ollama', baseUrl: 'https://intent-redaction.test' },
+        validateSuggestions: false,
+      });
+      await rp.getByText('jane.doe@example.com').click();
+
+      const request = (fetchMock.mock.calls[0].arguments as unknown[])[1] as RequestInit;
+      const body = JSON.parse(request.body as string);
+      const prompt: string = body.messages.map((m: { content: string }) => m.content).join('\n');
+      assert.ok(prompt.includes("Failed selector: getByText('[REDACTED:email]')"));
+      assert.ok(prompt.includes('an element with text "[REDACTED:email]"'));
+      assert.ok(!prompt.includes('jane.doe'));
+      // The context's copies and the ones passed alongside it.
+      assert.equal(rp.healingEvents[0].redaction?.patterns.email, 4);
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+  });
+
+  it('serialises each getBy* method readably', async () => {
+    const ResilientPage = await importResilientPage();
+    const rp = new ResilientPage(createMockPage() as any, { a11yEnabled: false });
+
+    assert.equal(rp.getByLabel('Email', { exact: true }).description, "getByLabel('Email', { exact: true })");
+    assert.equal(rp.getByText(/sign in/i).description, 'getByText(/sign in/i)');
+    assert.equal(rp.getByPlaceholder('Search').description, "getByPlaceholder('Search')");
+    assert.equal(rp.getByTestId('save').description, "getByTestId('save')");
+    assert.equal(rp.getByAltText('Logo').description, "getByAltText('Logo')");
+    assert.equal(rp.getByTitle('Close').description, "getByTitle('Close')");
+  });
+
+  it('heals heuristically from the intent when no fingerprint is stored', async () => {
+    const ResilientPage = await importResilientPage();
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'resilient-intent-'));
+    try {
+      const healed = createMockLocator();
+      const scan = mock.fn(async () => [
+        {
+          selector: '#save',
+          fingerprint: {
+            tag: 'button', id: 'save', classes: [], testId: null, role: 'button',
+            accessibleName: 'Save changes', text: 'Save changes', domPath: 'body > button',
+            nearbyLabels: [], attributes: {},
+          },
+        },
+      ]);
+      const page = {
+        ...createMockPage({ ':root': createMockLocator({ evaluate: scan }), '#save': healed }),
+        getByRole: mock.fn(() => failing()),
+      };
+
+      const rp = new ResilientPage(page as any, {
+        a11yEnabled: false,
+        heuristicHealing: { path: path.join(dir, 'fingerprints.json') },
+      });
+      await rp.getByRole('button', { name: 'Save' }).click();
+
+      assert.equal(healed.click.mock.callCount(), 1);
+      assert.equal(rp.healingEvents[0].source, 'heuristic');
+      const scanArgs = scan.mock.calls[0].arguments[1] as Record<string, unknown>;
+      assert.equal(scanArgs.name, 'Save');
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('ResilientPage — frames', () => {
+  /** A mock FrameLocator whose document is `html`. */
+  function createMockFrame(locatorMap: Record<string, MockLocator>, html: string) {
+    const root = createMockLocator({ evaluate: mock.fn(async () => html) });
+    const frame = {
+      locator: mock.fn((selector: string) =>
+        selector === ':root' ? root : locatorMap[selector] ?? createMockLocator()),
+      frameLocator: mock.fn((): unknown => frame),
+    };
+    return frame;
+  }
+
+  it('acts on locators inside the frame', async () => {
+    const ResilientPage = await importResilientPage();
+    const button = createMockLocator();
+    const frame = createMockFrame({ '#pay': button }, '');
+    const page = { ...createMockPage(), frameLocator: mock.fn(() => frame) };
+
+    const rp = new ResilientPage(page as any, { a11yEnabled: false });
+    await rp.frame('iframe#checkout').click('#pay');
+
+    assert.deepEqual(page.frameLocator.mock.calls[0].arguments, ['iframe#checkout']);
+    assert.equal(button.click.mock.callCount(), 1);
+  });
+
+  it('heals against the frame document and records the frame path', async () => {
+    const ResilientPage = await importResilientPage();
+    const healed = createMockLocator();
+    const frame = createMockFrame(
+      {
+        '#pay': createMockLocator({
+          waitFor: mock.fn(async () => { throw new Error('Timeout'); }),
+        }),
+        '#pay-now': healed,
+      },
+      '<html><body><button id="pay-now">Pay</button></body></html>',
+    );
+    const page = { ...createMockPage(), frameLocator: mock.fn(() => frame) };
+    let capturedHtml = '';
+
+    const rp = new ResilientPage(page as any, {
+      a11yEnabled: false,
+      ai: {
+        provider: 'custom',
+        customHealFn: async (_sel, html) => {
+          capturedHtml = html;
+          return '#pay-now';
+        },
+      },
+    });
+    await rp.frame('iframe#checkout').frame('iframe.card').click('#pay');
+
+    assert.ok(capturedHtml.includes('pay-now'));
+    assert.equal(page.content.mock.callCount(), 0);
+    assert.equal(healed.click.mock.callCount(), 1);
+    assert.deepEqual(rp.healingEvents[0].framePath, ['iframe#checkout', 'iframe.card']);
+    assert.deepEqual(frame.frameLocator.mock.calls[0].arguments, ['iframe.card']);
+  });
+
+  it('names the frame when an action inside it fails', async () => {
+    const ResilientPage = await importResilientPage();
+    const frame = createMockFrame(
+      {
+        '#pay': createMockLocator({
+          waitFor: mock.fn(async () => { throw new Error('Timeout'); }),
+        }),
+      },
+      '',
+    );
+    const page = { ...createMockPage(), frameLocator: mock.fn(() => frame) };
+
+    const rp = new ResilientPage(page as any, { a11yEnabled: false });
+    await assert.rejects(
+      () => rp.frame('iframe#checkout').click('#pay'),
+      /Selector "#pay" in frame iframe#checkout failed to click/,
+    );
+    assert.deepEqual(rp.selectorFailures[0].framePath, ['iframe#checkout']);
+  });
+});
+
+describe('ResilientPage — a11y scan options', () => {
+  function scanningPage(config: Record<string, unknown> = {}) {
+    const scan = mock.fn(async () => []);
+    const locator = createMockLocator();
+    const page = createMockPage({ '#btn': locator });
+    return { scan, locator, page, config: { a11yScanner: { scan }, ...config } };
+  }
+
+  it('scans with the configured a11yOptions', async () => {
+    const ResilientPage = await importResilientPage();
+    const { scan, page, config } = scanningPage({ a11yOptions: { tags: ['wcag2aa'] } });
+
+    const rp = new ResilientPage(page as any, config);
+    await rp.click('#btn');
+
+    assert.deepEqual(scan.mock.calls[0].arguments[1], { tags: ['wcag2aa'] });
+  });
+
+  it('overrides the options for one action, without passing them to the driver', async () => {
+    const ResilientPage = await importResilientPage();
+    const { scan, locator, page, config } = scanningPage({
+      a11yOptions: { tags: ['wcag2aa'], exclude: ['#chat'] },
+    });
+
+    const rp = new ResilientPage(page as any, config);
+    await rp.click('#btn', { force: true, a11y: { exclude: ['#modal'] } });
+    await rp.click('#btn');
+
+    assert.deepEqual(locator.click.mock.calls[0].arguments[0], { force: true });
+    assert.deepEqual(scan.mock.calls[0].arguments[1], { tags: ['wcag2aa'], exclude: ['#modal'] });
+    assert.deepEqual(scan.mock.calls[1].arguments[1], { tags: ['wcag2aa'], exclude: ['#chat'] });
+  });
+
+  it('skips the scan of an action given a11y: false', async () => {
+    const ResilientPage = await importResilientPage();
+    const { scan, locator, page, config } = scanningPage();
+
+    const rp = new ResilientPage(page as any, config);
+    await rp.locator('#btn').fill('hello', { a11y: false });
+    await rp.goto('https://example.com', { waitUntil: 'load', a11y: false });
+
+    assert.equal(locator.fill.mock.callCount(), 1);
+    assert.deepEqual(page.goto.mock.calls[0].arguments[1], { waitUntil: 'load' });
+    assert.equal(scan.mock.callCount(), 0);
+  });
+
+  it('uses the options set by setA11yOptions for later scans', async () => {
+    const ResilientPage = await importResilientPage();
+    const { scan, page, config } = scanningPage({
+      a11yOptions: { tags: ['wcag2aa'], severities: ['critical'] },
+    });
+
+    const rp = new ResilientPage(page as any, config);
+    rp.setA11yOptions({ severities: ['critical', 'serious', 'moderate'] });
+    await rp.goto('https://example.com');
+
+    assert.deepEqual(scan.mock.calls[0].arguments[1], {
+      tags: ['wcag2aa'],
+      severities: ['critical', 'serious', 'moderate'],
+    });
+  });
+});
+
 describe('ResilientPage — edge cases', () => {
   it('handles selector that is empty string', async () => {
     const ResilientPage = await importResilientPage();
@@ -0,0 +1,83 @@
+import { describe, it, mock, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { captureScreenshot, createScreenshotStore } from '../../src/screenshots.ts';
+
+describe('captureScreenshot', () => {
+  it('takes a CSS-scale JPEG screenshot', async () => {
+    const screenshot = mock.fn(async () => Buffer.alloc(100));
+    const image = await captureScreenshot({ screenshot }, 1234);
+
+    assert.equal(image?.length, 100);
+    assert.deepEqual(screenshot.mock.calls[0].arguments, [
+      { type: 'jpeg', quality: 80, scale: 'css', animations: 'disabled', timeout: 1234 },
+    ]);
+  });
+
+  it('lowers the quality until the screenshot fits', async () => {
+    const screenshot = mock.fn(async (options: { quality: number }) =>
+      Buffer.alloc(options.quality * 10),
+    );
+    const image = await captureScreenshot({ screenshot }, 1000, 500);
+
+    assert.equal(image?.length, 400);
+    assert.deepEqual(
+      screenshot.mock.calls.map((call) => call.arguments[0].quality),
+      [80, 60, 40],
+    );
+  });
+
+  it('returns undefined if no quality fits', async () => {
+    const screenshot = mock.fn(async () => Buffer.alloc(1000));
+    assert.equal(await captureScreenshot({ screenshot }, 1000, 10), undefined);
+    assert.equal(screenshot.mock.callCount(), 4);
+  });
+
+  it('returns undefined if the driver cannot take screenshots', async () => {
+    assert.equal(await captureScreenshot({}, 1000), undefined);
+  });
+
+  it('returns undefined if taking the screenshot fails', async () => {
+    const screenshot = mock.fn(async () => {
+      throw new Error('Timeout 1000ms exceeded');
+    });
+    assert.equal(await captureScreenshot({ screenshot }, 1000), undefined);
+  });
+});
+
+describe('createScreenshotStore', () => {
+  const tempDirs: string[] = [];
+  afterEach(() => {
+    for (const d of tempDirs) fs.rmSync(d, { recursive: true, force: true });
+    tempDirs.length = 0;
+  });
+
+  function makeDir(): string {
+    const d = fs.mkdtempSync(path.join(os.tmpdir(), 'resilient-shots-'));
+    tempDirs.push(d);
+    return path.join(d, 'element-screenshots');
+  }
+
+  const key = { selector: '#save', urlPattern: 'https://example.com/settings' };
+
+  it('returns undefined for unknown keys', () => {
+    assert.equal(createScreenshotStore(makeDir()).get(key), undefined);
+  });
+
+  it('saves and reloads screenshots, one file per key', () => {
+    const dir = makeDir();
+    const store = createScreenshotStore(dir);
+    store.save(key, Buffer.from('first'));
+    store.save(key, Buffer.from('second'));
+    store.save({ ...key, selector: '#cancel' }, Buffer.from('other'));
+
+    assert.equal(createScreenshotStore(dir).get(key)?.toString(), 'second');
+    assert.equal(store.get({ ...key, selector: '#cancel' })?.toString(), 'other');
+    assert.deepEqual(
+      fs.readdirSync(dir).map((name) => /^[0-9a-f]{16}\.jpg$/.test(name)),
+      [true, true],
+    );
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  InvalidSelectorError,
+  findSelectorError,
+  normalizeSelector,
+} from '../../src/selector-normalizer.ts';
+
+describe('normalizeSelector — stripping', () => {
+  it('returns clean selectors unchanged', () => {
+    assert.equal(normalizeSelector('button.submit'), 'button.submit');
+    assert.equal(normalizeSelector('[data-testid="login"]'), '[data-testid="login"]');
+  });
+
+  it('unwraps markdown code fences', () => {
+    assert.equal(normalizeSelector('```css\n#login\n```'), '#login');
+    assert.equal(normalizeSelector('Here you go:\n```\nform > button\n```\nHope it helps!'), 'form > button');
+  });
+
+  it('strips quotes and inline code around the selector', () => {
+    assert.equal(normalizeSelector('"#login"'), '#login');
+    assert.equal(normalizeSelector("'[name=\"q\"]'"), '[name="q"]');
+    assert.equal(normalizeSelector('`button.primary`.'), 'button.primary');
+  });
+
+  it('strips prose lead-ins, list markers and trailing punctuation', () => {
+    assert.equal(normalizeSelector('Try: #login'), '#login');
+    assert.equal(normalizeSelector('The best selector is: `#login`'), '#login');
+    assert.equal(normalizeSelector('1. #login'), '#login');
+    assert.equal(normalizeSelector('#login.'), '#login');
+  });
+
+  it('skips prose lines before the selector', () => {
+    assert.equal(normalizeSelector('Sure\n#login'), '#login');
+    assert.equal(normalizeSelector("Here's the selector:\n\n#login"), '#login');
+  });
+
+  it('keeps pseudo-classes, which have no space after the colon', () => {
+    assert.equal(normalizeSelector('button:has-text("Save")'), 'button:has-text("Save")');
+  });
+
+  it('converts locator calls into selectors', () => {
+    assert.equal(normalizeSelector("await page.locator('[data-x=\"a\"]')"), '[data-x="a"]');
+    assert.equal(
+      normalizeSelector("page.getByRole('button', { name: 'Save' })"),
+      'role=button[name="Save"]',
+    );
+    assert.equal(normalizeSelector("getByRole('dialog')"), 'role=dialog');
+    assert.equal(normalizeSelector('page.getByText("Log in")'), 'text=Log in');
+    assert.equal(normalizeSelector("getByTestId('submit')"), 'data-testid=submit');
+  });
+});
+
+describe('normalizeSelector — Playwright engines', () => {
+  it('accepts engine selectors and chains', () => {
+    for (const selector of [
+      'text=Log in',
+      'text="Log in"',
+      'role=button[name="Save"]',
+      'xpath=//div[@id="a"]',
+      '//div[@id="a"]',
+      'data-testid=submit',
+      '#form >> text="Go"',
+      'css=form >> nth=1',
+    ]) {
+      assert.equal(normalizeSelector(selector), selector);
+    }
+  });
+
+  it('does not split chains on ">>" inside quotes', () => {
+    assert.equal(findSelectorError('text="a >> b"'), undefined);
+  });
+});
+
+describe('normalizeSelector — rejection', () => {
+  it('throws InvalidSelectorError with the raw response', () => {
+    const raw = 'I could not find a matching element.';
+    assert.throws(
+      () => normalizeSelector(raw),
+      (err: unknown) => {
+        assert.ok(err instanceof InvalidSelectorError);
+        assert.equal(err.rawResponse, raw);
+        assert.match(err.message, /^AI returned an invalid selector: /);
+        return true;
+      },
+    );
+  });
+
+  it('rejects unbalanced brackets and quotes', () => {
+    assert.match(findSelectorError('#a[')!, /unclosed "\["/);
+    assert.match(findSelectorError('div)')!, /unbalanced "\)"/);
+    assert.match(findSelectorError('[name="q]')!, /unterminated string/);
+  });
+
+  it('rejects dangling combinators and stray characters', () => {
+    assert.match(findSelectorError('div >')!, /dangling combinator/);
+    assert.match(findSelectorError('#a { color: red }')!, /unexpected "\{"/);
+    assert.match(findSelectorError('/html/body')!, /unexpected "\/"/);
+  });
+
+  it('rejects prose but not type selectors', () => {
+    assert.match(findSelectorError('the submit button')!, /is prose/);
+    assert.match(findSelectorError('Sure')!, /is prose/);
+    assert.equal(findSelectorError('form button'), undefined);
+    assert.equal(findSelectorError('my-widget span'), undefined);
+  });
+
+  it('rejects empty engine selectors and malformed roles', () => {
+    assert.match(findSelectorError('text=')!, /empty text= selector/);
+    assert.match(findSelectorError('role=button name')!, /invalid role selector/);
+    assert.match(findSelectorError('#a >> ')!, /empty selector/);
+  });
+
+  it('rejects empty responses', () => {
+    assert.throws(() => normalizeSelector('  \n '), /empty response/);
+  });
+});
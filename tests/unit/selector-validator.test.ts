@@ -0,0 +1,156 @@
+import { describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  isOverlyGeneric,
+  compareFingerprints,
+  validateSuggestion,
+} from '../../src/selector-validator.ts';
+import type { ElementFingerprint } from '../../src/types.ts';
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function makeFingerprint(overrides: Partial<ElementFingerprint> = {}): ElementFingerprint {
+  return {
+    tag: 'button',
+    id: 'save',
+    classes: [],
+    testId: null,
+    role: 'button',
+    accessibleName: 'Save',
+    text: 'Save',
+    domPath: 'body > form > button',
+    nearbyLabels: [],
+    attributes: {},
+    ...overrides,
+  };
+}
+
+function makePage(count: () => Promise<number>, fingerprint?: ElementFingerprint) {
+  const locator = {
+    count: mock.fn(count),
+    first: () => locator,
+    evaluate: mock.fn(async () => (fingerprint ? [{ fingerprint, selector: '#x' }] : [])),
+  };
+  return { locator: mock.fn(() => locator), loc: locator };
+}
+
+// ---------------------------------------------------------------------------
+// isOverlyGeneric
+// ---------------------------------------------------------------------------
+
+describe('isOverlyGeneric', () => {
+  for (const selector of ['', '*', 'button', 'div > span', 'body *:first-child', 'html body div:nth-of-type(2)']) {
+    it(`rejects "${selector}"`, () => {
+      assert.equal(isOverlyGeneric(selector), true);
+    });
+  }
+
+  for (const selector of [
+    '#login',
+    'button.primary',
+    '[data-testid="save"]',
+    'text=Sign in',
+    'role=button[name="Save"]',
+    'button:has-text("Save")',
+    'form >> text=Submit',
+    'body #main > button',
+  ]) {
+    it(`accepts "${selector}"`, () => {
+      assert.equal(isOverlyGeneric(selector), false);
+    });
+  }
+});
+
+// ---------------------------------------------------------------------------
+// compareFingerprints
+// ---------------------------------------------------------------------------
+
+describe('compareFingerprints', () => {
+  it('accepts matching elements even if the name drifted', () => {
+    const result = compareFingerprints(
+      makeFingerprint(),
+      makeFingerprint({ accessibleName: 'Save changes' }),
+    );
+    assert.deepEqual(result, { valid: true });
+  });
+
+  it('accepts a different tag with the same role', () => {
+    const result = compareFingerprints(
+      makeFingerprint(),
+      makeFingerprint({ tag: 'input' }),
+    );
+    assert.equal(result.valid, true);
+  });
+
+  it('rejects a role mismatch', () => {
+    const result = compareFingerprints(makeFingerprint(), makeFingerprint({ tag: 'a', role: 'link' }));
+    assert.equal(result.valid, false);
+    assert.equal(!result.valid && result.reason, 'role-mismatch');
+  });
+
+  it('rejects a tag mismatch when roles are unknown', () => {
+    const result = compareFingerprints(
+      makeFingerprint({ tag: 'span', role: null }),
+      makeFingerprint({ tag: 'div', role: null }),
+    );
+    assert.equal(!result.valid && result.reason, 'tag-mismatch');
+  });
+
+  it('rejects an unrelated accessible name', () => {
+    const result = compareFingerprints(
+      makeFingerprint(),
+      makeFingerprint({ accessibleName: 'Delete account' }),
+    );
+    assert.equal(!result.valid && result.reason, 'name-mismatch');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// validateSuggestion
+// ---------------------------------------------------------------------------
+
+describe('validateSuggestion', () => {
+  it('rejects overly generic selectors without touching the page', async () => {
+    const page = makePage(async () => 1);
+    const result = await validateSuggestion(page as any, 'body *:first-child');
+
+    assert.equal(!result.valid && result.reason, 'too-generic');
+    assert.equal(page.locator.mock.callCount(), 0);
+  });
+
+  it('rejects selectors that fail to parse', async () => {
+    const page = makePage(async () => {
+      throw new Error('Unexpected token "]" while parsing selector "#a]"\nmore');
+    });
+    const result = await validateSuggestion(page as any, '#a]');
+
+    assert.equal(!result.valid && result.reason, 'unparseable');
+    assert.equal(!result.valid && result.detail, 'Unexpected token "]" while parsing selector "#a]"');
+  });
+
+  it('rejects selectors matching nothing', async () => {
+    const result = await validateSuggestion(makePage(async () => 0) as any, '#gone');
+    assert.equal(!result.valid && result.reason, 'no-match');
+  });
+
+  it('rejects selectors matching several elements', async () => {
+    const result = await validateSuggestion(makePage(async () => 3) as any, '.btn');
+    assert.equal(!result.valid && result.reason, 'ambiguous');
+    assert.equal(!result.valid && result.detail, 'selector matches 3 elements');
+  });
+
+  it('accepts a unique, specific selector', async () => {
+    const result = await validateSuggestion(makePage(async () => 1) as any, '#save');
+    assert.deepEqual(result, { valid: true });
+  });
+
+  it('checks the resolved element against a known fingerprint', async () => {
+    const page = makePage(async () => 1, makeFingerprint({ tag: 'a', role: 'link', accessibleName: 'Home' }));
+    const result = await validateSuggestion(page as any, '#home', makeFingerprint());
+
+    assert.equal(!result.valid && result.reason, 'role-mismatch');
+    assert.equal(page.loc.evaluate.mock.callCount(), 1);
+  });
+});
@@ -0,0 +1,248 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildSnapshot, estimateTokens, trimAriaSnapshot } from '../../src/snapshot-builder.ts';
+import type { ElementFingerprint } from '../../src/types.ts';
+
+const LOGIN_PAGE = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <title>Log in</title>
+  <meta charset="utf-8">
+  <link rel="stylesheet" href="/app.css">
+  <script>window.config = { html: "<div>not markup</div>" };</script>
+  <style>.btn { color: red; }</style>
+</head>
+<body class="page">
+  <!-- build 1234 -->
+  <header class="top"><nav><a href="/">Home</a> <a href="/help">Help</a></nav></header>
+  <main>
+    <form id="login" action="/session" method="post" onsubmit="track()">
+      <label for="email">Email</label>
+      <input id="email" name="email" type="email" style="width: 100%" data-track="email">
+      <input type="hidden" name="csrf" value="secret">
+      <button type="submit" class="btn btn-primary" data-testid="login-submit">Log in</button>
+    </form>
+  </main>
+</body>
+</html>`;
+
+/** A page with a long list; row 150's delete button is the element being healed. */
+function listPage(rows = 200): string {
+  const items = Array.from(
+    { length: rows },
+    (_, i) =>
+      `<li class="row"><span>Row ${i}</span>` +
+      `<button class="delete" data-testid="delete-${i}">Delete</button></li>`,
+  );
+  const links = Array.from({ length: 40 }, (_, i) => `<a href="/page/${i}">Page ${i}</a>`);
+  return `<body><nav>${links.join('')}</nav><ul class="rows">${items.join('')}</ul></body>`;
+}
+
+function makeFingerprint(overrides: Partial<ElementFingerprint> = {}): ElementFingerprint {
+  return {
+    tag: 'button',
+    id: null,
+    classes: [],
+    testId: null,
+    role: 'button',
+    accessibleName: '',
+    text: '',
+    domPath: 'body > ul > li > button',
+    nearbyLabels: [],
+    attributes: {},
+    ...overrides,
+  };
+}
+
+describe('buildSnapshot — stripping', () => {
+  it('passes small fragments through unchanged', () => {
+    assert.equal(buildSnapshot('<div>hello</div>'), '<div>hello</div>');
+    assert.equal(buildSnapshot('<button id="save">Save</button>'), '<button id="save">Save</button>');
+  });
+
+  it('removes the head, scripts, styles and comments', () => {
+    const snapshot = buildSnapshot(LOGIN_PAGE);
+    for (const removed of ['<head>', '<title', '<script', 'window.config', '<style', '.btn {', 'build 1234']) {
+      assert.ok(!snapshot.includes(removed), `expected "${removed}" to be removed`);
+    }
+    assert.ok(snapshot.startsWith('<html><body class="page">'));
+  });
+
+  it('keeps identifying attributes and drops the rest', () => {
+    const snapshot = buildSnapshot(LOGIN_PAGE);
+    assert.ok(snapshot.includes('<form id="login" action="/session" method="post">'));
+    assert.ok(snapshot.includes('<input id="email" name="email" type="email">'));
+    assert.ok(
+      snapshot.includes(
+        '<button type="submit" class="btn btn-primary" data-testid="login-submit">Log in</button>',
+      ),
+    );
+    assert.ok(!snapshot.includes('onsubmit'));
+    assert.ok(!snapshot.includes('style='));
+    assert.ok(!snapshot.includes('data-track'));
+  });
+
+  it('removes hidden elements', () => {
+    const snapshot = buildSnapshot(
+      '<div><p hidden>a</p><p aria-hidden="true">b</p><p style="display: none">c</p>' +
+        '<p style="visibility:hidden">d</p><input type="hidden" name="csrf"><p>shown</p></div>',
+    );
+    assert.equal(snapshot, '<div><p>shown</p></div>');
+  });
+
+  it('keeps SVG elements but not their paths', () => {
+    const snapshot = buildSnapshot(
+      '<button aria-label="Close"><svg class="icon" viewBox="0 0 24 24"><path d="M6 6L18 18"/></svg></button>',
+    );
+    assert.equal(snapshot, '<button aria-label="Close"><svg class="icon"></svg></button>');
+  });
+
+  it('keeps open shadow roots', () => {
+    const snapshot = buildSnapshot(
+      '<my-card><template shadowrootmode="open"><button>Buy</button></template></my-card>' +
+        '<template><p>inert</p></template>',
+    );
+    assert.equal(
+      snapshot,
+      '<my-card><template shadowrootmode="open"><button>Buy</button></template></my-card>',
+    );
+  });
+
+  it('drops empty wrappers and collapses whitespace', () => {
+    const snapshot = buildSnapshot('<div>\n  <div>\n    <span></span>\n  </div>\n  <p>  Hello\n   world </p>\n</div>');
+    assert.equal(snapshot, '<div><p> Hello world </p></div>');
+  });
+
+  it('truncates long text and attribute values', () => {
+    const snapshot = buildSnapshot(`<p title="${'t'.repeat(200)}">${'word '.repeat(100)}</p>`);
+    const title = /title="([^"]*)"/.exec(snapshot)![1];
+    assert.equal(title.length, 80);
+    assert.ok(title.endsWith('…'));
+    assert.ok(snapshot.length < 250);
+  });
+
+  it('tolerates unclosed and implicitly closed elements', () => {
+    assert.equal(
+      buildSnapshot('<ul><li>One<li>Two</ul><p>Para<div>Block</div>'),
+      '<ul><li>One</li><li>Two</li></ul><p>Para</p><div>Block</div>',
+    );
+  });
+});
+
+describe('buildSnapshot — token budget', () => {
+  it('estimates four characters per token', () => {
+    assert.equal(estimateTokens(''), 0);
+    assert.equal(estimateTokens('abcd'), 1);
+    assert.equal(estimateTokens('abcde'), 2);
+  });
+
+  it('fits the snapshot in maxTokens', () => {
+    for (const maxTokens of [100, 400, 1000]) {
+      const snapshot = buildSnapshot(listPage(), { maxTokens });
+      assert.ok(
+        estimateTokens(snapshot) <= maxTokens,
+        `${estimateTokens(snapshot)} tokens exceeds ${maxTokens}`,
+      );
+    }
+  });
+
+  it('replaces runs of omitted elements with one marker', () => {
+    const snapshot = buildSnapshot(listPage(), { maxTokens: 400 });
+    assert.match(snapshot, /<!-- \d+ elements omitted -->/);
+    assert.ok(!/omitted --><!--/.test(snapshot), 'adjacent markers should be merged');
+    assert.ok(snapshot.includes('<ul class="rows">'));
+  });
+
+  it('omits non-interactive content before interactive elements', () => {
+    const prose = Array.from({ length: 100 }, (_, i) => `<p>Paragraph ${i} of terms.</p>`).join('');
+    const snapshot = buildSnapshot(
+      `<body><article>${prose}</article><form><button id="accept">Accept</button></form></body>`,
+      { maxTokens: 100 },
+    );
+    assert.ok(snapshot.includes('<button id="accept">Accept</button>'));
+    assert.ok(snapshot.includes('elements omitted'));
+  });
+
+  it('leaves a snapshot that already fits unchanged when rebuilt', () => {
+    const snapshot = buildSnapshot(listPage(), { maxTokens: 400 });
+    assert.equal(buildSnapshot(snapshot, { maxTokens: 400 }), snapshot);
+  });
+
+  it('hard-truncates as a last resort', () => {
+    // Text outside any element cannot be omitted.
+    const snapshot = buildSnapshot('x'.repeat(200), { maxTokens: 10 });
+    assert.equal(snapshot, `${'x'.repeat(40)}\n<!-- ... truncated ... -->`);
+  });
+});
+
+describe('buildSnapshot — focus', () => {
+  it('keeps the region matching the failed selector', () => {
+    const snapshot = buildSnapshot(listPage(), {
+      maxTokens: 300,
+      focus: { selector: '[data-testid="delete-150"]' },
+    });
+    assert.ok(snapshot.includes('data-testid="delete-150"'));
+    assert.ok(snapshot.includes('<span>Row 150</span>'));
+    assert.ok(estimateTokens(snapshot) <= 300);
+  });
+
+  it('keeps the region matching the stored fingerprint', () => {
+    const fingerprint = makeFingerprint({
+      testId: 'delete-120',
+      classes: ['delete'],
+      text: 'Delete',
+      accessibleName: 'Delete',
+    });
+    const snapshot = buildSnapshot(listPage(), {
+      maxTokens: 300,
+      focus: { selector: '#remove-row', fingerprint },
+    });
+    assert.ok(snapshot.includes('data-testid="delete-120"'));
+  });
+
+  it('keeps neighbours of a renamed element', () => {
+    // The id changed, but its label and surrounding form are still there.
+    const filler = Array.from({ length: 100 }, (_, i) => `<section><h2>Section ${i}</h2></section>`);
+    const html =
+      `<body>${filler.slice(0, 50).join('')}` +
+      '<form id="billing"><label for="card-no">Card number</label><input id="card-no" name="card"></form>' +
+      `${filler.slice(50).join('')}</body>`;
+    const snapshot = buildSnapshot(html, {
+      maxTokens: 150,
+      focus: {
+        selector: '#card-number',
+        fingerprint: makeFingerprint({
+          tag: 'input',
+          id: 'card-number',
+          nearbyLabels: ['Card number'],
+          domPath: 'body > form > input',
+        }),
+      },
+    });
+    assert.ok(snapshot.includes('<label for="card-no">Card number</label>'));
+    assert.ok(snapshot.includes('<input id="card-no" name="card">'));
+  });
+
+  it('without focus, keeps the start of a long list', () => {
+    const snapshot = buildSnapshot(listPage(), { maxTokens: 300 });
+    assert.ok(!snapshot.includes('data-testid="delete-150"'));
+  });
+});
+
+describe('trimAriaSnapshot', () => {
+  const yaml = Array.from({ length: 100 }, (_, i) => `- listitem: Row ${i}`).join('\n');
+
+  it('returns snapshots within budget unchanged', () => {
+    assert.equal(trimAriaSnapshot(yaml), yaml);
+  });
+
+  it('keeps whole lines from the top and counts the rest', () => {
+    const trimmed = trimAriaSnapshot(yaml, 50);
+    const lines = trimmed.split('\n');
+    assert.equal(lines[0], '- listitem: Row 0');
+    assert.match(lines[lines.length - 1], /^# \.\.\. \d+ more lines truncated$/);
+    const kept = lines.length - 1;
+    assert.equal(lines[lines.length - 1], `# ... ${100 - kept} more lines truncated`);
+    assert.ok(lines.slice(0, -1).every((line) => /^- listitem: Row \d+$/.test(line)));
+  });
+});
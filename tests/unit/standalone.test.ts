@@ -0,0 +1,110 @@
+import { describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { createResilientPage } from '../../src/standalone.ts';
+import type { A11yScanner, PageLike } from '../../src/types.ts';
+
+/**
+ * A tiny in-memory driver: a document of elements keyed by CSS id, with
+ * just enough of `PageLike` for the engine to click them.
+ */
+function createFakeDriver(ids: string[]) {
+  const clicks: string[] = [];
+  const locator = (selector: string) => {
+    const found = ids.includes(selector.replace(/^#/, ''));
+    return {
+      waitFor: async () => {
+        if (!found) throw new Error(`Timeout 100ms exceeded waiting for ${selector}`);
+      },
+      click: async () => {
+        clicks.push(selector);
+      },
+      evaluate: async () => undefined,
+      count: async () => (found ? 1 : 0),
+    };
+  };
+  const page = {
+    locator,
+    url: () => 'memory://app',
+    content: async () => `<html><body>${ids.map((id) => `<button id="${id}"></button>`).join('')}</body></html>`,
+    goto: async () => undefined,
+  };
+  return { page: page as unknown as PageLike, clicks };
+}
+
+const noViolations: A11yScanner = { scan: async () => [] };
+
+describe('createResilientPage', () => {
+  it('heals on a non-Playwright driver', async () => {
+    const { page, clicks } = createFakeDriver(['pay-now']);
+    const resilientPage = createResilientPage(page, {
+      a11yScanner: noViolations,
+      ai: { provider: 'custom', customHealFn: async () => '#pay-now' },
+    });
+
+    await resilientPage.click('#pay');
+
+    assert.deepEqual(clicks, ['#pay-now']);
+    assert.equal(resilientPage.healingEvents[0].healedSelector, '#pay-now');
+    assert.equal(resilientPage.page, page);
+  });
+
+  it('runs the configured a11y scanner after actions', async () => {
+    const { page } = createFakeDriver(['submit']);
+    const scan = mock.fn(async () => [
+      {
+        ruleId: 'button-name',
+        severity: 'critical' as const,
+        description: 'Buttons must have discernible text',
+        affectedNodes: ['#submit'],
+      },
+    ]);
+    const resilientPage = createResilientPage(page, { a11yScanner: { scan } });
+
+    await resilientPage.click('#submit');
+
+    assert.equal(scan.mock.callCount(), 1);
+    assert.equal(resilientPage.a11yViolations[0].url, 'memory://app');
+    assert.equal(resilientPage.a11yViolations[0].triggeringAction, 'click');
+  });
+});
+
+describe('ResilientPage — report lifecycle', () => {
+  it('writes the report and starts a new period', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'resilient-standalone-'));
+    try {
+      const { page } = createFakeDriver(['pay-now']);
+      const resilientPage = createResilientPage(page, {
+        a11yScanner: noViolations,
+        ai: {
+          provider: 'custom',
+          customHealFn: async (selector) => (selector === '#pay' ? '#pay-now' : '#gone'),
+        },
+        reporterMode: 'json',
+        reportDir: dir,
+      });
+
+      await resilientPage.click('#pay');
+      const first = resilientPage.report('run 1');
+
+      assert.equal(first.testName, 'run 1');
+      assert.equal(first.passed, true);
+      assert.equal(first.healingCount, 1);
+      assert.equal(first.aiUsage.calls, 1);
+      assert.equal(fs.readdirSync(dir).length, 1);
+      assert.deepEqual(resilientPage.healingEvents, []);
+      assert.deepEqual(resilientPage.aiCalls, []);
+
+      await assert.rejects(() => resilientPage.click('#missing'));
+      const second = resilientPage.report('run 2', false);
+
+      assert.equal(second.passed, false);
+      assert.equal(second.healingCount, 0);
+      assert.equal(second.failureCount, 1);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -36,6 +36,10 @@ describe('DEFAULT_CONFIG', () => {
     assert.equal(DEFAULT_CONFIG.a11yEnabled, true);
   });
 
+  it('has no a11yOptions narrowing the scans', () => {
+    assert.deepEqual(DEFAULT_CONFIG.a11yOptions, {});
+  });
+
   it('has locatorTimeout of 5000ms', () => {
     assert.equal(DEFAULT_CONFIG.locatorTimeout, 5000);
   });
@@ -51,6 +55,31 @@ describe('DEFAULT_CONFIG', () => {
   it('has reportDir set to ./reports', () => {
     assert.equal(DEFAULT_CONFIG.reportDir, './reports');
   });
+
+  it('has healingCache disabled', () => {
+    assert.equal(DEFAULT_CONFIG.healingCache, false);
+  });
+
+  it('has healingMode set to auto with no per-selector overrides', () => {
+    assert.equal(DEFAULT_CONFIG.healingMode, 'auto');
+    assert.deepEqual(DEFAULT_CONFIG.selectorHealingModes, {});
+  });
+
+  it('heals only selector-resolution failures by default', () => {
+    assert.deepEqual(DEFAULT_CONFIG.healOn, ['not-attached', 'not-unique']);
+  });
+
+  it('has heuristicHealing disabled', () => {
+    assert.equal(DEFAULT_CONFIG.heuristicHealing, false);
+  });
+
+  it('has healingCoordinator disabled', () => {
+    assert.equal(DEFAULT_CONFIG.healingCoordinator, false);
+  });
+
+  it('has redaction enabled with the built-in rules', () => {
+    assert.deepEqual(DEFAULT_CONFIG.redaction, {});
+  });
 });
 
 describe('A11ySeverity type coverage', () => {